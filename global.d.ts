@@ -3,7 +3,7 @@ export {};
 declare global {
   namespace NodeJS {
     interface ProcessEnv {
-      DATABASE_TYPE: 'sqlite' | 'postgres';
+      DATABASE_TYPE: 'prisma' | 'sqlite' | 'postgres' | 'mysql';
       DATABASE_URL: string;
       GEMINI_API_KEY: string;
     }
@@ -31,6 +31,7 @@ declare global {
       solution?: string;
       error?: string;
       attempts: number;
+      provider?: string;
     }
 
     // Email verification interfaces
@@ -7,6 +7,29 @@ const parseCommaSeparated = (str: string | undefined): string[] => {
   return str.split(',').map(item => item.trim()).filter(Boolean);
 };
 
+// Helper function to parse "email:password" pairs separated by commas.
+// Only the first colon splits, so passwords may contain colons.
+const parseAccounts = (str: string | undefined): Array<{ email: string; password: string }> => {
+  return parseCommaSeparated(str)
+    .filter(item => item.includes(':'))
+    .map(item => {
+      const separator = item.indexOf(':');
+      return { email: item.slice(0, separator).trim(), password: item.slice(separator + 1) };
+    });
+};
+
+// Helper function to parse "key=value" pairs separated by commas
+const parseKeyValuePairs = (str: string | undefined): Record<string, string> => {
+  return Object.fromEntries(
+    parseCommaSeparated(str)
+      .filter(item => item.includes('='))
+      .map(item => {
+        const separator = item.indexOf('=');
+        return [item.slice(0, separator).trim(), item.slice(separator + 1).trim()];
+      })
+  );
+};
+
 // Don't add NODE_ENV into T3 Env, it changes the tree-shaking behavior
 export const Env = createEnv({
   /**
@@ -24,24 +47,87 @@ export const Env = createEnv({
     GEMINI_API_KEY: z.string().optional(),
     SAD_CAPTCHA_API_KEY: z.string(),
     CHAPTCHA_RESOLVE_MODE: z.enum(['manual', 'api']).default('manual'),
+    CAPTCHA_SOLVERS: z.string().optional().transform(parseCommaSeparated),
+    SAD_CAPTCHA_ENDPOINT: z.string().default('shapes'),
+    CAPTCHA_CONSOLE_HOST: z.string().default('127.0.0.1'),
+    CAPTCHA_CONSOLE_PORT: z.string().default('9339').transform(val => parseInt(val, 10)),
+    CAPTCHA_CONSOLE_TOKEN: z.string().optional(),
     
     // Database URLs
+    DATABASE_TYPE: z.enum(['prisma', 'sqlite', 'postgres', 'mysql']).default('prisma'),
     DATABASE_POSTGRES_URL: z.string().min(1),
     DATABASE_SQLITE_URL: z.string().min(1),
     DATABASE_MYSQL_URL: z.string().min(1),    
     // TikTok Credentials
     TIKTOK_EMAIL: z.string(),
     TIKTOK_PASSWORD: z.string(),
+    TIKTOK_ACCOUNTS: z.string().optional().transform(parseAccounts),
+    // Session Vault
+    SESSION_VAULT_KEY: z.string().optional(),
+    SESSION_VAULT_TTL_HOURS: z.string().default('168').transform(val => parseInt(val, 10)),
+
+    // Verification Codes
+    VERIFICATION_PROVIDER: z.enum(['http', 'imap', 'manual']).default('http'),
+    VERIFICATION_PROVIDERS: z.string().optional().transform(parseKeyValuePairs),
+    VERIFICATION_CODE_TIMEOUT_SECONDS: z.string().default('120').transform(val => parseInt(val, 10)),
+    VERIFICATION_CODE_FILE: z.string().optional(),
+    IMAP_HOST: z.string().optional(),
+    IMAP_PORT: z.string().default('993').transform(val => parseInt(val, 10)),
+    IMAP_SECURE: z.string().default('true').transform(val => val.toLowerCase() === 'true'),
+    IMAP_USER: z.string().optional(),
+    IMAP_PASSWORD: z.string().optional(),
+    IMAP_MAILBOX: z.string().default('INBOX'),
     // Crawler Settings
     CRAWLER_MAX_WAIT_TIME: z.string().transform(val => parseInt(val, 10)),
     CRAWLER_CAPTCHA_TIMEOUT: z.string().transform(val => parseInt(val, 10)),
     CRAWLER_MAX_CAPTCHA_ATTEMPTS: z.string().transform(val => parseInt(val, 10)),
     CRAWLER_HUMAN_DELAY_MIN: z.string().transform(val => parseInt(val, 10)),
     CRAWLER_HUMAN_DELAY_MAX: z.string().transform(val => parseInt(val, 10)),
+    CRAWLER_COLLECTION_MODE: z.enum(['scroll', 'api']).default('scroll'),
+    CRAWLER_CHECKPOINT_MAX_AGE_HOURS: z.string().default('24').transform(val => parseInt(val, 10)),
+    CRAWLER_HEADLESS: z.string().default('false').transform(val => val.toLowerCase() === 'true'),
+    CRAWLER_FILTER_MODE: z.enum(['url', 'ui']).default('url'),
+    CRAWLER_DETAILS_ENABLED: z.string().default('false').transform(val => val.toLowerCase() === 'true'),
+    CRAWLER_DETAILS_MAX_AGE_HOURS: z.string().default('168').transform(val => parseInt(val, 10)),
+    CRAWLER_DETAILS_MIN_INTERVAL_MS: z.string().default('8000').transform(val => parseInt(val, 10)),
+    CRAWLER_SECTIONS: z.string().default('topads').transform(parseCommaSeparated),
+    CRAWLER_SECTION_MAX_PAGES: z.string().default('5').transform(val => parseInt(val, 10)),
+
+    // Media downloads
+    MEDIA_DOWNLOAD_ENABLED: z.string().default('false').transform(val => val.toLowerCase() === 'true'),
+    MEDIA_STORAGE: z.enum(['disk', 's3']).default('disk'),
+    MEDIA_DIR: z.string().default('storage/media'),
+    MEDIA_DOWNLOAD_CONCURRENCY: z.string().default('2').transform(val => parseInt(val, 10)),
+    MEDIA_DOWNLOAD_RETRIES: z.string().default('3').transform(val => parseInt(val, 10)),
+    MEDIA_S3_BUCKET: z.string().optional(),
+    MEDIA_S3_PREFIX: z.string().optional(),
+    MEDIA_S3_REGION: z.string().optional(),
+    MEDIA_S3_ENDPOINT: z.string().optional(),
+    MEDIA_S3_ACCESS_KEY_ID: z.string().optional(),
+    MEDIA_S3_SECRET_ACCESS_KEY: z.string().optional(),
+    ANALYSIS_ENABLED: z.string().default('false').transform(val => val.toLowerCase() === 'true'),
+    ANALYSIS_MODEL: z.string().optional(),
+    ANALYSIS_VIDEO_FRAMES: z.string().default('0').transform(val => parseInt(val, 10)),
+    FFMPEG_PATH: z.string().default('ffmpeg'),
+    LLM_PROVIDER: z.enum(['gemini', 'openai', 'stub']).default('gemini'),
+    LLM_MODEL: z.string().optional(),
+    LLM_MODELS: z.string().optional().transform(parseKeyValuePairs),
+    LLM_EMBEDDING_MODEL: z.string().optional(),
+    OPENAI_BASE_URL: z.string().default('https://api.openai.com/v1'),
+    LLM_CACHE: z.enum(['none', 'memory', 'disk']).default('disk'),
+    LLM_CACHE_DIR: z.string().default('storage/llm-cache'),
+    LLM_PRICES: z.string().optional().transform(parseKeyValuePairs),
+    EMBEDDINGS_INDEX_PATH: z.string().default('storage/embeddings/index.json'),
+    EMBEDDINGS_COVERS: z.string().default('false').transform(val => val.toLowerCase() === 'true'),
+    EMBEDDINGS_BATCH_SIZE: z.string().default('32').transform(val => parseInt(val, 10)),
+    DUPLICATES_HASH_MEDIA: z.string().default('false').transform(val => val.toLowerCase() === 'true'),
+    DUPLICATES_VIDEO_FRAMES: z.string().default('4').transform(val => parseInt(val, 10)),
+    DUPLICATES_MAX_DISTANCE: z.string().default('8').transform(val => parseInt(val, 10)),
     
     // Storage Paths
     PATH_SCREENSHOTS: z.string(),
     PATH_DATA: z.string(),
+    PATH_FILTER_CATALOG: z.string().default('storage/filter-catalog.json'),
     
     // Proxy Settings
     PROXY_ENABLED: z.string().transform(val => val.toLowerCase() === 'true'),
@@ -51,10 +137,11 @@ export const Env = createEnv({
     FILTER_REGION: z.string().optional().transform(parseCommaSeparated),
     FILTER_INDUSTRY: z.string().optional().transform(parseCommaSeparated),
     FILTER_OBJECTIVE: z.string().optional().transform(parseCommaSeparated),
-    FILTER_PERIOD: z.string().optional(),
+    FILTER_PERIOD: z.string().optional().transform(parseCommaSeparated),
     FILTER_AD_LANGUAGE: z.string().optional().transform(parseCommaSeparated),
     FILTER_AD_FORMAT: z.string().optional(),
     FILTER_LIKES: z.string().optional().transform(parseCommaSeparated),
+    FILTER_ORDER_BY: z.string().optional().transform(parseCommaSeparated),
     
     // User Agent Settings
     USER_AGENT_USE_CUSTOM: z.string().transform(val => val.toLowerCase() === 'true'),
@@ -73,8 +160,14 @@ export const Env = createEnv({
     GEMINI_API_KEY: process.env.GEMINI_API_KEY,
     SAD_CAPTCHA_API_KEY: process.env.SAD_CAPTCHA_API_KEY,
     CHAPTCHA_RESOLVE_MODE: process.env.CHAPTCHA_RESOLVE_MODE,
+    CAPTCHA_SOLVERS: process.env.CAPTCHA_SOLVERS,
+    SAD_CAPTCHA_ENDPOINT: process.env.SAD_CAPTCHA_ENDPOINT,
+    CAPTCHA_CONSOLE_HOST: process.env.CAPTCHA_CONSOLE_HOST,
+    CAPTCHA_CONSOLE_PORT: process.env.CAPTCHA_CONSOLE_PORT,
+    CAPTCHA_CONSOLE_TOKEN: process.env.CAPTCHA_CONSOLE_TOKEN,
     
     // Database URLs
+    DATABASE_TYPE: process.env.DATABASE_TYPE,
     DATABASE_POSTGRES_URL: process.env.DATABASE_POSTGRES_URL,
     DATABASE_SQLITE_URL: process.env.DATABASE_SQLITE_URL,
     DATABASE_MYSQL_URL: process.env.DATABASE_MYSQL_URL,
@@ -82,16 +175,68 @@ export const Env = createEnv({
     // TikTok Credentials
     TIKTOK_EMAIL: process.env.TIKTOK_EMAIL,
     TIKTOK_PASSWORD: process.env.TIKTOK_PASSWORD,
+    TIKTOK_ACCOUNTS: process.env.TIKTOK_ACCOUNTS,
+    SESSION_VAULT_KEY: process.env.SESSION_VAULT_KEY,
+    SESSION_VAULT_TTL_HOURS: process.env.SESSION_VAULT_TTL_HOURS,
+    VERIFICATION_PROVIDER: process.env.VERIFICATION_PROVIDER,
+    VERIFICATION_PROVIDERS: process.env.VERIFICATION_PROVIDERS,
+    VERIFICATION_CODE_TIMEOUT_SECONDS: process.env.VERIFICATION_CODE_TIMEOUT_SECONDS,
+    VERIFICATION_CODE_FILE: process.env.VERIFICATION_CODE_FILE,
+    IMAP_HOST: process.env.IMAP_HOST,
+    IMAP_PORT: process.env.IMAP_PORT,
+    IMAP_SECURE: process.env.IMAP_SECURE,
+    IMAP_USER: process.env.IMAP_USER,
+    IMAP_PASSWORD: process.env.IMAP_PASSWORD,
+    IMAP_MAILBOX: process.env.IMAP_MAILBOX,
     // Crawler Settings
     CRAWLER_MAX_WAIT_TIME: process.env.CRAWLER_MAX_WAIT_TIME,
     CRAWLER_CAPTCHA_TIMEOUT: process.env.CRAWLER_CAPTCHA_TIMEOUT,
     CRAWLER_MAX_CAPTCHA_ATTEMPTS: process.env.CRAWLER_MAX_CAPTCHA_ATTEMPTS,
     CRAWLER_HUMAN_DELAY_MIN: process.env.CRAWLER_HUMAN_DELAY_MIN,
     CRAWLER_HUMAN_DELAY_MAX: process.env.CRAWLER_HUMAN_DELAY_MAX,
+    CRAWLER_COLLECTION_MODE: process.env.CRAWLER_COLLECTION_MODE,
+    CRAWLER_CHECKPOINT_MAX_AGE_HOURS: process.env.CRAWLER_CHECKPOINT_MAX_AGE_HOURS,
+    CRAWLER_HEADLESS: process.env.CRAWLER_HEADLESS,
+    CRAWLER_FILTER_MODE: process.env.CRAWLER_FILTER_MODE,
+    CRAWLER_DETAILS_ENABLED: process.env.CRAWLER_DETAILS_ENABLED,
+    CRAWLER_DETAILS_MAX_AGE_HOURS: process.env.CRAWLER_DETAILS_MAX_AGE_HOURS,
+    CRAWLER_DETAILS_MIN_INTERVAL_MS: process.env.CRAWLER_DETAILS_MIN_INTERVAL_MS,
+    CRAWLER_SECTIONS: process.env.CRAWLER_SECTIONS,
+    CRAWLER_SECTION_MAX_PAGES: process.env.CRAWLER_SECTION_MAX_PAGES,
+    MEDIA_DOWNLOAD_ENABLED: process.env.MEDIA_DOWNLOAD_ENABLED,
+    MEDIA_STORAGE: process.env.MEDIA_STORAGE,
+    MEDIA_DIR: process.env.MEDIA_DIR,
+    MEDIA_DOWNLOAD_CONCURRENCY: process.env.MEDIA_DOWNLOAD_CONCURRENCY,
+    MEDIA_DOWNLOAD_RETRIES: process.env.MEDIA_DOWNLOAD_RETRIES,
+    MEDIA_S3_BUCKET: process.env.MEDIA_S3_BUCKET,
+    MEDIA_S3_PREFIX: process.env.MEDIA_S3_PREFIX,
+    MEDIA_S3_REGION: process.env.MEDIA_S3_REGION,
+    MEDIA_S3_ENDPOINT: process.env.MEDIA_S3_ENDPOINT,
+    MEDIA_S3_ACCESS_KEY_ID: process.env.MEDIA_S3_ACCESS_KEY_ID,
+    MEDIA_S3_SECRET_ACCESS_KEY: process.env.MEDIA_S3_SECRET_ACCESS_KEY,
+    ANALYSIS_ENABLED: process.env.ANALYSIS_ENABLED,
+    ANALYSIS_MODEL: process.env.ANALYSIS_MODEL,
+    ANALYSIS_VIDEO_FRAMES: process.env.ANALYSIS_VIDEO_FRAMES,
+    FFMPEG_PATH: process.env.FFMPEG_PATH,
+    LLM_PROVIDER: process.env.LLM_PROVIDER,
+    LLM_MODEL: process.env.LLM_MODEL,
+    LLM_MODELS: process.env.LLM_MODELS,
+    LLM_EMBEDDING_MODEL: process.env.LLM_EMBEDDING_MODEL,
+    OPENAI_BASE_URL: process.env.OPENAI_BASE_URL,
+    LLM_CACHE: process.env.LLM_CACHE,
+    LLM_CACHE_DIR: process.env.LLM_CACHE_DIR,
+    LLM_PRICES: process.env.LLM_PRICES,
+    EMBEDDINGS_INDEX_PATH: process.env.EMBEDDINGS_INDEX_PATH,
+    EMBEDDINGS_COVERS: process.env.EMBEDDINGS_COVERS,
+    EMBEDDINGS_BATCH_SIZE: process.env.EMBEDDINGS_BATCH_SIZE,
+    DUPLICATES_HASH_MEDIA: process.env.DUPLICATES_HASH_MEDIA,
+    DUPLICATES_VIDEO_FRAMES: process.env.DUPLICATES_VIDEO_FRAMES,
+    DUPLICATES_MAX_DISTANCE: process.env.DUPLICATES_MAX_DISTANCE,
     
     // Storage Paths
     PATH_SCREENSHOTS: process.env.PATH_SCREENSHOTS,
     PATH_DATA: process.env.PATH_DATA,
+    PATH_FILTER_CATALOG: process.env.PATH_FILTER_CATALOG,
     
     // Proxy Settings
     PROXY_ENABLED: process.env.PROXY_ENABLED,
@@ -105,6 +250,7 @@ export const Env = createEnv({
     FILTER_AD_LANGUAGE: process.env.FILTER_AD_LANGUAGE,
     FILTER_AD_FORMAT: process.env.FILTER_AD_FORMAT,
     FILTER_LIKES: process.env.FILTER_LIKES,
+    FILTER_ORDER_BY: process.env.FILTER_ORDER_BY,
     
     // User Agent Settings
     USER_AGENT_USE_CUSTOM: process.env.USER_AGENT_USE_CUSTOM,
@@ -89,6 +89,24 @@ describe('Environment Variables Loading', () => {
     expect(envModule.FILTER_AD_LANGUAGE).toEqual(['English', 'Spanish', 'French']);
   });
 
+  it('should parse TikTok accounts as email:password pairs', async () => {
+    process.env = { ...originalEnv, ...baseTestEnv, TIKTOK_ACCOUNTS: 'a@example.com:pass:1, b@example.com:secret, invalid' };
+    const { Env: envModule } = await import('../Env.js');
+
+    expect(envModule.TIKTOK_ACCOUNTS).toEqual([
+      { email: 'a@example.com', password: 'pass:1' },
+      { email: 'b@example.com', password: 'secret' }
+    ]);
+  });
+
+  it('should parse per-account verification providers', async () => {
+    process.env = { ...originalEnv, ...baseTestEnv, VERIFICATION_PROVIDERS: 'a@example.com=imap, b@example.com=manual, invalid' };
+    const { Env: envModule } = await import('../Env.js');
+
+    expect(envModule.VERIFICATION_PROVIDERS).toEqual({ 'a@example.com': 'imap', 'b@example.com': 'manual' });
+    expect(envModule.VERIFICATION_PROVIDER).toBe('http');
+  });
+
   it('should handle empty or undefined values', async () => {
     const emptyValuesEnv = {
       ...baseTestEnv,
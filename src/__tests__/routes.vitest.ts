@@ -0,0 +1,103 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { Log } from 'crawlee';
+import type { Page } from 'playwright';
+
+const mocks = vi.hoisted(() => ({
+  collectViaApi: vi.fn(),
+  restoreSession: vi.fn()
+}));
+
+vi.mock('../../lib/Env.js', () => ({ Env: {} }));
+
+vi.mock('../config.js', () => ({
+  config: {
+    accounts: [{ email: 'buyer@example.com', password: 'secret' }],
+    sessions: { vaultKey: 'key', defaultTtl: 0 },
+    crawler: { collectionMode: 'api', filterMode: 'url', checkpointMaxAge: 0, details: { enabled: false, minInterval: 1000 } },
+    media: { enabled: false },
+    analysis: { enabled: false },
+    duplicates: {},
+    verification: {}
+  }
+}));
+
+vi.mock('../steps/index.js', () => ({
+  collectViaApi: mocks.collectViaApi,
+  checkEmailVerification: vi.fn(),
+  clickLoginButton: vi.fn(),
+  handleCaptchaSolverApi: vi.fn(),
+  handleCookieConsent: vi.fn(),
+  handleEmailCodeVerification: vi.fn(),
+  fillLoginForm: vi.fn(),
+  scrollAndCollectData: vi.fn(),
+  selectPhoneEmailLogin: vi.fn(),
+  submitLoginForm: vi.fn()
+}));
+
+vi.mock('../helpers/index.js', () => ({
+  checkApiResponsesFolderExistence: vi.fn(),
+  isLoggedIn: vi.fn(async () => false),
+  setupRequestInterception: vi.fn(),
+  delay: vi.fn(),
+  randomBetween: vi.fn()
+}));
+
+vi.mock('../services/database/configuredDatabase.js', () => ({ createConfiguredDatabase: vi.fn() }));
+
+vi.mock('../services/paginationCheckpointStore.js', () => ({
+  PaginationCheckpointStore: { open: vi.fn(async () => ({ isCompleted: async () => false })) }
+}));
+
+vi.mock('../services/sessionVault.js', () => ({ SessionVault: vi.fn() }));
+
+vi.mock('../services/sessionManager.js', () => ({
+  SessionManager: vi.fn(() => ({
+    acquire: vi.fn((tried?: string[]) => (tried ? null : { email: 'buyer@example.com', password: 'secret' })),
+    loadSessionState: vi.fn(() => null),
+    restoreSession: mocks.restoreSession,
+    hasSession: vi.fn(() => false),
+    recordEvent: vi.fn()
+  }))
+}));
+
+const { router } = await import('../routes.js');
+
+const mockLog = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn()
+} as unknown as Log;
+
+/**
+ * Runs the default handler for a crawl job; signing in in the browser fails right away
+ */
+const crawlJob = (job: Record<string, string>) => router({
+  log: mockLog,
+  page: { waitForSelector: vi.fn(async () => { throw new Error('no banner'); }) } as unknown as Page,
+  request: { url: 'https://ads.tiktok.com/business/creativecenter/inspiration/topads/pc/en', userData: { job, jobKey: 'job' } },
+  addRequests: vi.fn()
+} as never);
+
+describe('routes', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mocks.collectViaApi.mockResolvedValue(true);
+    mocks.restoreSession.mockResolvedValue(false);
+  });
+
+  it('should collect through the list API with the query values of the job only', async () => {
+    await crawlJob({ region: 'United States', period: 'Last 30 days', orderBy: 'CTR' });
+
+    expect(mocks.collectViaApi).toHaveBeenCalledTimes(1);
+    expect(mocks.collectViaApi.mock.calls[0][1]).toEqual({ region: 'US', period: '30', orderBy: 'ctr' });
+    expect(mocks.restoreSession).not.toHaveBeenCalled();
+  });
+
+  it('should collect a job with an objective in the browser', async () => {
+    await crawlJob({ region: 'US', objective: 'Conversions' });
+
+    expect(mocks.collectViaApi).not.toHaveBeenCalled();
+    expect(mocks.restoreSession).toHaveBeenCalledTimes(1);
+  });
+});
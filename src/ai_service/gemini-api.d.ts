@@ -1,8 +1,27 @@
+import type { Part } from "@google/generative-ai";
+import type { ZodType, ZodTypeDef } from "zod";
+
+export interface GeminiMediaInput {
+    mimeType: string;
+    data?: Buffer;
+    path?: string;
+}
+
+export type GeminiInput = string | GeminiMediaInput;
+
+export interface GenerateObjectOptions<T> {
+    schema: ZodType<T, ZodTypeDef, unknown>;
+    retries?: number;
+}
+
+export declare function toGeminiParts(inputs: GeminiInput[]): Promise<Part[]>;
+
 declare class GeminiService {
     private static instance: GeminiService | null;
     private constructor(apiKey: string, modelName: string);
     static getInstance(apiKey: string, modelName: string): GeminiService;
-    sendMessage(prompt: string): Promise<string | null>;
+    sendMessage(prompt: string | GeminiInput[]): Promise<string | null>;
+    generateObject<T>(inputs: GeminiInput[], options: GenerateObjectOptions<T>): Promise<T>;
     streamMessage(prompt: string): Promise<AsyncIterable<string>>;
 }
 
@@ -1,4 +1,71 @@
-import { GoogleGenerativeAI, GenerateContentRequest, GenerativeModel, GenerateContentResult } from "@google/generative-ai";
+import { readFile } from "fs/promises";
+import { GoogleGenerativeAI, GenerateContentRequest, GenerativeModel, GenerateContentResult, Part } from "@google/generative-ai";
+import type { ZodType, ZodTypeDef } from "zod";
+import { requestStructuredOutput, toResponseSchema } from "./responseSchema.js";
+
+// Gemini rejects requests with more than 20 MB of inline data; larger files need the File API
+const MAX_INLINE_BYTES = 20 * 1024 * 1024;
+
+/**
+ * Image or video sent along with a prompt, e.g. an ad cover, a downloaded MP4 or a captcha screenshot
+ */
+export interface GeminiMediaInput {
+    mimeType: string;
+    /**
+     * File content; read from `path` when unset
+     */
+    data?: Buffer;
+    path?: string;
+}
+
+/**
+ * Part of a prompt: text or media
+ */
+export type GeminiInput = string | GeminiMediaInput;
+
+/**
+ * Options for GeminiService.generateObject
+ */
+export interface GenerateObjectOptions<T> {
+    /**
+     * Schema of the answer; sent to Gemini as response schema and used to validate the answer
+     */
+    schema: ZodType<T, ZodTypeDef, unknown>;
+    /**
+     * Attempts after the first one when the answer does not match the schema
+     */
+    retries?: number;
+}
+
+/**
+ * Converts prompt inputs into request parts; media is sent inline
+ * @param inputs - Text, images and videos
+ * @returns Parts of a user message
+ * @throws Error when a file cannot be read or the inline data exceeds the request limit
+ */
+export async function toGeminiParts(inputs: GeminiInput[]): Promise<Part[]> {
+    const parts: Part[] = [];
+    let inlineBytes = 0;
+
+    for (const input of inputs) {
+        if (typeof input === "string") {
+            parts.push({ text: input });
+            continue;
+        }
+
+        const content = input.data ?? (input.path ? await readFile(input.path) : null);
+        if (!content) {
+            throw new Error("Failed to read Gemini input: data or path is required");
+        }
+        const data = content.toString("base64");
+        inlineBytes += data.length;
+        if (inlineBytes > MAX_INLINE_BYTES) {
+            throw new Error(`Failed to attach ${input.path ?? input.mimeType}: inline data is limited to 20 MB per request`);
+        }
+        parts.push({ inlineData: { mimeType: input.mimeType, data } });
+    }
+    return parts;
+}
 
 class GeminiService {
     private static instance: GeminiService | null = null;
@@ -20,10 +87,11 @@ class GeminiService {
         return GeminiService.instance;
     }
 
-    public async sendMessage(prompt: string): Promise<string | null> {
+    // Accepts a plain text prompt, or text mixed with images and videos
+    public async sendMessage(prompt: string | GeminiInput[]): Promise<string | null> {
         try {
             const request: GenerateContentRequest = {
-                contents: [{ role: "user", parts: [{ text: prompt }] }],
+                contents: [{ role: "user", parts: await toGeminiParts(typeof prompt === "string" ? [prompt] : prompt) }],
             };
 
             const { response }: GenerateContentResult = await this.model.generateContent(request);
@@ -37,6 +105,33 @@ class GeminiService {
         }
     }
 
+    /**
+     * Asks for an answer in Gemini's structured output mode and validates it against the schema.
+     * Invalid answers are asked for again, telling the model what was wrong.
+     * @param inputs - Text, images and videos of the prompt
+     * @param options - Schema of the answer and number of retries
+     * @returns Validated answer
+     * @throws StructuredOutputError when no answer matched the schema
+     */
+    public async generateObject<T>(inputs: GeminiInput[], options: GenerateObjectOptions<T>): Promise<T> {
+        const parts = await toGeminiParts(inputs);
+        const generationConfig = { responseMimeType: "application/json", responseSchema: toResponseSchema(options.schema) };
+
+        const { data } = await requestStructuredOutput(async feedback => {
+            try {
+                const { response }: GenerateContentResult = await this.model.generateContent({
+                    contents: [{ role: "user", parts: [...parts, ...feedback.map(text => ({ text }))] }],
+                    generationConfig
+                });
+                return { text: response?.text() ?? "" };
+            } catch (error: unknown) {
+                const errorMessage = error instanceof Error ? error.message : String(error);
+                throw new Error(`Failed to generate object with Gemini: ${errorMessage}`);
+            }
+        }, { schema: options.schema, retries: options.retries ?? 2, backend: "Gemini" });
+        return data;
+    }
+
     // Example of another method you might add: streaming responses
     public async streamMessage(prompt: string): Promise<AsyncIterable<string>> {
         try {
@@ -1,10 +1,16 @@
 import { describe, it, expect, beforeEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { z } from 'zod';
 import GeminiService from './gemini-api.js';
+import { StructuredOutputError } from './responseSchema.js';
 import { GoogleGenerativeAI } from '@google/generative-ai';
 
-// Mock the GoogleGenerativeAI module
-vi.mock('@google/generative-ai', () => {
+// Mock the GoogleGenerativeAI module; the schema types are kept for structured output
+vi.mock('@google/generative-ai', async (importOriginal) => {
   return {
+    ...await importOriginal<typeof import('@google/generative-ai')>(),
     GoogleGenerativeAI: vi.fn(() => ({
       getGenerativeModel: vi.fn(() => ({
         generateContent: vi.fn(),
@@ -101,6 +107,37 @@ describe('GeminiService', () => {
       expect(result).toBeNull();
     });
     
+    it('should send images inline', async () => {
+      const mockGenerateContent = vi.fn().mockResolvedValue({
+        response: {
+          text: () => 'A cover with a serum bottle'
+        }
+      });
+      
+      vi.mocked(GoogleGenerativeAI).mockImplementation(() => ({
+        getGenerativeModel: vi.fn().mockReturnValue({
+          generateContent: mockGenerateContent,
+          generateContentStream: vi.fn()
+        }),
+        apiKey: 'mock-api-key',
+        getGenerativeModelFromCachedContent: vi.fn()
+      }));
+      
+      const geminiService = GeminiService.getInstance(API_KEY, MODEL_NAME);
+      const result = await geminiService.sendMessage(['Describe this cover', { mimeType: 'image/jpeg', data: Buffer.from('cover') }]);
+      
+      expect(mockGenerateContent).toHaveBeenCalledWith({
+        contents: [{
+          role: 'user',
+          parts: [
+            { text: 'Describe this cover' },
+            { inlineData: { mimeType: 'image/jpeg', data: Buffer.from('cover').toString('base64') } }
+          ]
+        }]
+      });
+      expect(result).toBe('A cover with a serum bottle');
+    });
+    
     it('should throw an error if the API call fails', async () => {
       const errorMessage = 'API error';
       
@@ -238,4 +275,100 @@ describe('GeminiService', () => {
       expect(mockGenerateContentStream).toHaveBeenCalled();
     });
   });
+
+  describe('generateObject', () => {
+    const schema = z.object({
+      hookType: z.enum(['question', 'testimonial']),
+      score: z.number().int(),
+      summary: z.string().optional()
+    });
+    
+    const mockModel = (...answers: string[]) => {
+      const mockGenerateContent = vi.fn();
+      for (const answer of answers) {
+        mockGenerateContent.mockResolvedValueOnce({ response: { text: () => answer } });
+      }
+      
+      vi.mocked(GoogleGenerativeAI).mockImplementation(() => ({
+        getGenerativeModel: vi.fn().mockReturnValue({
+          generateContent: mockGenerateContent,
+          generateContentStream: vi.fn()
+        }),
+        apiKey: 'mock-api-key',
+        getGenerativeModelFromCachedContent: vi.fn()
+      }));
+      return mockGenerateContent;
+    };
+    
+    it('should request structured output and return the validated object', async () => {
+      const mockGenerateContent = mockModel('{"hookType":"question","score":3}');
+      
+      const geminiService = GeminiService.getInstance(API_KEY, MODEL_NAME);
+      const result = await geminiService.generateObject(['Classify this ad'], { schema });
+      
+      expect(result).toEqual({ hookType: 'question', score: 3 });
+      expect(mockGenerateContent.mock.calls[0][0].generationConfig).toEqual({
+        responseMimeType: 'application/json',
+        responseSchema: {
+          type: 'object',
+          properties: {
+            hookType: { type: 'string', enum: ['question', 'testimonial'] },
+            score: { type: 'integer' },
+            summary: { type: 'string' }
+          },
+          required: ['hookType', 'score']
+        }
+      });
+    });
+    
+    it('should ask again when the answer does not match the schema', async () => {
+      const mockGenerateContent = mockModel('{"hookType":"shock","score":3}', '```json\n{"hookType":"testimonial","score":1}\n```');
+      
+      const geminiService = GeminiService.getInstance(API_KEY, MODEL_NAME);
+      const result = await geminiService.generateObject(['Classify this ad'], { schema });
+      
+      expect(result).toEqual({ hookType: 'testimonial', score: 1 });
+      expect(mockGenerateContent).toHaveBeenCalledTimes(2);
+      const retryParts = mockGenerateContent.mock.calls[1][0].contents[0].parts;
+      expect(retryParts[0]).toEqual({ text: 'Classify this ad' });
+      expect(retryParts[1].text).toContain('hookType');
+    });
+    
+    it('should throw after the configured retries', async () => {
+      const mockGenerateContent = mockModel('not json', 'still not json');
+      
+      const geminiService = GeminiService.getInstance(API_KEY, MODEL_NAME);
+      
+      await expect(geminiService.generateObject(['Classify this ad'], { schema, retries: 1 })).rejects.toThrow(StructuredOutputError);
+      expect(mockGenerateContent).toHaveBeenCalledTimes(2);
+    });
+    
+    it('should read videos from disk', async () => {
+      const mockGenerateContent = mockModel('{"hookType":"question","score":3}');
+      const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'gemini-'));
+      const videoPath = path.join(dir, 'ad.mp4');
+      fs.writeFileSync(videoPath, 'video');
+      
+      try {
+        const geminiService = GeminiService.getInstance(API_KEY, MODEL_NAME);
+        await geminiService.generateObject(['Classify this ad', { mimeType: 'video/mp4', path: videoPath }], { schema });
+      } finally {
+        fs.rmSync(dir, { recursive: true, force: true });
+      }
+      
+      expect(mockGenerateContent.mock.calls[0][0].contents[0].parts[1]).toEqual({
+        inlineData: { mimeType: 'video/mp4', data: Buffer.from('video').toString('base64') }
+      });
+    });
+    
+    it('should reject inline data over the request limit', async () => {
+      const mockGenerateContent = mockModel();
+      
+      const geminiService = GeminiService.getInstance(API_KEY, MODEL_NAME);
+      
+      await expect(geminiService.generateObject([{ mimeType: 'video/mp4', data: Buffer.alloc(16 * 1024 * 1024) }], { schema }))
+        .rejects.toThrow('inline data is limited to 20 MB');
+      expect(mockGenerateContent).not.toHaveBeenCalled();
+    });
+  });
 });
\ No newline at end of file
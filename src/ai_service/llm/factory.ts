@@ -0,0 +1,76 @@
+import { Log } from 'crawlee';
+import { config, LlmConfig } from '../../config.js';
+import { LlmService } from './llmService.js';
+import { GeminiProvider } from './providers/geminiProvider.js';
+import { OpenAiProvider } from './providers/openAiProvider.js';
+import { StubLlmProvider } from './providers/stubProvider.js';
+import { FileLlmCache, LlmResponseCache, MemoryLlmCache } from './responseCache.js';
+import { LlmUsageTracker, parseLlmPrices } from './usageTracker.js';
+import type { LlmProvider } from './types.js';
+
+/**
+ * Model used when LLM_MODEL is unset
+ * @private
+ */
+const DEFAULT_MODELS: Record<LlmConfig['provider'], string> = {
+    gemini: 'gemini-2.0-flash-lite-001',
+    openai: 'gpt-4o-mini',
+    stub: 'stub'
+};
+
+/**
+ * Embedding model used when LLM_EMBEDDING_MODEL is unset
+ * @private
+ */
+const DEFAULT_EMBEDDING_MODELS: Record<LlmConfig['provider'], string> = {
+    gemini: 'text-embedding-004',
+    openai: 'text-embedding-3-small',
+    stub: 'stub-embedding'
+};
+
+/**
+ * Creates the configured language model backend
+ * @param llm - Language model settings
+ * @returns Provider
+ */
+export function createLlmProvider(llm: LlmConfig = config.llm): LlmProvider {
+    switch (llm.provider) {
+        case 'gemini':
+            if (!llm.geminiApiKey) {
+                throw new Error('GEMINI_API_KEY is required for the gemini LLM provider');
+            }
+            return new GeminiProvider(llm.geminiApiKey);
+        case 'openai':
+            return new OpenAiProvider({ baseUrl: llm.openai.baseUrl, apiKey: llm.openai.apiKey });
+        case 'stub':
+            return new StubLlmProvider();
+        default:
+            throw new Error(`Unknown LLM provider "${llm.provider}"; expected gemini, openai or stub`);
+    }
+}
+
+/**
+ * Creates the language model service with the configured provider, models, cache and prices
+ * @param log - Crawlee logger
+ * @param llm - Language model settings
+ * @returns Service
+ */
+export function createLlmService(log: Log, llm: LlmConfig = config.llm): LlmService {
+    let cache: LlmResponseCache | undefined;
+    switch (llm.cache) {
+        case 'disk':
+            cache = new FileLlmCache(llm.cacheDir);
+            break;
+        case 'memory':
+            cache = new MemoryLlmCache();
+            break;
+    }
+
+    return new LlmService(log, createLlmProvider(llm), {
+        defaultModel: llm.model ?? DEFAULT_MODELS[llm.provider],
+        defaultEmbeddingModel: llm.embeddingModel ?? DEFAULT_EMBEDDING_MODELS[llm.provider],
+        models: llm.models,
+        cache,
+        usage: new LlmUsageTracker(parseLlmPrices(llm.prices))
+    });
+}
@@ -0,0 +1,186 @@
+import fs from 'fs/promises';
+import { Log } from 'crawlee';
+import type { ZodType, ZodTypeDef } from 'zod';
+import { requestStructuredOutput } from '../responseSchema.js';
+import { getLlmCacheKey, LlmResponseCache } from './responseCache.js';
+import { LlmUsageTracker } from './usageTracker.js';
+import type { LlmCompletion, LlmCompletionRequest, LlmInput, LlmProvider, LlmResult } from './types.js';
+
+/**
+ * Options for creating an LlmService
+ */
+export interface LlmServiceOptions {
+    /**
+     * Model of tasks without an entry in `models`
+     */
+    defaultModel: string;
+    /**
+     * Model of embedding tasks without an entry in `models`
+     */
+    defaultEmbeddingModel?: string;
+    /**
+     * Model by task, e.g. `{ analysis: 'gemini-2.0-flash' }`
+     */
+    models?: Record<string, string>;
+    /**
+     * Response cache (optional)
+     */
+    cache?: LlmResponseCache;
+    usage?: LlmUsageTracker;
+    /**
+     * Attempts after the first one when a JSON answer does not match its schema
+     */
+    retries?: number;
+}
+
+/**
+ * Options for LlmService.generateObject
+ */
+export interface LlmObjectOptions<T> {
+    /**
+     * Schema of the answer; passed to the provider's structured output mode and used to validate the answer
+     */
+    schema: ZodType<T, ZodTypeDef, unknown>;
+    retries?: number;
+}
+
+/**
+ * Entry point for model requests. Picks the model of each task, answers repeated requests from
+ * the cache, validates JSON answers and adds up the tokens and cost of every request.
+ */
+export class LlmService {
+    private readonly log: Log;
+    private readonly provider: LlmProvider;
+    private readonly defaultModel: string;
+    private readonly defaultEmbeddingModel?: string;
+    private readonly models: Record<string, string>;
+    private readonly cache?: LlmResponseCache;
+    private readonly retries: number;
+    readonly usage: LlmUsageTracker;
+
+    constructor(log: Log, provider: LlmProvider, options: LlmServiceOptions) {
+        this.log = log;
+        this.provider = provider;
+        this.defaultModel = options.defaultModel;
+        this.defaultEmbeddingModel = options.defaultEmbeddingModel;
+        this.models = options.models ?? {};
+        this.cache = options.cache;
+        this.retries = options.retries ?? 2;
+        this.usage = options.usage ?? new LlmUsageTracker();
+    }
+
+    /**
+     * @param task - Task name, e.g. `analysis`
+     * @returns Model configured for the task
+     */
+    getModel(task: string): string {
+        return this.models[task] ?? this.defaultModel;
+    }
+
+    /**
+     * @param task - Task name, e.g. `embeddings`
+     * @returns Embedding model configured for the task, or undefined without one
+     */
+    getEmbeddingModel(task: string): string | undefined {
+        return this.models[task] ?? this.defaultEmbeddingModel;
+    }
+
+    /**
+     * Turns texts into vectors with the embedding model of the task. Embeddings are not cached;
+     * callers keep the vectors themselves.
+     * @param task - Task the request is made for, e.g. `embeddings`
+     * @param texts - Texts to embed
+     * @returns One vector per text
+     */
+    async embed(task: string, texts: string[]): Promise<LlmResult<number[][]>> {
+        const model = this.getEmbeddingModel(task);
+        if (!this.provider.embed || !model) {
+            throw new Error(`Failed to embed with ${this.provider.name}: no embedding model is available`);
+        }
+
+        const embedding = await this.provider.embed({ model, texts });
+        this.usage.record(task, embedding.model, embedding.usage);
+        return { value: embedding.vectors, model: embedding.model, usage: embedding.usage, cached: false };
+    }
+
+    /**
+     * Asks for a free-form answer
+     * @param task - Task the request is made for
+     * @param inputs - Text, images and videos of the prompt
+     * @returns Answer text
+     */
+    async generateText(task: string, inputs: LlmInput[]): Promise<LlmResult<string>> {
+        const { completion, cached } = await this.complete(task, { model: this.getModel(task), inputs: await loadMedia(inputs) });
+        return { value: completion.text, model: completion.model, usage: completion.usage, cached };
+    }
+
+    /**
+     * Asks for a JSON answer matching the schema. Invalid answers are asked for again, telling the model what was wrong;
+     * only valid answers are cached.
+     * @param task - Task the request is made for
+     * @param inputs - Text, images and videos of the prompt
+     * @param options - Schema of the answer and number of retries
+     * @returns Validated answer
+     * @throws StructuredOutputError when no answer matched the schema
+     */
+    async generateObject<T>(task: string, inputs: LlmInput[], options: LlmObjectOptions<T>): Promise<LlmResult<T>> {
+        const request: LlmCompletionRequest = { model: this.getModel(task), inputs: await loadMedia(inputs), schema: options.schema };
+
+        const { data, answer: { completion, cached }, attempts } = await requestStructuredOutput(async feedback => {
+            const answer = await this.complete(task, { ...request, inputs: [...request.inputs, ...feedback] }, false);
+            return { ...answer, text: answer.completion.text };
+        }, {
+            schema: options.schema,
+            retries: options.retries ?? this.retries,
+            backend: this.provider.name,
+            onInvalidAnswer: (error, attempt) => this.log.debug('Model answer did not match the schema, asking again', { task, attempt, error })
+        });
+
+        // Under the original request, so asking the same question again hits the cache
+        if (!cached || attempts > 1) await this.store(request, completion);
+        return { value: data, model: completion.model, usage: completion.usage, cached };
+    }
+
+    /**
+     * Answers from the cache or the provider and records the usage
+     * @private
+     */
+    private async complete(task: string, request: LlmCompletionRequest, storeAnswer = true): Promise<{ completion: LlmCompletion; cached: boolean }> {
+        const cachedCompletion = await this.cache?.get(getLlmCacheKey(this.provider.name, request));
+        if (cachedCompletion) {
+            this.usage.record(task, cachedCompletion.model, cachedCompletion.usage, true);
+            return { completion: cachedCompletion, cached: true };
+        }
+
+        const completion = await this.provider.complete(request);
+        this.usage.record(task, completion.model, completion.usage);
+        if (storeAnswer) await this.store(request, completion);
+        return { completion, cached: false };
+    }
+
+    /**
+     * A failing cache only costs a repeated request, so it does not fail the answer
+     * @private
+     */
+    private async store(request: LlmCompletionRequest, completion: LlmCompletion): Promise<void> {
+        try {
+            await this.cache?.set(getLlmCacheKey(this.provider.name, request), completion);
+        } catch (error) {
+            this.log.warning('Could not cache model answer:', { error: (error as Error).message });
+        }
+    }
+}
+
+/**
+ * Reads media given by path, so providers and cache keys always see the content
+ * @private
+ */
+async function loadMedia(inputs: LlmInput[]): Promise<LlmInput[]> {
+    return Promise.all(inputs.map(async input => {
+        if (typeof input === 'string' || input.data) return input;
+        if (!input.path) {
+            throw new Error('Failed to read LLM input: data or path is required');
+        }
+        return { mimeType: input.mimeType, data: await fs.readFile(input.path) };
+    }));
+}
@@ -0,0 +1,144 @@
+import { describe, it, expect, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { z } from 'zod';
+import type { Log } from 'crawlee';
+import { LlmService } from './llmService.js';
+import { StructuredOutputError } from '../responseSchema.js';
+import { FileLlmCache, getLlmCacheKey, MemoryLlmCache } from './responseCache.js';
+import { LlmUsageTracker, parseLlmPrices } from './usageTracker.js';
+import type { LlmCompletionRequest, LlmProvider } from './types.js';
+
+const mockLog = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn()
+} as unknown as Log;
+
+const schema = z.object({ label: z.enum(['a', 'b']) });
+
+const createProvider = (...texts: string[]) => {
+  const complete = vi.fn(async (request: LlmCompletionRequest) => ({
+    text: texts.shift() ?? '',
+    model: request.model,
+    usage: { inputTokens: 1000, outputTokens: 100 }
+  }));
+  return { name: 'mock', complete } satisfies LlmProvider;
+};
+
+describe('LlmService', () => {
+  it('should use the model configured for the task', async () => {
+    const provider = createProvider('one', 'two');
+    const llm = new LlmService(mockLog, provider, { defaultModel: 'small', models: { analysis: 'large' } });
+
+    await llm.generateText('analysis', ['Hello']);
+    await llm.generateText('summary', ['Hello']);
+
+    expect(provider.complete.mock.calls.map(([request]) => request.model)).toEqual(['large', 'small']);
+  });
+
+  it('should answer repeated requests from the cache without counting their tokens', async () => {
+    const provider = createProvider('{"label":"a"}');
+    const llm = new LlmService(mockLog, provider, {
+      defaultModel: 'small',
+      cache: new MemoryLlmCache(),
+      usage: new LlmUsageTracker(parseLlmPrices({ small: '1:10' }))
+    });
+
+    const first = await llm.generateObject('analysis', ['Classify'], { schema });
+    const second = await llm.generateObject('analysis', ['Classify'], { schema });
+
+    expect(provider.complete).toHaveBeenCalledTimes(1);
+    expect(first).toMatchObject({ value: { label: 'a' }, cached: false });
+    expect(second).toMatchObject({ value: { label: 'a' }, cached: true });
+    expect(llm.usage.getEntries()).toEqual([
+      { task: 'analysis', model: 'small', requests: 2, cachedRequests: 1, inputTokens: 1000, outputTokens: 100, costUsd: 0.002 }
+    ]);
+  });
+
+  it('should ask again with the validation error and throw once the retries are used up', async () => {
+    const provider = createProvider('{"label":"c"}', 'not json', '{"label":"c"}');
+    const llm = new LlmService(mockLog, provider, { defaultModel: 'small', cache: new MemoryLlmCache(), retries: 2 });
+
+    const error = await llm.generateObject('analysis', ['Classify'], { schema }).catch(e => e);
+
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error.output).toBe('{"label":"c"}');
+    expect(provider.complete).toHaveBeenCalledTimes(3);
+    expect(provider.complete.mock.calls[1][0].inputs[1]).toContain('label: Invalid enum value');
+    expect(provider.complete.mock.calls[0][0].schema).toBe(schema);
+    expect(llm.usage.getTotals()).toMatchObject({ requests: 3, cachedRequests: 0 });
+  });
+
+  it('should answer from the cache after an answer was only valid when asked again', async () => {
+    const provider = createProvider('not json', '{"label":"b"}');
+    const llm = new LlmService(mockLog, provider, { defaultModel: 'small', cache: new MemoryLlmCache(), retries: 1 });
+
+    await llm.generateObject('analysis', ['Classify'], { schema });
+    const second = await llm.generateObject('analysis', ['Classify'], { schema });
+
+    expect(provider.complete).toHaveBeenCalledTimes(2);
+    expect(second).toMatchObject({ value: { label: 'b' }, cached: true });
+  });
+
+  it('should embed with the embedding model and count the tokens', async () => {
+    const provider = {
+      ...createProvider(),
+      embed: vi.fn(async ({ model, texts }: { model: string; texts: string[] }) => ({
+        vectors: texts.map(() => [1, 0]),
+        model,
+        usage: { inputTokens: 3, outputTokens: 0 }
+      }))
+    };
+    const llm = new LlmService(mockLog, provider, { defaultModel: 'small', defaultEmbeddingModel: 'embed-small' });
+
+    const result = await llm.embed('embeddings', ['one', 'two']);
+
+    expect(provider.embed).toHaveBeenCalledWith({ model: 'embed-small', texts: ['one', 'two'] });
+    expect(result.value).toHaveLength(2);
+    expect(llm.usage.getEntries()).toMatchObject([{ task: 'embeddings', model: 'embed-small', inputTokens: 3 }]);
+    await expect(new LlmService(mockLog, createProvider(), { defaultModel: 'small' }).embed('embeddings', ['one']))
+      .rejects.toThrow('no embedding model is available');
+  });
+
+  it('should read media given by path', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-'));
+    fs.writeFileSync(path.join(dir, 'cover.jpeg'), 'cover');
+    const provider = createProvider('ok');
+
+    await new LlmService(mockLog, provider, { defaultModel: 'small' })
+      .generateText('analysis', ['Describe', { mimeType: 'image/jpeg', path: path.join(dir, 'cover.jpeg') }]);
+
+    expect(provider.complete.mock.calls[0][0].inputs[1]).toEqual({ mimeType: 'image/jpeg', data: Buffer.from('cover') });
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+describe('LLM response cache', () => {
+  it('should key requests by media content rather than by reference', () => {
+    const request = (data: string) => ({ model: 'small', inputs: ['Describe', { mimeType: 'image/jpeg', data: Buffer.from(data) }] });
+
+    expect(getLlmCacheKey('gemini', request('cover'))).toBe(getLlmCacheKey('gemini', request('cover')));
+    expect(getLlmCacheKey('gemini', request('cover'))).not.toBe(getLlmCacheKey('gemini', request('other')));
+    expect(getLlmCacheKey('gemini', request('cover'))).not.toBe(getLlmCacheKey('openai', request('cover')));
+  });
+
+  it('should keep answers on disk', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'llm-cache-'));
+    const completion = { text: 'ok', model: 'small', usage: { inputTokens: 1, outputTokens: 1 } };
+
+    await new FileLlmCache(dir).set('abcdef', completion);
+
+    expect(await new FileLlmCache(dir).get('abcdef')).toEqual(completion);
+    expect(await new FileLlmCache(dir).get('missing')).toBeNull();
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+});
+
+describe('parseLlmPrices', () => {
+  it('should leave out malformed prices', () => {
+    expect(parseLlmPrices({ small: '0.1:0.4', broken: 'free' })).toEqual({ small: { input: 0.1, output: 0.4 } });
+  });
+});
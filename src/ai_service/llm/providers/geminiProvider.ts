@@ -0,0 +1,80 @@
+import { GenerativeModel, GoogleGenerativeAI } from '@google/generative-ai';
+import { toGeminiParts } from '../../gemini-api.js';
+import { toResponseSchema } from '../../responseSchema.js';
+import type { LlmCompletion, LlmCompletionRequest, LlmEmbedding, LlmEmbeddingRequest, LlmProvider } from '../types.js';
+
+/**
+ * Google Gemini through the Generative AI SDK. Unlike the GeminiService singleton,
+ * every request may use another model.
+ */
+export class GeminiProvider implements LlmProvider {
+    readonly name = 'gemini';
+    private readonly genAI: GoogleGenerativeAI;
+    private readonly models = new Map<string, GenerativeModel>();
+
+    /**
+     * @param apiKey - Gemini API key
+     * @param genAI - SDK client, replaceable in tests
+     */
+    constructor(apiKey: string, genAI?: GoogleGenerativeAI) {
+        if (!apiKey) {
+            throw new Error('Failed to create Gemini provider: GEMINI_API_KEY is not set');
+        }
+        this.genAI = genAI ?? new GoogleGenerativeAI(apiKey);
+    }
+
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+        const parts = await toGeminiParts(request.inputs);
+
+        try {
+            const { response } = await this.getModel(request.model).generateContent({
+                contents: [{ role: 'user', parts }],
+                ...(request.schema && {
+                    generationConfig: { responseMimeType: 'application/json', responseSchema: toResponseSchema(request.schema) }
+                })
+            });
+
+            return {
+                text: response.text() ?? '',
+                model: request.model,
+                usage: {
+                    inputTokens: response.usageMetadata?.promptTokenCount ?? 0,
+                    outputTokens: response.usageMetadata?.candidatesTokenCount ?? 0
+                }
+            };
+        } catch (error) {
+            throw new Error(`Failed to complete with Gemini: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Gemini does not report the tokens of embedding requests, so they are counted as zero
+     */
+    async embed(request: LlmEmbeddingRequest): Promise<LlmEmbedding> {
+        try {
+            const { embeddings } = await this.getModel(request.model).batchEmbedContents({
+                requests: request.texts.map(text => ({ content: { role: 'user', parts: [{ text }] } }))
+            });
+
+            return {
+                vectors: embeddings.map(embedding => embedding.values),
+                model: request.model,
+                usage: { inputTokens: 0, outputTokens: 0 }
+            };
+        } catch (error) {
+            throw new Error(`Failed to embed with Gemini: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * @private
+     */
+    private getModel(model: string): GenerativeModel {
+        let generativeModel = this.models.get(model);
+        if (!generativeModel) {
+            generativeModel = this.genAI.getGenerativeModel({ model });
+            this.models.set(model, generativeModel);
+        }
+        return generativeModel;
+    }
+}
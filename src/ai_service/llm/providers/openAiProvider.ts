@@ -0,0 +1,115 @@
+import axios from 'axios';
+import { toJsonSchema } from '../../responseSchema.js';
+import type { LlmCompletion, LlmCompletionRequest, LlmEmbedding, LlmEmbeddingRequest, LlmInput, LlmProvider } from '../types.js';
+
+/**
+ * Options for creating an OpenAiProvider
+ */
+export interface OpenAiProviderOptions {
+    /**
+     * API root, e.g. `https://api.openai.com/v1`, `http://localhost:11434/v1` for Ollama
+     * or `http://localhost:8080/v1` for a llama.cpp server
+     */
+    baseUrl: string;
+    /**
+     * Sent as bearer token; local servers usually need none
+     */
+    apiKey?: string;
+    /**
+     * Request timeout (ms)
+     */
+    timeoutMs?: number;
+}
+
+/**
+ * Response of the chat completions endpoint, reduced to the fields read
+ */
+interface ChatCompletionResponse {
+    model?: string;
+    choices: Array<{ message: { content: string | null } }>;
+    usage?: { prompt_tokens?: number; completion_tokens?: number };
+}
+
+/**
+ * Response of the embeddings endpoint, reduced to the fields read
+ */
+interface EmbeddingsResponse {
+    model?: string;
+    data: Array<{ index: number; embedding: number[] }>;
+    usage?: { prompt_tokens?: number };
+}
+
+/**
+ * Any server implementing the OpenAI chat completions API: OpenAI itself, Ollama, llama.cpp, vLLM, ...
+ * Images are sent as data URLs; videos are not supported by the API.
+ */
+export class OpenAiProvider implements LlmProvider {
+    readonly name = 'openai';
+    private readonly baseUrl: string;
+    private readonly apiKey?: string;
+    private readonly timeoutMs: number;
+
+    constructor(options: OpenAiProviderOptions) {
+        this.baseUrl = options.baseUrl.replace(/\/+$/, '');
+        this.apiKey = options.apiKey;
+        this.timeoutMs = options.timeoutMs ?? 120000;
+    }
+
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+        const body = {
+            model: request.model,
+            messages: [{ role: 'user', content: request.inputs.map(toContentPart) }],
+            ...(request.schema && {
+                response_format: { type: 'json_schema', json_schema: { name: 'response', schema: toJsonSchema(request.schema) } }
+            })
+        };
+
+        try {
+            const { data } = await axios.post<ChatCompletionResponse>(`${this.baseUrl}/chat/completions`, body, {
+                headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+                timeout: this.timeoutMs
+            });
+
+            return {
+                text: data.choices?.[0]?.message?.content ?? '',
+                model: data.model ?? request.model,
+                usage: {
+                    inputTokens: data.usage?.prompt_tokens ?? 0,
+                    outputTokens: data.usage?.completion_tokens ?? 0
+                }
+            };
+        } catch (error) {
+            throw new Error(`Failed to complete with ${this.baseUrl}: ${(error as Error).message}`);
+        }
+    }
+
+    async embed(request: LlmEmbeddingRequest): Promise<LlmEmbedding> {
+        try {
+            const { data } = await axios.post<EmbeddingsResponse>(`${this.baseUrl}/embeddings`, { model: request.model, input: request.texts }, {
+                headers: this.apiKey ? { Authorization: `Bearer ${this.apiKey}` } : {},
+                timeout: this.timeoutMs
+            });
+
+            return {
+                vectors: [...data.data].sort((a, b) => a.index - b.index).map(item => item.embedding),
+                model: data.model ?? request.model,
+                usage: { inputTokens: data.usage?.prompt_tokens ?? 0, outputTokens: 0 }
+            };
+        } catch (error) {
+            throw new Error(`Failed to embed with ${this.baseUrl}: ${(error as Error).message}`);
+        }
+    }
+}
+
+/**
+ * @private
+ */
+function toContentPart(input: LlmInput): Record<string, unknown> {
+    if (typeof input === 'string') {
+        return { type: 'text', text: input };
+    }
+    if (!input.mimeType.startsWith('image/') || !input.data) {
+        throw new Error(`Failed to complete with OpenAI-compatible provider: ${input.mimeType} inputs are not supported`);
+    }
+    return { type: 'image_url', image_url: { url: `data:${input.mimeType};base64,${input.data.toString('base64')}` } };
+}
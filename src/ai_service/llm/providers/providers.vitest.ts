@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import axios from 'axios';
+import { z } from 'zod';
+import type { GoogleGenerativeAI } from '@google/generative-ai';
+import { GeminiProvider } from './geminiProvider.js';
+import { OpenAiProvider } from './openAiProvider.js';
+import { StubLlmProvider } from './stubProvider.js';
+
+vi.mock('axios', () => ({
+  default: {
+    post: vi.fn()
+  }
+}));
+
+const schema = z.object({
+  hookType: z.enum(['question', 'testimonial']),
+  summary: z.string().optional(),
+  tags: z.array(z.string())
+});
+
+describe('OpenAiProvider', () => {
+  beforeEach(() => {
+    vi.mocked(axios.post).mockReset();
+  });
+
+  it('should send text, images and the JSON schema to the chat completions endpoint', async () => {
+    vi.mocked(axios.post).mockResolvedValue({
+      data: { model: 'llama-3.2', choices: [{ message: { content: '{"hookType":"question"}' } }], usage: { prompt_tokens: 12, completion_tokens: 4 } }
+    });
+    const provider = new OpenAiProvider({ baseUrl: 'http://localhost:8080/v1/' });
+
+    const completion = await provider.complete({ model: 'llama-3.2', inputs: ['Classify', { mimeType: 'image/png', data: Buffer.from('img') }], schema });
+
+    const [url, body, options] = vi.mocked(axios.post).mock.calls[0] as [string, {
+      messages: Array<{ content: unknown }>;
+      response_format: { json_schema: { schema: unknown } };
+    }, { headers: unknown }];
+    expect(url).toBe('http://localhost:8080/v1/chat/completions');
+    expect(body.messages[0].content).toEqual([
+      { type: 'text', text: 'Classify' },
+      { type: 'image_url', image_url: { url: `data:image/png;base64,${Buffer.from('img').toString('base64')}` } }
+    ]);
+    expect(body.response_format.json_schema.schema).toMatchObject({ required: ['hookType', 'tags'], additionalProperties: false });
+    expect(options.headers).toEqual({});
+    expect(completion).toEqual({ text: '{"hookType":"question"}', model: 'llama-3.2', usage: { inputTokens: 12, outputTokens: 4 } });
+  });
+
+  it('should return embeddings in the order of the texts', async () => {
+    vi.mocked(axios.post).mockResolvedValue({
+      data: { data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }], usage: { prompt_tokens: 6 } }
+    });
+    const provider = new OpenAiProvider({ baseUrl: 'http://localhost:11434/v1' });
+
+    const embedding = await provider.embed({ model: 'nomic-embed-text', texts: ['one', 'two'] });
+
+    expect(vi.mocked(axios.post).mock.calls[0][0]).toBe('http://localhost:11434/v1/embeddings');
+    expect(vi.mocked(axios.post).mock.calls[0][1]).toEqual({ model: 'nomic-embed-text', input: ['one', 'two'] });
+    expect(embedding).toEqual({ vectors: [[1, 0], [0, 1]], model: 'nomic-embed-text', usage: { inputTokens: 6, outputTokens: 0 } });
+  });
+
+  it('should reject video inputs', async () => {
+    const provider = new OpenAiProvider({ baseUrl: 'https://api.openai.com/v1', apiKey: 'key' });
+
+    await expect(provider.complete({ model: 'gpt-4o-mini', inputs: [{ mimeType: 'video/mp4', data: Buffer.from('v') }] }))
+      .rejects.toThrow('video/mp4 inputs are not supported');
+    expect(axios.post).not.toHaveBeenCalled();
+  });
+});
+
+describe('GeminiProvider', () => {
+  it('should request structured output from the model of the request and report its usage', async () => {
+    const generateContent = vi.fn().mockResolvedValue({
+      response: { text: () => '{"hookType":"question","tags":[]}', usageMetadata: { promptTokenCount: 20, candidatesTokenCount: 8 } }
+    });
+    const genAI = { getGenerativeModel: vi.fn(() => ({ generateContent })) } as unknown as GoogleGenerativeAI;
+    const provider = new GeminiProvider('key', genAI);
+
+    const completion = await provider.complete({ model: 'gemini-2.0-flash', inputs: ['Classify'], schema });
+    await provider.complete({ model: 'gemini-2.0-flash', inputs: ['Again'] });
+
+    expect(genAI.getGenerativeModel).toHaveBeenCalledTimes(1);
+    expect(genAI.getGenerativeModel).toHaveBeenCalledWith({ model: 'gemini-2.0-flash' });
+    expect(generateContent.mock.calls[0][0].generationConfig.responseMimeType).toBe('application/json');
+    expect(generateContent.mock.calls[1][0].generationConfig).toBeUndefined();
+    expect(completion.usage).toEqual({ inputTokens: 20, outputTokens: 8 });
+  });
+});
+
+describe('StubLlmProvider', () => {
+  it('should answer the same request with the same schema-valid JSON', async () => {
+    const provider = new StubLlmProvider();
+    const request = { model: 'stub', inputs: ['Classify', { mimeType: 'image/jpeg', data: Buffer.from('cover') }], schema };
+
+    const first = await provider.complete(request);
+    const second = await provider.complete(request);
+
+    expect(first).toEqual(second);
+    expect(schema.safeParse(JSON.parse(first.text)).success).toBe(true);
+    expect(first.usage.inputTokens).toBeGreaterThan(0);
+  });
+
+  it('should answer different prompts differently', async () => {
+    const provider = new StubLlmProvider();
+
+    const [first, second] = await Promise.all([
+      provider.complete({ model: 'stub', inputs: ['one'] }),
+      provider.complete({ model: 'stub', inputs: ['two'] })
+    ]);
+
+    expect(first.text).not.toBe(second.text);
+  });
+});
@@ -0,0 +1,99 @@
+import { createHash } from 'crypto';
+import { toJsonSchema } from '../../responseSchema.js';
+import type { LlmCompletion, LlmCompletionRequest, LlmEmbedding, LlmEmbeddingRequest, LlmInput, LlmProvider } from '../types.js';
+
+/**
+ * Tokens counted for each image or video, as no content is read
+ * @private
+ */
+const MEDIA_TOKENS = 258;
+
+/**
+ * Dimensions of stub embeddings
+ * @private
+ */
+const STUB_EMBEDDING_DIMENSIONS = 256;
+
+/**
+ * Offline stand-in for a model, for CI and local runs without API access. Answers are derived
+ * from a hash of the request, so the same request always gets the same answer, and JSON answers
+ * match the requested schema: enums pick one of their values, strings are `stub-<hash>`.
+ * Embeddings hash the words of a text into a fixed number of dimensions, so texts sharing words
+ * end up close to each other.
+ */
+export class StubLlmProvider implements LlmProvider {
+    readonly name = 'stub';
+
+    async complete(request: LlmCompletionRequest): Promise<LlmCompletion> {
+        const seed = createHash('sha256').update(JSON.stringify({ model: request.model, inputs: request.inputs.map(describe) })).digest('hex');
+        const text = request.schema
+            ? JSON.stringify(sample(toJsonSchema(request.schema), seed, ''))
+            : `stub answer ${seed.slice(0, 12)}`;
+
+        return {
+            text,
+            model: request.model,
+            usage: {
+                inputTokens: request.inputs.reduce((sum, input) => sum + (typeof input === 'string' ? Math.ceil(input.length / 4) : MEDIA_TOKENS), 0),
+                outputTokens: Math.ceil(text.length / 4)
+            }
+        };
+    }
+
+    async embed(request: LlmEmbeddingRequest): Promise<LlmEmbedding> {
+        return {
+            vectors: request.texts.map(embedWords),
+            model: request.model,
+            usage: { inputTokens: request.texts.reduce((sum, text) => sum + Math.ceil(text.length / 4), 0), outputTokens: 0 }
+        };
+    }
+}
+
+/**
+ * @private
+ */
+function embedWords(text: string): number[] {
+    const vector = new Array<number>(STUB_EMBEDDING_DIMENSIONS).fill(0);
+    for (const word of text.toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? []) {
+        const hash = createHash('sha256').update(word).digest();
+        vector[hash.readUInt32BE(0) % STUB_EMBEDDING_DIMENSIONS] += hash[4] % 2 === 0 ? 1 : -1;
+    }
+    return vector;
+}
+
+/**
+ * @private
+ */
+function describe(input: LlmInput): string {
+    if (typeof input === 'string') return input;
+    return `${input.mimeType}:${createHash('sha256').update(input.data ?? input.path ?? '').digest('hex')}`;
+}
+
+/**
+ * Builds a value of a JSON schema; `path` varies the values of the properties of an object
+ * @private
+ */
+function sample(schema: Record<string, unknown>, seed: string, path: string): unknown {
+    const hash = createHash('sha256').update(`${seed}/${path}`).digest();
+    const type = Array.isArray(schema.type) ? schema.type[0] : schema.type;
+
+    switch (type) {
+        case 'object':
+            return Object.fromEntries(Object.entries(schema.properties as Record<string, Record<string, unknown>>)
+                .map(([key, property]) => [key, sample(property, seed, `${path}/${key}`)]));
+        case 'array':
+            return [sample(schema.items as Record<string, unknown>, seed, `${path}/0`)];
+        case 'string': {
+            const values = schema.enum as string[] | undefined;
+            return values?.length ? values[hash.readUInt32BE(0) % values.length] : `stub-${hash.toString('hex').slice(0, 8)}`;
+        }
+        case 'integer':
+            return hash.readUInt32BE(0) % 100;
+        case 'number':
+            return hash.readUInt32BE(0) / 0xffffffff;
+        case 'boolean':
+            return hash[0] % 2 === 0;
+        default:
+            return null;
+    }
+}
@@ -0,0 +1,98 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash } from 'crypto';
+import { toJsonSchema } from '../responseSchema.js';
+import type { LlmCompletion, LlmCompletionRequest } from './types.js';
+
+/**
+ * Storage of model answers by request, so an identical request is not paid for twice
+ */
+export interface LlmResponseCache {
+    /**
+     * @param key - Request key from getLlmCacheKey
+     * @returns Stored answer, or null
+     */
+    get(key: string): Promise<LlmCompletion | null>;
+    /**
+     * Stores an answer
+     * @param key - Request key from getLlmCacheKey
+     * @param completion - Answer to store
+     */
+    set(key: string, completion: LlmCompletion): Promise<void>;
+}
+
+/**
+ * @private
+ */
+const sha256 = (data: string | Buffer): string => createHash('sha256').update(data).digest('hex');
+
+/**
+ * Builds the cache key of a request: the SHA-256 of its provider, model, prompt and schema,
+ * with media represented by the hash of its content
+ * @param provider - Provider name
+ * @param request - Completion request with the media content loaded
+ * @returns Key (hex)
+ */
+export function getLlmCacheKey(provider: string, request: LlmCompletionRequest): string {
+    return sha256(JSON.stringify({
+        provider,
+        model: request.model,
+        inputs: request.inputs.map(input => typeof input === 'string'
+            ? input
+            : { mimeType: input.mimeType, sha256: sha256(input.data ?? input.path ?? '') }),
+        schema: request.schema ? toJsonSchema(request.schema) : null
+    }));
+}
+
+/**
+ * Keeps answers for the lifetime of the process
+ */
+export class MemoryLlmCache implements LlmResponseCache {
+    private readonly entries = new Map<string, LlmCompletion>();
+
+    async get(key: string): Promise<LlmCompletion | null> {
+        return this.entries.get(key) ?? null;
+    }
+
+    async set(key: string, completion: LlmCompletion): Promise<void> {
+        this.entries.set(key, completion);
+    }
+}
+
+/**
+ * Keeps answers as JSON files in a directory, so they survive restarts
+ */
+export class FileLlmCache implements LlmResponseCache {
+    private readonly dir: string;
+
+    constructor(dir: string) {
+        this.dir = dir;
+    }
+
+    async get(key: string): Promise<LlmCompletion | null> {
+        try {
+            return JSON.parse(await fs.readFile(this.getPath(key), 'utf8')) as LlmCompletion;
+        } catch {
+            return null;
+        }
+    }
+
+    async set(key: string, completion: LlmCompletion): Promise<void> {
+        const filePath = this.getPath(key);
+        try {
+            await fs.mkdir(path.dirname(filePath), { recursive: true });
+            const tempPath = `${filePath}.${process.pid}.tmp`;
+            await fs.writeFile(tempPath, JSON.stringify(completion));
+            await fs.rename(tempPath, filePath);
+        } catch (error) {
+            throw new Error(`Failed to store LLM response: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * @private
+     */
+    private getPath(key: string): string {
+        return path.join(this.dir, key.slice(0, 2), `${key}.json`);
+    }
+}
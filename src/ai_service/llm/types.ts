@@ -0,0 +1,107 @@
+import type { ZodTypeAny } from 'zod';
+
+/**
+ * Image or video sent along with a prompt
+ */
+export interface LlmMediaInput {
+    mimeType: string;
+    /**
+     * File content; read from `path` when unset
+     */
+    data?: Buffer;
+    path?: string;
+}
+
+/**
+ * Part of a prompt: text or media
+ */
+export type LlmInput = string | LlmMediaInput;
+
+/**
+ * Tokens used by a completion
+ */
+export interface LlmUsage {
+    inputTokens: number;
+    outputTokens: number;
+}
+
+/**
+ * Completion request sent to a provider
+ */
+export interface LlmCompletionRequest {
+    model: string;
+    /**
+     * Prompt; media is always given with its content
+     */
+    inputs: LlmInput[];
+    /**
+     * Schema of a JSON answer (optional); providers pass it to their structured output mode
+     */
+    schema?: ZodTypeAny;
+}
+
+/**
+ * Answer of a provider
+ */
+export interface LlmCompletion {
+    text: string;
+    /**
+     * Model that answered, as reported by the provider
+     */
+    model: string;
+    usage: LlmUsage;
+}
+
+/**
+ * Embedding request sent to a provider
+ */
+export interface LlmEmbeddingRequest {
+    model: string;
+    texts: string[];
+}
+
+/**
+ * Vectors of the texts of an embedding request, in the same order
+ */
+export interface LlmEmbedding {
+    vectors: number[][];
+    model: string;
+    usage: LlmUsage;
+}
+
+/**
+ * Backend of a language model API
+ */
+export interface LlmProvider {
+    /**
+     * Name used to select the provider in the configuration
+     */
+    readonly name: string;
+
+    /**
+     * Sends a prompt to the model
+     * @param request - Model, prompt and optional answer schema
+     * @returns Answer text and token usage
+     */
+    complete(request: LlmCompletionRequest): Promise<LlmCompletion>;
+
+    /**
+     * Turns texts into vectors; left out by providers without an embeddings API
+     * @param request - Model and texts
+     * @returns One vector per text
+     */
+    embed?(request: LlmEmbeddingRequest): Promise<LlmEmbedding>;
+}
+
+/**
+ * Answer returned by LlmService
+ */
+export interface LlmResult<T> {
+    value: T;
+    model: string;
+    usage: LlmUsage;
+    /**
+     * Whether the answer came from the response cache
+     */
+    cached: boolean;
+}
@@ -0,0 +1,101 @@
+import type { LlmUsage } from './types.js';
+
+/**
+ * Price of a model in USD per million tokens
+ */
+export interface LlmPrice {
+    input: number;
+    output: number;
+}
+
+/**
+ * Usage of one model for one task
+ */
+export interface LlmUsageEntry extends LlmUsage {
+    task: string;
+    model: string;
+    requests: number;
+    /**
+     * Requests answered from the response cache; their tokens are not counted
+     */
+    cachedRequests: number;
+    costUsd: number;
+}
+
+export type LlmUsageTotals = Omit<LlmUsageEntry, 'task' | 'model'>;
+
+/**
+ * Parses prices given as `input:output` per model, e.g. `{ 'gpt-4o-mini': '0.15:0.6' }`
+ * @param values - Prices by model name
+ * @returns Parsed prices; malformed entries are left out
+ */
+export function parseLlmPrices(values: Record<string, string>): Record<string, LlmPrice> {
+    const prices: Record<string, LlmPrice> = {};
+    for (const [model, value] of Object.entries(values)) {
+        const [input, output] = value.split(':').map(Number);
+        if (Number.isFinite(input) && Number.isFinite(output)) {
+            prices[model] = { input, output };
+        }
+    }
+    return prices;
+}
+
+/**
+ * Adds up the tokens and cost of model requests by task and model.
+ * Models without a price are counted at no cost.
+ */
+export class LlmUsageTracker {
+    private readonly prices: Record<string, LlmPrice>;
+    private readonly entries = new Map<string, LlmUsageEntry>();
+
+    constructor(prices: Record<string, LlmPrice> = {}) {
+        this.prices = prices;
+    }
+
+    /**
+     * Records a request
+     * @param task - Task the request was made for
+     * @param model - Model that answered
+     * @param usage - Tokens of the request
+     * @param cached - Whether the answer came from the cache
+     */
+    record(task: string, model: string, usage: LlmUsage, cached = false): void {
+        const key = `${task}\u0000${model}`;
+        const entry = this.entries.get(key) ?? { task, model, requests: 0, cachedRequests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+
+        entry.requests++;
+        if (cached) {
+            entry.cachedRequests++;
+        } else {
+            const price = this.prices[model];
+            entry.inputTokens += usage.inputTokens;
+            entry.outputTokens += usage.outputTokens;
+            if (price) {
+                entry.costUsd += (usage.inputTokens * price.input + usage.outputTokens * price.output) / 1_000_000;
+            }
+        }
+        this.entries.set(key, entry);
+    }
+
+    /**
+     * @returns Usage by task and model
+     */
+    getEntries(): LlmUsageEntry[] {
+        return [...this.entries.values()].map(entry => ({ ...entry }));
+    }
+
+    /**
+     * @returns Usage of all tasks and models
+     */
+    getTotals(): LlmUsageTotals {
+        const totals: LlmUsageTotals = { requests: 0, cachedRequests: 0, inputTokens: 0, outputTokens: 0, costUsd: 0 };
+        for (const entry of this.entries.values()) {
+            totals.requests += entry.requests;
+            totals.cachedRequests += entry.cachedRequests;
+            totals.inputTokens += entry.inputTokens;
+            totals.outputTokens += entry.outputTokens;
+            totals.costUsd += entry.costUsd;
+        }
+        return totals;
+    }
+}
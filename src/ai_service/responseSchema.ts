@@ -0,0 +1,153 @@
+import { ResponseSchema, Schema, SchemaType } from "@google/generative-ai";
+import { z, ZodType, ZodTypeAny, ZodTypeDef } from "zod";
+
+/**
+ * Converts a zod schema into the response schema of Gemini's structured output mode, so a single
+ * schema both constrains the answer and validates it. Refinements, transforms and defaults are
+ * only applied by zod; Gemini sees the schema they wrap.
+ * @param schema - Zod schema of the answer
+ * @returns Response schema for `generationConfig.responseSchema`
+ * @throws Error for types Gemini schemas cannot express, e.g. unions
+ */
+export function toResponseSchema(schema: ZodTypeAny): ResponseSchema {
+    return convert(schema);
+}
+
+/**
+ * Converts a zod schema into the JSON Schema of OpenAI-compatible structured output
+ * @param schema - Zod schema of the answer
+ * @returns JSON Schema for `response_format.json_schema.schema`
+ * @throws Error for types Gemini schemas cannot express; both backends accept the same schemas
+ */
+export function toJsonSchema(schema: ZodTypeAny): Record<string, unknown> {
+    return toJson(convert(schema));
+}
+
+/**
+ * Options for requestStructuredOutput
+ */
+export interface StructuredOutputOptions<T> {
+    /**
+     * Schema the answer is validated against
+     */
+    schema: ZodType<T, ZodTypeDef, unknown>;
+    /**
+     * Attempts after the first one when the answer does not match the schema
+     */
+    retries: number;
+    /**
+     * Name of the model backend in error messages, e.g. `Gemini`
+     */
+    backend: string;
+    /**
+     * Called with the validation error before asking again (optional)
+     */
+    onInvalidAnswer?: (error: string, attempt: number) => void;
+}
+
+/**
+ * Thrown when the model keeps answering with output that does not match the schema
+ */
+export class StructuredOutputError extends Error {
+    constructor(message: string, public readonly output?: string) {
+        super(message);
+        this.name = "StructuredOutputError";
+    }
+}
+
+/**
+ * Asks for a JSON answer until one matches the schema. Invalid answers are asked for again, telling the
+ * model what was wrong.
+ * @param ask - Sends the prompt with the feedback texts appended and returns the answer
+ * @param options - Schema of the answer, number of retries and backend name
+ * @returns Validated value, the answer it was read from and the number of attempts
+ * @throws StructuredOutputError when no answer matched the schema
+ */
+export async function requestStructuredOutput<T, A extends { text: string }>(
+    ask: (feedback: string[]) => Promise<A>,
+    options: StructuredOutputOptions<T>
+): Promise<{ data: T; answer: A; attempts: number }> {
+    for (let attempt = 0, feedback: string[] = []; ; attempt++) {
+        const answer = await ask(feedback);
+
+        const result = parseStructuredOutput(answer.text, options.schema);
+        if (result.success) {
+            return { data: result.data, answer, attempts: attempt + 1 };
+        }
+        if (attempt >= options.retries) {
+            throw new StructuredOutputError(`Failed to generate object with ${options.backend} after ${attempt + 1} attempt(s): ${result.error}`, answer.text);
+        }
+        options.onInvalidAnswer?.(result.error, attempt + 1);
+        feedback = [`Your previous answer was invalid (${result.error}). Answer again with JSON that matches the schema.`];
+    }
+}
+
+/**
+ * Reads a JSON answer, which may be wrapped in a Markdown code block, and validates it
+ * @param output - Model answer
+ * @param schema - Schema of the answer
+ * @returns Validated value, or a description of what is wrong for asking the model again
+ */
+export function parseStructuredOutput<T>(output: string, schema: ZodType<T, ZodTypeDef, unknown>): { success: true; data: T } | { success: false; error: string } {
+    let value: unknown;
+    try {
+        value = JSON.parse(output.trim().replace(/^```(?:json)?\s*/i, "").replace(/\s*```$/, ""));
+    } catch (error: unknown) {
+        return { success: false, error: `not valid JSON: ${(error as Error).message}` };
+    }
+
+    const result = schema.safeParse(value);
+    if (!result.success) {
+        return { success: false, error: result.error.issues.map(issue => `${issue.path.join(".")}: ${issue.message}`).join("; ") };
+    }
+    return { success: true, data: result.data };
+}
+
+/**
+ * @private
+ */
+function convert(schema: ZodTypeAny, nullable = false): Schema {
+    const base = {
+        ...(schema.description && { description: schema.description }),
+        ...(nullable && { nullable: true })
+    };
+
+    if (schema instanceof z.ZodEffects) return convert(schema.innerType(), nullable);
+    if (schema instanceof z.ZodOptional || schema instanceof z.ZodDefault) return convert(schema._def.innerType, nullable);
+    if (schema instanceof z.ZodNullable) return convert(schema.unwrap(), true);
+
+    if (schema instanceof z.ZodString) return { ...base, type: SchemaType.STRING };
+    if (schema instanceof z.ZodEnum) return { ...base, type: SchemaType.STRING, enum: [...schema.options] };
+    if (schema instanceof z.ZodNumber) return { ...base, type: schema.isInt ? SchemaType.INTEGER : SchemaType.NUMBER };
+    if (schema instanceof z.ZodBoolean) return { ...base, type: SchemaType.BOOLEAN };
+    if (schema instanceof z.ZodArray) return { ...base, type: SchemaType.ARRAY, items: convert(schema.element) };
+    if (schema instanceof z.ZodObject) {
+        const shape = schema.shape as Record<string, ZodTypeAny>;
+        return {
+            ...base,
+            type: SchemaType.OBJECT,
+            properties: Object.fromEntries(Object.entries(shape).map(([key, value]) => [key, convert(value)])),
+            required: Object.keys(shape).filter(key => !shape[key].isOptional())
+        };
+    }
+
+    throw new Error(`Failed to convert schema: ${schema._def.typeName} is not supported by Gemini`);
+}
+
+/**
+ * JSON Schema has no `nullable`; null is added to the types instead
+ * @private
+ */
+function toJson(schema: Schema): Record<string, unknown> {
+    const { nullable, ...json } = schema as Schema & { nullable?: boolean };
+    const result: Record<string, unknown> = { ...json, ...(nullable && { type: [schema.type, "null"] }) };
+
+    if (schema.type === SchemaType.OBJECT) {
+        result.properties = Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toJson(value)]));
+        result.additionalProperties = false;
+    }
+    if (schema.type === SchemaType.ARRAY) {
+        result.items = toJson(schema.items);
+    }
+    return result;
+}
@@ -0,0 +1,58 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { requestStructuredOutput, StructuredOutputError, toResponseSchema } from './responseSchema.js';
+
+describe('toResponseSchema', () => {
+  it('should convert nested objects, arrays and nullable fields', () => {
+    const schema = z.object({
+      tags: z.array(z.string().describe('Lowercase tag')),
+      score: z.number().nullable(),
+      label: z.preprocess(value => value, z.enum(['a', 'b'])),
+      ok: z.boolean().default(false)
+    });
+
+    expect(toResponseSchema(schema)).toEqual({
+      type: 'object',
+      properties: {
+        tags: { type: 'array', items: { type: 'string', description: 'Lowercase tag' } },
+        score: { type: 'number', nullable: true },
+        label: { type: 'string', enum: ['a', 'b'] },
+        ok: { type: 'boolean' }
+      },
+      required: ['tags', 'score', 'label']
+    });
+  });
+
+  it('should reject types Gemini cannot express', () => {
+    expect(() => toResponseSchema(z.union([z.string(), z.number()]))).toThrow('ZodUnion is not supported');
+  });
+});
+
+describe('requestStructuredOutput', () => {
+  const schema = z.object({ label: z.enum(['a', 'b']) });
+
+  it('should ask again with the validation error until the answer matches', async () => {
+    const ask = vi.fn()
+      .mockResolvedValueOnce({ text: '{"label":"c"}' })
+      .mockResolvedValueOnce({ text: '```json\n{"label":"a"}\n```' });
+    const onInvalidAnswer = vi.fn();
+
+    const result = await requestStructuredOutput(ask, { schema, retries: 2, backend: 'stub', onInvalidAnswer });
+
+    expect(result).toEqual({ data: { label: 'a' }, answer: { text: '```json\n{"label":"a"}\n```' }, attempts: 2 });
+    expect(ask.mock.calls[0][0]).toEqual([]);
+    expect(ask.mock.calls[1][0][0]).toContain('label: Invalid enum value');
+    expect(onInvalidAnswer).toHaveBeenCalledWith(expect.stringContaining('label'), 1);
+  });
+
+  it('should throw with the last answer once the retries are used up', async () => {
+    const ask = vi.fn(async () => ({ text: 'not json' }));
+
+    const error = await requestStructuredOutput(ask, { schema, retries: 1, backend: 'stub' }).catch(e => e);
+
+    expect(error).toBeInstanceOf(StructuredOutputError);
+    expect(error.message).toMatch(/^Failed to generate object with stub after 2 attempt\(s\): not valid JSON/);
+    expect(error.output).toBe('not json');
+    expect(ask).toHaveBeenCalledTimes(2);
+  });
+});
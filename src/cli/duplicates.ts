@@ -0,0 +1,128 @@
+import 'dotenv/config';
+import { log } from 'crawlee';
+import { config } from '../config.js';
+import { createConfiguredDatabase } from '../services/database/configuredDatabase.js';
+import type { CreativeClusterData, IDatabase } from '../services/database/types.js';
+import { createMediaStore } from '../services/media/mediaStore.js';
+import { CreativeHasher } from '../services/duplicates/creativeHasher.js';
+import { CreativeClusterer } from '../services/duplicates/creativeClusters.js';
+import { PerceptualHasher } from '../services/duplicates/perceptualHasher.js';
+
+const USAGE = `Usage: npm run duplicates -- <command> [args] [option=value ...]
+
+Commands:
+  hash                 Hash the covers and downloaded videos of stored ads that have no hashes yet
+  cluster              Group ads with near-identical covers or frames (at most ${config.duplicates.maxDistance} bits apart)
+                       into creative clusters, replacing the previous clusters
+  report               List the creatives running under the most ad IDs
+  show <adId>          List the ads sharing the creative of an ad
+
+Options of report:
+  minAds=2             Only creatives running under at least this many ad IDs
+  limit=20             Number of creatives
+  json=true            Print the clusters as JSON`;
+
+/**
+ * @private
+ */
+function describe(cluster: CreativeClusterData): string {
+    const countries = cluster.countryCount === 1 ? '1 country' : `${cluster.countryCount} countries`;
+    return `runs under ${cluster.adCount} ${cluster.adCount === 1 ? 'ID' : 'IDs'} across ${countries}`;
+}
+
+/**
+ * @private
+ */
+async function printClusters(db: IDatabase, clusters: CreativeClusterData[], json: boolean): Promise<void> {
+    if (json) {
+        console.log(JSON.stringify(clusters, null, 2));
+        return;
+    }
+    if (clusters.length === 0) {
+        console.log('No matching creatives; run "npm run duplicates -- hash" and "npm run duplicates -- cluster" first.');
+        return;
+    }
+
+    const rows = [];
+    for (const cluster of clusters) {
+        const ad = await db.findAdById(cluster.clusterId);
+        rows.push({
+            clusterId: cluster.clusterId,
+            creative: describe(cluster),
+            advertisers: cluster.advertiserCount,
+            countries: cluster.countryCodes.join(', '),
+            title: (ad?.metadata as { adTitle?: string } | undefined)?.adTitle?.slice(0, 60)
+        });
+    }
+    console.table(rows);
+}
+
+/**
+ * Hashes stored ad creatives, clusters near-duplicates and reports them
+ */
+async function main(): Promise<number> {
+    const [command, ...args] = process.argv.slice(2);
+    if (!command) {
+        console.log(USAGE);
+        return 0;
+    }
+    if (!['hash', 'cluster', 'report', 'show'].includes(command) || (command === 'show' && !args[0])) {
+        console.error(USAGE);
+        return 1;
+    }
+
+    const db = createConfiguredDatabase();
+    await db.connect();
+
+    try {
+        if (command === 'hash') {
+            const hasher = new CreativeHasher(log, new PerceptualHasher({ ffmpegPath: config.analysis.ffmpegPath }), {
+                mediaStore: createMediaStore(config.media),
+                frameCount: config.duplicates.videoFrames
+            });
+            console.table([await hasher.hashAds(db)]);
+            return 0;
+        }
+
+        if (command === 'cluster') {
+            console.table([await new CreativeClusterer(log, db, config.duplicates.maxDistance).cluster()]);
+            return 0;
+        }
+
+        if (command === 'show') {
+            const [cluster] = await db.findCreativeClusters({ adId: args[0] });
+            if (!cluster) {
+                throw new Error(`Ad ${args[0]} is not in a creative cluster; run "npm run duplicates -- hash" and "npm run duplicates -- cluster" first`);
+            }
+            console.log(`The creative of ad ${args[0]} ${describe(cluster)}:`);
+            const ads = await Promise.all(cluster.adIds.map(adId => db.findAdById(adId)));
+            console.table(ads.map((ad, i) => ({
+                adId: cluster.adIds[i],
+                country: ad?.countryCode,
+                advertiser: ad?.advertiserName,
+                creativeId: ad?.creativeId
+            })));
+            return 0;
+        }
+
+        const values = Object.fromEntries(args.map(arg => {
+            const separator = arg.indexOf('=');
+            return separator > 0 ? [arg.slice(0, separator), arg.slice(separator + 1)] : [arg, ''];
+        }));
+        const unknown = Object.keys(values).filter(key => !['minAds', 'limit', 'json'].includes(key));
+        if (unknown.length > 0) {
+            throw new Error(`Unknown option(s): ${unknown.join(', ')}`);
+        }
+
+        const clusters = await db.findCreativeClusters({ minAds: values.minAds ? parseInt(values.minAds, 10) : 2 });
+        await printClusters(db, clusters.slice(0, values.limit ? parseInt(values.limit, 10) : 20), values.json === 'true');
+        return 0;
+    } catch (error) {
+        console.error((error as Error).message);
+        return 1;
+    } finally {
+        await db.disconnect().catch(() => {});
+    }
+}
+
+process.exitCode = await main();
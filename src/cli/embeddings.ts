@@ -0,0 +1,134 @@
+import 'dotenv/config';
+import { log } from 'crawlee';
+import { config } from '../config.js';
+import { createLlmService } from '../ai_service/llm/factory.js';
+import { createConfiguredDatabase } from '../services/database/configuredDatabase.js';
+import { createMediaStore } from '../services/media/mediaStore.js';
+import { AdEmbedder } from '../services/embeddings/adEmbedder.js';
+import { AD_EMBEDDING_KINDS, AdEmbeddingKind, AdVectorFilter, AdVectorIndex } from '../services/embeddings/adVectorIndex.js';
+import { AdSearchOptions, AdSearchResult, AdSimilaritySearch } from '../services/embeddings/adSimilaritySearch.js';
+
+const FILTER_KEYS = ['countryCode', 'advertiserName', 'industryKey', 'objectiveKey', 'hookType', 'offer', 'tone', 'productCategory', 'cta'] as const;
+
+const USAGE = `Usage: npm run embeddings -- <command> [args] [option=value ...]
+
+Commands:
+  index                Vectorize the titles, analyses and (with EMBEDDINGS_COVERS=true) covers of all stored ads
+                       into ${config.embeddings.indexPath}; unchanged ads are skipped
+  similar <adId>       List the ads most similar to a stored ad
+  search "<text>"      List the ads closest to a text, e.g. "skincare testimonial"
+
+Options of similar and search:
+  limit=10             Number of ads
+  kinds=title,cover    Vectors to compare (${AD_EMBEDDING_KINDS.join(', ')})
+  json=true            Print the results with all ad fields as JSON
+  ${FILTER_KEYS.join('=, ')}=
+                       Only ads with this value, e.g. countryCode=US hookType=testimonial`;
+
+/**
+ * Reads the option=value arguments of a search
+ * @private
+ */
+function parseOptions(args: string[]): AdSearchOptions & { json: boolean } {
+    const values = Object.fromEntries(args.map(arg => {
+        const separator = arg.indexOf('=');
+        return separator > 0 ? [arg.slice(0, separator), arg.slice(separator + 1)] : [arg, ''];
+    }));
+
+    const unknown = Object.keys(values).filter(key => !['limit', 'kinds', 'json', ...FILTER_KEYS].includes(key));
+    if (unknown.length > 0) {
+        throw new Error(`Unknown option(s): ${unknown.join(', ')}`);
+    }
+
+    const kinds = values.kinds?.split(',').map((kind: string) => kind.trim()).filter(Boolean);
+    const invalidKinds = kinds?.filter((kind: string) => !AD_EMBEDDING_KINDS.includes(kind as AdEmbeddingKind)) ?? [];
+    if (invalidKinds.length > 0) {
+        throw new Error(`Unknown kind(s): ${invalidKinds.join(', ')}; expected ${AD_EMBEDDING_KINDS.join(', ')}`);
+    }
+
+    const filter: AdVectorFilter = {};
+    for (const key of FILTER_KEYS) {
+        if (values[key]) filter[key] = values[key];
+    }
+
+    return {
+        limit: values.limit ? parseInt(values.limit, 10) : undefined,
+        kinds: kinds as AdEmbeddingKind[] | undefined,
+        filter,
+        json: values.json === 'true'
+    };
+}
+
+/**
+ * @private
+ */
+function printResults(results: AdSearchResult[], json: boolean): void {
+    if (json) {
+        console.log(JSON.stringify(results, null, 2));
+        return;
+    }
+    if (results.length === 0) {
+        console.log('No matching ads.');
+        return;
+    }
+    console.table(results.map(result => ({
+        adId: result.adId,
+        score: Number(result.score.toFixed(3)),
+        matchedBy: result.matchedBy,
+        title: result.payload.title?.slice(0, 60),
+        country: result.payload.countryCode,
+        advertiser: result.payload.advertiserName,
+        hookType: result.payload.hookType,
+        productCategory: result.payload.productCategory,
+        filters: result.filterContext ? JSON.stringify(result.filterContext) : undefined
+    })));
+}
+
+/**
+ * Builds and queries the embedding index of the stored ads
+ */
+async function main(): Promise<number> {
+    const [command, subject, ...args] = process.argv.slice(2);
+    if (!command || (command !== 'index' && !subject)) {
+        console.log(USAGE);
+        return command ? 1 : 0;
+    }
+    if (!['index', 'similar', 'search'].includes(command)) {
+        console.error(USAGE);
+        return 1;
+    }
+
+    const llm = createLlmService(log);
+    const index = await AdVectorIndex.open(config.embeddings.indexPath);
+    const db = createConfiguredDatabase();
+    await db.connect();
+
+    try {
+        if (command === 'index') {
+            const embedder = new AdEmbedder(log, llm, index, {
+                mediaStore: config.embeddings.covers ? createMediaStore(config.media) : undefined,
+                batchSize: config.embeddings.batchSize
+            });
+            try {
+                const stats = await embedder.indexAds(db);
+                console.table([stats]);
+            } finally {
+                await index.save();
+                log.info('Language model usage', { ...llm.usage.getTotals() });
+            }
+            return 0;
+        }
+
+        const { json, ...options } = parseOptions(args);
+        const search = new AdSimilaritySearch(llm, index, db);
+        printResults(command === 'similar' ? await search.similarToAd(subject, options) : await search.search(subject, options), json);
+        return 0;
+    } catch (error) {
+        console.error((error as Error).message);
+        return 1;
+    } finally {
+        await db.disconnect().catch(() => {});
+    }
+}
+
+process.exitCode = await main();
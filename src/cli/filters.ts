@@ -0,0 +1,87 @@
+import 'dotenv/config';
+import { log } from 'crawlee';
+import { chromium } from 'playwright';
+import { config } from '../config.js';
+import { handleCookieConsent } from '../steps/handleCookieConsent.js';
+import { FilterEngine } from '../services/filters/filterEngine.js';
+import {
+    FILTER_CATALOG_VERSION,
+    formatFilterCatalogIssues,
+    loadFilterCatalog,
+    saveFilterCatalog,
+    validateFilterValues
+} from '../services/filters/catalog.js';
+
+const TOP_ADS_URL = 'https://ads.tiktok.com/business/creativecenter/inspiration/topads/pc/en';
+
+const USAGE = `Usage: npm run filters -- <command> [url]
+
+Commands:
+  discover [url]  Open the Top Ads page, read the options of every filter including the industry tree
+                  and save them to ${config.paths.filterCatalog}
+  check           Check the configured FILTER_* values against the saved catalog`;
+
+/**
+ * Reads the filter options from the Top Ads page and saves them as the catalog
+ * @param url - Top Ads page to read
+ */
+async function discover(url: string): Promise<number> {
+    const browser = await chromium.launch({ headless: config.crawler.headless });
+    try {
+        const page = await browser.newPage({ viewport: { width: 1920, height: 1080 } });
+        await page.goto(url, { waitUntil: 'domcontentloaded' });
+        if (await page.$('div.tiktok-cookie-banner')) {
+            await handleCookieConsent(page, log);
+        }
+        await page.waitForSelector('#topadsRegion', { timeout: 60000 });
+
+        const filters = await new FilterEngine(log, page).discoverOptions();
+        if (Object.keys(filters).length === 0) {
+            console.error('No filter options found on the page.');
+            return 1;
+        }
+
+        saveFilterCatalog(config.paths.filterCatalog, {
+            version: FILTER_CATALOG_VERSION,
+            discoveredAt: new Date().toISOString(),
+            url,
+            filters
+        });
+        console.table(Object.entries(filters).map(([filter, options]) => ({ filter, options: options.length })));
+        console.log(`Filter catalog saved to ${config.paths.filterCatalog}`);
+        return 0;
+    } finally {
+        await browser.close();
+    }
+}
+
+/**
+ * Discovers and checks the filter option catalog
+ */
+async function main(): Promise<number> {
+    const [command, url] = process.argv.slice(2);
+
+    switch (command) {
+        case 'discover':
+            return discover(url ?? TOP_ADS_URL);
+        case 'check': {
+            const catalog = loadFilterCatalog(config.paths.filterCatalog);
+            if (!catalog) {
+                console.error(`No filter catalog at ${config.paths.filterCatalog}; run "npm run filters -- discover" first.`);
+                return 1;
+            }
+            const issues = validateFilterValues(config.filters, catalog);
+            if (issues.length > 0) {
+                console.error(formatFilterCatalogIssues(issues));
+                return 2;
+            }
+            console.log(`Configured filters match the catalog discovered at ${catalog.discoveredAt}.`);
+            return 0;
+        }
+        default:
+            console.log(USAGE);
+            return command ? 1 : 0;
+    }
+}
+
+process.exitCode = await main();
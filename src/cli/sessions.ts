@@ -0,0 +1,69 @@
+import dotenv from 'dotenv';
+import { log } from 'crawlee';
+import { SessionVault } from '../services/sessionVault.js';
+
+// Load environment variables
+dotenv.config();
+
+const USAGE = `Usage: npm run sessions -- <command> [email]
+
+Commands:
+  list            List stored sessions with their creation, last check and expiry times
+  check [email]   Decrypt and validate one session, or all sessions if no email is given
+  revoke <email>  Delete the stored session of an account`;
+
+/**
+ * Manages the encrypted TikTok sessions stored by the session vault
+ */
+async function main(): Promise<number> {
+    const [command, email] = process.argv.slice(2);
+
+    if (!process.env.SESSION_VAULT_KEY) {
+        console.error('SESSION_VAULT_KEY environment variable is not set.');
+        return 1;
+    }
+
+    const vault = new SessionVault(log, { secret: process.env.SESSION_VAULT_KEY });
+
+    switch (command) {
+        case 'list': {
+            const entries = vault.list();
+            if (entries.length === 0) {
+                console.log('No stored sessions.');
+                return 0;
+            }
+            console.table(entries.map(entry => ({
+                ...entry,
+                expired: new Date(entry.expiresAt).getTime() <= Date.now()
+            })));
+            return 0;
+        }
+        case 'check': {
+            const emails = email ? [email] : vault.list().map(entry => entry.email);
+            const results = emails.map(item => vault.check(item));
+            if (results.length === 0) {
+                console.log('No stored sessions.');
+                return 0;
+            }
+            console.table(results);
+            return results.every(result => result.status === 'valid') ? 0 : 2;
+        }
+        case 'revoke': {
+            if (!email) {
+                console.error(USAGE);
+                return 1;
+            }
+            if (!vault.revoke(email)) {
+                console.error(`No stored session for ${email}`);
+                return 1;
+            }
+            console.log(`Session for ${email} revoked.`);
+            return 0;
+        }
+        default:
+            console.log(USAGE);
+            return command ? 1 : 0;
+    }
+}
+
+process.exitCode = await main();
@@ -14,6 +14,40 @@ export const config = {
         password: Env.TIKTOK_PASSWORD,
     },
 
+    // Accounts rotated by SessionManager; falls back to the single credentials above
+    accounts: Env.TIKTOK_ACCOUNTS.length > 0
+        ? Env.TIKTOK_ACCOUNTS
+        : [{ email: Env.TIKTOK_EMAIL, password: Env.TIKTOK_PASSWORD }],
+
+    // Encrypted session storage
+    sessions: {
+        // Secret the session encryption key is derived from
+        vaultKey: Env.SESSION_VAULT_KEY,
+        // Lifetime of sessions whose auth cookies have no expiry (ms)
+        defaultTtl: Env.SESSION_VAULT_TTL_HOURS * 60 * 60 * 1000,
+    },
+
+    // Email verification codes
+    verification: {
+        // Provider used for accounts not listed in `providers`: http, imap or manual
+        defaultProvider: Env.VERIFICATION_PROVIDER,
+        // Provider per account email
+        providers: Env.VERIFICATION_PROVIDERS,
+        // How long to wait for a code (ms)
+        timeout: Env.VERIFICATION_CODE_TIMEOUT_SECONDS * 1000,
+        // File the manual provider reads the code from; stdin when not set
+        codeFile: Env.VERIFICATION_CODE_FILE,
+        // Mailbox read by the IMAP provider; the user defaults to the account email
+        imap: {
+            host: Env.IMAP_HOST,
+            port: Env.IMAP_PORT,
+            secure: Env.IMAP_SECURE,
+            user: Env.IMAP_USER,
+            password: Env.IMAP_PASSWORD,
+            mailbox: Env.IMAP_MAILBOX,
+        },
+    },
+
     // Crawler settings
     crawler: {
         // Maximum wait time in milliseconds for debugging/inspection
@@ -28,12 +62,140 @@ export const config = {
         // Time to wait between actions to appear more human-like (ms)
         humanDelayMin: Env.CRAWLER_HUMAN_DELAY_MIN,
         humanDelayMax: Env.CRAWLER_HUMAN_DELAY_MAX,
+
+        // How ads are collected: 'scroll' drives the page, 'api' replays captured requests directly
+        collectionMode: Env.CRAWLER_COLLECTION_MODE,
+
+        // Pagination checkpoints older than this are ignored and the job is crawled again (ms)
+        checkpointMaxAge: Env.CRAWLER_CHECKPOINT_MAX_AGE_HOURS * 60 * 60 * 1000,
+
+        // Run the browser without a window; CAPTCHAs then need the remote console
+        headless: Env.CRAWLER_HEADLESS,
+
+        // How filters are applied: 'url' opens the page with query params and only selects the rest
+        // in the dropdowns, 'ui' selects every filter in the dropdowns
+        filterMode: Env.CRAWLER_FILTER_MODE,
+
+        // Detail pages crawled for every newly stored ad
+        details: {
+            // Queue a DETAIL request per new ad
+            enabled: Env.CRAWLER_DETAILS_ENABLED,
+            // Details younger than this are not crawled again (ms)
+            maxAge: Env.CRAWLER_DETAILS_MAX_AGE_HOURS * 60 * 60 * 1000,
+            // Minimum time between two detail pages; doubled while TikTok rate-limits (ms)
+            minInterval: Env.CRAWLER_DETAILS_MIN_INTERVAL_MS,
+        },
+
+        // Creative Center sections to crawl: 'topads' plus any of 'hashtags', 'songs', 'creators', 'videos', 'products',
+        // 'keywords', 'dashboard'
+        sections: Env.CRAWLER_SECTIONS,
+
+        // List pages loaded per trend section and market
+        sectionMaxPages: Env.CRAWLER_SECTION_MAX_PAGES,
+    },
+
+    // Covers and videos of newly stored ads, downloaded before their signed links expire
+    media: {
+        // Download media for every new ad
+        enabled: Env.MEDIA_DOWNLOAD_ENABLED,
+        // Where files are stored: 'disk' under dir, or 's3' in an S3-compatible bucket
+        storage: Env.MEDIA_STORAGE,
+        dir: Env.MEDIA_DIR,
+        // Files downloaded at the same time
+        concurrency: Env.MEDIA_DOWNLOAD_CONCURRENCY,
+        // Retries per file for network errors, rate limits and server errors
+        retries: Env.MEDIA_DOWNLOAD_RETRIES,
+        s3: {
+            bucket: Env.MEDIA_S3_BUCKET,
+            prefix: Env.MEDIA_S3_PREFIX,
+            region: Env.MEDIA_S3_REGION,
+            // Leave unset for AWS; set for MinIO, R2 and other S3-compatible stores
+            endpoint: Env.MEDIA_S3_ENDPOINT,
+            accessKeyId: Env.MEDIA_S3_ACCESS_KEY_ID,
+            secretAccessKey: Env.MEDIA_S3_SECRET_ACCESS_KEY,
+        },
+    },
+
+    // Language model requests of the enrichment stages
+    llm: {
+        // Backend: gemini, openai (any OpenAI-compatible server, e.g. llama.cpp or Ollama) or stub (offline, deterministic)
+        provider: Env.LLM_PROVIDER,
+        // Model of tasks without an entry in models; defaults per provider
+        model: Env.LLM_MODEL,
+        // Model by task, e.g. LLM_MODELS="analysis=gemini-2.0-flash"
+        models: {
+            ...(Env.ANALYSIS_MODEL && { analysis: Env.ANALYSIS_MODEL }),
+            ...Env.LLM_MODELS,
+        },
+        // Model of embedding tasks without an entry in models; defaults per provider
+        embeddingModel: Env.LLM_EMBEDDING_MODEL,
+        geminiApiKey: Env.GEMINI_API_KEY,
+        openai: {
+            apiKey: Env.OPENAI_API_KEY,
+            baseUrl: Env.OPENAI_BASE_URL,
+        },
+        // Response cache: none, memory or disk; identical requests are answered without calling the model
+        cache: Env.LLM_CACHE,
+        cacheDir: Env.LLM_CACHE_DIR,
+        // USD per million input:output tokens by model, e.g. LLM_PRICES="gpt-4o-mini=0.15:0.6"
+        prices: Env.LLM_PRICES,
+    },
+
+    // Creative analysis of new ads with the configured language model
+    analysis: {
+        // Analyze every new ad
+        enabled: Env.ANALYSIS_ENABLED,
+        // Video frames sampled with ffmpeg and sent besides the cover; 0 sends the cover only
+        videoFrames: Env.ANALYSIS_VIDEO_FRAMES,
+        ffmpegPath: Env.FFMPEG_PATH,
+    },
+
+    // Vector index of ad titles, analyses and covers for similarity search
+    embeddings: {
+        // Index file, updated by "npm run embeddings -- index"
+        indexPath: Env.EMBEDDINGS_INDEX_PATH,
+        // Caption downloaded covers with the language model and index the captions
+        covers: Env.EMBEDDINGS_COVERS,
+        // Texts sent per embedding request
+        batchSize: Env.EMBEDDINGS_BATCH_SIZE,
+    },
+
+    // Perceptual hashes of covers and video frames, grouping re-uploads of a creative under other ad IDs
+    duplicates: {
+        // Hash the media of new ads right after it is downloaded
+        hashMedia: Env.DUPLICATES_HASH_MEDIA,
+        // Frames hashed per downloaded video
+        videoFrames: Env.DUPLICATES_VIDEO_FRAMES,
+        // Largest Hamming distance (bits of 64) between hashes of the same creative
+        maxDistance: Env.DUPLICATES_MAX_DISTANCE,
+    },
+
+    // CAPTCHA solving
+    captcha: {
+        // Solver providers tried in order; defaults follow CHAPTCHA_RESOLVE_MODE,
+        // with the remote console instead of the in-window overlay when headless
+        solvers: Env.CAPTCHA_SOLVERS.length > 0
+            ? Env.CAPTCHA_SOLVERS
+            : [
+                ...(Env.CHAPTCHA_RESOLVE_MODE === 'api' ? ['sadcaptcha'] : []),
+                Env.CRAWLER_HEADLESS ? 'remote' : 'manual',
+            ],
+        // SadCaptcha endpoint for the shapes (3D objects) CAPTCHA
+        sadCaptchaEndpoint: Env.SAD_CAPTCHA_ENDPOINT,
+        // Local web console for solving CAPTCHAs by hand from another machine
+        console: {
+            host: Env.CAPTCHA_CONSOLE_HOST,
+            port: Env.CAPTCHA_CONSOLE_PORT,
+            token: Env.CAPTCHA_CONSOLE_TOKEN,
+        },
     },
 
     // Paths for saving data and screenshots
     paths: {
         screenshots: Env.PATH_SCREENSHOTS,
         data: Env.PATH_DATA,
+        // Filter options saved by `npm run filters -- discover`, used to check the FILTER_* values
+        filterCatalog: Env.PATH_FILTER_CATALOG,
     },
 
     // Optional: Proxy settings
@@ -42,6 +204,7 @@ export const config = {
         url: Env.PROXY_URL,
     },
     // FILTERS
+    // List values are expanded by CrawlJobPlanner into one crawl job per combination
     filters: {
         region: Env.FILTER_REGION,
         industry: Env.FILTER_INDUSTRY,
@@ -50,6 +213,7 @@ export const config = {
         adLanguage: Env.FILTER_AD_LANGUAGE,
         adFormat: Env.FILTER_AD_FORMAT,
         likes: Env.FILTER_LIKES,
+        orderBy: Env.FILTER_ORDER_BY,
     },
 
     // User agent settings
@@ -64,6 +228,9 @@ export const config = {
 export type Config = typeof config;
 export type FilterConfig = Config['filters'];
 export type CrawlerConfig = Config['crawler'];
+export type CaptchaConfig = Config['captcha'];
+export type VerificationConfig = Config['verification'];
+export type LlmConfig = Config['llm'];
 export type PathsConfig = Config['paths'];
 export type ProxyConfig = Config['proxy'];
 export type UserAgentConfig = Config['userAgent'];
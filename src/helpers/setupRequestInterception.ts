@@ -3,26 +3,43 @@ import { Page } from 'playwright';
 import { API_RESPONSES_DIR } from '../consts.js';
 import { TikTokApiResponse, TikTokAdMaterial } from '../types/api.js';
 import { Log } from 'crawlee';
-import { createDatabase } from '@src/services/database/factory.js';
-import { Env } from '@lib/Env.js';
+import { createConfiguredDatabase } from '@src/services/database/configuredDatabase.js';
 import { RequestCaptureService } from '../services/requestCapture.js';
+import type { AdData, AdSnapshotData, IDatabase } from '@src/services/database/types.js';
+import { CrawlJob, CrawlJobPlanner } from '../services/crawlJobPlanner.js';
+import { SORT_ORDER_PARAM, toSortOrderParam } from '../services/filters/sortOrder.js';
 
 interface RequestInterceptionOptions {
     /**
-     * Callback function to process API responses.
+     * Callback function to process API responses. Called after the response is saved.
      * @param response - API response data
+     * @param belongsToJob - Whether the request carried every filter and the sort order of the crawl job,
+     * i.e. the response was saved or saved before
      */
-    onResponse?: (response: TikTokApiResponse) => void;
+    onResponse?: (response: TikTokApiResponse, belongsToJob: boolean) => void | Promise<void>;
     /**
      * Logger instance for logging messages.
      */
     log?: Log;
+    /**
+     * Crawl job the intercepted responses belong to.
+     */
+    job?: CrawlJob;
+    /**
+     * Last page saved by a previous run; responses up to it are not saved again.
+     */
+    resumeAfterPage?: number;
+    /**
+     * Called with the ads a response added to the database, e.g. to queue their detail pages
+     * or download their media while the signed links are valid.
+     */
+    onAdsInserted?: (materials: TikTokAdMaterial[]) => void | Promise<void>;
 }
 
 /**
  * Maps TikTokAdMaterial to our database AdData format
  */
-const mapToAdData = (material: TikTokAdMaterial, countryCode: string) => {
+export const mapToAdData = (material: TikTokAdMaterial, countryCode: string): AdData => {
     return {
         id: material.id,
         countryCode,
@@ -53,6 +70,85 @@ const mapToAdData = (material: TikTokAdMaterial, countryCode: string) => {
     };
 };
 
+/**
+ * Maps TikTokAdMaterial to a metrics snapshot for the current crawl
+ */
+export const mapToAdSnapshot = (
+    material: TikTokAdMaterial,
+    countryCode: string,
+    rankPosition: number,
+    filterContext: Record<string, string>,
+    crawledAt: Date = new Date(),
+    orderBy?: string
+): AdSnapshotData => {
+    return {
+        adId: material.id,
+        like: material.like,
+        ctr: material.ctr,
+        cost: material.cost,
+        rankPosition,
+        countryCode,
+        orderBy,
+        filterContext,
+        crawledAt
+    };
+};
+
+/**
+ * Saves ads from a list response to the database, skipping duplicates,
+ * and records a metrics snapshot for every ad in the response
+ * @param db - Connected database instance
+ * @param response - Top Ads list API response
+ * @param params - Query params of the list request
+ * @param log - Optional logger instance
+ * @param job - Crawl job the response belongs to, used to attribute the ads
+ * @returns Materials of the newly inserted ads
+ */
+export const saveMaterials = async (
+    db: IDatabase,
+    response: TikTokApiResponse,
+    params: Record<string, string>,
+    log?: Log,
+    job?: CrawlJob
+): Promise<TikTokAdMaterial[]> => {
+    const countryCode = (job && CrawlJobPlanner.resolveCountryCode(job)) || params.region || 'unknown';
+    const filterContext = job ? { ...params, jobKey: CrawlJobPlanner.getJobKey(job) } : params;
+    // The request's own order param is what the ranks were sorted by
+    const orderBy = params[SORT_ORDER_PARAM] || toSortOrderParam(job?.orderBy);
+    const { page, size } = response.data.pagination;
+    const rankOffset = (Math.max(page, 1) - 1) * size;
+    const crawledAt = new Date();
+    const inserted: TikTokAdMaterial[] = [];
+
+    for (const [index, material] of response.data.materials.entries()) {
+        try {
+            const adData = mapToAdData(material, countryCode);
+            const isDuplicate = await db.isDuplicate(adData);
+            
+            if (!isDuplicate) {
+                await db.insertAd(adData);
+                inserted.push(material);
+                if (log) {
+                    log.info('Saved new ad to database', { id: adData.id });
+                }
+            } else if (log) {
+                log.debug('Ad already stored, recording snapshot only', { id: adData.id });
+            }
+
+            await db.insertAdSnapshot(mapToAdSnapshot(material, countryCode, rankOffset + index + 1, filterContext, crawledAt, orderBy));
+        } catch (error) {
+            if (log) {
+                log.error('Error saving ad to database:', {
+                    id: material.id,
+                    error: (error as Error).message
+                });
+            }
+        }
+    }
+
+    return inserted;
+};
+
 /**
  * Sets up request interception for TikTok Ads API to save responses
  * and process pagination data
@@ -64,12 +160,10 @@ export const setupRequestInterception = async (
     page: Page,
     options: RequestInterceptionOptions = {}
 ) => {
-    const { onResponse, log } = options;
+    const { onResponse, log, job, resumeAfterPage = 0, onAdsInserted } = options;
     const requestCapture = new RequestCaptureService(log);
-    // Use DATABASE_SQLITE_URL from environment for Prisma
-    const db = await createDatabase('prisma', {
-        connectionString: Env.DATABASE_SQLITE_URL,
-    });
+    // Backend is selected by DATABASE_TYPE
+    const db = createConfiguredDatabase();
     await db.connect();
 
     await page.route('**/creative_radar_api/v1/top_ads/v2/list**', async (route, request) => {
@@ -91,34 +185,23 @@ export const setupRequestInterception = async (
             // Save response to JSON file
             fs.writeFileSync(fileName, JSON.stringify(responseBody, null, 2));
 
-            // Save each ad to database
-            const countryCode = params.region || 'unknown';
-            for (const material of responseBody.data.materials) {
-                try {
-                    const adData = mapToAdData(material, countryCode);
-                    const isDuplicate = await db.isDuplicate(adData);
-                    
-                    if (!isDuplicate) {
-                        await db.insertAd(adData);
-                        if (log) {
-                            log.info('Saved new ad to database', { id: adData.id });
-                        }
-                    } else if (log) {
-                        log.debug('Skipped duplicate ad', { id: adData.id });
-                    }
-                } catch (error) {
-                    if (log) {
-                        log.error('Error saving ad to database:', {
-                            id: material.id,
-                            error: (error as Error).message
-                        });
-                    }
+            // Save each ad and its current metrics to database. Responses loaded before all of the job's
+            // filters and its sort order took effect belong to another list and are not attributed to it.
+            const belongsToJob = !job || CrawlJobPlanner.matchesListRequest(job, params);
+            if (!belongsToJob) {
+                log?.debug('Skipping response outside of crawl job', { job, region: params.region, period: params.period, adLanguage: params.adLanguage, objective: params.objective, orderBy: params[SORT_ORDER_PARAM] });
+            } else if (responseBody.data.pagination.page <= resumeAfterPage) {
+                log?.debug('Skipping page saved by a previous run', { page: responseBody.data.pagination.page });
+            } else {
+                const inserted = await saveMaterials(db, responseBody, params, log, job);
+                if (onAdsInserted && inserted.length > 0) {
+                    await onAdsInserted(inserted);
                 }
             }
 
             // Call callback for pagination processing if provided
             if (onResponse) {
-                onResponse(responseBody);
+                await onResponse(responseBody, belongsToJob);
             }
 
             if (log) {
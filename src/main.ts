@@ -11,8 +11,14 @@ dotenv.config();
 // }
 
 // For more information, see https://crawlee.dev/
-import { PlaywrightCrawler } from 'crawlee';
+import { PlaywrightCrawler, log } from 'crawlee';
 import { router } from './routes.js';
+import { config } from './config.js';
+import { CrawlJobPlanner } from './services/crawlJobPlanner.js';
+import { formatFilterCatalogIssues, loadFilterCatalog, validateFilterValues } from './services/filters/catalog.js';
+import { validateSortOrders } from './services/filters/sortOrder.js';
+import { TOP_ADS_SECTION, selectTrendSections, validateCrawlSections } from './services/trendSections.js';
+import { TrendSectionCollector } from './services/trendSectionCollector.js';
 // import globalSetup from './globalSetup.js';
 
 const startUrls = ['https://ads.tiktok.com/business/creativecenter/inspiration/topads/pc/en'];
@@ -24,7 +30,7 @@ const startUrls = ['https://ads.tiktok.com/business/creativecenter/inspiration/t
 // }
 
 const crawler = new PlaywrightCrawler({
-    headless: false,
+    headless: config.crawler.headless,
     // proxyConfiguration: new ProxyConfiguration({ proxyUrls: ['...'] }),
     requestHandler: router,
     // Increase the timeout to prevent restarting during long operations
@@ -51,4 +57,46 @@ const crawler = new PlaywrightCrawler({
 // log.info('Starting crawler run...');
 // log.info('env', Env);
 
-await crawler.run(startUrls);
+// Every handler signs in through the session vault, so a missing key would fail each request instead
+if (!config.sessions.vaultKey) {
+    log.error('SESSION_VAULT_KEY is not set. It encrypts the stored TikTok sessions; set it to a long random secret, e.g. the output of "openssl rand -hex 32".');
+    process.exit(1);
+}
+
+const sectionIssues = validateCrawlSections(config.crawler.sections);
+if (sectionIssues.length > 0) {
+    log.error(`Configured sections cannot be crawled:\n${sectionIssues.join('\n')}`);
+    process.exit(1);
+}
+
+const sortOrderIssues = validateSortOrders(config.filters.orderBy ?? []);
+if (sortOrderIssues.length > 0) {
+    log.error(`Configured sort orders cannot be crawled:\n${sortOrderIssues.join('\n')}`);
+    process.exit(1);
+}
+
+// Typos in filter values would otherwise select nothing, or the wrong option, on the page
+const filterCatalog = loadFilterCatalog(config.paths.filterCatalog);
+if (filterCatalog) {
+    const issues = validateFilterValues(config.filters, filterCatalog);
+    if (issues.length > 0) {
+        log.error(`Configured filters are not in the filter catalog:\n${formatFilterCatalogIssues(issues)}`);
+        process.exit(1);
+    }
+} else {
+    log.warning(`No filter catalog at ${config.paths.filterCatalog}, filter values are not checked. Run "npm run filters -- discover" to create it.`);
+}
+
+// One request per filter combination so every market is covered in a single run
+const planner = new CrawlJobPlanner(log);
+const topAdsRequests = config.crawler.sections.includes(TOP_ADS_SECTION)
+    ? startUrls.flatMap(url => planner.toRequests(url, planner.plan(CrawlJobPlanner.matrixFromConfig(config.filters))))
+    : [];
+
+// Trend sections only have a market and a period
+const trendSections = selectTrendSections(config.crawler.sections);
+const trendRequests = trendSections.length > 0
+    ? TrendSectionCollector.toRequests(trendSections, planner.plan({ regions: config.filters.region, periods: config.filters.period }))
+    : [];
+
+await crawler.run([...topAdsRequests, ...trendRequests]);
@@ -0,0 +1,44 @@
+import { Page } from 'playwright';
+
+const OVERLAY_ID = 'captcha-required-notification';
+
+/**
+ * Displays a banner asking the operator to solve the CAPTCHA in the browser window
+ * @param page Playwright page object
+ * @param message Text shown in the banner
+ */
+export async function showCaptchaRequiredNotification(
+    page: Page,
+    message: string = 'CAPTCHA DETECTED - Please solve it in this window'
+): Promise<void> {
+    await page.evaluate(({ id, text }) => {
+        document.getElementById(id)?.remove();
+
+        const noticeDiv = document.createElement('div');
+        noticeDiv.id = id;
+        noticeDiv.style.position = 'fixed';
+        noticeDiv.style.top = '10px';
+        noticeDiv.style.left = '50%';
+        noticeDiv.style.transform = 'translateX(-50%)';
+        noticeDiv.style.padding = '15px 30px';
+        noticeDiv.style.backgroundColor = 'rgba(200, 120, 0, 0.95)';
+        noticeDiv.style.color = 'white';
+        noticeDiv.style.fontWeight = 'bold';
+        noticeDiv.style.fontSize = '18px';
+        noticeDiv.style.zIndex = '999999';
+        noticeDiv.style.borderRadius = '10px';
+        noticeDiv.style.pointerEvents = 'none';
+        noticeDiv.textContent = text;
+        document.body.appendChild(noticeDiv);
+    }, { id: OVERLAY_ID, text: message });
+}
+
+/**
+ * Removes the CAPTCHA banner if it is shown
+ * @param page Playwright page object
+ */
+export async function hideCaptchaRequiredNotification(page: Page): Promise<void> {
+    await page.evaluate((id) => {
+        document.getElementById(id)?.remove();
+    }, OVERLAY_ID);
+}
@@ -1,2 +1,3 @@
 // Export all notification functions
 export * from './processAborted.js';
+export * from './captchaRequired.js';
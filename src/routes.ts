@@ -1,5 +1,4 @@
-import { createPlaywrightRouter, Log } from 'crawlee';
-import * as fs from 'fs/promises';
+import { createPlaywrightRouter, Log, Request } from 'crawlee';
 import { Page } from 'playwright';
 
 // Add global type declaration for our custom notification function
@@ -9,243 +8,451 @@ declare global {
     }
 }
 
-import { clickLoginButton, handleCaptchaSolverApi, handleCookieConsent, handleEmailCodeVerification, fillLoginForm, scrollAndCollectData, selectPhoneEmailLogin, submitLoginForm } from './steps/index.js';
+import { checkEmailVerification, clickLoginButton, collectViaApi, handleCaptchaSolverApi, handleCookieConsent, handleEmailCodeVerification, fillLoginForm, scrollAndCollectData, selectPhoneEmailLogin, submitLoginForm } from './steps/index.js';
 import { config } from './config.js';
 import { checkApiResponsesFolderExistence, isLoggedIn, setupRequestInterception, delay, randomBetween } from './helpers/index.js';
-// import { handleFilters, FilterType } from './steps/tiktok-filters-handler.js';
+import { FilterEngine } from './services/filters/filterEngine.js';
+import { buildFilterQuery, FilterQuery, FilterValidationError } from './services/filters/filterQuery.js';
+import { toSortOrderParam } from './services/filters/sortOrder.js';
 import { showProcessAbortedNotification } from './notifications/processAborted.js';
 import { PaginationService } from './services/paginationService.js';
-import { TikTokApiResponse } from './types/api.js';
+import { PaginationCheckpointStore } from './services/paginationCheckpointStore.js';
+import { TikTokAdMaterial, TikTokApiResponse } from './types/api.js';
+import { CrawlJob, CrawlJobPlanner, CrawlJobUserData } from './services/crawlJobPlanner.js';
+import { SessionAccount, SessionManager } from './services/sessionManager.js';
+import { SessionVault } from './services/sessionVault.js';
+import { createVerificationCodeProvider } from './services/verification/factory.js';
+import { AdDetailCollector, AdDetailRateLimitError, AdDetailUserData, DETAIL_LABEL } from './services/adDetailCollector.js';
+import { RequestThrottle } from './services/requestThrottle.js';
+import { TrendSectionCollector } from './services/trendSectionCollector.js';
+import { TREND_SECTIONS } from './services/trendSections.js';
+import type { TrendSection } from './services/database/types.js';
+import { createConfiguredDatabase } from './services/database/configuredDatabase.js';
+import { MediaDownloader } from './services/media/mediaDownloader.js';
+import { createMediaStore } from './services/media/mediaStore.js';
+import { AdMediaQueue } from './services/media/adMediaQueue.js';
+import { createLlmService } from './ai_service/llm/factory.js';
+import type { LlmService } from './ai_service/llm/llmService.js';
+import { AdCreativeAnalyzer } from './services/analysis/adCreativeAnalyzer.js';
+import { AdAnalysisQueue } from './services/analysis/adAnalysisQueue.js';
+import { FrameSampler } from './services/analysis/frameSampler.js';
+import { CreativeHasher } from './services/duplicates/creativeHasher.js';
+import { PerceptualHasher } from './services/duplicates/perceptualHasher.js';
 
 export const router = createPlaywrightRouter();
-// const filterConfig = {
-//     [FilterType.REGION]: config.filters?.region || null,
-//     [FilterType.INDUSTRY]: config.filters?.industry || null,
-//     [FilterType.OBJECTIVE]: config.filters?.objective || null,
-//     [FilterType.PERIOD]: config.filters?.period || null,
-//     [FilterType.AD_LANGUAGE]: config.filters?.adLanguage || null,
-//     [FilterType.AD_FORMAT]: config.filters?.adFormat || null,
-//     [FilterType.LIKES]: config.filters?.likes || null
-// };
 
 /**
- * Attempts to restore a previously saved session state
+ * Applies the job's filters and sort order on the Top Ads page
  * @param page - Playwright Page instance
- * @param sessionPath - Path to the session state file
+ * @param job - Crawl job from the request userData
  * @param log - Crawlee logger instance
- * @returns Promise<boolean> - True if session was restored successfully
  */
-async function restoreSession(page: Page, sessionPath: string, log: Log): Promise<boolean> {
-    try {
-        await fs.access(sessionPath);
-        log.info('Found saved session state, attempting to restore...');
-        
-        // Clear existing storage before restoring
-        await page.context().clearCookies();
-        await page.evaluate(() => {
-            localStorage.clear();
-            sessionStorage.clear();
-            document.cookie.split(";").forEach((c) => {
-                document.cookie = c
-                    .replace(/^ +/, "")
-                    .replace(/=.*/, `=;expires=${new Date().toUTCString()};path=/`);
-            });
+async function applyCrawlJob(page: Page, job: CrawlJob, log: Log): Promise<void> {
+    const engine = new FilterEngine(log, page);
+    const filterValues = CrawlJobPlanner.toFilterValues(job);
+    if (Object.keys(filterValues).length > 0) {
+        const result = config.crawler.filterMode === 'url'
+            ? await engine.applyViaUrl(filterValues)
+            : await engine.apply(filterValues);
+        if (result.failed.length > 0 || !result.confirmation.confirmed) {
+            log.warning('Filters for crawl job could not be applied', { job, failed: result.failed, mismatches: result.confirmation.mismatches });
+        }
+    }
+
+    if (job.orderBy) {
+        const result = await engine.applySortOrder(job.orderBy);
+        if (!result.applied || !result.confirmed) {
+            log.warning('Sort order for crawl job could not be applied', { job, orderParam: result.param });
+        }
+    }
+}
+
+let sessionManager: SessionManager | null = null;
+
+/**
+ * Returns the session manager shared by all requests
+ * @param log - Crawlee logger instance
+ * @returns SessionManager for the configured accounts
+ */
+function getSessionManager(log: Log): SessionManager {
+    if (!sessionManager) {
+        const vault = new SessionVault(log, { secret: config.sessions.vaultKey, defaultTtlMs: config.sessions.defaultTtl });
+        sessionManager = new SessionManager(log, config.accounts, vault);
+    }
+    return sessionManager;
+}
+
+let mediaDownloader: MediaDownloader | null = null;
+
+/**
+ * Returns the media downloader shared by all requests, so the download concurrency holds across jobs
+ * @param log - Crawlee logger instance
+ * @returns MediaDownloader for the configured media store
+ */
+function getMediaDownloader(log: Log): MediaDownloader {
+    if (!mediaDownloader) {
+        mediaDownloader = new MediaDownloader(log, createMediaStore(config.media), {
+            concurrency: config.media.concurrency,
+            retries: config.media.retries
         });
-        
-        // Restore the stored state
-        const sessionState = JSON.parse(await fs.readFile(sessionPath, 'utf-8'));
-        
+    }
+    return mediaDownloader;
+}
+
+let llmService: LlmService | null = null;
+
+/**
+ * Returns the language model service shared by all requests, so usage adds up over the run
+ * @param log - Crawlee logger instance
+ * @returns LlmService for the configured provider, or null when it cannot be created
+ */
+function getLlmService(log: Log): LlmService | null {
+    if (!llmService) {
         try {
-            // Add cookies first
-            await page.context().addCookies(sessionState.cookies);
-            
-            // First navigate to a simple page to initialize context
-            try {
-                await page.goto('about:blank', { timeout: 5000 });
-            } catch (error: unknown) {
-                const initError = error as Error;
-                log.debug('Initial navigation to blank page failed:', { error: initError.message });
+            llmService = createLlmService(log);
+        } catch (error) {
+            log.warning('Language model is not available:', { error: (error as Error).message });
+            return null;
+        }
+    }
+    return llmService;
+}
+
+let adAnalyzer: AdCreativeAnalyzer | null = null;
+
+/**
+ * Returns the creative analyzer shared by all requests
+ * @param log - Crawlee logger instance
+ * @returns AdCreativeAnalyzer for the configured model, or null without a language model
+ */
+function getAdAnalyzer(log: Log): AdCreativeAnalyzer | null {
+    if (!adAnalyzer) {
+        const llm = getLlmService(log);
+        if (!llm) {
+            log.warning('Skipping ad creative analysis');
+            return null;
+        }
+        adAnalyzer = new AdCreativeAnalyzer(log, llm);
+    }
+    return adAnalyzer;
+}
+
+/**
+ * Logs in with the account's credentials and saves its session state
+ * @param page - Playwright Page instance
+ * @param account - Account to log in with
+ * @param log - Crawlee logger instance
+ * @returns Promise<boolean> - True if the page is logged in afterwards
+ */
+async function loginWithAccount(page: Page, account: SessionAccount, log: Log): Promise<boolean> {
+    const manager = getSessionManager(log);
+
+    try {
+        await page.waitForSelector('div.tiktok-cookie-banner', { timeout: 5000 });
+        await handleCookieConsent(page, log);
+        await clickLoginButton(page, log);
+        await selectPhoneEmailLogin(page, log);
+
+        await fillLoginForm(page, log, account.email, account.password);
+        const loginSubmittedAt = new Date();
+        const loginSubmitted = await submitLoginForm(page, log);
+
+        if (!loginSubmitted) {
+            log.error('Failed to log in to TikTok. Please check your credentials and try again.', { email: account.email });
+            return false;
+        }
+
+        try {
+            if (await handleCaptchaSolverApi(page, log)) {
+                manager.recordEvent(account.email, 'captcha');
             }
-            
-            // Restore localStorage for each origin with retry logic
-            if (sessionState.origins) {
-                for (const { origin, localStorage } of sessionState.origins) {
-                    let retryCount = 0;
-                    const maxRetries = 3;
-                    
-                    while (retryCount < maxRetries) {
-                        try {
-                            // Navigate to each origin to set its localStorage
-                            await page.goto(origin, { 
-                                waitUntil: 'domcontentloaded', // Less strict wait condition
-                                timeout: 15000 
-                            });
-                            
-                            // Set localStorage items
-                            await page.evaluate((storageItems) => {
-                                for (const [key, value] of Object.entries(storageItems)) {
-                                    try {
-                                        window.localStorage.setItem(key, value as string);
-                                    } catch (e) {
-                                        console.warn(`Failed to set localStorage item: ${key}`, e);
-                                    }
-                                }
-                            }, localStorage);
-                            
-                            break; // Success, exit retry loop
-                        } catch (error: unknown) {
-                            const navError = error as Error;
-                            retryCount++;
-                            if (retryCount === maxRetries) {
-                                log.warning(`Failed to restore localStorage for origin ${origin} after ${maxRetries} attempts`, 
-                                    { error: navError.message });
-                            } else {
-                                await delay(randomBetween(2000, 3000));
-                            }
-                        }
-                    }
-                }
+            if (await checkEmailVerification(page)) {
+                manager.recordEvent(account.email, 'verification');
             }
+            await handleEmailCodeVerification(page, log, () => createVerificationCodeProvider(log, account.email), loginSubmittedAt);
+            log.info('Successfully logged in to TikTok!', { email: account.email });
             
-            // Verify cookie state
-            const currentState = await page.context().storageState();
-            if (!currentState.cookies || currentState.cookies.length === 0) {
-                throw new Error('State restoration verification failed: No cookies present');
-            }
-
-            // Navigate to the main page with retry logic
-            let loginSuccess = false;
-            for (let i = 0; i < 3; i++) {
-                try {
-                    // Try navigation with increasing timeouts
-                    await page.goto('https://ads.tiktok.com/business/creativecenter/inspiration/topads/pc/en', {
-                        waitUntil: 'domcontentloaded',
-                        timeout: 20000 + (i * 5000)
-                    });
-                    
-                    // Wait for network to be relatively idle
-                    await page.waitForLoadState('networkidle', { timeout: 10000 })
-                        .catch(() => log.debug('NetworkIdle wait timed out, continuing...'));
-                    
-                    await delay(randomBetween(2000, 3000));
-                    
-                    // Verify login status
-                    loginSuccess = await isLoggedIn(page, log);
-                    if (loginSuccess) break;
-                    
-                    // If not logged in, wait and retry
-                    await delay(randomBetween(3000, 5000));
-                } catch (error) {
-                    log.warning(`Navigation attempt ${i + 1} failed:`, { error: (error as Error).message });
-                    if (i === 2) throw error;
-                    await delay(randomBetween(3000, 5000));
-                }
-            }
+            // Wait for the session to be fully established
+            await delay(randomBetween(5000, 8000));
+            
+            // Save the new session state after successful login
+            await manager.saveSession(page, account);
             
-            if (!loginSuccess) {
-                log.warning('Session restored but login check failed');
+            // Additional verification after saving session
+            const verifyLogin = await isLoggedIn(page, log);
+            if (!verifyLogin) {
+                log.error('Login verification failed after session save');
+                manager.recordEvent(account.email, 'flagged');
                 return false;
             }
-            
-            // Save the verified state back
-            await page.context().storageState({ path: sessionPath });
-            
-            log.info('Session state restored and verified successfully');
             return true;
-            
-        } catch (error) {
-            log.error('Failed to restore session state:', { error: (error as Error).message });
-            // Clear everything on failure
+        } catch (captchaError) {
+            await showProcessAbortedNotification(page, log, captchaError as Error);
+            return false;
+        }
+    } catch (error) {
+        log.warning('Error during login process:', { error: (error as Error).message });
+        const stillLoggedIn = await isLoggedIn(page, log);
+        if (!stillLoggedIn) {
+            log.error('Failed to log in and not currently logged in.', { email: account.email });
+            return false;
+        }
+        log.info('Already logged in despite login process error. Continuing...');
+        return true;
+    }
+}
+
+/**
+ * Restores the account's session or logs in, rotating through the remaining
+ * healthy accounts until one of them is logged in
+ * @param page - Playwright Page instance
+ * @param firstAccount - Account acquired for the job
+ * @param startUrl - Page to return to before trying the next account
+ * @param log - Crawlee logger instance
+ * @returns Promise<SessionAccount | null> - Logged-in account, or null if every account failed
+ */
+async function signIn(page: Page, firstAccount: SessionAccount, startUrl: string, log: Log): Promise<SessionAccount | null> {
+    const manager = getSessionManager(log);
+    const tried: string[] = [];
+    let account: SessionAccount | null = firstAccount;
+
+    while (account) {
+        tried.push(account.email);
+
+        if (await manager.restoreSession(page, account)) {
+            log.info('Successfully restored previous session!', { email: account.email });
+            manager.recordEvent(account.email, 'success');
+            return account;
+        }
+
+        if (manager.hasSession(account.email)) {
+            manager.recordEvent(account.email, 'expired');
+        }
+        log.info('Session restoration failed or expired, proceeding with new login', { email: account.email });
+
+        if (await loginWithAccount(page, account, log)) {
+            manager.recordEvent(account.email, 'success');
+            return account;
+        }
+        manager.recordEvent(account.email, 'failure');
+
+        account = manager.acquire(tried);
+        if (account) {
+            log.info('Rotating to the next TikTok account', { email: account.email });
             await page.context().clearCookies();
-            await page.evaluate(() => {
-                localStorage.clear();
-                sessionStorage.clear();
-            });
-            throw error;
+            await page.goto(startUrl, { waitUntil: 'domcontentloaded' });
         }
-    } catch (err: unknown) {
-        log.error('Error restoring session state:', { error: (err as Error).message });
-        log.info('No saved session found or error restoring session, proceeding with normal login');
-        return false;
     }
+
+    log.error('Failed to log in with any TikTok account. Aborting.', { tried: tried.length });
+    return null;
 }
 
-router.addDefaultHandler(async ({ log, page }) => {
+router.addDefaultHandler(async ({ log, page, request, addRequests }) => {
+    const enrichmentDb = config.media.enabled || config.analysis.enabled ? createConfiguredDatabase() : null;
+    let mediaQueue: AdMediaQueue | null = null;
+    let analysisQueue: AdAnalysisQueue | null = null;
+
     try {
-        // Check if we have a saved session state
-        const sessionPath = 'storage/state.json';
-        
-        // Attempt to restore session and check login status
-        if (await restoreSession(page, sessionPath, log)) {
-            log.info('Successfully restored previous session!');
-        } else {
-            log.info('Session restoration failed or expired, proceeding with new login');
-            // Standard login process if not logged in
-            try {
-                await page.waitForSelector('div.tiktok-cookie-banner', { timeout: 5000 });
-                await handleCookieConsent(page, log);
-                await clickLoginButton(page, log);
-                await selectPhoneEmailLogin(page, log);
-
-                const { email, password } = config.credentials;
-                await fillLoginForm(page, log, email, password);
-                const loginSubmitted = await submitLoginForm(page, log);
-
-                if (loginSubmitted) {
-                    try {
-                        await handleCaptchaSolverApi(page, log);
-                        await handleEmailCodeVerification(page, log);
-                        log.info('Successfully logged in to TikTok!');
-                        
-                        // Wait for the session to be fully established
-                        await delay(randomBetween(5000, 8000));
-                        
-                        // Save the new session state after successful login
-                        await page.context().storageState({ path: sessionPath });
-                        log.info('New session state saved successfully');
-                        
-                        // Additional verification after saving session
-                        const verifyLogin = await isLoggedIn(page, log);
-                        if (!verifyLogin) {
-                            log.error('Login verification failed after session save');
-                            return;
-                        }
-                    } catch (captchaError) {
-                        await showProcessAbortedNotification(page, log, captchaError as Error);
-                        return;
-                    }
-                } else {
-                    log.error('Failed to log in to TikTok. Please check your credentials and try again.');
-                    return;
-                }
-            } catch (error) {
-                log.warning('Error during login process:', { error: (error as Error).message });
-                const stillLoggedIn = await isLoggedIn(page, log);
-                if (!stillLoggedIn) {
-                    log.error('Failed to log in and not currently logged in. Aborting.');
-                    return;
-                }
-                log.info('Already logged in despite login process error. Continuing...');
+        // Filter combination planned by CrawlJobPlanner; requests queued without one crawl the page defaults
+        const { job = {}, jobKey = 'default' } = request.userData as Partial<CrawlJobUserData>;
+        log.info('Processing crawl job', { jobKey });
+
+        // Jobs finished by a previous run are skipped
+        const checkpoints = await PaginationCheckpointStore.open(log, config.crawler.checkpointMaxAge);
+        if (await checkpoints.isCompleted(jobKey)) {
+            log.info('Crawl job already completed, skipping', { jobKey });
+            return;
+        }
+
+        // Unknown regions or languages would silently crawl the unfiltered list
+        let filterQuery: FilterQuery;
+        try {
+            filterQuery = buildFilterQuery(CrawlJobPlanner.toFilterValues(job));
+        } catch (error) {
+            if (error instanceof FilterValidationError) {
+                log.error('Crawl job has invalid filters, skipping', { jobKey, error: error.message });
+                return;
             }
+            throw error;
+        }
+
+        // Media of new ads is downloaded and analyzed alongside the crawl, before the signed links expire
+        if (enrichmentDb) {
+            await enrichmentDb.connect();
+            if (config.media.enabled) {
+                const hasher = config.duplicates.hashMedia
+                    ? new CreativeHasher(log, new PerceptualHasher({ ffmpegPath: config.analysis.ffmpegPath }), {
+                        mediaStore: createMediaStore(config.media),
+                        frameCount: config.duplicates.videoFrames
+                    })
+                    : undefined;
+                mediaQueue = new AdMediaQueue(log, getMediaDownloader(log), enrichmentDb, hasher);
+            }
+            const analyzer = config.analysis.enabled ? getAdAnalyzer(log) : null;
+            if (analyzer) {
+                analysisQueue = new AdAnalysisQueue(log, analyzer, enrichmentDb, {
+                    videoFrames: config.analysis.videoFrames,
+                    frameSampler: new FrameSampler({ ffmpegPath: config.analysis.ffmpegPath })
+                });
+            }
+        }
+
+        // Every newly stored ad gets its detail page crawled
+        const onAdsInserted = async (materials: TikTokAdMaterial[]) => {
+            mediaQueue?.enqueue(materials);
+            analysisQueue?.enqueue(materials);
+            if (config.crawler.details.enabled) {
+                await addRequests(AdDetailCollector.toRequests(materials.map(material => material.id), job));
+                log.debug('Queued ad detail requests', { count: materials.length });
+            }
+        };
+
+        // Pick the least recently used healthy account
+        const sessionManager = getSessionManager(log);
+        const account = sessionManager.acquire();
+        if (!account) {
+            log.error('No TikTok account available for crawl job. Aborting.', { jobKey });
+            return;
+        }
+        
+        // Try the direct API first; it falls back to the browser flow when the session is stale.
+        // Filters without a query value can only be selected on the page, so those jobs use the browser right away.
+        const apiApplicable = Object.keys(filterQuery.uiValues).length === 0;
+        if (config.crawler.collectionMode === 'api' && !apiApplicable) {
+            log.info('Crawl job has filters the list API cannot apply, collecting in the browser', { jobKey, filters: Object.keys(filterQuery.uiValues) });
+        }
+        if (config.crawler.collectionMode === 'api' && apiApplicable && await collectViaApi(log, { ...filterQuery.params, orderBy: toSortOrderParam(job.orderBy) }, { sessionState: sessionManager.loadSessionState(account) ?? undefined }, job, onAdsInserted)) {
+            sessionManager.recordEvent(account.email, 'success');
+            log.info('Data collected via direct API, skipping browser collection.');
+            return;
+        }
+        
+        // Restore the account's session or log in, rotating to the next account on failure
+        if (!await signIn(page, account, request.url, log)) {
+            return;
         }
 
         // Continue with data collection
         const paginationService = new PaginationService(log);
+        const resumeAfterPage = await checkpoints.getLastCompletedPage(jobKey);
+        paginationService.setResumeAfterPage(resumeAfterPage);
         await delay(randomBetween(1000, 3000));
         await setupRequestInterception(page, {
-            onResponse: (response: TikTokApiResponse) => {
-                if (response?.data?.pagination) {
-                    paginationService.updatePagination(response.data.pagination);
-                }
+            onResponse: async (response: TikTokApiResponse, belongsToJob: boolean) => {
+                // Lists loaded before every filter of the job took effect must neither checkpoint
+                // pages nor complete the job, or a resumed run would skip the job's real pages
+                if (!belongsToJob || !response?.data?.pagination) return;
+                paginationService.updatePagination(response.data.pagination);
+                await checkpoints.markPageProcessed(jobKey, response.data.pagination);
             },
-            log
+            log,
+            job,
+            resumeAfterPage,
+            onAdsInserted
         });
         checkApiResponsesFolderExistence();
+        await applyCrawlJob(page, job, log);
 
         await scrollAndCollectData(page, paginationService, log);
+        if (paginationService.isComplete()) {
+            await checkpoints.markCompleted(jobKey);
+        }
         log.info('Data collection process completed.');
     } catch (error) {
         log.error('Error during data collection:', { error: (error as Error).message });
         await page.screenshot({ path: 'storage/screenshots/error-state.png' });
+    } finally {
+        await Promise.all([mediaQueue?.drain(), analysisQueue?.drain()]);
+        await enrichmentDb?.disconnect().catch(() => {});
+        if (analysisQueue && llmService) {
+            log.info('Language model usage so far', { ...llmService.usage.getTotals() });
+        }
     }
 });
+
+// Shared by all detail requests so the detail pages are spaced out across jobs
+const detailThrottle = new RequestThrottle({ minIntervalMs: config.crawler.details.minInterval });
+
+router.addHandler(DETAIL_LABEL, async ({ log, page, request }) => {
+    const { adId } = request.userData as AdDetailUserData;
+    const db = createConfiguredDatabase();
+
+    try {
+        await db.connect();
+
+        // Details crawled recently, e.g. for the same ad listed in another market, are kept
+        if (AdDetailCollector.isFresh(await db.findAdDetail(adId), config.crawler.details.maxAge)) {
+            log.info('Ad detail is still fresh, skipping', { adId });
+            return;
+        }
+
+        const account = getSessionManager(log).acquire();
+        if (!account) {
+            log.error('No TikTok account available for ad detail. Aborting.', { adId });
+            return;
+        }
+        if (!await signIn(page, account, request.url, log)) {
+            return;
+        }
+
+        await detailThrottle.wait();
+        const detail = await new AdDetailCollector(log, page).collect(adId, request.url);
+        detailThrottle.reset();
+
+        if (detail) {
+            await db.upsertAdDetail(detail);
+            log.info('Saved ad detail to database', { adId });
+        }
+    } catch (error) {
+        if (error instanceof AdDetailRateLimitError) {
+            // Crawlee retries the request once the slower interval has passed
+            log.warning('Ad detail pages are rate-limited, slowing down', { adId, intervalMs: detailThrottle.backoff() });
+            throw error;
+        }
+        log.error('Error during ad detail collection:', { adId, error: (error as Error).message });
+    } finally {
+        await db.disconnect().catch(() => {});
+    }
+});
+
+/**
+ * Crawls a Trend Discovery or Top Products section for one market and stores its items
+ * @param section - Section the request was queued for
+ * @param page - Playwright Page instance
+ * @param request - Crawlee request with the job in userData
+ * @param log - Crawlee logger instance
+ */
+async function crawlTrendSection(section: TrendSection, page: Page, request: Request, log: Log): Promise<void> {
+    const { job = {}, jobKey = 'default' } = request.userData as Partial<CrawlJobUserData>;
+    const db = createConfiguredDatabase();
+
+    try {
+        log.info('Processing trend section', { section, jobKey });
+
+        const account = getSessionManager(log).acquire();
+        if (!account) {
+            log.error('No TikTok account available for trend section. Aborting.', { section, jobKey });
+            return;
+        }
+        if (!await signIn(page, account, request.url, log)) {
+            return;
+        }
+
+        const items = await new TrendSectionCollector(log, page, { maxPages: config.crawler.sectionMaxPages }).collect(section, request.url, job);
+        if (items.length === 0) return;
+
+        await db.connect();
+        await db.insertTrendItems(section, items);
+        log.info('Saved trend section to database', { section, jobKey, items: items.length });
+    } catch (error) {
+        log.error('Error during trend section collection:', { section, jobKey, error: (error as Error).message });
+        await page.screenshot({ path: 'storage/screenshots/error-state.png' });
+    } finally {
+        await db.disconnect().catch(() => {});
+    }
+}
+
+for (const { section, label } of Object.values(TREND_SECTIONS)) {
+    router.addHandler(label, async ({ log, page, request }) => crawlTrendSection(section, page, request, log));
+}
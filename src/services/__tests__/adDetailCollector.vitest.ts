@@ -0,0 +1,120 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Log } from 'crawlee';
+import type { Page, Response } from 'playwright';
+import { AdDetailCollector, AdDetailRateLimitError, DETAIL_LABEL, mapToAdDetail } from '../adDetailCollector.js';
+
+const mockLog = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn()
+} as unknown as Log;
+
+const API_URL = 'https://ads.tiktok.com/creative_radar_api/v1/top_ads/v2';
+
+const fakeResponse = (url: string, body: unknown, status = 200) => ({
+  url: () => url,
+  status: () => status,
+  json: async () => body
+}) as unknown as Response;
+
+/**
+ * Page that emits the given responses when the detail page is opened
+ */
+const createDetailPage = (responses: Response[]) => {
+  let listener: ((response: Response) => void) | null = null;
+  return {
+    on: vi.fn((_event: string, callback: (response: Response) => void) => { listener = callback; }),
+    off: vi.fn(() => { listener = null; }),
+    goto: vi.fn(async () => { responses.forEach(response => listener?.(response)); }),
+    waitForResponse: vi.fn(async () => responses[0]),
+    waitForTimeout: vi.fn(async () => {}),
+    evaluate: vi.fn(async () => {})
+  } as unknown as Page;
+};
+
+const detail = {
+  id: 'ad-1',
+  ad_title: 'Summer sale',
+  cta_text: 'Shop now',
+  landing_page: 'https://shop.example.com',
+  keyword_list: ['sale', 'summer'],
+  highlight_text: 'Summer sale on everything'
+};
+
+describe('mapToAdDetail', () => {
+  it('should map the captured responses and sort the retention curve', () => {
+    const crawledAt = new Date('2025-03-01T00:00:00.000Z');
+    const result = mapToAdDetail('ad-1', {
+      detail: detail as never,
+      interests: [{ interest: 'Fashion', percentage: 42.5 }],
+      retention: [{ second: 1, retention_rate: 0.8 }, { second: 0, retention_rate: 1, ctr: 0.02 }]
+    }, crawledAt);
+
+    expect(result).toMatchObject({
+      adId: 'ad-1',
+      ctaText: 'Shop now',
+      landingPage: 'https://shop.example.com',
+      keywords: ['sale', 'summer'],
+      audienceInterests: [{ interest: 'Fashion', share: 42.5 }],
+      retention: [{ second: 0, retention: 1, ctr: 0.02 }, { second: 1, retention: 0.8 }],
+      crawledAt
+    });
+  });
+});
+
+describe('AdDetailCollector', () => {
+  it('should queue one detail request per ad with the job market', () => {
+    const requests = AdDetailCollector.toRequests(['ad-1'], { region: 'United States', period: '7' });
+
+    expect(requests).toEqual([{
+      url: 'https://ads.tiktok.com/business/creativecenter/topads/ad-1/pc/en?countryCode=US&period=7',
+      uniqueKey: 'detail:ad-1',
+      label: DETAIL_LABEL,
+      userData: { adId: 'ad-1', countryCode: 'US', period: '7' }
+    }]);
+  });
+
+  it('should treat details as fresh only within the maximum age', () => {
+    const now = new Date('2025-03-08T00:00:00.000Z');
+    const stored = mapToAdDetail('ad-1', {}, new Date('2025-03-07T00:00:00.000Z'));
+
+    expect(AdDetailCollector.isFresh(stored, 2 * 24 * 60 * 60 * 1000, now)).toBe(true);
+    expect(AdDetailCollector.isFresh(stored, 12 * 60 * 60 * 1000, now)).toBe(false);
+    expect(AdDetailCollector.isFresh(null, 12 * 60 * 60 * 1000, now)).toBe(false);
+  });
+
+  it('should collect the detail, interest and retention responses of the page', async () => {
+    const page = createDetailPage([
+      fakeResponse(`${API_URL}/detail?material_id=ad-1`, { code: 0, msg: 'OK', data: detail }),
+      fakeResponse(`${API_URL}/interest?material_id=ad-1`, { code: 0, msg: 'OK', data: { interest_list: [{ interest: 'Fashion', percentage: 42.5 }] } }),
+      fakeResponse(`${API_URL}/retention?material_id=ad-1`, { code: 0, msg: 'OK', data: { second_metrics: [{ second: 0, retention_rate: 1 }] } }),
+      fakeResponse(`${API_URL}/list?page=1`, { code: 0, msg: 'OK', data: {} })
+    ]);
+
+    const result = await new AdDetailCollector(mockLog, page, { settleMs: 0 }).collect('ad-1', 'https://example.com/detail');
+
+    expect(result).toMatchObject({
+      adId: 'ad-1',
+      ctaText: 'Shop now',
+      audienceInterests: [{ interest: 'Fashion', share: 42.5 }],
+      retention: [{ second: 0, retention: 1 }]
+    });
+    expect(page.off).toHaveBeenCalled();
+  });
+
+  it('should return null when the detail response is missing or failed', async () => {
+    const page = createDetailPage([
+      fakeResponse(`${API_URL}/detail?material_id=ad-1`, { code: 40101, msg: 'no permission', data: null })
+    ]);
+
+    expect(await new AdDetailCollector(mockLog, page, { settleMs: 0 }).collect('ad-1', 'https://example.com/detail')).toBeNull();
+  });
+
+  it('should throw when a detail API is rate-limited', async () => {
+    const page = createDetailPage([fakeResponse(`${API_URL}/detail?material_id=ad-1`, {}, 429)]);
+
+    await expect(new AdDetailCollector(mockLog, page, { settleMs: 0 }).collect('ad-1', 'https://example.com/detail'))
+      .rejects.toBeInstanceOf(AdDetailRateLimitError);
+  });
+});
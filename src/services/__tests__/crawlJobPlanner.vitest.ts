@@ -0,0 +1,85 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Log } from 'crawlee';
+import { CrawlJobPlanner } from '../crawlJobPlanner.js';
+
+const mockLog = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn()
+} as unknown as Log;
+
+describe('CrawlJobPlanner', () => {
+  const planner = new CrawlJobPlanner(mockLog);
+
+  it('should expand every dimension into a cartesian product', () => {
+    const jobs = planner.plan({
+      regions: ['US', 'GB'],
+      adLanguages: ['en', 'es'],
+      periods: ['7', '30'],
+      objectives: ['traffic'],
+      orderBys: ['ctr', 'reach']
+    });
+
+    expect(jobs).toHaveLength(16);
+    expect(jobs).toContainEqual({ region: 'GB', adLanguage: 'es', period: '30', objective: 'traffic', orderBy: 'reach' });
+    expect(new Set(jobs.map(CrawlJobPlanner.getJobKey)).size).toBe(16);
+  });
+
+  it('should skip empty dimensions and drop duplicate values', () => {
+    const jobs = planner.plan({ regions: ['US', 'US', 'GB'], adLanguages: [], periods: undefined });
+
+    expect(jobs).toEqual([{ region: 'US' }, { region: 'GB' }]);
+  });
+
+  it('should plan a single default job when nothing is configured', () => {
+    const jobs = planner.plan({});
+
+    expect(jobs).toEqual([{}]);
+    expect(CrawlJobPlanner.getJobKey(jobs[0])).toBe('default');
+  });
+
+  it('should queue one request per job with the combo in userData', () => {
+    const url = 'https://ads.tiktok.com/business/creativecenter/inspiration/topads/pc/en';
+    const requests = planner.toRequests(url, [{ region: 'US', period: '7' }, { region: 'GB', period: '7' }]);
+
+    expect(requests).toEqual([
+      { url, uniqueKey: `${url}#region=US|period=7`, userData: { job: { region: 'US', period: '7' }, jobKey: 'region=US|period=7' } },
+      { url, uniqueKey: `${url}#region=GB|period=7`, userData: { job: { region: 'GB', period: '7' }, jobKey: 'region=GB|period=7' } }
+    ]);
+  });
+
+  it('should build the matrix from the filter config', () => {
+    const matrix = CrawlJobPlanner.matrixFromConfig({
+      region: ['US'],
+      industry: [],
+      objective: ['traffic'],
+      period: ['7'],
+      adLanguage: ['en'],
+      adFormat: undefined,
+      likes: [],
+      orderBy: ['ctr']
+    });
+
+    expect(matrix).toEqual({ regions: ['US'], adLanguages: ['en'], periods: ['7'], objectives: ['traffic'], orderBys: ['ctr'] });
+  });
+
+  it('should only match list requests carrying every filter of the job', () => {
+    const job = { region: 'US', period: '30', adLanguage: 'en', orderBy: 'reach' };
+    const params = { region: 'US', period: '30', adLanguage: 'en', order_by: 'reach', page: '1' };
+
+    expect(CrawlJobPlanner.matchesListRequest(job, params)).toBe(true);
+    // Requests sent while the dropdowns are still being selected
+    expect(CrawlJobPlanner.matchesListRequest(job, { ...params, period: '7' })).toBe(false);
+    expect(CrawlJobPlanner.matchesListRequest(job, { region: 'US', period: '30', order_by: 'reach' })).toBe(false);
+    expect(CrawlJobPlanner.matchesListRequest(job, { region: 'US', period: '30', adLanguage: 'en' })).toBe(false);
+    expect(CrawlJobPlanner.matchesListRequest({}, { region: 'GB' })).toBe(true);
+  });
+
+  it('should resolve country codes from codes and country names', () => {
+    expect(CrawlJobPlanner.resolveCountryCode({ region: 'us' })).toBe('US');
+    expect(CrawlJobPlanner.resolveCountryCode({ region: 'United States' })).toBe('US');
+    expect(CrawlJobPlanner.resolveCountryCode({ region: 'Atlantis' })).toBe('Atlantis');
+    expect(CrawlJobPlanner.resolveCountryCode({})).toBeUndefined();
+  });
+});
@@ -0,0 +1,93 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import type { KeyValueStore, Log } from 'crawlee';
+import { PaginationCheckpointStore } from '../paginationCheckpointStore.js';
+
+const mockLog = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn()
+} as unknown as Log;
+
+// In-memory stand-in for a Crawlee key-value store
+const createMemoryStore = () => {
+  const values = new Map<string, unknown>();
+  return {
+    values,
+    getValue: vi.fn(async (key: string) => values.get(key) ?? null),
+    setValue: vi.fn(async (key: string, value: unknown) => {
+      if (value === null) {
+        values.delete(key);
+      } else {
+        values.set(key, JSON.parse(JSON.stringify(value)));
+      }
+    })
+  };
+};
+
+const pagination = (page: number, hasMore = true) => ({ page, size: 20, total_count: 100, has_more: hasMore });
+
+describe('PaginationCheckpointStore', () => {
+  let memoryStore: ReturnType<typeof createMemoryStore>;
+  let checkpoints: PaginationCheckpointStore;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    memoryStore = createMemoryStore();
+    checkpoints = new PaginationCheckpointStore(mockLog, memoryStore as unknown as KeyValueStore);
+  });
+
+  it('should start from page 0 without a checkpoint', async () => {
+    expect(await checkpoints.getLastCompletedPage('region=US')).toBe(0);
+    expect(await checkpoints.isCompleted('region=US')).toBe(false);
+  });
+
+  it('should remember the last processed page per job', async () => {
+    await checkpoints.markPageProcessed('region=US', pagination(1));
+    await checkpoints.markPageProcessed('region=US', pagination(2));
+    await checkpoints.markPageProcessed('region=GB', pagination(1));
+
+    expect(await checkpoints.getLastCompletedPage('region=US')).toBe(2);
+    expect(await checkpoints.getLastCompletedPage('region=GB')).toBe(1);
+    expect(await checkpoints.get('region=US')).toMatchObject({ totalItems: 100, itemsPerPage: 20, completed: false });
+  });
+
+  it('should not move the checkpoint backwards', async () => {
+    await checkpoints.markPageProcessed('region=US', pagination(3));
+    await checkpoints.markPageProcessed('region=US', pagination(1));
+
+    expect(await checkpoints.getLastCompletedPage('region=US')).toBe(3);
+  });
+
+  it('should mark jobs as completed', async () => {
+    await checkpoints.markPageProcessed('region=US', pagination(5, false));
+    await checkpoints.markCompleted('region=US');
+
+    expect(await checkpoints.isCompleted('region=US')).toBe(true);
+    expect(await checkpoints.getLastCompletedPage('region=US')).toBe(5);
+  });
+
+  it('should use store-safe keys', async () => {
+    await checkpoints.markPageProcessed('region=US|period=7', pagination(1));
+
+    const [key] = memoryStore.values.keys();
+    expect(key).toMatch(/^[a-zA-Z0-9!\-_.'()]{1,256}$/);
+  });
+
+  it('should ignore checkpoints older than the maximum age', async () => {
+    checkpoints = new PaginationCheckpointStore(mockLog, memoryStore as unknown as KeyValueStore, 1000);
+    await checkpoints.markCompleted('region=US');
+
+    const [[key, value]] = memoryStore.values.entries();
+    memoryStore.values.set(key, { ...(value as object), updatedAt: new Date(Date.now() - 5000).toISOString() });
+
+    expect(await checkpoints.isCompleted('region=US')).toBe(false);
+  });
+
+  it('should remove a checkpoint on reset', async () => {
+    await checkpoints.markCompleted('region=US');
+    await checkpoints.reset('region=US');
+
+    expect(await checkpoints.get('region=US')).toBeNull();
+  });
+});
@@ -0,0 +1,37 @@
+import { describe, it, expect, vi } from 'vitest';
+import { RequestThrottle } from '../requestThrottle.js';
+
+// Clock that only moves when the throttle sleeps
+const createClock = () => {
+  let now = 0;
+  const sleep = vi.fn(async (ms: number) => { now += ms; });
+  return { now: () => now, sleep, advance: (ms: number) => { now += ms; } };
+};
+
+describe('RequestThrottle', () => {
+  it('should space out requests by the minimum interval', async () => {
+    const clock = createClock();
+    const throttle = new RequestThrottle({ minIntervalMs: 1000, now: clock.now, sleep: clock.sleep });
+
+    await throttle.wait();
+    expect(clock.sleep).not.toHaveBeenCalled();
+
+    clock.advance(300);
+    await throttle.wait();
+    expect(clock.sleep).toHaveBeenCalledWith(700);
+  });
+
+  it('should double the interval on backoff up to the maximum and reset afterwards', async () => {
+    const clock = createClock();
+    const throttle = new RequestThrottle({ minIntervalMs: 1000, maxIntervalMs: 3000, now: clock.now, sleep: clock.sleep });
+
+    expect(throttle.backoff()).toBe(2000);
+    expect(throttle.backoff()).toBe(3000);
+
+    await throttle.wait();
+    expect(clock.sleep).toHaveBeenCalledWith(3000);
+
+    throttle.reset();
+    expect(throttle.interval).toBe(1000);
+  });
+});
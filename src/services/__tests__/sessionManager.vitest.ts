@@ -0,0 +1,148 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Log } from 'crawlee';
+import { SessionManager } from '../sessionManager.js';
+import { SessionVault, StoredSessionState } from '../sessionVault.js';
+
+const mockLog = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn()
+} as unknown as Log;
+
+const accounts = [
+  { email: 'first@example.com', password: 'one' },
+  { email: 'second@example.com', password: 'two' }
+];
+
+const state: StoredSessionState = {
+  cookies: [{ name: 'sessionid', value: 'abc', domain: '.tiktok.com', path: '/', expires: -1, httpOnly: true, secure: true, sameSite: 'Lax' }],
+  origins: []
+};
+
+describe('SessionManager', () => {
+  let tmpDir: string;
+  let sessionsDir: string;
+  let legacySessionPath: string;
+  let vault: SessionVault;
+
+  const createManager = (options = {}) => new SessionManager(mockLog, accounts, vault, { sessionsDir, legacySessionPath, ...options });
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'sessions-'));
+    sessionsDir = path.join(tmpDir, 'sessions');
+    legacySessionPath = path.join(tmpDir, 'state.json');
+    vault = new SessionVault(mockLog, { secret: 'test-secret', dir: sessionsDir });
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should require at least one account', () => {
+    expect(() => new SessionManager(mockLog, [], vault, { sessionsDir })).toThrow('At least one TikTok account is required');
+  });
+
+  it('should keep one vault session per account', () => {
+    const manager = createManager();
+    vault.save('first@example.com', state);
+
+    expect(manager.hasSession('first@example.com')).toBe(true);
+    expect(manager.hasSession('second@example.com')).toBe(false);
+    expect(manager.loadSessionState(accounts[0])).toEqual(state);
+  });
+
+  it('should rotate accounts in least recently used order', () => {
+    vi.useFakeTimers();
+    const manager = createManager();
+
+    vi.setSystemTime(new Date('2025-03-01T00:00:00Z'));
+    expect(manager.acquire()?.email).toBe('first@example.com');
+    vi.setSystemTime(new Date('2025-03-01T00:01:00Z'));
+    expect(manager.acquire()?.email).toBe('second@example.com');
+    vi.setSystemTime(new Date('2025-03-01T00:02:00Z'));
+    expect(manager.acquire()?.email).toBe('first@example.com');
+  });
+
+  it('should skip excluded accounts', () => {
+    const manager = createManager();
+
+    expect(manager.acquire(['first@example.com'])?.email).toBe('second@example.com');
+    expect(manager.acquire(['first@example.com', 'second@example.com'])).toBeNull();
+  });
+
+  it('should rest an account after repeated failures', () => {
+    const manager = createManager({ maxConsecutiveFailures: 2 });
+
+    manager.recordEvent('first@example.com', 'failure');
+    expect(manager.acquire(['second@example.com'])?.email).toBe('first@example.com');
+
+    manager.recordEvent('first@example.com', 'failure');
+    expect(manager.acquire(['second@example.com'])).toBeNull();
+  });
+
+  it('should reset consecutive failures on success', () => {
+    const manager = createManager({ maxConsecutiveFailures: 2 });
+
+    manager.recordEvent('first@example.com', 'failure');
+    manager.recordEvent('first@example.com', 'success');
+    manager.recordEvent('first@example.com', 'failure');
+
+    expect(manager.acquire(['second@example.com'])?.email).toBe('first@example.com');
+  });
+
+  it('should delete the session and rest the account when flagged', () => {
+    const manager = createManager();
+    vault.save('first@example.com', state);
+
+    manager.recordEvent('first@example.com', 'flagged');
+
+    expect(manager.hasSession('first@example.com')).toBe(false);
+    expect(manager.acquire()?.email).toBe('second@example.com');
+  });
+
+  it('should delete the session of an expired account without resting it', () => {
+    const manager = createManager();
+    vault.save('first@example.com', state);
+
+    manager.recordEvent('first@example.com', 'expired');
+
+    expect(manager.hasSession('first@example.com')).toBe(false);
+    expect(manager.acquire(['second@example.com'])?.email).toBe('first@example.com');
+  });
+
+  it('should persist health counters between instances', () => {
+    const manager = createManager();
+    manager.recordEvent('second@example.com', 'captcha');
+    manager.recordEvent('second@example.com', 'verification');
+
+    const report = createManager().getHealthReport();
+
+    expect(report.find(health => health.email === 'second@example.com')).toMatchObject({ captchas: 1, verifications: 1 });
+  });
+
+  it('should encrypt the legacy single-file session for the first account', () => {
+    fs.writeFileSync(legacySessionPath, JSON.stringify(state));
+
+    const manager = createManager();
+
+    expect(manager.hasSession('first@example.com')).toBe(true);
+    expect(manager.hasSession('second@example.com')).toBe(false);
+    expect(fs.existsSync(legacySessionPath)).toBe(false);
+  });
+
+  it('should not hand out expired sessions', () => {
+    const manager = createManager();
+    vault.save('first@example.com', {
+      ...state,
+      cookies: [{ ...state.cookies[0], expires: Math.floor(Date.now() / 1000) - 10 }]
+    });
+
+    expect(manager.loadSessionState(accounts[0])).toBeNull();
+  });
+});
@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Log } from 'crawlee';
+import { SessionVault, SessionVaultError, StoredSessionState } from '../sessionVault.js';
+
+const mockLog = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn()
+} as unknown as Log;
+
+const createState = (expires: number): StoredSessionState => ({
+  cookies: [
+    { name: 'sessionid', value: 'secret-session', domain: '.tiktok.com', path: '/', expires, httpOnly: true, secure: true, sameSite: 'Lax' },
+    { name: 'tracking', value: 'x', domain: '.tiktok.com', path: '/', expires: -1, httpOnly: false, secure: false, sameSite: 'Lax' }
+  ],
+  origins: []
+});
+
+describe('SessionVault', () => {
+  let dir: string;
+  let vault: SessionVault;
+  const inOneDay = Math.floor(Date.now() / 1000) + 24 * 60 * 60;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'vault-'));
+    vault = new SessionVault(mockLog, { secret: 'test-secret', dir });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should require a secret', () => {
+    expect(() => new SessionVault(mockLog, { dir })).toThrow(SessionVaultError);
+  });
+
+  it('should not store cookies in plaintext', () => {
+    vault.save('user@example.com', createState(inOneDay));
+
+    const [fileName] = fs.readdirSync(dir);
+    const content = fs.readFileSync(path.join(dir, fileName), 'utf-8');
+    expect(content).not.toContain('secret-session');
+    expect(JSON.parse(content)).toMatchObject({ version: 1, email: 'user@example.com' });
+  });
+
+  it('should round-trip the stored state', () => {
+    const state = createState(inOneDay);
+    vault.save('user@example.com', state);
+
+    expect(vault.load('user@example.com')).toEqual(state);
+  });
+
+  it('should return null for unknown accounts', () => {
+    expect(vault.load('missing@example.com')).toBeNull();
+    expect(vault.has('missing@example.com')).toBe(false);
+  });
+
+  it('should expire with the first auth cookie', () => {
+    const entry = vault.save('user@example.com', createState(inOneDay));
+
+    expect(entry.expiresAt).toBe(new Date(inOneDay * 1000).toISOString());
+  });
+
+  it('should fall back to the default TTL for session-only auth cookies', () => {
+    vault = new SessionVault(mockLog, { secret: 'test-secret', dir, defaultTtlMs: 60_000 });
+    const before = Date.now();
+    const entry = vault.save('user@example.com', createState(-1));
+
+    const expiresAt = new Date(entry.expiresAt).getTime();
+    expect(expiresAt).toBeGreaterThanOrEqual(before + 60_000);
+    expect(expiresAt).toBeLessThanOrEqual(Date.now() + 60_000);
+  });
+
+  it('should refuse expired sessions', () => {
+    vault.save('user@example.com', createState(Math.floor(Date.now() / 1000) - 10));
+
+    expect(() => vault.load('user@example.com')).toThrow(/expired/);
+    expect(vault.check('user@example.com').status).toBe('expired');
+  });
+
+  it('should refuse sessions encrypted with another key', () => {
+    vault.save('user@example.com', createState(inOneDay));
+    const otherVault = new SessionVault(mockLog, { secret: 'other-secret', dir });
+
+    expect(() => otherVault.load('user@example.com')).toThrow(/Failed to decrypt/);
+    expect(otherVault.check('user@example.com').status).toBe('unreadable');
+  });
+
+  it('should keep the creation time when re-saving', () => {
+    const first = vault.save('user@example.com', createState(inOneDay));
+    const second = vault.save('user@example.com', createState(inOneDay), first.createdAt);
+
+    expect(second.createdAt).toBe(first.createdAt);
+  });
+
+  it('should list, check and revoke sessions', () => {
+    vault.save('b@example.com', createState(inOneDay));
+    vault.save('a@example.com', createState(inOneDay));
+
+    expect(vault.list().map(entry => entry.email)).toEqual(['a@example.com', 'b@example.com']);
+    expect(vault.check('a@example.com')).toMatchObject({ status: 'valid', email: 'a@example.com' });
+    expect(vault.check('c@example.com').status).toBe('missing');
+
+    expect(vault.revoke('a@example.com')).toBe(true);
+    expect(vault.revoke('a@example.com')).toBe(false);
+    expect(vault.list().map(entry => entry.email)).toEqual(['b@example.com']);
+  });
+
+  it('should import and remove a plaintext state file', () => {
+    const plaintextPath = path.join(dir, 'state.json');
+    fs.writeFileSync(plaintextPath, JSON.stringify(createState(inOneDay)));
+
+    expect(vault.importPlaintext('user@example.com', plaintextPath)).toBe(true);
+    expect(fs.existsSync(plaintextPath)).toBe(false);
+    expect(vault.load('user@example.com')?.cookies[0].value).toBe('secret-session');
+  });
+});
@@ -0,0 +1,177 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import axios from 'axios';
+import type { Log } from 'crawlee';
+import { TopAdsApiClient, TopAdsRateLimitError, TopAdsSessionExpiredError } from '../topAdsApiClient.js';
+import type { CapturedRequest } from '../requestCapture.js';
+
+vi.mock('axios', () => ({
+  default: {
+    get: vi.fn()
+  }
+}));
+
+const mockLog = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn()
+} as unknown as Log;
+
+const capture: CapturedRequest = {
+  url: 'https://ads.tiktok.com/creative_radar_api/v1/top_ads/v2/list?page=1&limit=20&region=US&adLanguage=en&period=7',
+  method: 'GET',
+  headers: {
+    'user-sign': 'signature',
+    'timestamp': '1700000000',
+    'cookie': 'stale=1'
+  },
+  timestamp: new Date().toISOString()
+};
+
+const createResponse = (page: number, hasMore: boolean, code = 0, msg = 'OK') => ({
+  status: 200,
+  data: {
+    code,
+    msg,
+    request_id: 'req',
+    data: {
+      materials: [{ id: `ad-${page}` }],
+      pagination: { has_more: hasMore, page, size: 20, total_count: 40 }
+    }
+  }
+});
+
+describe('TopAdsApiClient', () => {
+  let tmpDir: string;
+  let sessionPath: string;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'top-ads-'));
+    sessionPath = path.join(tmpDir, 'state.json');
+    fs.writeFileSync(sessionPath, JSON.stringify({
+      cookies: [
+        { name: 'sid_tt', value: 'abc', domain: '.tiktok.com', expires: Date.now() / 1000 + 3600 },
+        { name: 'other', value: 'skip', domain: '.example.com', expires: -1 }
+      ],
+      origins: []
+    }));
+  });
+
+  afterEach(() => {
+    fs.rmSync(tmpDir, { recursive: true, force: true });
+  });
+
+  it('should override query params on the captured url', () => {
+    const client = new TopAdsApiClient(mockLog, { capture, sessionPath });
+    const url = new URL(client.buildUrl({ page: 3, region: 'GB', orderBy: 'ctr' }));
+
+    expect(url.searchParams.get('page')).toBe('3');
+    expect(url.searchParams.get('region')).toBe('GB');
+    expect(url.searchParams.get('order_by')).toBe('ctr');
+    expect(url.searchParams.get('limit')).toBe('20');
+  });
+
+  it('should not carry the filters selected at capture time into other jobs', () => {
+    const client = new TopAdsApiClient(mockLog, {
+      capture: { ...capture, url: `${capture.url.split('?')[0]}?page=1&limit=20&region=GB&order_by=ctr` },
+      sessionPath
+    });
+    const url = new URL(client.buildUrl({ page: 2, period: '30' }));
+
+    expect(url.searchParams.get('region')).toBeNull();
+    expect(url.searchParams.get('order_by')).toBeNull();
+    expect(Object.fromEntries(url.searchParams)).toEqual({ page: '2', limit: '20', period: '30' });
+  });
+
+  it('should replay captured headers with cookies from the session state', async () => {
+    vi.mocked(axios.get).mockResolvedValueOnce(createResponse(1, false));
+    const client = new TopAdsApiClient(mockLog, { capture, sessionPath });
+
+    await client.fetchPage({ page: 1 });
+
+    const [, requestConfig] = vi.mocked(axios.get).mock.calls[0];
+    expect(requestConfig?.headers).toMatchObject({
+      'user-sign': 'signature',
+      cookie: 'sid_tt=abc'
+    });
+  });
+
+  it('should page until has_more is false', async () => {
+    vi.mocked(axios.get)
+      .mockResolvedValueOnce(createResponse(1, true))
+      .mockResolvedValueOnce(createResponse(2, false));
+    const client = new TopAdsApiClient(mockLog, { capture, sessionPath });
+    const onPage = vi.fn();
+
+    const pages = await client.fetchAllPages({ page: 1 }, onPage);
+
+    expect(pages).toBe(2);
+    expect(onPage).toHaveBeenCalledTimes(2);
+  });
+
+  it('should throw TopAdsSessionExpiredError when the API asks for login', async () => {
+    vi.mocked(axios.get).mockResolvedValueOnce(createResponse(1, false, 40101, 'need login'));
+    const client = new TopAdsApiClient(mockLog, { capture, sessionPath });
+
+    await expect(client.fetchPage({ page: 1 })).rejects.toBeInstanceOf(TopAdsSessionExpiredError);
+  });
+
+  it('should throw TopAdsSessionExpiredError on HTTP 403', async () => {
+    vi.mocked(axios.get).mockResolvedValueOnce({ status: 403, data: {} });
+    const client = new TopAdsApiClient(mockLog, { capture, sessionPath });
+
+    await expect(client.fetchPage({ page: 1 })).rejects.toBeInstanceOf(TopAdsSessionExpiredError);
+  });
+
+  it('should back off and retry while the API answers HTTP 429', async () => {
+    vi.mocked(axios.get)
+      .mockResolvedValueOnce({ status: 429, headers: { 'retry-after': '2' }, data: {} })
+      .mockResolvedValueOnce({ status: 429, headers: {}, data: {} })
+      .mockResolvedValueOnce(createResponse(1, false));
+    const sleep = vi.fn(async () => {});
+    const client = new TopAdsApiClient(mockLog, { capture, sessionPath, retryDelayMs: 100, sleep });
+
+    const response = await client.fetchPage({ page: 1 });
+
+    expect(response.data.pagination.page).toBe(1);
+    expect(sleep.mock.calls).toEqual([[2000], [200]]);
+  });
+
+  it('should throw TopAdsRateLimitError once the retries are used up', async () => {
+    const rateLimited = { status: 429, headers: {}, data: {} };
+    vi.mocked(axios.get).mockResolvedValueOnce(rateLimited).mockResolvedValueOnce(rateLimited).mockResolvedValueOnce(rateLimited);
+    const client = new TopAdsApiClient(mockLog, { capture, sessionPath, retries: 2, sleep: async () => {} });
+
+    await expect(client.fetchPage({ page: 1 })).rejects.toBeInstanceOf(TopAdsRateLimitError);
+    expect(axios.get).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not treat other client errors or unexpected bodies as an expired session', async () => {
+    vi.mocked(axios.get)
+      .mockResolvedValueOnce({ status: 400, data: {} })
+      .mockResolvedValueOnce({ status: 200, data: '<html></html>' });
+    const client = new TopAdsApiClient(mockLog, { capture, sessionPath });
+
+    const badRequest = await client.fetchPage({ page: 1 }).catch(error => error);
+    const unexpectedBody = await client.fetchPage({ page: 1 }).catch(error => error);
+
+    expect(badRequest).not.toBeInstanceOf(TopAdsSessionExpiredError);
+    expect(badRequest.message).toBe('Top Ads API request failed (HTTP 400)');
+    expect(unexpectedBody).not.toBeInstanceOf(TopAdsSessionExpiredError);
+    expect(unexpectedBody.message).toBe('Top Ads API returned an unexpected response body');
+  });
+
+  it('should treat a session with only expired cookies as expired', async () => {
+    fs.writeFileSync(sessionPath, JSON.stringify({
+      cookies: [{ name: 'sid_tt', value: 'abc', domain: '.tiktok.com', expires: 1 }]
+    }));
+    const client = new TopAdsApiClient(mockLog, { capture, sessionPath });
+
+    await expect(client.fetchPage({ page: 1 })).rejects.toBeInstanceOf(TopAdsSessionExpiredError);
+    expect(axios.get).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,172 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Log } from 'crawlee';
+import type { Page, Response } from 'playwright';
+import { TrendSectionCollector } from '../trendSectionCollector.js';
+import { TREND_SECTIONS, validateCrawlSections, selectTrendSections } from '../trendSections.js';
+
+const mockLog = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn()
+} as unknown as Log;
+
+const HASHTAG_API = 'https://ads.tiktok.com/creative_radar_api/v1/popular_trend/hashtag/list';
+
+const fakeResponse = (url: string, body: unknown) => ({
+  url: () => url,
+  status: () => 200,
+  json: async () => body
+}) as unknown as Response;
+
+const hashtagPage = (page: number, names: string[], hasMore: boolean, countryCode: string | null = 'US') => fakeResponse(
+  `${HASHTAG_API}?page=${page}&limit=20&period=7${countryCode ? `&country_code=${countryCode}` : ''}`,
+  {
+    code: 0,
+    msg: 'OK',
+    request_id: 'r',
+    data: {
+      list: names.map(name => ({ hashtag_id: `id-${name}`, hashtag_name: name, video_views: 100 })),
+      pagination: { page, size: 20, total: 40, has_more: hasMore }
+    }
+  }
+);
+
+/**
+ * Page that emits the first batch of responses when opened and the next batch per "View More" click
+ */
+const createSectionPage = (batches: Response[][]) => {
+  let listener: ((response: Response) => void) | null = null;
+  let batch = 0;
+  const emitNext = () => {
+    const responses = batches[batch++] ?? [];
+    responses.forEach(response => listener?.(response));
+    return responses;
+  };
+  const button = {
+    isVisible: vi.fn(async () => batch < batches.length),
+    click: vi.fn(async () => { emitNext(); })
+  };
+  const page = {
+    on: vi.fn((_event: string, callback: (response: Response) => void) => { listener = callback; }),
+    off: vi.fn(() => { listener = null; }),
+    goto: vi.fn(async () => { emitNext(); }),
+    waitForResponse: vi.fn(async () => fakeResponse(HASHTAG_API, {})),
+    getByText: vi.fn(() => ({ first: () => button }))
+  };
+  return { page: page as unknown as Page, button };
+};
+
+describe('trendSections', () => {
+  it('should map a hashtag to the stored format', () => {
+    const item = TREND_SECTIONS.hashtags.mapItem(
+      { hashtag_id: 'h-1', hashtag_name: 'summer', industry_info: { id: '1', value: 'Beauty' }, publish_cnt: 10, video_views: 5000, rank_diff: -2 },
+      { countryCode: 'US', period: '7', rank: 3 }
+    );
+
+    expect(item).toMatchObject({ itemId: 'h-1', countryCode: 'US', period: '7', rank: 3, name: 'summer', industry: 'Beauty', postCount: 10, viewCount: 5000, rankDiff: -2 });
+  });
+
+  it('should identify products without an ID by their title', () => {
+    const item = TREND_SECTIONS.products.mapItem({ url_title: 'Serum', ctr: 0.05 }, { countryCode: 'US', rank: 1 });
+
+    expect(item).toMatchObject({ itemId: 'Serum', name: 'Serum', ctr: 0.05 });
+  });
+
+  it('should link keywords to the industry key of ads', () => {
+    const item = TREND_SECTIONS.keywords.mapItem(
+      { keyword: 'free shipping', industry_info: { id: 'label_22000000000', value: 'E-commerce' }, ctr: 0.03, related_keywords: ['fast delivery'] },
+      { countryCode: 'US', period: '7', rank: 1 }
+    );
+
+    expect(item).toMatchObject({ itemId: 'free shipping', industryKey: 'label_22000000000', ctr: 0.03, relatedKeywords: ['fast delivery'] });
+  });
+
+  it('should read both dashboard breakdowns and rank them separately', () => {
+    const rows = TREND_SECTIONS.dashboard.readItems!({
+      objective_list: [{ key: 'conversions', ctr: 0.02 }],
+      industry_list: [{ key: 'label_22000000000', label: 'E-commerce' }, { key: 'label_10000000000', label: 'Apparel' }]
+    });
+    const items = (rows as Parameters<typeof TREND_SECTIONS.dashboard.mapItem>[0][])
+      .map(row => TREND_SECTIONS.dashboard.mapItem(row, { countryCode: 'US', rank: row.rank }));
+
+    expect(items.map(item => [item.itemId, item.rank, item.industryKey])).toEqual([
+      ['objective:conversions', 1, undefined],
+      ['industry:label_22000000000', 1, 'label_22000000000'],
+      ['industry:label_10000000000', 2, 'label_10000000000']
+    ]);
+  });
+
+  it('should reject unknown sections and pick the trend sections', () => {
+    expect(validateCrawlSections(['topads', 'hashtag'])).toEqual([
+      '"hashtag" is not a section, use one of "topads", "hashtags", "songs", "creators", "videos", "products", "keywords", "dashboard"'
+    ]);
+    expect(selectTrendSections(['topads', 'products', 'songs'])).toEqual(['products', 'songs']);
+  });
+});
+
+describe('TrendSectionCollector', () => {
+  it('should build one request per section and market', () => {
+    const requests = TrendSectionCollector.toRequests(['hashtags', 'creators'], [
+      { region: 'US', period: '7', orderBy: 'ctr' },
+      { region: 'US', period: '7', orderBy: 'reach' }
+    ]);
+
+    expect(requests.map(request => request.uniqueKey)).toEqual([
+      'hashtags#region=US|period=7',
+      'hashtags#region=US|period=7',
+      'creators#region=US',
+      'creators#region=US'
+    ]);
+    expect(requests[0]).toMatchObject({
+      url: 'https://ads.tiktok.com/business/creativecenter/inspiration/popular/hashtag/pc/en?countryCode=US&period=7',
+      label: 'TREND_HASHTAGS'
+    });
+  });
+
+  it('should load more pages until the API reports no more items', async () => {
+    const { page, button } = createSectionPage([
+      [hashtagPage(1, ['a', 'b'], true)],
+      [hashtagPage(2, ['c'], false)]
+    ]);
+
+    const items = await new TrendSectionCollector(mockLog, page).collect('hashtags', 'https://example.com', { region: 'US', period: '7' });
+
+    expect(button.click).toHaveBeenCalledTimes(1);
+    expect(items.map(item => [item.name, item.rank])).toEqual([['a', 1], ['b', 2], ['c', 3]]);
+    expect(items[0]).toMatchObject({ countryCode: 'US', period: '7', viewCount: 100 });
+    expect(page.off).toHaveBeenCalled();
+  });
+
+  it('should stop at the page limit', async () => {
+    const { page, button } = createSectionPage([
+      [hashtagPage(1, ['a'], true)],
+      [hashtagPage(2, ['b'], true)],
+      [hashtagPage(3, ['c'], false)]
+    ]);
+
+    const items = await new TrendSectionCollector(mockLog, page, { maxPages: 2 }).collect('hashtags', 'https://example.com');
+
+    expect(button.click).toHaveBeenCalledTimes(1);
+    expect(items).toHaveLength(2);
+  });
+
+  it('should ignore the list of the default market', async () => {
+    const { page } = createSectionPage([
+      [hashtagPage(1, ['default'], false, 'US'), hashtagPage(1, ['local'], false, 'DE')]
+    ]);
+
+    const items = await new TrendSectionCollector(mockLog, page).collect('hashtags', 'https://example.com', { region: 'DE' });
+
+    expect(items.map(item => item.name)).toEqual(['local']);
+    expect(items[0].countryCode).toBe('DE');
+  });
+
+  it('should not assign a market when neither the job nor the list names one', async () => {
+    const { page } = createSectionPage([[hashtagPage(1, ['a'], false, null)]]);
+
+    const items = await new TrendSectionCollector(mockLog, page).collect('hashtags', 'https://example.com');
+
+    expect(items[0].countryCode).toBe('unknown');
+  });
+});
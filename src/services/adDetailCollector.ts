@@ -0,0 +1,226 @@
+import { Log, RequestOptions } from 'crawlee';
+import { Page, Response } from 'playwright';
+import type { AdDetailData } from './database/types.js';
+import type { TikTokAdDetail, TikTokAdInterest, TikTokAdSecondMetric, TikTokApiEnvelope } from '../types/api.js';
+import { CrawlJob, CrawlJobPlanner } from './crawlJobPlanner.js';
+
+/**
+ * Router label of the requests that crawl an ad's detail page
+ */
+export const DETAIL_LABEL = 'DETAIL';
+
+/**
+ * userData attached to every detail request
+ */
+export interface AdDetailUserData {
+    adId: string;
+    /**
+     * Country the ad was listed for; the detail page shows its metrics for this market
+     */
+    countryCode?: string;
+    period?: string;
+}
+
+/**
+ * Detail API responses by the endpoint they came from
+ */
+export interface CapturedAdDetail {
+    detail?: TikTokAdDetail;
+    interests?: TikTokAdInterest[];
+    retention?: TikTokAdSecondMetric[];
+}
+
+/**
+ * Options for creating an AdDetailCollector
+ */
+export interface AdDetailCollectorOptions {
+    /**
+     * How long to wait for the detail response after opening the page (ms)
+     */
+    timeoutMs?: number;
+    /**
+     * Time the lazily loaded sections get after the detail response (ms)
+     */
+    settleMs?: number;
+}
+
+/**
+ * Thrown when TikTok answers a detail API with HTTP 429.
+ * The caller should back off before the next detail page.
+ */
+export class AdDetailRateLimitError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'AdDetailRateLimitError';
+    }
+}
+
+const DETAIL_PAGE_URL = 'https://ads.tiktok.com/business/creativecenter/topads';
+
+// Endpoints the detail page loads its sections from
+const DETAIL_API_PATTERNS: Record<keyof CapturedAdDetail, RegExp> = {
+    detail: /\/creative_radar_api\/v1\/top_ads\/v2\/detail/,
+    interests: /\/creative_radar_api\/v1\/top_ads\/v2\/interest/,
+    retention: /\/creative_radar_api\/v1\/top_ads\/v2\/retention/
+};
+
+/**
+ * Maps the captured detail API responses to the stored detail format
+ * @param adId - Ad the responses belong to
+ * @param captured - Captured responses
+ * @param crawledAt - Crawl timestamp
+ * @returns Detail data ready for `upsertAdDetail`
+ */
+export const mapToAdDetail = (adId: string, captured: CapturedAdDetail, crawledAt: Date = new Date()): AdDetailData => {
+    const { detail, interests = [], retention = [] } = captured;
+    return {
+        adId,
+        ctaText: detail?.cta_text || undefined,
+        landingPage: detail?.landing_page || undefined,
+        keywords: detail?.keyword_list ?? [],
+        highlightText: detail?.highlight_text || undefined,
+        audienceInterests: interests.map(interest => ({ interest: interest.interest, share: interest.percentage })),
+        retention: retention
+            .map(metric => ({ second: metric.second, retention: metric.retention_rate, ctr: metric.ctr, cvr: metric.cvr }))
+            .sort((a, b) => a.second - b.second),
+        raw: captured as unknown as AdDetailData['raw'],
+        crawledAt
+    };
+};
+
+/**
+ * Opens the Creative Center detail page of an ad and captures the detail API responses it loads
+ */
+export class AdDetailCollector {
+    private readonly log: Log;
+    private readonly page: Page;
+    private readonly timeoutMs: number;
+    private readonly settleMs: number;
+
+    constructor(log: Log, page: Page, options: AdDetailCollectorOptions = {}) {
+        this.log = log;
+        this.page = page;
+        this.timeoutMs = options.timeoutMs ?? 30000;
+        this.settleMs = options.settleMs ?? 3000;
+    }
+
+    /**
+     * Builds the detail page URL of an ad
+     * @param adId - Ad ID
+     * @param context - Market and period the metrics are shown for
+     * @returns Detail page URL
+     */
+    static getDetailUrl(adId: string, context: Omit<AdDetailUserData, 'adId'> = {}): string {
+        const url = new URL(`${DETAIL_PAGE_URL}/${encodeURIComponent(adId)}/pc/en`);
+        if (context.countryCode) url.searchParams.set('countryCode', context.countryCode);
+        if (context.period) url.searchParams.set('period', context.period);
+        return url.toString();
+    }
+
+    /**
+     * Turns newly stored ads into detail requests.
+     * The unique key is the ad, so an ad listed by several jobs is detailed once.
+     * @param adIds - IDs of the newly stored ads
+     * @param job - Crawl job the ads were listed by
+     * @returns Requests for `addRequests()`
+     */
+    static toRequests(adIds: string[], job: CrawlJob = {}): RequestOptions<AdDetailUserData>[] {
+        const context = { countryCode: CrawlJobPlanner.resolveCountryCode(job), period: job.period };
+        return adIds.map(adId => ({
+            url: AdDetailCollector.getDetailUrl(adId, context),
+            uniqueKey: `detail:${adId}`,
+            label: DETAIL_LABEL,
+            userData: { adId, ...context }
+        }));
+    }
+
+    /**
+     * Checks whether stored details are recent enough to skip the detail page
+     * @param detail - Stored details, if any
+     * @param maxAgeMs - Maximum age in milliseconds
+     * @param now - Current time
+     * @returns True if the details were crawled within maxAgeMs
+     */
+    static isFresh(detail: AdDetailData | null, maxAgeMs: number, now: Date = new Date()): boolean {
+        if (!detail?.crawledAt) return false;
+        return now.getTime() - detail.crawledAt.getTime() < maxAgeMs;
+    }
+
+    /**
+     * Opens the detail page and collects the responses of its sections
+     * @param adId - Ad to collect
+     * @param url - Detail page URL
+     * @returns Detail data, or null if the page did not load the ad's detail
+     * @throws AdDetailRateLimitError if a detail API was rate-limited
+     */
+    async collect(adId: string, url: string): Promise<AdDetailData | null> {
+        const captured: CapturedAdDetail = {};
+        const pending: Promise<void>[] = [];
+        let rateLimited = false;
+
+        const onResponse = (response: Response) => {
+            const part = (Object.keys(DETAIL_API_PATTERNS) as Array<keyof CapturedAdDetail>)
+                .find(key => DETAIL_API_PATTERNS[key].test(response.url()));
+            if (!part) return;
+
+            if (response.status() === 429) {
+                rateLimited = true;
+                return;
+            }
+            pending.push(this.readResponse(response, part, captured));
+        };
+
+        this.page.on('response', onResponse);
+        try {
+            const detailLoaded = this.page.waitForResponse(response => DETAIL_API_PATTERNS.detail.test(response.url()), { timeout: this.timeoutMs })
+                .catch(() => null);
+            await this.page.goto(url, { waitUntil: 'domcontentloaded' });
+            await detailLoaded;
+
+            // Audience and retention sections load when scrolled into view
+            await this.page.evaluate(() => window.scrollTo({ top: document.body.scrollHeight, behavior: 'smooth' }));
+            await this.page.waitForTimeout(this.settleMs);
+            await Promise.all(pending);
+        } finally {
+            this.page.off('response', onResponse);
+        }
+
+        if (rateLimited) {
+            throw new AdDetailRateLimitError(`Detail API rate-limited for ad ${adId}`);
+        }
+        if (!captured.detail) {
+            this.log.warning('Detail page did not load the ad detail', { adId, url });
+            return null;
+        }
+
+        this.log.info('Collected ad detail', {
+            adId,
+            interests: captured.interests?.length ?? 0,
+            retentionSeconds: captured.retention?.length ?? 0
+        });
+        return mapToAdDetail(adId, captured);
+    }
+
+    /**
+     * @private
+     */
+    private async readResponse(response: Response, part: keyof CapturedAdDetail, captured: CapturedAdDetail): Promise<void> {
+        try {
+            const body = await response.json() as TikTokApiEnvelope<unknown>;
+            if (body.code !== 0) {
+                this.log.warning('Detail API returned an error', { part, code: body.code, msg: body.msg });
+                return;
+            }
+
+            if (part === 'detail') {
+                captured.detail = body.data as TikTokAdDetail;
+            } else if (part === 'interests') {
+                captured.interests = (body.data as { interest_list?: TikTokAdInterest[] }).interest_list ?? [];
+            } else {
+                captured.retention = (body.data as { second_metrics?: TikTokAdSecondMetric[] }).second_metrics ?? [];
+            }
+        } catch (error) {
+            this.log.warning('Could not read detail API response:', { part, error: (error as Error).message });
+        }
+    }
+}
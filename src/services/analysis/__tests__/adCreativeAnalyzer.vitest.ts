@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import axios from 'axios';
+import type { Log } from 'crawlee';
+import { AdCreativeAnalyzer, AdAnalysisModel } from '../adCreativeAnalyzer.js';
+import { adCreativeAnalysisSchema } from '../adAnalysisSchema.js';
+import { StructuredOutputError } from '../../../ai_service/responseSchema.js';
+import { AdAnalysisQueue } from '../adAnalysisQueue.js';
+import type { FrameSampler } from '../frameSampler.js';
+import type { TikTokAdMaterial } from '../../../types/api.js';
+
+vi.mock('axios', () => ({
+  default: {
+    get: vi.fn()
+  }
+}));
+
+const mockLog = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn()
+} as unknown as Log;
+
+const answer = {
+  hookType: 'Problem-Solution',
+  offer: 'discount',
+  tone: 'energetic',
+  productCategory: 'Skincare',
+  cta: 'shop now',
+  summary: 'A creator fixes dry skin with the serum.'
+};
+
+const cover = { data: Buffer.from('cover'), mimeType: 'image/jpeg' };
+
+describe('AdCreativeAnalyzer', () => {
+  it('should send the title, cover and frames with the analysis schema', async () => {
+    const model = {
+      generateObject: vi.fn(async () => ({ value: adCreativeAnalysisSchema.parse(answer), model: 'gemini-test', usage: { inputTokens: 10, outputTokens: 5 }, cached: false }))
+    };
+    const frames = [{ data: Buffer.from('f1'), mimeType: 'image/jpeg' }, { data: Buffer.from('f2'), mimeType: 'image/jpeg' }];
+
+    const analysis = await new AdCreativeAnalyzer(mockLog, model as unknown as AdAnalysisModel).analyze({ adId: 'ad-1', title: 'Glow serum', cover, frames });
+
+    const [task, prompt, options] = model.generateObject.mock.calls[0] as unknown as [string, unknown[], { schema: unknown }];
+    expect(task).toBe('analysis');
+    expect(prompt[0]).toContain('Ad title: Glow serum');
+    expect(prompt.filter(input => typeof input !== 'string')).toEqual([cover, ...frames]);
+    expect(options.schema).toBe(adCreativeAnalysisSchema);
+    expect(analysis).toMatchObject({
+      adId: 'ad-1',
+      hookType: 'problem_solution',
+      offer: 'discount',
+      productCategory: 'skincare',
+      cta: 'shop_now',
+      model: 'gemini-test',
+      frameCount: 2
+    });
+  });
+
+  it('should normalize labels written in another case', () => {
+    expect(adCreativeAnalysisSchema.parse(answer)).toMatchObject({ hookType: 'problem_solution', productCategory: 'skincare', cta: 'shop_now' });
+  });
+
+  it('should reject labels outside the allowed values', () => {
+    expect(adCreativeAnalysisSchema.safeParse({ ...answer, hookType: 'shock' }).success).toBe(false);
+  });
+});
+
+describe('AdAnalysisQueue', () => {
+  const material = {
+    id: 'ad-1',
+    ad_title: 'Glow serum',
+    video_info: {
+      vid: 'v-1',
+      duration: 12,
+      cover: 'https://cdn.example.com/cover.jpeg',
+      video_url: { '720p': 'https://cdn.example.com/720.mp4', '360p': 'https://cdn.example.com/360.mp4' }
+    }
+  } as unknown as TikTokAdMaterial;
+
+  beforeEach(() => {
+    vi.mocked(axios.get).mockReset();
+  });
+
+  it('should analyze each ad once and store the analysis', async () => {
+    vi.mocked(axios.get).mockResolvedValue({ data: Buffer.from('cover'), headers: { 'content-type': 'image/jpeg' } });
+    const analyzer = { analyze: vi.fn(async ({ adId }) => ({ adId, hookType: 'question' })) } as unknown as AdCreativeAnalyzer;
+    const db = { upsertAdAnalysis: vi.fn().mockResolvedValue(undefined) };
+    const queue = new AdAnalysisQueue(mockLog, analyzer, db);
+
+    queue.enqueue([material, material]);
+    await queue.drain();
+
+    expect(analyzer.analyze).toHaveBeenCalledTimes(1);
+    expect(analyzer.analyze).toHaveBeenCalledWith({ adId: 'ad-1', title: 'Glow serum', cover, frames: undefined });
+    expect(db.upsertAdAnalysis).toHaveBeenCalledWith({ adId: 'ad-1', hookType: 'question' });
+  });
+
+  it('should sample frames from the lowest rendition and go on without the cover', async () => {
+    vi.mocked(axios.get).mockRejectedValue(new Error('Request failed with status code 403'));
+    const frames = [{ data: Buffer.from('f1'), mimeType: 'image/jpeg' }];
+    const frameSampler = { sample: vi.fn().mockResolvedValue(frames) } as unknown as FrameSampler;
+    const analyzer = { analyze: vi.fn(async ({ adId }) => ({ adId })) } as unknown as AdCreativeAnalyzer;
+    const queue = new AdAnalysisQueue(mockLog, analyzer, { upsertAdAnalysis: vi.fn() }, { videoFrames: 3, frameSampler });
+
+    queue.enqueue([material]);
+    await queue.drain();
+
+    expect(frameSampler.sample).toHaveBeenCalledWith('https://cdn.example.com/360.mp4', 3, 12);
+    expect(analyzer.analyze).toHaveBeenCalledWith(expect.objectContaining({ cover: undefined, frames }));
+  });
+
+  it('should keep going after a failed analysis', async () => {
+    vi.mocked(axios.get).mockResolvedValue({ data: Buffer.from('cover'), headers: {} });
+    const analyzer = {
+      analyze: vi.fn()
+        .mockRejectedValueOnce(new StructuredOutputError('Failed to generate object with gemini after 3 attempt(s): hookType: Invalid enum value'))
+        .mockResolvedValueOnce({ adId: 'ad-2' })
+    } as unknown as AdCreativeAnalyzer;
+    const db = { upsertAdAnalysis: vi.fn().mockResolvedValue(undefined) };
+    const queue = new AdAnalysisQueue(mockLog, analyzer, db);
+
+    queue.enqueue([material, { ...material, id: 'ad-2' }]);
+    await queue.drain();
+
+    expect(db.upsertAdAnalysis).toHaveBeenCalledTimes(1);
+    expect(db.upsertAdAnalysis).toHaveBeenCalledWith({ adId: 'ad-2' });
+  });
+});
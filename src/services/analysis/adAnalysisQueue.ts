@@ -0,0 +1,128 @@
+import axios from 'axios';
+import { Log } from 'crawlee';
+import type { IDatabase } from '../database/types.js';
+import type { TikTokAdMaterial } from '../../types/api.js';
+import { VIDEO_RENDITIONS } from '../media/mediaDownloader.js';
+import type { AdCreativeAnalyzer, AdCreativeImage } from './adCreativeAnalyzer.js';
+import type { FrameSampler } from './frameSampler.js';
+
+/**
+ * Options for creating an AdAnalysisQueue
+ */
+export interface AdAnalysisQueueOptions {
+    /**
+     * Video frames sent besides the cover; 0 sends the cover only
+     */
+    videoFrames?: number;
+    /**
+     * Needed when video frames are sent
+     */
+    frameSampler?: FrameSampler;
+    /**
+     * Cover request timeout (ms)
+     */
+    timeoutMs?: number;
+}
+
+/**
+ * Analyzes the creatives of newly stored ads in the background of a crawl job and stores the
+ * analyses. Ads are analyzed one at a time to stay within the model's rate limits.
+ */
+export class AdAnalysisQueue {
+    private readonly log: Log;
+    private readonly analyzer: AdCreativeAnalyzer;
+    private readonly db: Pick<IDatabase, 'upsertAdAnalysis'>;
+    private readonly videoFrames: number;
+    private readonly frameSampler?: FrameSampler;
+    private readonly timeoutMs: number;
+    private readonly seen = new Set<string>();
+    private tail: Promise<void> = Promise.resolve();
+
+    constructor(log: Log, analyzer: AdCreativeAnalyzer, db: Pick<IDatabase, 'upsertAdAnalysis'>, options: AdAnalysisQueueOptions = {}) {
+        this.log = log;
+        this.analyzer = analyzer;
+        this.db = db;
+        this.videoFrames = options.frameSampler ? options.videoFrames ?? 0 : 0;
+        this.frameSampler = options.frameSampler;
+        this.timeoutMs = options.timeoutMs ?? 30000;
+    }
+
+    /**
+     * Queues the given ads for analysis without waiting for them
+     * @param materials - Newly stored ads with their signed CDN links
+     */
+    enqueue(materials: TikTokAdMaterial[]): void {
+        for (const material of materials) {
+            if (this.seen.has(material.id)) continue;
+            this.seen.add(material.id);
+
+            this.tail = this.tail.then(() => this.process(material));
+        }
+    }
+
+    /**
+     * Waits until every queued ad has been analyzed
+     */
+    async drain(): Promise<void> {
+        let tail: Promise<void>;
+        do {
+            tail = this.tail;
+            await tail;
+        } while (tail !== this.tail);
+    }
+
+    /**
+     * @private
+     */
+    private async process(material: TikTokAdMaterial): Promise<void> {
+        try {
+            const [cover, frames] = await Promise.all([
+                this.fetchCover(material),
+                this.sampleFrames(material)
+            ]);
+
+            const analysis = await this.analyzer.analyze({ adId: material.id, title: material.ad_title, cover, frames });
+            await this.db.upsertAdAnalysis(analysis);
+            this.log.debug('Stored ad analysis', { adId: material.id, hookType: analysis.hookType, offer: analysis.offer });
+        } catch (error) {
+            this.log.error('Error analyzing ad creative:', { adId: material.id, error: (error as Error).message });
+        }
+    }
+
+    /**
+     * Downloads the cover; the ad is analyzed from its title alone when that fails
+     * @private
+     */
+    private async fetchCover(material: TikTokAdMaterial): Promise<AdCreativeImage | undefined> {
+        const url = material.video_info?.cover;
+        if (!url) return undefined;
+
+        try {
+            const response = await axios.get<ArrayBuffer>(url, { responseType: 'arraybuffer', timeout: this.timeoutMs });
+            const contentType = String(response.headers?.['content-type'] ?? '').split(';')[0].trim();
+            return { data: Buffer.from(response.data), mimeType: contentType.startsWith('image/') ? contentType : 'image/jpeg' };
+        } catch (error) {
+            this.log.warning('Could not download cover for analysis:', { adId: material.id, error: (error as Error).message });
+            return undefined;
+        }
+    }
+
+    /**
+     * Samples frames from the lowest rendition, which is enough for the model and the quickest to read
+     * @private
+     */
+    private async sampleFrames(material: TikTokAdMaterial): Promise<AdCreativeImage[] | undefined> {
+        if (!this.frameSampler || this.videoFrames <= 0) return undefined;
+
+        const video = material.video_info;
+        const url = [...VIDEO_RENDITIONS].reverse().map(rendition => video?.video_url?.[rendition]).find(Boolean);
+        if (!url) return undefined;
+
+        try {
+            return await this.frameSampler.sample(url, this.videoFrames, video.duration);
+        } catch (error) {
+            this.log.warning('Could not sample video frames for analysis:', { adId: material.id, error: (error as Error).message });
+            return undefined;
+        }
+    }
+}
@@ -0,0 +1,53 @@
+import { z } from 'zod';
+
+/**
+ * How the video grabs attention in its first seconds
+ */
+export const HOOK_TYPES = [
+    'question',
+    'problem_solution',
+    'testimonial',
+    'demonstration',
+    'before_after',
+    'unboxing',
+    'tutorial',
+    'trend',
+    'offer_first',
+    'storytelling',
+    'other'
+] as const;
+
+/**
+ * Commercial offer made by the ad
+ */
+export const OFFER_TYPES = ['discount', 'free_shipping', 'bundle', 'free_trial', 'limited_time', 'giveaway', 'none', 'other'] as const;
+
+export const TONES = ['energetic', 'humorous', 'emotional', 'informative', 'luxurious', 'calm', 'urgent', 'other'] as const;
+
+/**
+ * Call to action, read from the creative rather than from the button of the ad
+ */
+export const CTA_TYPES = ['shop_now', 'learn_more', 'download', 'sign_up', 'order_now', 'contact_us', 'watch_more', 'other', 'none'] as const;
+
+/**
+ * Accepts the label in any case and with spaces or dashes, as models tend to write `Problem-Solution`
+ * @private
+ */
+const label = <T extends Readonly<[string, ...string[]]>>(values: T) => z.preprocess(
+    value => typeof value === 'string' ? value.trim().toLowerCase().replace(/[\s-]+/g, '_') : value,
+    z.enum(values)
+);
+
+/**
+ * Analysis the model has to answer with
+ */
+export const adCreativeAnalysisSchema = z.object({
+    hookType: label(HOOK_TYPES),
+    offer: label(OFFER_TYPES),
+    tone: label(TONES),
+    productCategory: z.string().trim().min(1).transform(value => value.toLowerCase()),
+    cta: label(CTA_TYPES),
+    summary: z.string().trim().optional()
+});
+
+export type AdCreativeAnalysis = z.infer<typeof adCreativeAnalysisSchema>;
@@ -0,0 +1,94 @@
+import { Log } from 'crawlee';
+import type { LlmService } from '../../ai_service/llm/llmService.js';
+import type { LlmInput } from '../../ai_service/llm/types.js';
+import type { AdAnalysisData } from '../database/types.js';
+import { adCreativeAnalysisSchema, CTA_TYPES, HOOK_TYPES, OFFER_TYPES, TONES } from './adAnalysisSchema.js';
+
+/**
+ * Image sent to the model
+ */
+export interface AdCreativeImage {
+    data: Buffer;
+    mimeType: string;
+}
+
+/**
+ * Creative of an ad as sent for analysis
+ */
+export interface AdCreativeInput {
+    adId: string;
+    title: string;
+    cover?: AdCreativeImage;
+    /**
+     * Video frames in playback order (optional)
+     */
+    frames?: AdCreativeImage[];
+}
+
+/**
+ * Model the creatives are sent to
+ */
+export type AdAnalysisModel = Pick<LlmService, 'generateObject'>;
+
+const INSTRUCTIONS = `You are a performance marketing analyst. Classify the TikTok ad creative below:
+- "hookType": one of ${HOOK_TYPES.join(', ')}
+- "offer": one of ${OFFER_TYPES.join(', ')}
+- "tone": one of ${TONES.join(', ')}
+- "productCategory": the advertised product category in one to three lowercase words, e.g. "skincare"
+- "cta": one of ${CTA_TYPES.join(', ')}
+- "summary": one sentence describing the creative`;
+
+/**
+ * Classifies the hook, offer, tone, product category and call to action of ad creatives
+ * from their title, cover and sampled video frames
+ */
+export class AdCreativeAnalyzer {
+    private readonly log: Log;
+    private readonly model: AdAnalysisModel;
+
+    /**
+     * @param log - Crawlee logger instance
+     * @param model - Model the creatives are sent to, as the `analysis` task
+     */
+    constructor(log: Log, model: AdAnalysisModel) {
+        this.log = log;
+        this.model = model;
+    }
+
+    /**
+     * Sends the creative to the model, which answers in structured output mode
+     * @param input - Title and images of the ad
+     * @returns Analysis for `upsertAdAnalysis`
+     * @throws StructuredOutputError when no answer matched the analysis schema
+     */
+    async analyze(input: AdCreativeInput): Promise<AdAnalysisData> {
+        const { value: analysis, model } = await this.model.generateObject('analysis', AdCreativeAnalyzer.buildPrompt(input), { schema: adCreativeAnalysisSchema });
+        this.log.debug('Analyzed ad creative', { adId: input.adId, hookType: analysis.hookType, productCategory: analysis.productCategory });
+
+        return {
+            adId: input.adId,
+            ...analysis,
+            model,
+            frameCount: input.frames?.length ?? 0,
+            raw: analysis,
+            analyzedAt: new Date()
+        };
+    }
+
+    /**
+     * Builds the prompt: instructions and title, then the cover and the frames
+     * @param input - Title and images of the ad
+     * @returns Prompt inputs
+     */
+    static buildPrompt(input: AdCreativeInput): LlmInput[] {
+        const prompt: LlmInput[] = [`${INSTRUCTIONS}\n\nAd title: ${input.title || '(none)'}`];
+
+        if (input.cover) {
+            prompt.push('Cover image:', input.cover);
+        }
+        if (input.frames?.length) {
+            prompt.push(`${input.frames.length} frames sampled from the video, in order:`, ...input.frames);
+        }
+        return prompt;
+    }
+}
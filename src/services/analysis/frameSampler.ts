@@ -0,0 +1,75 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { promisify } from 'util';
+import type { AdCreativeImage } from './adCreativeAnalyzer.js';
+
+const execFileAsync = promisify(execFile);
+
+/**
+ * Options for creating a FrameSampler
+ */
+export interface FrameSamplerOptions {
+    /**
+     * ffmpeg executable
+     */
+    ffmpegPath?: string;
+    /**
+     * Width the frames are scaled to (px)
+     */
+    width?: number;
+    /**
+     * Time limit for reading the video (ms)
+     */
+    timeoutMs?: number;
+}
+
+/**
+ * Samples evenly spaced JPEG frames from a video with ffmpeg. The video is read straight
+ * from its URL, so it does not have to be downloaded first.
+ */
+export class FrameSampler {
+    private readonly ffmpegPath: string;
+    private readonly width: number;
+    private readonly timeoutMs: number;
+
+    constructor(options: FrameSamplerOptions = {}) {
+        this.ffmpegPath = options.ffmpegPath ?? 'ffmpeg';
+        this.width = options.width ?? 512;
+        this.timeoutMs = options.timeoutMs ?? 60000;
+    }
+
+    /**
+     * Samples frames spread over the whole video
+     * @param source - Video URL or file path
+     * @param count - Number of frames
+     * @param durationSec - Video duration, used to space the frames
+     * @returns Frames in playback order
+     */
+    async sample(source: string, count: number, durationSec: number): Promise<AdCreativeImage[]> {
+        if (count <= 0) return [];
+
+        const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'ad-frames-'));
+        try {
+            const fps = count / Math.max(durationSec, 1);
+            await execFileAsync(this.ffmpegPath, [
+                '-hide_banner', '-loglevel', 'error',
+                '-i', source,
+                '-vf', `fps=${fps},scale=${this.width}:-2`,
+                '-frames:v', String(count),
+                path.join(dir, 'frame-%03d.jpg')
+            ], { timeout: this.timeoutMs });
+
+            const files = (await fs.readdir(dir)).filter(file => file.endsWith('.jpg')).sort();
+            return await Promise.all(files.map(async file => ({
+                data: await fs.readFile(path.join(dir, file)),
+                mimeType: 'image/jpeg'
+            })));
+        } catch (error) {
+            throw new Error(`Failed to sample video frames: ${(error as Error).message}`);
+        } finally {
+            await fs.rm(dir, { recursive: true, force: true });
+        }
+    }
+}
@@ -0,0 +1,44 @@
+import { describe, it, expect } from 'vitest';
+import { buildHumanDragPath } from '../humanMouse.js';
+
+const seededRandom = (seed = 1) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+describe('buildHumanDragPath', () => {
+  const start = { x: 100, y: 200 };
+  const end = { x: 300, y: 200 };
+
+  it('should end exactly on the target', () => {
+    const path = buildHumanDragPath(start, end, seededRandom());
+    expect(path[path.length - 1]).toEqual(end);
+  });
+
+  it('should move through many small steps without leaving the track', () => {
+    const path = buildHumanDragPath(start, end, seededRandom());
+
+    expect(path.length).toBeGreaterThan(20);
+    for (const point of path) {
+      expect(Math.abs(point.y - start.y)).toBeLessThan(2);
+    }
+  });
+
+  it('should slow down towards the target', () => {
+    const path = buildHumanDragPath(start, end, seededRandom(3));
+    const steps = path.slice(1).map((point, index) => point.x - path[index].x);
+    const middle = steps[Math.floor(steps.length / 2)];
+
+    expect(Math.abs(steps[0])).toBeLessThan(middle);
+    expect(Math.abs(steps[steps.length - 3])).toBeLessThan(middle);
+  });
+
+  it('should overshoot slightly before settling', () => {
+    const path = buildHumanDragPath(start, end, seededRandom(5));
+    expect(Math.max(...path.map(point => point.x))).toBeGreaterThan(end.x);
+  });
+
+  it('should vary between drags', () => {
+    expect(buildHumanDragPath(start, end, seededRandom(1))).not.toEqual(buildHumanDragPath(start, end, seededRandom(2)));
+  });
+});
@@ -0,0 +1,99 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Log } from 'crawlee';
+import type { Page } from 'playwright';
+import { CaptchaSolverRegistry } from '../registry.js';
+import { MockCaptchaSolver } from '../solvers/mockCaptchaSolver.js';
+import type { CaptchaSolver } from '../types.js';
+
+const mockLog = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn()
+} as unknown as Log;
+
+const page = {} as Page;
+const challenge = { selector: '#captcha', screenshotPath: 'storage/screenshots/captcha.png' };
+
+describe('CaptchaSolverRegistry', () => {
+  it('should stop at the first solver that succeeds', async () => {
+    const first = new MockCaptchaSolver([true], 'first');
+    const second = new MockCaptchaSolver([true], 'second');
+    const registry = new CaptchaSolverRegistry(mockLog).register(first).register(second);
+
+    const outcome = await registry.solve(page, challenge, async () => true);
+
+    expect(outcome).toMatchObject({ solved: true, provider: 'first' });
+    expect(outcome.attempts).toHaveLength(1);
+    expect(second.challenges).toHaveLength(0);
+  });
+
+  it('should fall back through the configured order and record every attempt', async () => {
+    const registry = new CaptchaSolverRegistry(mockLog, { order: ['sad', 'manual'], maxAttemptsPerSolver: 2 })
+      .register(new MockCaptchaSolver([true], 'manual'))
+      .register(new MockCaptchaSolver([false], 'sad'));
+
+    const outcome = await registry.solve(page, challenge, async () => true);
+
+    expect(outcome.solved).toBe(true);
+    expect(outcome.provider).toBe('manual');
+    expect(outcome.attempts.map(result => [result.provider, result.attempts, result.success])).toEqual([
+      ['sad', 1, false],
+      ['sad', 2, false],
+      ['manual', 1, true]
+    ]);
+  });
+
+  it('should retry a solver until it succeeds', async () => {
+    const solver = new MockCaptchaSolver([false, true]);
+    const registry = new CaptchaSolverRegistry(mockLog, { maxAttemptsPerSolver: 3 }).register(solver);
+
+    const outcome = await registry.solve(page, challenge, async () => true);
+
+    expect(outcome.solved).toBe(true);
+    expect(outcome.attempts).toHaveLength(2);
+  });
+
+  it('should not count a solution the page did not accept', async () => {
+    const registry = new CaptchaSolverRegistry(mockLog).register(new MockCaptchaSolver([true]));
+
+    const outcome = await registry.solve(page, challenge, async () => false);
+
+    expect(outcome.solved).toBe(false);
+    expect(outcome.attempts[0]).toMatchObject({ success: false, provider: 'mock', error: 'Solution was not accepted by the page' });
+  });
+
+  it('should record thrown errors as failed attempts', async () => {
+    const failing: CaptchaSolver = {
+      name: 'broken',
+      solve: vi.fn().mockRejectedValue(new Error('API unavailable'))
+    };
+    const registry = new CaptchaSolverRegistry(mockLog).register(failing).register(new MockCaptchaSolver());
+
+    const outcome = await registry.solve(page, challenge, async () => true);
+
+    expect(outcome.provider).toBe('mock');
+    expect(outcome.attempts[0]).toMatchObject({ success: false, provider: 'broken', error: 'API unavailable' });
+  });
+
+  it('should respect the attempt limit of a solver', async () => {
+    const solver: CaptchaSolver = {
+      name: 'once',
+      maxAttempts: 1,
+      solve: vi.fn().mockResolvedValue({ success: false, attempts: 1 })
+    };
+    const registry = new CaptchaSolverRegistry(mockLog, { maxAttemptsPerSolver: 5 }).register(solver);
+
+    const outcome = await registry.solve(page, challenge, async () => true);
+
+    expect(outcome.solved).toBe(false);
+    expect(solver.solve).toHaveBeenCalledTimes(1);
+  });
+
+  it('should skip unknown solvers and fail when none are available', async () => {
+    const registry = new CaptchaSolverRegistry(mockLog, { order: ['missing'] });
+
+    await expect(registry.solve(page, challenge, async () => true)).rejects.toThrow('No CAPTCHA solvers available');
+    expect(mockLog.warning).toHaveBeenCalledWith(expect.stringContaining('Unknown CAPTCHA solver "missing"'), expect.anything());
+  });
+});
@@ -0,0 +1,174 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import http from 'http';
+import type { Log } from 'crawlee';
+import type { Page } from 'playwright';
+import { RemoteCaptchaConsole } from '../remoteConsole.js';
+import { RemoteConsoleSolver } from '../solvers/remoteConsoleSolver.js';
+
+const mockLog = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn()
+} as unknown as Log;
+
+const createPage = () => ({
+  screenshot: vi.fn().mockResolvedValue(Buffer.from('png-bytes')),
+  mouse: {
+    click: vi.fn().mockResolvedValue(undefined),
+    move: vi.fn().mockResolvedValue(undefined),
+    down: vi.fn().mockResolvedValue(undefined),
+    up: vi.fn().mockResolvedValue(undefined)
+  },
+  waitForTimeout: vi.fn().mockResolvedValue(undefined),
+  url: () => 'https://ads.tiktok.com/login',
+  title: vi.fn().mockResolvedValue('TikTok Ads')
+});
+
+const post = (url: string, path: string, body: unknown = {}) => {
+  const target = new URL(path, url);
+  target.search = new URL(url).search;
+  return fetch(target, { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body) });
+};
+
+/**
+ * GET with a chosen Host header, which fetch does not allow to set
+ */
+const getWithHost = (url: string, host: string) => new Promise<number>((resolve, reject) => {
+  const target = new URL(url);
+  http.get({ hostname: target.hostname, port: target.port, path: `/state${target.search}`, headers: { host } }, res => {
+    res.resume();
+    resolve(res.statusCode ?? 0);
+  }).on('error', reject);
+});
+
+describe('RemoteCaptchaConsole', () => {
+  let page: ReturnType<typeof createPage>;
+  let remoteConsole: RemoteCaptchaConsole;
+  let url: string;
+
+  beforeEach(async () => {
+    page = createPage();
+    remoteConsole = new RemoteCaptchaConsole(mockLog, page as unknown as Page, { port: 0, token: 'secret' });
+    url = await remoteConsole.start();
+  });
+
+  afterEach(async () => {
+    await remoteConsole.stop();
+  });
+
+  it('should listen on localhost and include the token in the URL', () => {
+    expect(url).toMatch(/^http:\/\/127\.0\.0\.1:\d+\/\?token=secret$/);
+  });
+
+  it('should reject requests without the token', async () => {
+    const response = await fetch(new URL('/state', url));
+    expect(response.status).toBe(401);
+    expect((await fetch(new URL('/state?token=secret2', url))).status).toBe(401);
+  });
+
+  it('should reject posts that are not JSON, as cross-site forms send them', async () => {
+    const target = new URL('/confirm', url);
+    target.search = new URL(url).search;
+    const response = await fetch(target, { method: 'POST', headers: { 'Content-Type': 'text/plain' }, body: '{}' });
+
+    expect(response.status).toBe(415);
+    await expect(remoteConsole.waitForConfirmation(10)).resolves.toBe(false);
+  });
+
+  it('should only answer requests for the bound address', async () => {
+    const { port } = new URL(url);
+
+    expect(await getWithHost(url, `127.0.0.1:${port}`)).toBe(200);
+    expect(await getWithHost(url, `localhost:${port}`)).toBe(200);
+    expect(await getWithHost(url, `attacker.example:${port}`)).toBe(403);
+  });
+
+  it('should serve the console page, live screenshot and state', async () => {
+    const html = await (await fetch(url)).text();
+    expect(html).toContain('Confirm solved');
+
+    const screenshot = await fetch(new URL(`/screenshot${new URL(url).search}`, url));
+    expect(screenshot.headers.get('content-type')).toBe('image/png');
+    expect(Buffer.from(await screenshot.arrayBuffer()).toString()).toBe('png-bytes');
+
+    const state = await (await fetch(new URL(`/state${new URL(url).search}`, url))).json();
+    expect(state).toMatchObject({ url: 'https://ads.tiktok.com/login', title: 'TikTok Ads', status: 'waiting' });
+  });
+
+  it('should forward clicks to the page', async () => {
+    const response = await post(url, '/click', { x: 120, y: 45 });
+
+    expect(response.status).toBe(200);
+    expect(page.mouse.click).toHaveBeenCalledWith(120, 45);
+  });
+
+  it('should replay drags from start to end', async () => {
+    await post(url, '/drag', { from: { x: 10, y: 20 }, to: { x: 110, y: 20 } });
+
+    expect(page.mouse.down).toHaveBeenCalledTimes(1);
+    expect(page.mouse.up).toHaveBeenCalledTimes(1);
+    expect(page.mouse.move.mock.calls[0]).toEqual([10, 20]);
+    expect(page.mouse.move.mock.calls.at(-1)).toEqual([110, 20]);
+  });
+
+  it('should reject malformed points', async () => {
+    const response = await post(url, '/click', { x: 'left' });
+
+    expect(response.status).toBe(400);
+    expect(page.mouse.click).not.toHaveBeenCalled();
+  });
+
+  it('should resolve the wait when the operator confirms', async () => {
+    const confirmation = remoteConsole.waitForConfirmation(5000);
+    await post(url, '/confirm');
+
+    await expect(confirmation).resolves.toBe(true);
+  });
+
+  it('should time out without confirmation', async () => {
+    await expect(remoteConsole.waitForConfirmation(10)).resolves.toBe(false);
+  });
+
+  it('should generate a token when none is configured', async () => {
+    const unconfigured = new RemoteCaptchaConsole(mockLog, page as unknown as Page, { port: 0 });
+    const unconfiguredUrl = await unconfigured.start();
+
+    try {
+      expect(unconfiguredUrl).toMatch(/\?token=[0-9a-f]{48}$/);
+      expect((await fetch(new URL('/state', unconfiguredUrl))).status).toBe(401);
+      expect((await fetch(new URL(`/state${new URL(unconfiguredUrl).search}`, unconfiguredUrl))).status).toBe(200);
+    } finally {
+      await unconfigured.stop();
+    }
+  });
+});
+
+describe('RemoteConsoleSolver', () => {
+  it('should keep waiting until the page accepts the confirmed solution', async () => {
+    const page = createPage();
+    const verify = vi.fn().mockResolvedValueOnce(false).mockResolvedValueOnce(true);
+    let consoleUrl = '';
+    vi.mocked(mockLog.warning).mockImplementation((message: string) => {
+      consoleUrl = message.slice(message.indexOf('http'));
+    });
+
+    const solver = new RemoteConsoleSolver({ port: 0, timeoutMs: 5000 });
+    const result = solver.solve(
+      page as unknown as Page,
+      { selector: '#captcha-verify-image', screenshotPath: 'missing.png' },
+      { log: mockLog, attempt: 1, verify }
+    );
+
+    await vi.waitFor(() => expect(consoleUrl).not.toBe(''));
+    await post(consoleUrl, '/confirm');
+    await vi.waitFor(() => expect(verify).toHaveBeenCalledTimes(1));
+    const state = await (await fetch(new URL(`/state${new URL(consoleUrl).search}`, consoleUrl))).json();
+    expect(state.status).toBe('rejected');
+
+    await post(consoleUrl, '/confirm');
+
+    await expect(result).resolves.toMatchObject({ success: true, provider: 'remote' });
+    await expect(fetch(consoleUrl)).rejects.toThrow();
+  });
+});
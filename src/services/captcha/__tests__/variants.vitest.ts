@@ -0,0 +1,153 @@
+// @vitest-environment jsdom
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { readFileSync } from 'fs';
+import path from 'path';
+import type { Log } from 'crawlee';
+import type { Page } from 'playwright';
+import { detectCaptchaVariant, SelectorProbe } from '../variants.js';
+import {
+  puzzleDragDistance,
+  rotateDragDistance,
+  solvePuzzleCaptcha,
+  solveRotateCaptcha,
+  solveShapesCaptcha
+} from '../variantRoutines.js';
+
+const mockLog = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn()
+} as unknown as Log;
+
+const loadFixture = (name: string) => {
+  document.body.innerHTML = readFileSync(path.join(__dirname, 'fixtures', `${name}.html`), 'utf-8');
+};
+
+const documentProbe: SelectorProbe = async (selector) => document.querySelector(selector) !== null;
+
+// Playwright page stand-in over the fixture DOM; element boxes come from the inline absolute positions
+const createFixturePage = () => {
+  const moves: Array<{ x: number; y: number }> = [];
+  const clicks: Array<{ x: number; y: number }> = [];
+  const mouse = {
+    move: vi.fn(async (x: number, y: number) => { moves.push({ x, y }); }),
+    down: vi.fn(async () => {}),
+    up: vi.fn(async () => {})
+  };
+
+  const toHandle = (element: HTMLElement) => ({
+    isVisible: async () => true,
+    boundingBox: async () => ({
+      x: parseFloat(element.style.left),
+      y: parseFloat(element.style.top),
+      width: parseFloat(element.style.width),
+      height: parseFloat(element.style.height)
+    }),
+    click: async (options: { position: { x: number; y: number } }) => { clicks.push(options.position); },
+    screenshot: async () => Buffer.from(element.outerHTML)
+  });
+
+  const page = {
+    $: async (selector: string) => {
+      const element = document.querySelector<HTMLElement>(selector);
+      return element ? toHandle(element) : null;
+    },
+    mouse,
+    waitForTimeout: async () => {}
+  } as unknown as Page;
+
+  return { page, mouse, moves, clicks };
+};
+
+// Deterministic random source so drag paths are reproducible
+const seededRandom = (seed = 42) => () => {
+  seed = (seed * 1103515245 + 12345) % 2147483648;
+  return seed / 2147483648;
+};
+
+describe('CAPTCHA variants', () => {
+  beforeEach(() => {
+    document.body.innerHTML = '';
+    vi.clearAllMocks();
+  });
+
+  describe('detectCaptchaVariant', () => {
+    it.each([
+      ['rotate', 'rotate'],
+      ['puzzle', 'puzzle'],
+      ['shapes', 'shapes']
+    ])('should detect the %s fixture', async (fixture, expected) => {
+      loadFixture(fixture);
+      expect(await detectCaptchaVariant(documentProbe)).toBe(expected);
+    });
+
+    it('should return null when no CAPTCHA is shown', async () => {
+      loadFixture('login');
+      expect(await detectCaptchaVariant(documentProbe)).toBeNull();
+    });
+  });
+
+  describe('drag distances', () => {
+    it('should map a full turn to the free length of the slider track', () => {
+      expect(rotateDragDistance(180, 320, 64)).toBe(128);
+      expect(rotateDragDistance(360, 320, 64)).toBe(0);
+      expect(rotateDragDistance(-90, 320, 64)).toBe(192);
+    });
+
+    it('should scale the puzzle gap position by the image width', () => {
+      expect(puzzleDragDistance(0.5, 340)).toBe(170);
+    });
+  });
+
+  describe('solve routines', () => {
+    it('should click both points of a shapes CAPTCHA relative to the image', async () => {
+      loadFixture('shapes');
+      const { page, clicks } = createFixturePage();
+
+      const applied = await solveShapesCaptcha(page, mockLog, {
+        pointOneProportionX: 0.25,
+        pointOneProportionY: 0.5,
+        pointTwoProportionX: 0.75,
+        pointTwoProportionY: 0.25
+      });
+
+      expect(applied).toBe(true);
+      expect(clicks).toEqual([{ x: 85, y: 106 }, { x: 255, y: 53 }]);
+    });
+
+    it('should drag the rotate slider by the distance for the angle', async () => {
+      loadFixture('rotate');
+      const { page, mouse, moves } = createFixturePage();
+
+      const applied = await solveRotateCaptcha(page, mockLog, 90, seededRandom());
+
+      expect(applied).toBe(true);
+      // Starts at the handle center and ends 64px to the right: (320 - 64) * 90 / 360
+      expect(moves[0]).toEqual({ x: 546, y: 490 });
+      expect(moves[moves.length - 1]).toEqual({ x: 610, y: 490 });
+      expect(moves.length).toBeGreaterThan(10);
+      expect(mouse.down).toHaveBeenCalledTimes(1);
+      expect(mouse.up).toHaveBeenCalledTimes(1);
+    });
+
+    it('should drag the puzzle slider to the gap position', async () => {
+      loadFixture('puzzle');
+      const { page, moves } = createFixturePage();
+
+      const applied = await solvePuzzleCaptcha(page, mockLog, 0.4, seededRandom(7));
+
+      expect(applied).toBe(true);
+      expect(moves[0]).toEqual({ x: 546, y: 495 });
+      expect(moves[moves.length - 1]).toEqual({ x: 682, y: 495 });
+    });
+
+    it('should not drag when the slider is missing', async () => {
+      loadFixture('shapes');
+      const { page, mouse } = createFixturePage();
+
+      expect(await solvePuzzleCaptcha(page, mockLog, 0.4)).toBe(false);
+      expect(mouse.down).not.toHaveBeenCalled();
+    });
+  });
+});
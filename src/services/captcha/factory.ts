@@ -0,0 +1,24 @@
+import { Log } from 'crawlee';
+import { config } from '../../config.js';
+import { SadCaptchaService } from '../sadCaptchaService.js';
+import { CaptchaSolverRegistry } from './registry.js';
+import { ManualOverlaySolver } from './solvers/manualOverlaySolver.js';
+import { MockCaptchaSolver } from './solvers/mockCaptchaSolver.js';
+import { RemoteConsoleSolver } from './solvers/remoteConsoleSolver.js';
+import { SadCaptchaSolver } from './solvers/sadCaptchaSolver.js';
+
+/**
+ * Creates a registry with the built-in solvers, tried in the configured order
+ * @param log - Crawlee logger
+ * @returns Registry ready to solve CAPTCHAs
+ */
+export function createCaptchaSolverRegistry(log: Log): CaptchaSolverRegistry {
+    return new CaptchaSolverRegistry(log, {
+        order: config.captcha.solvers,
+        maxAttemptsPerSolver: config.crawler.maxCaptchaAttempts
+    })
+        .register(new SadCaptchaSolver(new SadCaptchaService(log, { endpoints: { shapes: config.captcha.sadCaptchaEndpoint } })))
+        .register(new ManualOverlaySolver({ timeoutMs: config.crawler.captchaTimeout }))
+        .register(new RemoteConsoleSolver({ ...config.captcha.console, timeoutMs: config.crawler.captchaTimeout }))
+        .register(new MockCaptchaSolver());
+}
@@ -0,0 +1,73 @@
+import { Page } from 'playwright';
+
+export interface Point {
+    x: number;
+    y: number;
+}
+
+/**
+ * Source of randomness in [0, 1); injectable so drag paths are reproducible in tests
+ */
+export type RandomSource = () => number;
+
+/**
+ * Builds a mouse path that accelerates, slows down towards the target, wobbles slightly
+ * off the straight line and overshoots a little before settling, like a hand-driven drag.
+ * @param start - Where the drag starts
+ * @param end - Where the drag must end
+ * @param random - Random source
+ * @returns Points to move through; the last point is exactly `end`
+ */
+export function buildHumanDragPath(start: Point, end: Point, random: RandomSource = Math.random): Point[] {
+    const dx = end.x - start.x;
+    const dy = end.y - start.y;
+    const distance = Math.hypot(dx, dy);
+    const steps = Math.max(12, Math.round(distance / 8 + random() * 10));
+    const overshoot = distance > 20 ? 2 + random() * 4 : 0;
+    const direction = distance > 0 ? { x: dx / distance, y: dy / distance } : { x: 0, y: 0 };
+
+    const path: Point[] = [];
+    for (let step = 1; step <= steps; step++) {
+        const t = step / steps;
+        // Ease-in-out: slow start, fast middle, slow approach
+        const progress = t < 0.5 ? 4 * t * t * t : 1 - Math.pow(-2 * t + 2, 3) / 2;
+        const wobble = Math.sin(t * Math.PI) * (random() - 0.5) * 3;
+
+        path.push({
+            x: start.x + dx * progress + direction.x * overshoot * progress - direction.y * wobble,
+            y: start.y + dy * progress + direction.y * overshoot * progress + direction.x * wobble
+        });
+    }
+
+    // Settle back from the overshoot onto the target
+    path.push({ x: end.x + direction.x * overshoot / 2, y: end.y + direction.y * overshoot / 2 });
+    path.push({ ...end });
+
+    return path;
+}
+
+/**
+ * Drags the mouse from one point to another along a human-like path
+ * @param page - Playwright page object
+ * @param start - Where the drag starts, usually the slider handle center
+ * @param end - Where the drag ends
+ * @param random - Random source
+ */
+export async function humanDrag(
+    page: Pick<Page, 'mouse' | 'waitForTimeout'>,
+    start: Point,
+    end: Point,
+    random: RandomSource = Math.random
+): Promise<void> {
+    await page.mouse.move(start.x, start.y);
+    await page.waitForTimeout(100 + random() * 150);
+    await page.mouse.down();
+
+    for (const point of buildHumanDragPath(start, end, random)) {
+        await page.mouse.move(point.x, point.y);
+        await page.waitForTimeout(8 + random() * 17);
+    }
+
+    await page.waitForTimeout(150 + random() * 200);
+    await page.mouse.up();
+}
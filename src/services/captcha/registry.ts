@@ -0,0 +1,151 @@
+import { Log } from 'crawlee';
+import { Page } from 'playwright';
+import type { CaptchaChallenge, CaptchaSolver, CaptchaSolvingResult } from './types.js';
+
+export interface CaptchaSolverRegistryOptions {
+    /**
+     * Solver names in the order they are tried
+     */
+    order?: string[];
+    /**
+     * Attempts per solver before falling back to the next one
+     */
+    maxAttemptsPerSolver?: number;
+}
+
+/**
+ * Outcome of running the solver chain on one CAPTCHA
+ */
+export interface CaptchaSolveOutcome {
+    solved: boolean;
+    /**
+     * Solver that solved the CAPTCHA
+     */
+    provider?: string;
+    /**
+     * Every attempt made, in order
+     */
+    attempts: CaptchaSolvingResult[];
+}
+
+/**
+ * Keeps the available CAPTCHA solvers and runs them in the configured order,
+ * falling back to the next solver when one fails
+ */
+export class CaptchaSolverRegistry {
+    private readonly log: Log;
+    private readonly solvers = new Map<string, CaptchaSolver>();
+    private readonly order: string[];
+    private readonly maxAttemptsPerSolver: number;
+
+    constructor(log: Log, options: CaptchaSolverRegistryOptions = {}) {
+        this.log = log;
+        this.order = options.order ?? [];
+        this.maxAttemptsPerSolver = Math.max(1, options.maxAttemptsPerSolver ?? 1);
+    }
+
+    /**
+     * Registers a solver under its name, replacing any solver with the same name
+     * @param solver - Solver to register
+     */
+    register(solver: CaptchaSolver): this {
+        this.solvers.set(solver.name, solver);
+        return this;
+    }
+
+    /**
+     * Returns a registered solver
+     * @param name - Solver name
+     */
+    get(name: string): CaptchaSolver | undefined {
+        return this.solvers.get(name);
+    }
+
+    /**
+     * Resolves the solvers to try. Unknown names are skipped with a warning.
+     * @param order - Solver names; defaults to the configured order, or registration order
+     * @returns Solvers in the order they are tried
+     */
+    getChain(order: string[] = this.order): CaptchaSolver[] {
+        const names = order.length > 0 ? order : [...this.solvers.keys()];
+
+        return [...new Set(names)].flatMap(name => {
+            const solver = this.solvers.get(name);
+            if (!solver) {
+                this.log.warning(`Unknown CAPTCHA solver "${name}", skipping`, { registered: [...this.solvers.keys()] });
+                return [];
+            }
+            return [solver];
+        });
+    }
+
+    /**
+     * Tries each solver in order until the page confirms the CAPTCHA is solved.
+     * A solver reporting success only counts once `verify` confirms it; thrown errors count as failed attempts.
+     * @param page - Playwright page with the CAPTCHA
+     * @param challenge - Detected CAPTCHA
+     * @param verify - Checks whether the page accepted the solution
+     * @param order - Solver names overriding the configured order
+     * @returns Whether the CAPTCHA was solved and every attempt made
+     */
+    async solve(
+        page: Page,
+        challenge: CaptchaChallenge,
+        verify: () => Promise<boolean>,
+        order?: string[]
+    ): Promise<CaptchaSolveOutcome> {
+        const chain = this.getChain(order);
+        if (chain.length === 0) {
+            throw new Error('No CAPTCHA solvers available');
+        }
+
+        const attempts: CaptchaSolvingResult[] = [];
+
+        for (const solver of chain) {
+            const maxAttempts = Math.min(this.maxAttemptsPerSolver, solver.maxAttempts ?? Infinity);
+
+            for (let attempt = 1; attempt <= maxAttempts; attempt++) {
+                this.log.info(`Solving CAPTCHA with ${solver.name} (attempt ${attempt}/${maxAttempts})`);
+                const result = await this.runAttempt(solver, page, challenge, verify, attempt);
+                attempts.push(result);
+
+                if (result.success) {
+                    this.log.info(`CAPTCHA solved by ${solver.name}`, { attempt });
+                    return { solved: true, provider: solver.name, attempts };
+                }
+
+                this.log.warning(`CAPTCHA solver ${solver.name} failed`, { attempt, error: result.error });
+            }
+        }
+
+        return { solved: false, attempts };
+    }
+
+    /**
+     * @private
+     */
+    private async runAttempt(
+        solver: CaptchaSolver,
+        page: Page,
+        challenge: CaptchaChallenge,
+        verify: () => Promise<boolean>,
+        attempt: number
+    ): Promise<CaptchaSolvingResult> {
+        try {
+            const result = await solver.solve(page, challenge, { log: this.log, attempt, verify });
+            const solved = { ...result, provider: solver.name, attempts: attempt };
+
+            if (!result.success || await verify()) {
+                return solved;
+            }
+            return { ...solved, success: false, error: 'Solution was not accepted by the page' };
+        } catch (error) {
+            return {
+                success: false,
+                error: error instanceof Error ? error.message : String(error),
+                attempts: attempt,
+                provider: solver.name
+            };
+        }
+    }
+}
@@ -0,0 +1,369 @@
+import { createHash, randomBytes, timingSafeEqual } from 'crypto';
+import { readFile } from 'fs/promises';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { Log } from 'crawlee';
+import { Page } from 'playwright';
+import { humanDrag, Point } from './humanMouse.js';
+
+export interface RemoteCaptchaConsoleOptions {
+    /**
+     * Interface to listen on; keep it on localhost and tunnel in unless the network is trusted
+     */
+    host?: string;
+    /**
+     * Port to listen on; 0 picks a free port
+     */
+    port?: number;
+    /**
+     * Token required in the `token` query param or `x-console-token` header; a random one is generated when unset
+     */
+    token?: string;
+    /**
+     * Screenshot of the CAPTCHA taken at detection
+     */
+    captchaScreenshotPath?: string;
+}
+
+/**
+ * What the operator sees next to the live screenshot
+ */
+export interface RemoteCaptchaConsoleState {
+    url: string;
+    title: string;
+    status: 'waiting' | 'confirmed' | 'rejected';
+    message?: string;
+}
+
+type PageActions = Pick<Page, 'screenshot' | 'mouse' | 'waitForTimeout' | 'url' | 'title'>;
+
+const MAX_BODY_BYTES = 10 * 1024;
+
+const LOOPBACK_ADDRESSES = ['127.0.0.1', '::1'];
+const WILDCARD_ADDRESSES = ['0.0.0.0', '::'];
+
+class BadRequestError extends Error {}
+
+/**
+ * Small HTTP console for solving a CAPTCHA from another machine.
+ * It serves live screenshots of the page, replays the operator's clicks and drags on it,
+ * and resolves `waitForConfirmation()` when the operator confirms.
+ */
+export class RemoteCaptchaConsole {
+    private readonly log: Log;
+    private readonly page: PageActions;
+    private readonly options: RemoteCaptchaConsoleOptions;
+    private readonly token: string;
+    private server: http.Server | null = null;
+    private status: RemoteCaptchaConsoleState['status'] = 'waiting';
+    private message: string | undefined;
+    private confirmListeners: Array<() => void> = [];
+
+    /**
+     * @param log - Crawlee logger
+     * @param page - Page the operator controls
+     * @param options - Console options
+     */
+    constructor(log: Log, page: PageActions, options: RemoteCaptchaConsoleOptions = {}) {
+        this.log = log;
+        this.page = page;
+        this.options = options;
+        this.token = options.token || randomBytes(24).toString('hex');
+    }
+
+    /**
+     * Starts listening
+     * @returns URL of the console, including the token
+     */
+    async start(): Promise<string> {
+        if (this.server) return this.getUrl();
+
+        this.server = http.createServer((req, res) => {
+            this.handleRequest(req, res).catch(error => {
+                this.log.warning('Remote CAPTCHA console request failed:', { url: req.url, error: (error as Error).message });
+                this.sendJson(res, error instanceof BadRequestError ? 400 : 500, { error: (error as Error).message });
+            });
+        });
+
+        await new Promise<void>((resolve, reject) => {
+            this.server!.once('error', reject);
+            this.server!.listen(this.options.port ?? 0, this.options.host ?? '127.0.0.1', () => resolve());
+        });
+
+        const url = this.getUrl();
+        this.log.info('Remote CAPTCHA console started', { url });
+        return url;
+    }
+
+    /**
+     * Stops listening and closes open connections
+     */
+    async stop(): Promise<void> {
+        const server = this.server;
+        if (!server) return;
+
+        this.server = null;
+        await new Promise<void>(resolve => {
+            server.close(() => resolve());
+            server.closeAllConnections();
+        });
+    }
+
+    /**
+     * Waits until the operator confirms the CAPTCHA is solved
+     * @param timeoutMs - How long to wait, in milliseconds
+     * @returns Whether the operator confirmed in time
+     */
+    waitForConfirmation(timeoutMs: number): Promise<boolean> {
+        return new Promise(resolve => {
+            const timer = setTimeout(() => {
+                this.confirmListeners = this.confirmListeners.filter(listener => listener !== onConfirm);
+                resolve(false);
+            }, timeoutMs);
+            const onConfirm = () => {
+                clearTimeout(timer);
+                resolve(true);
+            };
+            this.confirmListeners.push(onConfirm);
+        });
+    }
+
+    /**
+     * Tells the operator the page did not accept the solution, so they can try again
+     * @param message - Message shown in the console
+     */
+    reject(message: string): void {
+        this.status = 'rejected';
+        this.message = message;
+    }
+
+    /**
+     * @private
+     */
+    private getUrl(): string {
+        const { address, port } = this.server!.address() as AddressInfo;
+        const host = address.includes(':') ? `[${address}]` : address;
+        return `http://${host}:${port}/?token=${encodeURIComponent(this.token)}`;
+    }
+
+    /**
+     * Whether the Host header names the address the console is bound to, so pages of other
+     * sites cannot reach it through DNS rebinding. Any host is accepted on a wildcard address.
+     * @private
+     */
+    private isAllowedHost(hostHeader: string | undefined): boolean {
+        const { address } = this.server!.address() as AddressInfo;
+        if (WILDCARD_ADDRESSES.includes(address)) return true;
+        if (!hostHeader) return false;
+
+        let hostname: string;
+        try {
+            hostname = new URL(`http://${hostHeader}`).hostname.replace(/^\[(.*)\]$/, '$1');
+        } catch {
+            return false;
+        }
+        return hostname === address || (LOOPBACK_ADDRESSES.includes(address) && hostname === 'localhost');
+    }
+
+    /**
+     * Compares the given token with the console token in constant time
+     * @private
+     */
+    private isValidToken(token: unknown): boolean {
+        if (typeof token !== 'string') return false;
+        const digest = (value: string) => createHash('sha256').update(value).digest();
+        return timingSafeEqual(digest(token), digest(this.token));
+    }
+
+    /**
+     * @private
+     */
+    private async handleRequest(req: http.IncomingMessage, res: http.ServerResponse): Promise<void> {
+        const url = new URL(req.url ?? '/', 'http://localhost');
+
+        if (!this.isAllowedHost(req.headers.host)) {
+            this.sendJson(res, 403, { error: 'Unexpected Host header' });
+            return;
+        }
+
+        const token = url.searchParams.get('token') ?? req.headers['x-console-token'];
+        if (!this.isValidToken(token)) {
+            this.sendJson(res, 401, { error: 'Invalid console token' });
+            return;
+        }
+
+        // Cross-site forms can only send simple content types, JSON needs a same-origin request
+        const contentType = req.headers['content-type']?.split(';')[0].trim().toLowerCase();
+        if (req.method === 'POST' && contentType !== 'application/json') {
+            this.sendJson(res, 415, { error: 'Expected an application/json body' });
+            return;
+        }
+
+        const route = `${req.method} ${url.pathname}`;
+        switch (route) {
+            case 'GET /':
+                res.writeHead(200, { 'Content-Type': 'text/html; charset=utf-8' });
+                res.end(CONSOLE_HTML);
+                return;
+            case 'GET /screenshot':
+                this.sendImage(res, await this.page.screenshot());
+                return;
+            case 'GET /captcha': {
+                if (!this.options.captchaScreenshotPath) {
+                    this.sendJson(res, 404, { error: 'No CAPTCHA screenshot available' });
+                    return;
+                }
+                this.sendImage(res, await readFile(this.options.captchaScreenshotPath));
+                return;
+            }
+            case 'GET /state':
+                this.sendJson(res, 200, await this.getState());
+                return;
+            case 'POST /click': {
+                const point = toPoint(await readJson(req));
+                await this.page.mouse.click(point.x, point.y);
+                this.log.info('Remote operator clicked', { ...point });
+                this.sendJson(res, 200, { ok: true });
+                return;
+            }
+            case 'POST /drag': {
+                const body = await readJson(req) as { from?: unknown; to?: unknown };
+                const from = toPoint(body.from);
+                const to = toPoint(body.to);
+                await humanDrag(this.page, from, to);
+                this.log.info('Remote operator dragged', { from, to });
+                this.sendJson(res, 200, { ok: true });
+                return;
+            }
+            case 'POST /confirm':
+                this.status = 'confirmed';
+                this.message = undefined;
+                this.log.info('Remote operator confirmed the CAPTCHA is solved');
+                this.confirmListeners.splice(0).forEach(listener => listener());
+                this.sendJson(res, 200, { ok: true });
+                return;
+            default:
+                this.sendJson(res, 404, { error: `Unknown route: ${route}` });
+        }
+    }
+
+    /**
+     * @private
+     */
+    private async getState(): Promise<RemoteCaptchaConsoleState> {
+        return {
+            url: this.page.url(),
+            title: await this.page.title().catch(() => ''),
+            status: this.status,
+            message: this.message
+        };
+    }
+
+    /**
+     * @private
+     */
+    private sendJson(res: http.ServerResponse, statusCode: number, body: unknown): void {
+        if (res.headersSent) return;
+        res.writeHead(statusCode, { 'Content-Type': 'application/json', 'Cache-Control': 'no-store' });
+        res.end(JSON.stringify(body));
+    }
+
+    /**
+     * @private
+     */
+    private sendImage(res: http.ServerResponse, image: Buffer): void {
+        res.writeHead(200, { 'Content-Type': 'image/png', 'Cache-Control': 'no-store' });
+        res.end(image);
+    }
+}
+
+/**
+ * @private
+ */
+async function readJson(req: http.IncomingMessage): Promise<unknown> {
+    let body = '';
+    for await (const chunk of req) {
+        body += chunk;
+        if (body.length > MAX_BODY_BYTES) {
+            throw new BadRequestError('Request body too large');
+        }
+    }
+    try {
+        return body ? JSON.parse(body) : {};
+    } catch {
+        throw new BadRequestError('Request body is not valid JSON');
+    }
+}
+
+/**
+ * @private
+ */
+function toPoint(value: unknown): Point {
+    const { x, y } = (value ?? {}) as Partial<Point>;
+    if (typeof x !== 'number' || typeof y !== 'number' || !Number.isFinite(x) || !Number.isFinite(y)) {
+        throw new BadRequestError('Expected a point with numeric x and y');
+    }
+    return { x, y };
+}
+
+const CONSOLE_HTML = `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>CAPTCHA console</title>
+<style>
+body { font-family: sans-serif; margin: 16px; background: #f4f4f4; }
+#live { border: 1px solid #999; cursor: crosshair; max-width: 100%; user-select: none; }
+#captcha { border: 1px solid #999; max-width: 340px; }
+button { padding: 8px 16px; font-size: 15px; margin-right: 8px; }
+#confirm { background: #4CAF50; color: white; border: none; border-radius: 4px; }
+#state.rejected { color: #c00; }
+</style>
+</head>
+<body>
+<h2>CAPTCHA console</h2>
+<p id="state">Loading...</p>
+<p>Click the live page to click, press and drag to drag. Confirm once the CAPTCHA is solved.</p>
+<p><button id="confirm">Confirm solved</button><button id="refresh">Refresh screenshot</button></p>
+<div><img id="live" draggable="false" alt="Live page"></div>
+<h3>CAPTCHA at detection</h3>
+<img id="captcha" alt="No CAPTCHA screenshot">
+<script>
+const token = new URLSearchParams(location.search).get('token');
+const withToken = (path) => token ? path + (path.includes('?') ? '&' : '?') + 'token=' + encodeURIComponent(token) : path;
+const live = document.getElementById('live');
+const post = (path, body) => fetch(withToken(path), { method: 'POST', headers: { 'Content-Type': 'application/json' }, body: JSON.stringify(body || {}) });
+const refresh = () => { live.src = withToken('/screenshot?t=' + Date.now()); };
+const toPage = (event) => {
+    const rect = live.getBoundingClientRect();
+    return {
+        x: (event.clientX - rect.left) * live.naturalWidth / rect.width,
+        y: (event.clientY - rect.top) * live.naturalHeight / rect.height
+    };
+};
+let dragStart = null;
+live.addEventListener('mousedown', (event) => { dragStart = toPage(event); });
+live.addEventListener('mouseup', async (event) => {
+    if (!dragStart) return;
+    const end = toPage(event);
+    const moved = Math.hypot(end.x - dragStart.x, end.y - dragStart.y) > 5;
+    await (moved ? post('/drag', { from: dragStart, to: end }) : post('/click', end));
+    dragStart = null;
+    setTimeout(refresh, 500);
+});
+document.getElementById('confirm').addEventListener('click', async () => { await post('/confirm'); updateState(); });
+document.getElementById('refresh').addEventListener('click', refresh);
+const updateState = async () => {
+    const state = await (await fetch(withToken('/state'))).json();
+    const el = document.getElementById('state');
+    el.className = state.status;
+    el.textContent = state.status.toUpperCase() + ' - ' + state.title + ' (' + state.url + ')' + (state.message ? ' - ' + state.message : '');
+};
+document.getElementById('captcha').src = withToken('/captcha');
+refresh();
+updateState();
+setInterval(refresh, 3000);
+setInterval(updateState, 3000);
+</script>
+</body>
+</html>`;
@@ -0,0 +1,68 @@
+import { Page } from 'playwright';
+import { hideCaptchaRequiredNotification, showCaptchaRequiredNotification } from '../../../notifications/captchaRequired.js';
+import type { CaptchaChallenge, CaptchaSolver, CaptchaSolverContext, CaptchaSolvingResult } from '../types.js';
+
+export interface ManualOverlaySolverOptions {
+    /**
+     * How long to wait for the operator, in milliseconds
+     */
+    timeoutMs?: number;
+    /**
+     * How often the page is checked, in milliseconds
+     */
+    pollIntervalMs?: number;
+}
+
+/**
+ * Shows a banner on the page and waits for the operator to solve the CAPTCHA by hand
+ */
+export class ManualOverlaySolver implements CaptchaSolver {
+    readonly name = 'manual';
+    readonly maxAttempts = 1;
+
+    private readonly timeoutMs: number;
+    private readonly pollIntervalMs: number;
+
+    constructor(options: ManualOverlaySolverOptions = {}) {
+        this.timeoutMs = options.timeoutMs ?? 60 * 60 * 1000;
+        this.pollIntervalMs = options.pollIntervalMs ?? 10000;
+    }
+
+    async solve(page: Page, _challenge: CaptchaChallenge, context: CaptchaSolverContext): Promise<CaptchaSolvingResult> {
+        const { log } = context;
+        const startTime = Date.now();
+        let checks = 0;
+
+        log.info('Manual CAPTCHA resolution. Waiting for user to solve...');
+        await showCaptchaRequiredNotification(page)
+            .catch(error => log.warning('Failed to show CAPTCHA notification:', { error: (error as Error).message }));
+
+        try {
+            while (Date.now() - startTime < this.timeoutMs) {
+                checks++;
+
+                if (await context.verify()) {
+                    return { success: true, solution: 'manual', attempts: context.attempt, provider: this.name };
+                }
+
+                // Log progress every minute
+                if (checks % Math.max(1, Math.round(60000 / this.pollIntervalMs)) === 0) {
+                    const minutesElapsed = Math.floor((Date.now() - startTime) / 60000);
+                    const minutesRemaining = Math.floor((this.timeoutMs - (Date.now() - startTime)) / 60000);
+                    log.info(`Waiting for manual verification... ${minutesElapsed}m elapsed, ${minutesRemaining}m remaining`);
+                }
+
+                await page.waitForTimeout(this.pollIntervalMs);
+            }
+        } finally {
+            await hideCaptchaRequiredNotification(page).catch(() => {});
+        }
+
+        return {
+            success: false,
+            error: `Manual verification timed out after ${Math.floor(this.timeoutMs / 60000)} minutes`,
+            attempts: context.attempt,
+            provider: this.name
+        };
+    }
+}
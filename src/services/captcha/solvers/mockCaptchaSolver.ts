@@ -0,0 +1,31 @@
+import { Page } from 'playwright';
+import type { CaptchaChallenge, CaptchaSolver, CaptchaSolverContext, CaptchaSolvingResult } from '../types.js';
+
+/**
+ * Solver with scripted outcomes for tests and local runs. It does not touch the page.
+ * Each call consumes the next outcome; the last outcome repeats.
+ */
+export class MockCaptchaSolver implements CaptchaSolver {
+    readonly name: string;
+    readonly challenges: CaptchaChallenge[] = [];
+
+    private readonly outcomes: boolean[];
+
+    /**
+     * @param outcomes Results of consecutive calls
+     * @param name Name to register the solver under
+     */
+    constructor(outcomes: boolean[] = [true], name: string = 'mock') {
+        this.outcomes = outcomes.length > 0 ? [...outcomes] : [true];
+        this.name = name;
+    }
+
+    async solve(_page: Page, challenge: CaptchaChallenge, context: CaptchaSolverContext): Promise<CaptchaSolvingResult> {
+        this.challenges.push(challenge);
+        const success = this.outcomes.length > 1 ? this.outcomes.shift()! : this.outcomes[0];
+
+        return success
+            ? { success, solution: 'mock', attempts: context.attempt, provider: this.name }
+            : { success, error: 'Mock solver configured to fail', attempts: context.attempt, provider: this.name };
+    }
+}
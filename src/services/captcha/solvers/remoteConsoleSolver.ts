@@ -0,0 +1,61 @@
+import { Page } from 'playwright';
+import { RemoteCaptchaConsole, RemoteCaptchaConsoleOptions } from '../remoteConsole.js';
+import type { CaptchaChallenge, CaptchaSolver, CaptchaSolverContext, CaptchaSolvingResult } from '../types.js';
+
+export interface RemoteConsoleSolverOptions extends Omit<RemoteCaptchaConsoleOptions, 'captchaScreenshotPath'> {
+    /**
+     * How long to wait for the operator, in milliseconds
+     */
+    timeoutMs?: number;
+}
+
+/**
+ * Hands the CAPTCHA to a remote operator through the local web console,
+ * so headless runs on a server can still be solved by hand
+ */
+export class RemoteConsoleSolver implements CaptchaSolver {
+    readonly name = 'remote';
+    readonly maxAttempts = 1;
+
+    private readonly options: RemoteConsoleSolverOptions;
+
+    constructor(options: RemoteConsoleSolverOptions = {}) {
+        this.options = options;
+    }
+
+    async solve(page: Page, challenge: CaptchaChallenge, context: CaptchaSolverContext): Promise<CaptchaSolvingResult> {
+        const { log } = context;
+        const timeoutMs = this.options.timeoutMs ?? 60 * 60 * 1000;
+        const deadline = Date.now() + timeoutMs;
+        const remoteConsole = new RemoteCaptchaConsole(log, page, {
+            ...this.options,
+            captchaScreenshotPath: challenge.screenshotPath
+        });
+
+        const url = await remoteConsole.start();
+        log.warning(`CAPTCHA needs a human. Open the console to solve it: ${url}`);
+
+        try {
+            // The operator may confirm too early; keep the console open until the page accepts
+            while (Date.now() < deadline) {
+                if (!await remoteConsole.waitForConfirmation(deadline - Date.now())) break;
+
+                if (await context.verify()) {
+                    return { success: true, solution: 'remote', attempts: context.attempt, provider: this.name };
+                }
+
+                log.info('Operator confirmed but the CAPTCHA is still shown, waiting for another try');
+                remoteConsole.reject('The page did not accept the solution yet, please try again');
+            }
+        } finally {
+            await remoteConsole.stop();
+        }
+
+        return {
+            success: false,
+            error: `Remote verification timed out after ${Math.floor(timeoutMs / 60000)} minutes`,
+            attempts: context.attempt,
+            provider: this.name
+        };
+    }
+}
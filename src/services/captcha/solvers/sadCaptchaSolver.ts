@@ -0,0 +1,25 @@
+import { Page } from 'playwright';
+import { SadCaptchaService } from '../../sadCaptchaService.js';
+import type { CaptchaChallenge, CaptchaSolver, CaptchaSolverContext, CaptchaSolvingResult } from '../types.js';
+
+/**
+ * Solves CAPTCHAs through the SadCaptcha API
+ */
+export class SadCaptchaSolver implements CaptchaSolver {
+    readonly name = 'sadcaptcha';
+
+    /**
+     * @param service SadCaptcha API client
+     */
+    constructor(private readonly service: SadCaptchaService) {}
+
+    async solve(page: Page, challenge: CaptchaChallenge, context: CaptchaSolverContext): Promise<CaptchaSolvingResult> {
+        // TikTok shows a new image after a rejected solution, so retries take fresh screenshots
+        const screenshotPath = context.attempt > 1 ? undefined : challenge.screenshotPath;
+        const applied = await this.service.solveCaptcha(page, challenge.variant ?? 'shapes', screenshotPath);
+
+        return applied
+            ? { success: true, attempts: context.attempt, provider: this.name }
+            : { success: false, error: 'SadCaptcha did not return an applicable solution', attempts: context.attempt, provider: this.name };
+    }
+}
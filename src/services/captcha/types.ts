@@ -0,0 +1,65 @@
+import { Log } from 'crawlee';
+import { Page } from 'playwright';
+import type { CaptchaSolvingResult } from '../../types/index.js';
+import type { CaptchaVariant } from './variants.js';
+
+export type { CaptchaSolvingResult };
+
+/**
+ * CAPTCHA found on the page
+ */
+export interface CaptchaChallenge {
+    /**
+     * Selector of the CAPTCHA container or image
+     */
+    selector: string;
+    /**
+     * Screenshot of the CAPTCHA taken at detection time
+     */
+    screenshotPath: string;
+    /**
+     * Detected variant; unknown layouts are treated as shapes
+     */
+    variant?: CaptchaVariant;
+}
+
+/**
+ * Context passed to a solver for one attempt
+ */
+export interface CaptchaSolverContext {
+    log: Log;
+    /**
+     * Number of this attempt for the solver, starting at 1
+     */
+    attempt: number;
+    /**
+     * Checks whether the page accepted the solution, i.e. the CAPTCHA is gone
+     * or the next login step is shown. Clicks the confirm button if needed.
+     */
+    verify: () => Promise<boolean>;
+}
+
+/**
+ * A CAPTCHA solving provider. Implementations apply a solution on the page
+ * and report the outcome; they should not throw for an unsolved CAPTCHA.
+ */
+export interface CaptchaSolver {
+    /**
+     * Name used to select the solver in the configured provider order
+     */
+    readonly name: string;
+
+    /**
+     * Upper bound on attempts, for solvers that already wait on their own
+     */
+    readonly maxAttempts?: number;
+
+    /**
+     * Attempts to solve the CAPTCHA on the page
+     * @param page Playwright page with the CAPTCHA
+     * @param challenge Detected CAPTCHA
+     * @param context Attempt context
+     * @returns Outcome of the attempt
+     */
+    solve(page: Page, challenge: CaptchaChallenge, context: CaptchaSolverContext): Promise<CaptchaSolvingResult>;
+}
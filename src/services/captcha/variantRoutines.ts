@@ -0,0 +1,170 @@
+import { Log } from 'crawlee';
+import { ElementHandle, Page } from 'playwright';
+import { humanDrag, RandomSource } from './humanMouse.js';
+import { CAPTCHA_VARIANT_SELECTORS, CaptchaVariant, findMatchingSelector, pageSelectorProbe } from './variants.js';
+
+/**
+ * Page operations the solve routines need
+ */
+export type CaptchaPage = Pick<Page, '$' | 'mouse' | 'waitForTimeout'>;
+
+/**
+ * Two points to click on the shapes image, as proportions of its size
+ */
+export interface ShapesSolution {
+    pointOneProportionX: number;
+    pointOneProportionY: number;
+    pointTwoProportionX: number;
+    pointTwoProportionY: number;
+}
+
+/**
+ * Elements of a variant found on the page
+ */
+export interface CaptchaElements {
+    image: ElementHandle;
+    piece?: ElementHandle;
+    handle?: ElementHandle;
+    track?: ElementHandle;
+}
+
+/**
+ * Drag distance that turns the inner image by the given angle.
+ * A full slide of the handle along the track is one full turn.
+ * @param angle - Rotation angle in degrees
+ * @param trackWidth - Width of the slider track
+ * @param handleWidth - Width of the slider handle
+ * @returns Horizontal drag distance in pixels
+ */
+export function rotateDragDistance(angle: number, trackWidth: number, handleWidth: number): number {
+    const normalized = ((angle % 360) + 360) % 360;
+    return (trackWidth - handleWidth) * normalized / 360;
+}
+
+/**
+ * Drag distance that moves the puzzle piece into its gap
+ * @param slideXProportion - Gap position as a proportion of the puzzle image width
+ * @param imageWidth - Width of the puzzle image
+ * @returns Horizontal drag distance in pixels
+ */
+export function puzzleDragDistance(slideXProportion: number, imageWidth: number): number {
+    return imageWidth * slideXProportion;
+}
+
+/**
+ * Finds the elements of a variant on the page
+ * @param page - Playwright page object
+ * @param variant - CAPTCHA variant
+ * @returns Found elements, or null if a required element is missing
+ */
+export async function findCaptchaElements(page: CaptchaPage, variant: CaptchaVariant): Promise<CaptchaElements | null> {
+    const selectors = CAPTCHA_VARIANT_SELECTORS[variant];
+    const probe = pageSelectorProbe(page);
+    const find = async (candidates?: string[]) => {
+        const selector = await findMatchingSelector(probe, candidates);
+        return selector ? (await page.$(selector)) ?? undefined : undefined;
+    };
+
+    const elements = {
+        image: await find(selectors.image),
+        piece: await find(selectors.piece),
+        handle: await find(selectors.handle),
+        track: await find(selectors.track)
+    };
+
+    const required: Array<keyof CaptchaElements> = variant === 'shapes' ? ['image'] : ['image', 'piece', 'handle', 'track'];
+    if (required.some(key => !elements[key])) {
+        return null;
+    }
+    return elements as CaptchaElements;
+}
+
+/**
+ * Clicks the two matching objects of a shapes CAPTCHA
+ * @param page - Playwright page object
+ * @param log - Logger instance
+ * @param solution - Click points as proportions of the image size
+ * @returns Promise<boolean> - Whether the solution was applied
+ */
+export async function solveShapesCaptcha(page: CaptchaPage, log: Log, solution: ShapesSolution): Promise<boolean> {
+    const elements = await findCaptchaElements(page, 'shapes');
+    const box = await elements?.image.boundingBox();
+    if (!elements || !box) {
+        log.error('Shapes CAPTCHA image not found');
+        return false;
+    }
+
+    const clickPoints = [
+        { x: box.width * solution.pointOneProportionX, y: box.height * solution.pointOneProportionY },
+        { x: box.width * solution.pointTwoProportionX, y: box.height * solution.pointTwoProportionY }
+    ];
+
+    for (const point of clickPoints) {
+        log.info('Clicking point:', { x: point.x, y: point.y });
+        await elements.image.click({ position: point });
+        // Wait a bit between clicks to simulate human behavior
+        await page.waitForTimeout(500);
+    }
+
+    return true;
+}
+
+/**
+ * Drags the slider of a rotate CAPTCHA so the inner image turns by the given angle
+ * @param page - Playwright page object
+ * @param log - Logger instance
+ * @param angle - Rotation angle in degrees
+ * @param random - Random source for the drag path
+ * @returns Promise<boolean> - Whether the solution was applied
+ */
+export async function solveRotateCaptcha(page: CaptchaPage, log: Log, angle: number, random?: RandomSource): Promise<boolean> {
+    const elements = await findCaptchaElements(page, 'rotate');
+    const handleBox = await elements?.handle?.boundingBox();
+    const trackBox = await elements?.track?.boundingBox();
+    if (!handleBox || !trackBox) {
+        log.error('Rotate CAPTCHA slider not found');
+        return false;
+    }
+
+    const distance = rotateDragDistance(angle, trackBox.width, handleBox.width);
+    log.info('Dragging rotate slider', { angle, distance });
+    await dragHandleBy(page, handleBox, distance, random);
+    return true;
+}
+
+/**
+ * Drags the slider of a puzzle CAPTCHA so the piece lands in its gap
+ * @param page - Playwright page object
+ * @param log - Logger instance
+ * @param slideXProportion - Gap position as a proportion of the puzzle image width
+ * @param random - Random source for the drag path
+ * @returns Promise<boolean> - Whether the solution was applied
+ */
+export async function solvePuzzleCaptcha(page: CaptchaPage, log: Log, slideXProportion: number, random?: RandomSource): Promise<boolean> {
+    const elements = await findCaptchaElements(page, 'puzzle');
+    const imageBox = await elements?.image.boundingBox();
+    const handleBox = await elements?.handle?.boundingBox();
+    if (!imageBox || !handleBox) {
+        log.error('Puzzle CAPTCHA slider not found');
+        return false;
+    }
+
+    const distance = puzzleDragDistance(slideXProportion, imageBox.width);
+    log.info('Dragging puzzle slider', { slideXProportion, distance });
+    await dragHandleBy(page, handleBox, distance, random);
+    return true;
+}
+
+/**
+ * @private
+ */
+async function dragHandleBy(
+    page: CaptchaPage,
+    handleBox: { x: number; y: number; width: number; height: number },
+    distance: number,
+    random?: RandomSource
+): Promise<void> {
+    const start = { x: handleBox.x + handleBox.width / 2, y: handleBox.y + handleBox.height / 2 };
+    await humanDrag(page, start, { x: start.x + distance, y: start.y }, random);
+    await page.waitForTimeout(1000);
+}
@@ -0,0 +1,107 @@
+import { Page } from 'playwright';
+
+/**
+ * CAPTCHA variants TikTok shows at login:
+ * - `shapes`: select 2 of the 3D objects that have the same shape
+ * - `rotate`: turn the inner image until it lines up with the outer ring
+ * - `puzzle`: slide the puzzle piece into its gap
+ */
+export type CaptchaVariant = 'shapes' | 'rotate' | 'puzzle';
+
+/**
+ * Elements a variant consists of. Plain CSS only, so the same selectors
+ * work on a live page and on saved HTML.
+ */
+export interface CaptchaVariantSelectors {
+    /**
+     * Elements whose presence identifies the variant; any of them matches
+     */
+    markers: string[];
+    /**
+     * Image sent to the solver; for rotate the outer ring, for puzzle the background with the gap
+     */
+    image: string[];
+    /**
+     * Second image: the inner rotating image or the puzzle piece
+     */
+    piece?: string[];
+    /**
+     * Slider handle that is dragged
+     */
+    handle?: string[];
+    /**
+     * Track the slider handle moves along
+     */
+    track?: string[];
+}
+
+/**
+ * Selectors per variant, checked in this order. Rotate and puzzle come first because
+ * their markers are more specific than the shapes image, which older layouts reuse.
+ */
+export const CAPTCHA_VARIANT_SELECTORS: Record<CaptchaVariant, CaptchaVariantSelectors> = {
+    rotate: {
+        markers: ['[data-testid="whirl-inner-img"]', '.captcha_verify_img--wrapper img[style*="rotate"]', 'img.captcha-verify-whirl-inner'],
+        image: ['[data-testid="whirl-outer-img"]', '.captcha_verify_img--wrapper > img:first-child', 'img.captcha-verify-whirl-outer'],
+        piece: ['[data-testid="whirl-inner-img"]', '.captcha_verify_img--wrapper img[style*="rotate"]', 'img.captcha-verify-whirl-inner'],
+        handle: ['.secsdk-captcha-drag-icon', '.captcha-slider-btn'],
+        track: ['.captcha_verify_slide--slidebar', '.captcha-slider-track']
+    },
+    puzzle: {
+        markers: ['img.captcha_verify_img_slide', '[data-testid="puzzle-piece-img"]'],
+        image: ['#captcha-verify-image', '[data-testid="puzzle-bg-img"]'],
+        piece: ['img.captcha_verify_img_slide', '[data-testid="puzzle-piece-img"]'],
+        handle: ['.secsdk-captcha-drag-icon', '.captcha-slider-btn'],
+        track: ['.captcha_verify_slide--slidebar', '.captcha-slider-track']
+    },
+    shapes: {
+        markers: ['#captcha-verify-image', 'img.sc-gqjmRU', 'img.cHbGdz', 'img.sc-ifAKCX', 'img.itlNmx'],
+        image: ['#captcha-verify-image', 'img.sc-gqjmRU', 'img.cHbGdz', 'img.sc-ifAKCX', 'img.itlNmx']
+    }
+};
+
+const VARIANT_ORDER: CaptchaVariant[] = ['rotate', 'puzzle', 'shapes'];
+
+/**
+ * Checks whether a selector matches a visible element
+ */
+export type SelectorProbe = (selector: string) => Promise<boolean>;
+
+/**
+ * Builds a probe that checks for visible elements on a live page
+ * @param page - Playwright page object
+ * @returns Selector probe
+ */
+export function pageSelectorProbe(page: Pick<Page, '$'>): SelectorProbe {
+    return async (selector) => {
+        const element = await page.$(selector).catch(() => null);
+        return element ? element.isVisible().catch(() => false) : false;
+    };
+}
+
+/**
+ * Returns the first selector of a list that matches
+ * @param probe - Selector probe
+ * @param selectors - Candidate selectors
+ * @returns Matching selector, or null if none matches
+ */
+export async function findMatchingSelector(probe: SelectorProbe, selectors: string[] = []): Promise<string | null> {
+    for (const selector of selectors) {
+        if (await probe(selector)) return selector;
+    }
+    return null;
+}
+
+/**
+ * Identifies which CAPTCHA variant is shown
+ * @param probe - Selector probe for the page or saved HTML
+ * @returns Detected variant, or null if no known CAPTCHA is shown
+ */
+export async function detectCaptchaVariant(probe: SelectorProbe): Promise<CaptchaVariant | null> {
+    for (const variant of VARIANT_ORDER) {
+        if (await findMatchingSelector(probe, CAPTCHA_VARIANT_SELECTORS[variant].markers)) {
+            return variant;
+        }
+    }
+    return null;
+}
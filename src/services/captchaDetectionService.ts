@@ -1,11 +1,13 @@
 import { Page } from 'playwright';
 import { Log } from 'crawlee';
 import path from 'path';
+import { CAPTCHA_VARIANT_SELECTORS, CaptchaVariant, detectCaptchaVariant, findMatchingSelector, pageSelectorProbe } from './captcha/variants.js';
 
 export interface CaptchaCheckResult {
     detected: boolean;
     selector: string;
     screenshotPath: string | null;
+    variant: CaptchaVariant | null;
 }
 
 export class CaptchaDetectionService {
@@ -21,13 +23,8 @@ export class CaptchaDetectionService {
         'div:has-text("Select 2 objects that are the same shape")'
     ];
 
-    private readonly captchaImageSelectors = [
-        '#captcha-verify-image',
-        'img.sc-gqjmRU',
-        'img.cHbGdz',
-        'img.sc-ifAKCX',
-        'img.itlNmx'
-    ];
+    // The CAPTCHA renders a moment after the login submit, so detection is retried briefly
+    private readonly detectionChecks = 3;
 
     constructor(private readonly log: Log) {}
 
@@ -46,20 +43,20 @@ export class CaptchaDetectionService {
             
             let captchaDetected = false;
             let captchaSelector = '';
-            let visibleSelector;
-            for (const imgSelector of this.captchaImageSelectors) {
-                try {
-                    visibleSelector = await page.waitForSelector(imgSelector, { timeout: 1000 });
-                    if (visibleSelector && await visibleSelector.isVisible()) {
-                        captchaSelector = imgSelector;
-                        await visibleSelector.screenshot({ path: screenshotPath });
-                        this.log.info(`CAPTCHA image found and screenshot taken with selector: ${imgSelector}`);
-                        captchaDetected = true;
-                        break;
-                    }
-                } catch {
-                    continue;
-                }
+            const probe = pageSelectorProbe(page);
+            let variant: CaptchaVariant | null = null;
+            for (let check = 0; check < this.detectionChecks && !variant; check++) {
+                if (check > 0) await page.waitForTimeout(1000);
+                variant = await detectCaptchaVariant(probe);
+            }
+
+            const imgSelector = variant ? await findMatchingSelector(probe, CAPTCHA_VARIANT_SELECTORS[variant].image) : null;
+            const imageElement = imgSelector ? await page.$(imgSelector) : null;
+            if (variant && imgSelector && imageElement) {
+                captchaSelector = imgSelector;
+                await imageElement.screenshot({ path: screenshotPath });
+                this.log.info(`${variant} CAPTCHA found and screenshot taken with selector: ${imgSelector}`);
+                captchaDetected = true;
             }
             
             // // First check for the container to detect captcha presence
@@ -96,7 +93,8 @@ export class CaptchaDetectionService {
             return {
                 detected: captchaDetected,
                 selector: captchaSelector,
-                screenshotPath: captchaDetected ? screenshotPath : null
+                screenshotPath: captchaDetected ? screenshotPath : null,
+                variant: captchaDetected ? variant : null
             };
             
         } catch (error) {
@@ -0,0 +1,177 @@
+import { Log, RequestOptions } from 'crawlee';
+import { COUNTRIES } from '../consts.js';
+import type { FilterConfig } from '../config.js';
+import type { FilterValues } from './filters/types.js';
+import { compareFilterQueryParams } from './filters/filterEngine.js';
+import { SORT_ORDER_PARAM, toSortOrderParam } from './filters/sortOrder.js';
+
+/**
+ * One filter combination crawled as a separate Crawlee request.
+ * Unset dimensions are left to the page defaults.
+ */
+export interface CrawlJob {
+    region?: string;
+    adLanguage?: string;
+    period?: string;
+    objective?: string;
+    orderBy?: string;
+}
+
+/**
+ * Values to expand into jobs, one list per dimension.
+ * Empty or missing lists do not multiply the job count.
+ */
+export interface CrawlJobMatrix {
+    regions?: string[];
+    adLanguages?: string[];
+    periods?: string[];
+    objectives?: string[];
+    orderBys?: string[];
+}
+
+/**
+ * userData attached to every planned request
+ */
+export interface CrawlJobUserData {
+    job: CrawlJob;
+    jobKey: string;
+}
+
+const JOB_DIMENSIONS: Array<[keyof CrawlJobMatrix, keyof CrawlJob]> = [
+    ['regions', 'region'],
+    ['adLanguages', 'adLanguage'],
+    ['periods', 'period'],
+    ['objectives', 'objective'],
+    ['orderBys', 'orderBy']
+];
+
+const COUNTRY_CODES = new Set<string>(Object.values(COUNTRIES));
+
+/**
+ * Expands the filter configuration into a matrix of crawl jobs
+ * and turns them into Crawlee requests
+ */
+export class CrawlJobPlanner {
+    private readonly log: Log;
+
+    constructor(log: Log) {
+        this.log = log;
+    }
+
+    /**
+     * Builds the job matrix from the filter section of the config
+     * @param filters - Filter configuration
+     * @returns Matrix with one list per dimension
+     */
+    static matrixFromConfig(filters: FilterConfig): CrawlJobMatrix {
+        return {
+            regions: filters.region,
+            adLanguages: filters.adLanguage,
+            periods: filters.period,
+            objectives: filters.objective,
+            orderBys: filters.orderBy
+        };
+    }
+
+    /**
+     * Builds a stable key identifying a job, e.g. `region=US|period=7`
+     * @param job - Crawl job
+     * @returns Job key, or `default` for a job without filters
+     */
+    static getJobKey(job: CrawlJob): string {
+        const parts = JOB_DIMENSIONS
+            .map(([, field]) => field)
+            .filter(field => job[field] !== undefined)
+            .map(field => `${field}=${job[field]}`);
+
+        return parts.length > 0 ? parts.join('|') : 'default';
+    }
+
+    /**
+     * Converts a job into the filter values applied on the page
+     * @param job - Crawl job
+     * @returns Filter values with only the job's dimensions set
+     */
+    static toFilterValues(job: CrawlJob): FilterValues {
+        const values: FilterValues = {
+            region: job.region,
+            adLanguage: job.adLanguage,
+            objective: job.objective,
+            period: job.period
+        };
+        return Object.fromEntries(Object.entries(values).filter(([, value]) => value !== undefined));
+    }
+
+    /**
+     * Checks whether a list request carries every filter and the sort order of a job. Requests sent
+     * while the filters are still being selected miss a param or carry another value and do not match.
+     * @param job - Crawl job
+     * @param params - Query params of the list request
+     * @returns Whether the listed ads belong to the job
+     */
+    static matchesListRequest(job: CrawlJob, params: Record<string, string>): boolean {
+        if (compareFilterQueryParams(CrawlJobPlanner.toFilterValues(job), params).length > 0) {
+            return false;
+        }
+        const order = toSortOrderParam(job.orderBy);
+        return !order || params[SORT_ORDER_PARAM] === order;
+    }
+
+    /**
+     * Resolves the country code a job's ads are attributed to.
+     * Accepts either a code (`US`) or a COUNTRIES key (`United States`).
+     * @param job - Crawl job
+     * @returns ISO country code, or undefined if the job has no region
+     */
+    static resolveCountryCode(job: CrawlJob): string | undefined {
+        if (!job.region) return undefined;
+
+        const region = job.region.trim();
+        if (COUNTRY_CODES.has(region.toUpperCase())) {
+            return region.toUpperCase();
+        }
+
+        const key = region.replace(/\s+/g, '') as keyof typeof COUNTRIES;
+        return COUNTRIES[key] ?? region;
+    }
+
+    /**
+     * Expands the matrix into the cartesian product of all dimensions
+     * @param matrix - Values per dimension
+     * @returns Unique jobs; a single empty job if no dimension has values
+     */
+    plan(matrix: CrawlJobMatrix): CrawlJob[] {
+        let jobs: CrawlJob[] = [{}];
+
+        for (const [dimension, field] of JOB_DIMENSIONS) {
+            const values = [...new Set(matrix[dimension] ?? [])];
+            if (values.length === 0) continue;
+
+            jobs = jobs.flatMap(job => values.map(value => ({ ...job, [field]: value })));
+        }
+
+        this.log.info(`Planned ${jobs.length} crawl job(s)`, {
+            dimensions: Object.fromEntries(JOB_DIMENSIONS.map(([dimension]) => [dimension, matrix[dimension]?.length ?? 0]))
+        });
+
+        return jobs;
+    }
+
+    /**
+     * Turns jobs into Crawlee requests with the job in userData.
+     * The unique key includes the job so the same URL is crawled once per combination.
+     * @param url - Start URL
+     * @param jobs - Planned jobs
+     * @returns Requests ready for `crawler.run()` or `addRequests()`
+     */
+    toRequests(url: string, jobs: CrawlJob[]): RequestOptions<CrawlJobUserData>[] {
+        return jobs.map(job => {
+            const jobKey = CrawlJobPlanner.getJobKey(job);
+            return {
+                url,
+                uniqueKey: `${url}#${jobKey}`,
+                userData: { job, jobKey }
+            };
+        });
+    }
+}
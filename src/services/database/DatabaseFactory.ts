@@ -2,6 +2,8 @@ import { IDatabase } from '@src/services/database/types.js';
 import type { DatabaseConfig } from '@src/services/database/types.js';
 import { PrismaDatabase } from './implementations/PrismaDatabase.js';
 import { SQLiteDatabase } from './implementations/SQLiteDatabase.js';
+import { PostgresDatabase } from './implementations/PostgresDatabase.js';
+import { MySQLDatabase } from './implementations/MySQLDatabase.js';
 
 // Import Env conditionally to allow tests to mock it
 let Env: unknown;
@@ -37,7 +39,7 @@ export class DatabaseFactory {
      * Creates or retrieves a database instance based on the specified type and configuration.
      * Implements connection pooling by reusing existing database connections.
      * 
-     * @param type - The type of database to create (currently only 'prisma')
+     * @param type - The type of database to create
      * @param config - Database configuration parameters
      * @returns A Promise resolving to an IDatabase instance
      * @throws Error if the database type is unsupported or if connection fails
@@ -60,6 +62,12 @@ export class DatabaseFactory {
                 case 'sqlite':
                     database = new SQLiteDatabase(config);
                     break;
+                case 'postgres':
+                    database = new PostgresDatabase(config);
+                    break;
+                case 'mysql':
+                    database = new MySQLDatabase(config);
+                    break;
                 default:
                     throw new Error(`Unsupported database type: ${type}`);
             }
@@ -21,8 +21,22 @@ const createMockDb = () => ({
   insertAd: vi.fn().mockResolvedValue(undefined),
   findAdById: vi.fn().mockResolvedValue(null),
   findAdByCreativeId: vi.fn().mockResolvedValue(null),
+  findAds: vi.fn().mockResolvedValue([]),
   exists: vi.fn().mockResolvedValue(false),
   isDuplicate: vi.fn().mockResolvedValue(false),
+  insertAdSnapshot: vi.fn().mockResolvedValue(undefined),
+  findAdSnapshots: vi.fn().mockResolvedValue([]),
+  upsertAdDetail: vi.fn().mockResolvedValue(undefined),
+  findAdDetail: vi.fn().mockResolvedValue(null),
+  insertTrendItems: vi.fn().mockResolvedValue(undefined),
+  findTrendItems: vi.fn().mockResolvedValue([]),
+  updateVideoMedia: vi.fn().mockResolvedValue(undefined),
+  upsertAdAnalysis: vi.fn().mockResolvedValue(undefined),
+  findAdAnalyses: vi.fn().mockResolvedValue([]),
+  upsertCreativeFingerprint: vi.fn().mockResolvedValue(undefined),
+  findCreativeFingerprints: vi.fn().mockResolvedValue([]),
+  replaceCreativeClusters: vi.fn().mockResolvedValue(undefined),
+  findCreativeClusters: vi.fn().mockResolvedValue([]),
 });
 
 // Mock the PrismaDatabase implementation
@@ -0,0 +1,195 @@
+import { describe, it, expect, beforeEach, vi, afterEach } from 'vitest';
+import type { AdData, DatabaseConfig } from '../types.js';
+
+// Create mock connection and pool methods
+const mockConnection = {
+  beginTransaction: vi.fn().mockResolvedValue(undefined),
+  commit: vi.fn().mockResolvedValue(undefined),
+  rollback: vi.fn().mockResolvedValue(undefined),
+  release: vi.fn(),
+  query: vi.fn().mockResolvedValue([[], []])
+};
+
+const mockPool = {
+  query: vi.fn().mockResolvedValue([[], []]),
+  getConnection: vi.fn().mockResolvedValue(mockConnection),
+  end: vi.fn().mockResolvedValue(undefined)
+};
+
+// Mock mysql2 library
+vi.mock('mysql2/promise', () => ({
+  default: {
+    createPool: vi.fn().mockImplementation(() => mockPool)
+  }
+}));
+
+// Import MySQLDatabase implementation after mocks are set up
+import { MySQLDatabase } from '../implementations/MySQLDatabase.js';
+import mysql from 'mysql2/promise';
+
+describe('MySQLDatabase', () => {
+  let database: MySQLDatabase;
+
+  const mockAd: AdData = {
+    id: 'ad-123',
+    countryCode: 'US',
+    creativeId: 'creative-123',
+    advertiserId: 'advertiser-123',
+    advertiserName: 'Test Advertiser',
+    metadata: { views: 1000 },
+    videoInfo: {
+      vid: 'video-123',
+      duration: 30,
+      cover: 'https://example.com/cover.jpg',
+      width: 1280,
+      height: 720,
+      videoUrl: {
+        p720: 'https://example.com/video.mp4'
+      }
+    }
+  };
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+
+    database = new MySQLDatabase({ connectionString: 'mysql://root@localhost:3306/test' });
+    await database.connect();
+  });
+
+  afterEach(async () => {
+    try {
+      await database?.disconnect();
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('Constructor', () => {
+    it('should throw error if connection string is not provided', () => {
+      expect(() => new MySQLDatabase({} as DatabaseConfig)).toThrow('MySQL connection string is required');
+    });
+  });
+
+  describe('Connection', () => {
+    it('should create a pool and initialize tables', () => {
+      expect(mysql.createPool).toHaveBeenCalledWith('mysql://root@localhost:3306/test');
+      expect(mockPool.query).toHaveBeenCalledWith(expect.stringContaining('CREATE TABLE IF NOT EXISTS ads'));
+      expect(mockPool.query).toHaveBeenCalledWith(expect.stringContaining('CREATE TABLE IF NOT EXISTS ad_snapshots'));
+    });
+
+    it('should end the pool on disconnect', async () => {
+      await database.disconnect();
+      expect(mockPool.end).toHaveBeenCalled();
+    });
+
+    it('should throw error if not connected', async () => {
+      await database.disconnect();
+      await expect(database.query('SELECT 1')).rejects.toThrow('Not connected to MySQL database');
+    });
+  });
+
+  describe('Ad Operations', () => {
+    it('should insert an ad with video info in a transaction', async () => {
+      await database.insertAd(mockAd);
+
+      expect(mockConnection.beginTransaction).toHaveBeenCalled();
+      expect(mockConnection.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO video_info'),
+        ['video-123', 30, 'https://example.com/cover.jpg', 1280, 720]
+      );
+      expect(mockConnection.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO ads'),
+        expect.arrayContaining(['ad-123', 'US', 'creative-123', JSON.stringify(mockAd.metadata)])
+      );
+      expect(mockConnection.commit).toHaveBeenCalled();
+      expect(mockConnection.release).toHaveBeenCalled();
+    });
+
+    it('should roll back when an insert fails', async () => {
+      mockConnection.query
+        .mockResolvedValueOnce([[], []])
+        .mockRejectedValueOnce(new Error('Duplicate entry'));
+
+      await expect(database.insertAd(mockAd)).rejects.toThrow('Failed to insert ad: Duplicate entry');
+      expect(mockConnection.rollback).toHaveBeenCalled();
+      expect(mockConnection.release).toHaveBeenCalled();
+    });
+
+    it('should find an ad by ID and map video info', async () => {
+      mockPool.query.mockResolvedValueOnce([[{
+        id: 'ad-123',
+        countryCode: 'US',
+        creativeId: 'creative-123',
+        advertiserId: 'advertiser-123',
+        advertiserName: 'Test Advertiser',
+        metadata: { views: 1000 },
+        createdAt: '2025-03-01T00:00:00.000Z',
+        updatedAt: '2025-03-01T00:00:00.000Z',
+        vid: 'video-123',
+        duration: 30,
+        cover: 'https://example.com/cover.jpg',
+        width: 1280,
+        height: 720,
+        p720: 'https://example.com/video.mp4'
+      }], []]);
+
+      const ad = await database.findAdById('ad-123');
+
+      expect(mockPool.query).toHaveBeenCalledWith(expect.stringContaining('WHERE a.id = ?'), ['ad-123']);
+      expect(ad).toMatchObject({
+        id: 'ad-123',
+        metadata: { views: 1000 },
+        videoInfo: { vid: 'video-123', videoUrl: { p720: 'https://example.com/video.mp4' } }
+      });
+    });
+
+    it('should return null when ad is not found', async () => {
+      expect(await database.findAdByCreativeId('missing')).toBeNull();
+    });
+
+    it('should check existence with backticked columns', async () => {
+      mockPool.query.mockResolvedValueOnce([[{ 1: 1 }], []]);
+
+      const result = await database.exists({ countryCode: 'US', advertiserId: 'advertiser-123' });
+
+      expect(result).toBe(true);
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining('`countryCode` = ? AND `advertiserId` = ?'),
+        ['US', 'advertiser-123']
+      );
+    });
+
+    it('should check processed items for duplicates', async () => {
+      mockPool.query.mockResolvedValueOnce([[{ 1: 1 }], []]);
+
+      expect(await database.checkDuplicate('ad-123')).toBe(true);
+      expect(mockPool.query).toHaveBeenCalledWith(expect.stringContaining('FROM processed_items'), ['ad-123']);
+    });
+  });
+
+  describe('Snapshot Operations', () => {
+    it('should insert a snapshot with serialized filter context', async () => {
+      await database.insertAdSnapshot({
+        adId: 'ad-123', like: 10, ctr: 0.1, cost: 1, rankPosition: 2,
+        countryCode: 'US', filterContext: { period: '7' }
+      });
+
+      expect(mockPool.query).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO ad_snapshots'),
+        expect.arrayContaining(['ad-123', 10, 0.1, 1, 2, 'US', JSON.stringify({ period: '7' })])
+      );
+    });
+
+    it('should parse snapshots returned as JSON strings', async () => {
+      mockPool.query.mockResolvedValueOnce([[{
+        adId: 'ad-123', like: 10, ctr: 0.1, cost: 1, rankPosition: 2,
+        countryCode: 'US', filterContext: '{"period":"7"}', crawledAt: '2025-03-01T00:00:00.000Z'
+      }], []]);
+
+      const snapshots = await database.findAdSnapshots('ad-123');
+
+      expect(snapshots[0].filterContext).toEqual({ period: '7' });
+      expect(snapshots[0].crawledAt).toEqual(new Date('2025-03-01T00:00:00.000Z'));
+    });
+  });
+});
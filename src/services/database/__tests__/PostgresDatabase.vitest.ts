@@ -0,0 +1,349 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import type { AdAnalysisData, AdData, CreativeClusterData, DatabaseConfig } from '../types.js';
+
+// Replace the pg driver with an in-memory PostgreSQL emulation, one fresh database per pool
+vi.mock('pg', async () => {
+  const { newDb } = await import('pg-mem');
+  class Pool {
+    constructor() {
+      const { Pool: MemPool } = newDb().adapters.createPg();
+      return new MemPool();
+    }
+  }
+  return { default: { Pool } };
+});
+
+import { PostgresDatabase } from '../implementations/PostgresDatabase.js';
+
+describe('PostgresDatabase', () => {
+  let database: PostgresDatabase;
+
+  const mockAd: AdData = {
+    id: 'ad-123',
+    countryCode: 'US',
+    creativeId: 'creative-123',
+    advertiserId: 'advertiser-123',
+    advertiserName: 'Test Advertiser',
+    metadata: { views: 1000, clicks: 50 },
+    videoInfo: {
+      vid: 'video-123',
+      duration: 30,
+      cover: 'https://example.com/cover.jpg',
+      width: 1280,
+      height: 720,
+      videoUrl: {
+        p720: 'https://example.com/video.mp4'
+      }
+    }
+  };
+
+  beforeEach(async () => {
+    database = new PostgresDatabase({ connectionString: 'postgresql://localhost:5432/test' });
+    await database.connect();
+  });
+
+  afterEach(async () => {
+    try {
+      await database?.disconnect();
+    } catch {
+      // Ignore cleanup errors
+    }
+  });
+
+  describe('Constructor', () => {
+    it('should throw error if connection string is not provided', () => {
+      expect(() => new PostgresDatabase({} as DatabaseConfig)).toThrow('PostgreSQL connection string is required');
+    });
+  });
+
+  describe('Connection', () => {
+    it('should throw error if not connected', async () => {
+      await database.disconnect();
+      await expect(database.query('SELECT 1')).rejects.toThrow('Not connected to PostgreSQL database');
+    });
+  });
+
+  describe('Ad Operations', () => {
+    it('should insert an ad and find it by ID with video info', async () => {
+      await database.insertAd(mockAd);
+
+      const ad = await database.findAdById('ad-123');
+      expect(ad).toMatchObject({
+        id: 'ad-123',
+        countryCode: 'US',
+        creativeId: 'creative-123',
+        metadata: { views: 1000, clicks: 50 },
+        videoInfo: {
+          vid: 'video-123',
+          videoUrl: { p720: 'https://example.com/video.mp4' }
+        }
+      });
+    });
+
+    it('should find an ad by creative ID', async () => {
+      await database.insertAd(mockAd);
+
+      const ad = await database.findAdByCreativeId('creative-123');
+      expect(ad?.id).toBe('ad-123');
+    });
+
+    it('should return null for unknown ads', async () => {
+      expect(await database.findAdById('missing')).toBeNull();
+    });
+
+    it('should mark inserted ads as processed', async () => {
+      await database.insertAd(mockAd);
+
+      expect(await database.checkDuplicate('ad-123')).toBe(true);
+      expect(await database.checkDuplicate('other')).toBe(false);
+    });
+
+    it('should detect duplicates', async () => {
+      expect(await database.isDuplicate(mockAd)).toBe(false);
+      await database.insertAd(mockAd);
+      expect(await database.isDuplicate(mockAd)).toBe(true);
+    });
+
+    it('should check existence by criteria', async () => {
+      await database.insertAd(mockAd);
+
+      expect(await database.exists({ advertiserId: 'advertiser-123' })).toBe(true);
+      expect(await database.exists({ countryCode: 'GB' })).toBe(false);
+      expect(await database.exists({})).toBe(false);
+    });
+
+    it('should roll back and throw when inserting the same ad twice', async () => {
+      await database.insertAd(mockAd);
+      await expect(database.insertAd(mockAd)).rejects.toThrow('Failed to insert ad');
+    });
+  });
+
+  describe('Video Media Operations', () => {
+    it('should record the downloaded media in the video info of the ad', async () => {
+      await database.insertAd(mockAd);
+      expect((await database.findAdById('ad-123'))?.videoInfo).not.toHaveProperty('videoPath');
+
+      const mediaDownloadedAt = new Date('2025-03-01T00:00:00Z');
+      await database.updateVideoMedia('video-123', {
+        videoPath: 'ab/abcdef.mp4',
+        videoSize: 3000000000,
+        videoChecksum: 'abcdef',
+        videoRendition: '720p',
+        coverPath: 'cd/cdef01.jpg',
+        coverSize: 20000,
+        coverChecksum: 'cdef01',
+        mediaDownloadedAt
+      });
+
+      expect((await database.findAdById('ad-123'))?.videoInfo).toMatchObject({
+        vid: 'video-123',
+        videoPath: 'ab/abcdef.mp4',
+        videoSize: 3000000000,
+        videoRendition: '720p',
+        coverPath: 'cd/cdef01.jpg',
+        coverSize: 20000,
+        mediaDownloadedAt
+      });
+      expect((await database.findAds())[0].videoInfo?.coverChecksum).toBe('cdef01');
+    });
+  });
+
+  describe('Ad Analysis Operations', () => {
+    const analysis = (adId: string, labels: Partial<AdAnalysisData>, analyzedAt: string): AdAnalysisData => ({
+      adId,
+      hookType: 'testimonial',
+      offer: 'discount',
+      tone: 'casual',
+      productCategory: 'skincare',
+      cta: 'shop_now',
+      model: 'gemini-2.0-flash-lite-001',
+      frameCount: 4,
+      raw: { adId },
+      analyzedAt: new Date(analyzedAt),
+      ...labels
+    });
+
+    it('should replace the analysis of an ad', async () => {
+      await database.insertAd(mockAd);
+      await database.upsertAdAnalysis(analysis('ad-123', { summary: 'First take' }, '2025-03-01T00:00:00Z'));
+      await database.upsertAdAnalysis(analysis('ad-123', { tone: 'urgent' }, '2025-03-02T00:00:00Z'));
+
+      expect(await database.findAdAnalyses()).toEqual([analysis('ad-123', { tone: 'urgent' }, '2025-03-02T00:00:00Z')]);
+    });
+
+    it('should find the analyses matching every given label, newest first', async () => {
+      for (const id of ['ad-1', 'ad-2', 'ad-3']) {
+        await database.insertAd({ ...mockAd, id, creativeId: `creative-${id}`, videoInfo: { ...mockAd.videoInfo!, vid: `video-${id}` } });
+      }
+      await database.upsertAdAnalysis(analysis('ad-1', {}, '2025-03-01T00:00:00Z'));
+      await database.upsertAdAnalysis(analysis('ad-2', { tone: 'urgent' }, '2025-03-02T00:00:00Z'));
+      await database.upsertAdAnalysis(analysis('ad-3', {}, '2025-03-03T00:00:00Z'));
+
+      expect((await database.findAdAnalyses({ hookType: 'testimonial' })).map(item => item.adId)).toEqual(['ad-3', 'ad-2', 'ad-1']);
+      expect((await database.findAdAnalyses({ hookType: 'testimonial', tone: 'casual' })).map(item => item.adId)).toEqual(['ad-3', 'ad-1']);
+      expect(await database.findAdAnalyses({ productCategory: 'apparel' })).toEqual([]);
+    });
+  });
+
+  describe('Creative Cluster Operations', () => {
+    const hashedAt = new Date('2025-03-01T00:00:00Z');
+    const updatedAt = new Date('2025-03-02T00:00:00Z');
+    const cluster = (adIds: string[], countryCodes: string[]): CreativeClusterData => ({
+      clusterId: adIds[0],
+      adIds,
+      adCount: adIds.length,
+      countryCodes,
+      countryCount: countryCodes.length,
+      advertiserCount: 1,
+      updatedAt
+    });
+
+    beforeEach(async () => {
+      for (const id of ['ad-1', 'ad-2', 'ad-3']) {
+        await database.insertAd({ ...mockAd, id, creativeId: `creative-${id}`, videoInfo: { ...mockAd.videoInfo!, vid: `video-${id}` } });
+        await database.upsertCreativeFingerprint({ adId: id, coverHash: 'a5c3f00f12345678', frameHashes: [], hashedAt });
+      }
+    });
+
+    it('should replace the hashes of an ad without touching its cluster', async () => {
+      await database.replaceCreativeClusters([cluster(['ad-1', 'ad-2'], ['US'])]);
+      await database.upsertCreativeFingerprint({ adId: 'ad-1', frameHashes: ['0f0f0f0f0f0f0f0f'], hashedAt });
+
+      expect(await database.findCreativeFingerprints()).toEqual([
+        { adId: 'ad-1', frameHashes: ['0f0f0f0f0f0f0f0f'], clusterId: 'ad-1', hashedAt },
+        { adId: 'ad-2', coverHash: 'a5c3f00f12345678', frameHashes: [], clusterId: 'ad-1', hashedAt },
+        { adId: 'ad-3', coverHash: 'a5c3f00f12345678', frameHashes: [], hashedAt }
+      ]);
+    });
+
+    it('should replace the clusters of the previous run and their assignments', async () => {
+      await database.replaceCreativeClusters([cluster(['ad-1', 'ad-2'], ['US']), cluster(['ad-3'], ['US'])]);
+      await database.replaceCreativeClusters([cluster(['ad-2', 'ad-3'], ['DE', 'US']), cluster(['ad-1'], ['US'])]);
+
+      expect(await database.findCreativeClusters()).toEqual([cluster(['ad-2', 'ad-3'], ['DE', 'US']), cluster(['ad-1'], ['US'])]);
+      expect((await database.findCreativeFingerprints()).map(fingerprint => fingerprint.clusterId)).toEqual(['ad-1', 'ad-2', 'ad-2']);
+    });
+
+    it('should find the cluster of an ad and clusters of a minimum size', async () => {
+      await database.replaceCreativeClusters([cluster(['ad-1', 'ad-3'], ['US']), cluster(['ad-2'], ['US'])]);
+
+      expect(await database.findCreativeClusters({ adId: 'ad-3' })).toEqual([cluster(['ad-1', 'ad-3'], ['US'])]);
+      expect((await database.findCreativeClusters({ minAds: 2 })).map(item => item.clusterId)).toEqual(['ad-1']);
+      expect(await database.findCreativeClusters({ adId: 'missing' })).toEqual([]);
+    });
+  });
+
+  describe('Snapshot Operations', () => {
+    it('should record and return snapshots ordered by crawl time', async () => {
+      await database.insertAd(mockAd);
+      await database.insertAdSnapshot({
+        adId: 'ad-123', like: 20, ctr: 0.2, cost: 2, rankPosition: 1,
+        countryCode: 'US', filterContext: { period: '7' }, crawledAt: new Date('2025-03-02T00:00:00Z')
+      });
+      await database.insertAdSnapshot({
+        adId: 'ad-123', like: 10, ctr: 0.1, cost: 1, rankPosition: 4,
+        countryCode: 'US', filterContext: { period: '7' }, crawledAt: new Date('2025-03-01T00:00:00Z')
+      });
+
+      const snapshots = await database.findAdSnapshots('ad-123');
+      expect(snapshots.map(s => s.like)).toEqual([10, 20]);
+      expect(snapshots[0].filterContext).toEqual({ period: '7' });
+    });
+  });
+
+  describe('Trend Operations', () => {
+    const crawledAt = new Date('2025-03-01T00:00:00Z');
+
+    it('should find the trend items of a country ordered by crawl time and rank', async () => {
+      await database.insertTrendItems('hashtags', [
+        { itemId: 'h-2', countryCode: 'US', period: '7', rank: 2, name: 'winter', raw: {}, crawledAt: new Date('2025-03-02T00:00:00Z') },
+        { itemId: 'h-1', countryCode: 'US', period: '7', rank: 1, name: 'summer', viewCount: 5000000000, rankDiff: -2, raw: { id: 'h-1' }, crawledAt },
+        { itemId: 'h-3', countryCode: 'GB', period: '7', rank: 1, name: 'spring', raw: {}, crawledAt }
+      ]);
+
+      const items = await database.findTrendItems('hashtags', 'US');
+      expect(items.map(item => item.itemId)).toEqual(['h-1', 'h-2']);
+      expect(items[0]).toEqual({ itemId: 'h-1', countryCode: 'US', period: '7', rank: 1, name: 'summer', viewCount: 5000000000, rankDiff: -2, raw: { id: 'h-1' }, crawledAt });
+      expect(await database.findTrendItems('hashtags')).toHaveLength(3);
+    });
+
+    it('should store the items of every trend discovery and product section', async () => {
+      const common = { countryCode: 'US', rank: 1, raw: {}, crawledAt };
+      await database.insertTrendItems('songs', [{ ...common, itemId: 's-1', title: 'Song', duration: 30 }]);
+      await database.insertTrendItems('creators', [{ ...common, itemId: 'c-1', nickname: 'creator', followerCount: 1200 }]);
+      await database.insertTrendItems('videos', [{ ...common, itemId: 'v-1', videoUrl: 'https://example.com/v.mp4' }]);
+      await database.insertTrendItems('products', [{ ...common, itemId: 'p-1', name: 'Serum', ctr: 0.05, cost: 12.5 }]);
+
+      expect(await database.findTrendItems('songs')).toEqual([{ ...common, itemId: 's-1', title: 'Song', duration: 30 }]);
+      expect(await database.findTrendItems('creators')).toEqual([{ ...common, itemId: 'c-1', nickname: 'creator', followerCount: 1200 }]);
+      expect(await database.findTrendItems('videos')).toEqual([{ ...common, itemId: 'v-1', videoUrl: 'https://example.com/v.mp4' }]);
+      expect(await database.findTrendItems('products')).toEqual([{ ...common, itemId: 'p-1', name: 'Serum', ctr: 0.05, cost: 12.5 }]);
+    });
+
+    it('should store keyword insights and dashboard breakdowns with their industry key', async () => {
+      const common = { countryCode: 'US', period: '7', rank: 1, raw: {}, crawledAt };
+      await database.insertTrendItems('keywords', [
+        { ...common, itemId: 'free shipping', keyword: 'free shipping', industryKey: 'label_22000000000', ctr: 0.03, impressions: 1000, relatedKeywords: ['fast delivery'] }
+      ]);
+      await database.insertTrendItems('dashboard', [
+        { ...common, itemId: 'industry:label_22000000000', dimension: 'industry', breakdownKey: 'label_22000000000', label: 'E-commerce', industryKey: 'label_22000000000', adCount: 40 }
+      ]);
+
+      expect(await database.findTrendItems('keywords', 'US')).toEqual([
+        { ...common, itemId: 'free shipping', keyword: 'free shipping', industryKey: 'label_22000000000', ctr: 0.03, impressions: 1000, relatedKeywords: ['fast delivery'] }
+      ]);
+      expect(await database.findTrendItems('dashboard', 'US')).toEqual([
+        { ...common, itemId: 'industry:label_22000000000', dimension: 'industry', breakdownKey: 'label_22000000000', label: 'E-commerce', industryKey: 'label_22000000000', adCount: 40 }
+      ]);
+    });
+
+    // pg-mem does not undo statements on ROLLBACK, so only the error is checked
+    it('should throw when an item lacks a required column', async () => {
+      const items = [{ itemId: 'h-1', countryCode: 'US', rank: 1, name: null, raw: {}, crawledAt }];
+
+      await expect(database.insertTrendItems('hashtags', items as never)).rejects.toThrow('Failed to insert hashtags items');
+    });
+  });
+
+  describe('Ad Detail Operations', () => {
+    it('should store the details of an ad with its retention curve', async () => {
+      await database.insertAd(mockAd);
+      await database.upsertAdDetail({
+        adId: 'ad-123',
+        ctaText: 'Shop now',
+        keywords: ['sale'],
+        audienceInterests: [{ interest: 'Fashion', share: 42.5 }],
+        retention: [{ second: 1, retention: 0.8, ctr: 0.02 }, { second: 0, retention: 1 }],
+        raw: { id: 'ad-123' },
+        crawledAt: new Date('2025-03-01T00:00:00Z')
+      });
+
+      expect(await database.findAdDetail('ad-123')).toEqual({
+        adId: 'ad-123',
+        ctaText: 'Shop now',
+        landingPage: undefined,
+        keywords: ['sale'],
+        highlightText: undefined,
+        audienceInterests: [{ interest: 'Fashion', share: 42.5 }],
+        retention: [{ second: 0, retention: 1, ctr: undefined, cvr: undefined }, { second: 1, retention: 0.8, ctr: 0.02, cvr: undefined }],
+        raw: { id: 'ad-123' },
+        crawledAt: new Date('2025-03-01T00:00:00Z')
+      });
+    });
+
+    it('should replace earlier details and the whole retention curve', async () => {
+      await database.insertAd(mockAd);
+      const detail = { adId: 'ad-123', keywords: [], audienceInterests: [], raw: {} };
+      await database.upsertAdDetail({ ...detail, ctaText: 'Shop now', retention: [{ second: 0, retention: 1 }, { second: 1, retention: 0.5 }] });
+      await database.upsertAdDetail({ ...detail, landingPage: 'https://shop.example.com', retention: [{ second: 0, retention: 0.9 }] });
+
+      const stored = await database.findAdDetail('ad-123');
+      expect(stored).toMatchObject({ ctaText: undefined, landingPage: 'https://shop.example.com' });
+      expect(stored?.retention).toEqual([{ second: 0, retention: 0.9, ctr: undefined, cvr: undefined }]);
+    });
+
+    it('should return null for ads without details', async () => {
+      expect(await database.findAdDetail('missing')).toBeNull();
+    });
+  });
+});
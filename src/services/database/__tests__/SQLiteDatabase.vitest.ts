@@ -132,6 +132,82 @@ describe('SQLiteDatabase', () => {
       }
     };
     
+    it('should replace the details and retention curve of an ad', async () => {
+      await database.upsertAdDetail({
+        adId: 'ad-123',
+        ctaText: 'Shop now',
+        keywords: ['sale'],
+        audienceInterests: [{ interest: 'Fashion', share: 42.5 }],
+        retention: [{ second: 0, retention: 1 }, { second: 1, retention: 0.8, ctr: 0.02 }],
+        raw: {}
+      });
+      
+      expect(mockDb.run).toHaveBeenCalledWith(
+        expect.stringContaining('ON CONFLICT (adId) DO UPDATE'),
+        expect.arrayContaining(['ad-123', 'Shop now', JSON.stringify(['sale'])])
+      );
+      expect(mockDb.run).toHaveBeenCalledWith('DELETE FROM ad_retention_points WHERE adId = ?', ['ad-123']);
+      expect(mockDb.run).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO ad_retention_points'),
+        [expect.any(String), 'ad-123', 1, 0.8, 0.02, null]
+      );
+      expect(mockDb.run).toHaveBeenLastCalledWith('COMMIT');
+    });
+    
+    it('should find the details of an ad with its retention curve', async () => {
+      mockDb.get.mockResolvedValueOnce({
+        adId: 'ad-123',
+        ctaText: null,
+        landingPage: 'https://shop.example.com',
+        keywords: '["sale"]',
+        highlightText: null,
+        audienceInterests: '[]',
+        raw: '{}',
+        crawledAt: '2025-03-01T00:00:00.000Z'
+      });
+      mockDb.all.mockResolvedValueOnce([{ second: 0, retention: 1, ctr: null, cvr: null }]);
+      
+      const detail = await database.findAdDetail('ad-123');
+      
+      expect(detail).toEqual({
+        adId: 'ad-123',
+        ctaText: undefined,
+        landingPage: 'https://shop.example.com',
+        keywords: ['sale'],
+        highlightText: undefined,
+        audienceInterests: [],
+        retention: [{ second: 0, retention: 1, ctr: undefined, cvr: undefined }],
+        raw: {},
+        crawledAt: new Date('2025-03-01T00:00:00.000Z')
+      });
+    });
+    
+    it('should insert trend items with their ISO crawl time', async () => {
+      const crawledAt = new Date('2025-03-01T00:00:00.000Z');
+      await database.insertTrendItems('hashtags', [
+        { itemId: 'h-1', countryCode: 'US', period: '7', rank: 1, name: 'summer', viewCount: 1200, raw: {}, crawledAt }
+      ]);
+      
+      expect(mockDb.run).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO trend_hashtags'),
+        [expect.any(String), 'h-1', 'US', '7', 1, 'summer', null, null, 1200, null, '{}', '2025-03-01T00:00:00.000Z']
+      );
+      expect(mockDb.run).toHaveBeenLastCalledWith('COMMIT');
+    });
+    
+    it('should find trend items of a country', async () => {
+      mockDb.all.mockResolvedValueOnce([
+        { id: 'row-1', itemId: 'p-1', countryCode: 'US', period: null, rank: 1, name: 'Serum', category: null, ctr: 0.05, cvr: null, cpa: null, cost: null, impressions: null, likes: null, posts: null, raw: '{"id":"p-1"}', crawledAt: '2025-03-01T00:00:00.000Z' }
+      ]);
+      
+      const items = await database.findTrendItems('products', 'US');
+      
+      expect(mockDb.all).toHaveBeenCalledWith(expect.stringContaining('WHERE countryCode = ?'), ['US']);
+      expect(items).toEqual([
+        { itemId: 'p-1', countryCode: 'US', rank: 1, name: 'Serum', ctr: 0.05, raw: { id: 'p-1' }, crawledAt: new Date('2025-03-01T00:00:00.000Z') }
+      ]);
+    });
+    
     it('should check for duplicates', async () => {
       await database.checkDuplicate('test-key');
       expect(mockDb.get).toHaveBeenCalledWith(
@@ -208,6 +284,15 @@ describe('SQLiteDatabase', () => {
       );
     });
     
+    it('should page through ads ordered by ID', async () => {
+      mockDb.all.mockResolvedValueOnce([{ id: 'ad-124', countryCode: 'US', metadata: '{}' }]);
+
+      const ads = await database.findAds({ afterId: 'ad-123', limit: 50 });
+
+      expect(mockDb.all).toHaveBeenCalledWith(expect.stringMatching(/WHERE a\.id > \?[\s\S]*ORDER BY a\.id/), ['ad-123', 50]);
+      expect(ads.map(ad => ad.id)).toEqual(['ad-124']);
+    });
+    
     it('should check existence by criteria', async () => {
       await database.exists({ id: 'ad-123', creativeId: 'creative-123' });
       
@@ -217,6 +302,184 @@ describe('SQLiteDatabase', () => {
       );
     });
     
+    it('should insert an ad snapshot', async () => {
+      await database.insertAdSnapshot({
+        adId: 'ad-123',
+        like: 120,
+        ctr: 0.05,
+        cost: 2,
+        rankPosition: 3,
+        countryCode: 'US',
+        filterContext: { period: '7' }
+      });
+      
+      expect(mockDb.run).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO ad_snapshots'),
+        expect.arrayContaining(['ad-123', 120, 0.05, 2, 3, 'US', JSON.stringify({ period: '7' })])
+      );
+    });
+    
+    it('should find ad snapshots ordered by crawl time', async () => {
+      mockDb.all.mockResolvedValueOnce([{
+        adId: 'ad-123',
+        like: 120,
+        ctr: 0.05,
+        cost: 2,
+        rankPosition: 3,
+        countryCode: 'US',
+        filterContext: '{"period":"7"}',
+        crawledAt: '2025-03-01T00:00:00.000Z'
+      }]);
+      
+      const snapshots = await database.findAdSnapshots('ad-123');
+      
+      expect(mockDb.all).toHaveBeenCalledWith(
+        expect.stringContaining('ORDER BY crawledAt ASC'),
+        ['ad-123']
+      );
+      expect(snapshots[0].filterContext).toEqual({ period: '7' });
+      expect(snapshots[0].crawledAt).toEqual(new Date('2025-03-01T00:00:00.000Z'));
+      expect(snapshots[0].orderBy).toBeUndefined();
+    });
+    
+    it('should store the sort order of a snapshot', async () => {
+      await database.insertAdSnapshot({
+        adId: 'ad-123',
+        like: 120,
+        ctr: 0.05,
+        cost: 2,
+        rankPosition: 3,
+        countryCode: 'US',
+        orderBy: 'reach',
+        filterContext: { period: '7', order_by: 'reach' }
+      });
+      
+      expect(mockDb.run).toHaveBeenCalledWith(
+        expect.stringContaining('orderBy'),
+        expect.arrayContaining(['ad-123', 'US', 'reach'])
+      );
+    });
+    
+    it('should add the sort order column to existing snapshot tables only once', async () => {
+      const alterTable = 'ALTER TABLE ad_snapshots ADD COLUMN orderBy TEXT';
+      await database.disconnect();
+      
+      mockDb.exec.mockClear();
+      mockDb.all.mockResolvedValueOnce([{ name: 'id' }, { name: 'countryCode' }]);
+      await database.connect();
+      expect(mockDb.exec).toHaveBeenCalledWith(alterTable);
+      await database.disconnect();
+      
+      mockDb.exec.mockClear();
+      mockDb.all.mockResolvedValueOnce([{ name: 'id' }, { name: 'orderBy' }]);
+      await database.connect();
+      expect(mockDb.exec).not.toHaveBeenCalledWith(alterTable);
+    });
+    
+    it('should add the media columns missing from video_info', async () => {
+      await database.disconnect();
+      
+      mockDb.exec.mockClear();
+      mockDb.all
+        .mockResolvedValueOnce([{ name: 'orderBy' }])
+        .mockResolvedValueOnce([{ name: 'vid' }, { name: 'videoPath' }]);
+      await database.connect();
+      
+      expect(mockDb.exec).not.toHaveBeenCalledWith('ALTER TABLE video_info ADD COLUMN videoPath TEXT');
+      expect(mockDb.exec).toHaveBeenCalledWith('ALTER TABLE video_info ADD COLUMN videoChecksum TEXT');
+      expect(mockDb.exec).toHaveBeenCalledWith('ALTER TABLE video_info ADD COLUMN mediaDownloadedAt TEXT');
+    });
+    
+    it('should record the downloaded media of a video', async () => {
+      const downloadedAt = new Date('2025-03-01T00:00:00.000Z');
+      await database.updateVideoMedia('video-123', {
+        videoPath: 'storage/media/ab/ab12.mp4',
+        videoSize: 2048,
+        videoChecksum: 'ab12',
+        videoRendition: '720p',
+        mediaDownloadedAt: downloadedAt
+      });
+      
+      expect(mockDb.run).toHaveBeenCalledWith(
+        expect.stringContaining('UPDATE video_info SET videoPath = ?'),
+        ['storage/media/ab/ab12.mp4', 2048, 'ab12', '720p', null, null, null, '2025-03-01T00:00:00.000Z', 'video-123']
+      );
+    });
+    
+    it('should upsert the analysis of an ad', async () => {
+      const analyzedAt = new Date('2025-03-01T00:00:00.000Z');
+      const labels = { hookType: 'testimonial', offer: 'discount', tone: 'energetic', productCategory: 'skincare', cta: 'shop_now' };
+      await database.upsertAdAnalysis({ adId: 'ad-1', ...labels, model: 'gemini', frameCount: 0, raw: labels, analyzedAt });
+      
+      expect(mockDb.run).toHaveBeenCalledWith(
+        expect.stringContaining('ON CONFLICT (adId) DO UPDATE SET'),
+        ['ad-1', 'testimonial', 'discount', 'energetic', 'skincare', 'shop_now', null, 'gemini', 0, JSON.stringify(labels), '2025-03-01T00:00:00.000Z']
+      );
+    });
+    
+    it('should find the analyses matching the given labels', async () => {
+      mockDb.all.mockResolvedValueOnce([
+        { adId: 'ad-1', hookType: 'testimonial', offer: 'none', tone: 'calm', productCategory: 'skincare', cta: 'learn_more', summary: null, model: 'gemini', frameCount: 2, raw: '{}', analyzedAt: '2025-03-01T00:00:00.000Z' }
+      ]);
+      
+      const analyses = await database.findAdAnalyses({ hookType: 'testimonial', productCategory: 'skincare' });
+      
+      expect(mockDb.all).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE hookType = ? AND productCategory = ?'),
+        ['testimonial', 'skincare']
+      );
+      expect(analyses).toEqual([{
+        adId: 'ad-1', hookType: 'testimonial', offer: 'none', tone: 'calm', productCategory: 'skincare', cta: 'learn_more',
+        model: 'gemini', frameCount: 2, raw: {}, analyzedAt: new Date('2025-03-01T00:00:00.000Z')
+      }]);
+    });
+    
+    it('should upsert the hashes of an ad without touching its cluster', async () => {
+      const hashedAt = new Date('2025-03-01T00:00:00.000Z');
+      await database.upsertCreativeFingerprint({ adId: 'ad-1', coverHash: 'ffff0000ffff0000', frameHashes: ['0f0f0f0f0f0f0f0f'], hashedAt });
+      
+      const [sql, params] = mockDb.run.mock.calls.at(-1)!;
+      expect(sql).toContain('INSERT INTO creative_fingerprints (adId, coverHash, frameHashes, hashedAt)');
+      expect(sql).not.toContain('clusterId');
+      expect(params).toEqual(['ad-1', 'ffff0000ffff0000', '["0f0f0f0f0f0f0f0f"]', '2025-03-01T00:00:00.000Z']);
+    });
+    
+    it('should replace the clusters and assign their ads in one transaction', async () => {
+      const updatedAt = new Date('2025-03-01T00:00:00.000Z');
+      await database.replaceCreativeClusters([
+        { clusterId: 'ad-1', adIds: ['ad-1', 'ad-7'], adCount: 2, countryCodes: ['GB', 'US'], countryCount: 2, advertiserCount: 1, updatedAt }
+      ]);
+      
+      expect(mockDb.run.mock.calls.map(([sql]) => sql.trim().split(/\s+/).slice(0, 2).join(' '))).toEqual(
+        expect.arrayContaining(['BEGIN TRANSACTION', 'DELETE FROM', 'COMMIT'])
+      );
+      expect(mockDb.run).toHaveBeenCalledWith(
+        expect.stringContaining('INSERT INTO creative_clusters'),
+        ['ad-1', '["ad-1","ad-7"]', 2, '["GB","US"]', 2, 1, '2025-03-01T00:00:00.000Z']
+      );
+      expect(mockDb.run).toHaveBeenCalledWith(
+        'UPDATE creative_fingerprints SET clusterId = ? WHERE adId IN (?, ?)',
+        ['ad-1', 'ad-1', 'ad-7']
+      );
+    });
+    
+    it('should find the cluster of an ad', async () => {
+      mockDb.all.mockResolvedValueOnce([
+        { clusterId: 'ad-1', adIds: '["ad-1","ad-7"]', adCount: 2, countryCodes: '["GB","US"]', countryCount: 2, advertiserCount: 1, updatedAt: '2025-03-01T00:00:00.000Z' }
+      ]);
+      
+      const clusters = await database.findCreativeClusters({ adId: 'ad-7', minAds: 2 });
+      
+      expect(mockDb.all).toHaveBeenCalledWith(
+        expect.stringContaining('WHERE clusterId = (SELECT clusterId FROM creative_fingerprints WHERE adId = ?) AND adCount >= ?'),
+        ['ad-7', 2]
+      );
+      expect(clusters).toEqual([{
+        clusterId: 'ad-1', adIds: ['ad-1', 'ad-7'], adCount: 2, countryCodes: ['GB', 'US'], countryCount: 2, advertiserCount: 1,
+        updatedAt: new Date('2025-03-01T00:00:00.000Z')
+      }]);
+    });
+    
     it('should check for duplicates using exists()', async () => {
       const existsSpy = vi.spyOn(database, 'exists').mockResolvedValue(false);
       
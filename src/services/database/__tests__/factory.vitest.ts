@@ -2,6 +2,8 @@ import { describe, it, expect, beforeEach, vi } from 'vitest';
 import { createDatabase } from '../factory.js';
 import { PrismaDatabase } from '../implementations/PrismaDatabase.js';
 import { SQLiteDatabase } from '../implementations/SQLiteDatabase.js';
+import { PostgresDatabase } from '../implementations/PostgresDatabase.js';
+import { MySQLDatabase } from '../implementations/MySQLDatabase.js';
 import type { DatabaseConfig } from '../types.js';
 
 // Mock dependencies
@@ -19,6 +21,20 @@ vi.mock('../implementations/SQLiteDatabase.js', () => ({
   }))
 }));
 
+vi.mock('../implementations/PostgresDatabase.js', () => ({
+  PostgresDatabase: vi.fn().mockImplementation(() => ({
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined)
+  }))
+}));
+
+vi.mock('../implementations/MySQLDatabase.js', () => ({
+  MySQLDatabase: vi.fn().mockImplementation(() => ({
+    connect: vi.fn().mockResolvedValue(undefined),
+    disconnect: vi.fn().mockResolvedValue(undefined)
+  }))
+}));
+
 describe('Database Factory', () => {
   beforeEach(() => {
     vi.clearAllMocks();
@@ -40,6 +56,22 @@ describe('Database Factory', () => {
     expect(SQLiteDatabase).toHaveBeenCalledWith(config);
   });
 
+  it('should create a PostgresDatabase instance when type is postgres', () => {
+    const config: DatabaseConfig = { connectionString: 'postgresql://localhost:5432/test' };
+    const database = createDatabase('postgres', config);
+
+    expect(database).toBeDefined();
+    expect(PostgresDatabase).toHaveBeenCalledWith(config);
+  });
+
+  it('should create a MySQLDatabase instance when type is mysql', () => {
+    const config: DatabaseConfig = { connectionString: 'mysql://root@localhost:3306/test' };
+    const database = createDatabase('mysql', config);
+
+    expect(database).toBeDefined();
+    expect(MySQLDatabase).toHaveBeenCalledWith(config);
+  });
+
   it('should throw an error for unsupported database types', () => {
     const config: DatabaseConfig = {};
     // @ts-expect-error - Testing with invalid type
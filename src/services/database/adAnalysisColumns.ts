@@ -0,0 +1,54 @@
+import type { AdAnalysisData, AdAnalysisFilter, AdAnalysisLabels } from './types.js';
+import { readColumns, TrendColumn } from './trendTables.js';
+
+/**
+ * Labels ads can be filtered by; each one is an indexed column of `ad_analyses`
+ */
+export const AD_ANALYSIS_LABELS: (keyof AdAnalysisLabels)[] = ['hookType', 'offer', 'tone', 'productCategory', 'cta'];
+
+/**
+ * Columns of `ad_analyses` besides the `adId` primary key. The backends map the types like the trend columns.
+ */
+export const AD_ANALYSIS_COLUMNS: TrendColumn[] = [
+    ...AD_ANALYSIS_LABELS.map(name => ({ name, type: 'key' as const, required: true, indexed: true })),
+    { name: 'summary', type: 'text' },
+    { name: 'model', type: 'key', required: true },
+    { name: 'frameCount', type: 'integer', required: true },
+    { name: 'raw', type: 'json', required: true },
+    { name: 'analyzedAt', type: 'timestamp', required: true }
+];
+
+/**
+ * Converts an analysis into values in column order: JSON is serialized and the analysis time defaults to now
+ * @param data - Analysis to store
+ * @returns Values for AD_ANALYSIS_COLUMNS
+ */
+export function toAdAnalysisRow(data: AdAnalysisData): unknown[] {
+    const values = data as unknown as Record<string, unknown>;
+    return AD_ANALYSIS_COLUMNS.map(column => {
+        const value = values[column.name];
+        if (column.name === 'analyzedAt') return value ?? new Date();
+        if (value === undefined || value === null) return null;
+        return column.type === 'json' ? JSON.stringify(value) : value;
+    });
+}
+
+/**
+ * Reads a stored analysis row
+ * @param row - Database row
+ * @returns Stored analysis
+ */
+export function fromAdAnalysisRow(row: Record<string, unknown>): AdAnalysisData {
+    return { adId: row.adId, ...readColumns(AD_ANALYSIS_COLUMNS, row) } as unknown as AdAnalysisData;
+}
+
+/**
+ * Picks the set labels of a filter, so only known column names end up in the query
+ * @param filter - Labels to match
+ * @returns Label columns with the value to match
+ */
+export function getAdAnalysisConditions(filter: AdAnalysisFilter = {}): Array<{ column: string; value: string }> {
+    return AD_ANALYSIS_LABELS
+        .filter(label => filter[label] !== undefined)
+        .map(label => ({ column: label, value: filter[label]! }));
+}
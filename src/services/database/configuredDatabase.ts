@@ -0,0 +1,22 @@
+import { Env } from '@lib/Env.js';
+import { createDatabase } from './factory.js';
+import type { IDatabase } from './types.js';
+
+/**
+ * Creates the database instance selected by the DATABASE_TYPE environment variable.
+ * @returns Database instance (not yet connected)
+ */
+export function createConfiguredDatabase(): IDatabase {
+    switch (Env.DATABASE_TYPE) {
+        case 'postgres':
+            return createDatabase('postgres', { connectionString: Env.DATABASE_POSTGRES_URL });
+        case 'mysql':
+            return createDatabase('mysql', { connectionString: Env.DATABASE_MYSQL_URL });
+        case 'sqlite':
+            return createDatabase('sqlite', { filename: Env.DATABASE_SQLITE_URL.replace(/^(sqlite|file):/, '') });
+        case 'prisma':
+        default:
+            // Use DATABASE_SQLITE_URL from environment for Prisma
+            return createDatabase('prisma', { connectionString: Env.DATABASE_SQLITE_URL });
+    }
+}
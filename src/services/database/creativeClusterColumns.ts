@@ -0,0 +1,78 @@
+import type { CreativeClusterData, CreativeFingerprintData } from './types.js';
+import { readColumns, TrendColumn } from './trendTables.js';
+
+/**
+ * Columns of `creative_fingerprints` besides the `adId` primary key and the indexed `clusterId`,
+ * which only the clustering run writes. The backends map the types like the trend columns.
+ */
+export const CREATIVE_FINGERPRINT_COLUMNS: TrendColumn[] = [
+    { name: 'coverHash', type: 'key', indexed: true },
+    { name: 'frameHashes', type: 'json', required: true },
+    { name: 'hashedAt', type: 'timestamp', required: true }
+];
+
+/**
+ * Columns of `creative_clusters` besides the `clusterId` primary key
+ */
+export const CREATIVE_CLUSTER_COLUMNS: TrendColumn[] = [
+    { name: 'adIds', type: 'json', required: true },
+    { name: 'adCount', type: 'integer', required: true, indexed: true },
+    { name: 'countryCodes', type: 'json', required: true },
+    { name: 'countryCount', type: 'integer', required: true },
+    { name: 'advertiserCount', type: 'integer', required: true },
+    { name: 'updatedAt', type: 'timestamp', required: true }
+];
+
+/**
+ * Converts data into values in column order: JSON is serialized and the timestamp column defaults to now
+ * @private
+ */
+function toRow(columns: TrendColumn[], data: object): unknown[] {
+    const values = data as Record<string, unknown>;
+    return columns.map(column => {
+        const value = values[column.name];
+        if (column.type === 'timestamp') return value ?? new Date();
+        if (value === undefined || value === null) return null;
+        return column.type === 'json' ? JSON.stringify(value) : value;
+    });
+}
+
+/**
+ * Converts hashes into values in column order
+ * @param data - Hashes to store
+ * @returns Values for CREATIVE_FINGERPRINT_COLUMNS
+ */
+export function toCreativeFingerprintRow(data: CreativeFingerprintData): unknown[] {
+    return toRow(CREATIVE_FINGERPRINT_COLUMNS, data);
+}
+
+/**
+ * Reads a stored fingerprint row
+ * @param row - Database row
+ * @returns Stored hashes with their cluster
+ */
+export function fromCreativeFingerprintRow(row: Record<string, unknown>): CreativeFingerprintData {
+    return {
+        adId: row.adId,
+        ...readColumns(CREATIVE_FINGERPRINT_COLUMNS, row),
+        ...(row.clusterId ? { clusterId: row.clusterId } : {})
+    } as unknown as CreativeFingerprintData;
+}
+
+/**
+ * Converts a cluster into values in column order
+ * @param data - Cluster to store
+ * @returns Values for CREATIVE_CLUSTER_COLUMNS
+ */
+export function toCreativeClusterRow(data: CreativeClusterData): unknown[] {
+    return toRow(CREATIVE_CLUSTER_COLUMNS, data);
+}
+
+/**
+ * Reads a stored cluster row
+ * @param row - Database row
+ * @returns Stored cluster
+ */
+export function fromCreativeClusterRow(row: Record<string, unknown>): CreativeClusterData {
+    return { clusterId: row.clusterId, ...readColumns(CREATIVE_CLUSTER_COLUMNS, row) } as unknown as CreativeClusterData;
+}
@@ -2,6 +2,8 @@ import { DatabaseType, IDatabase } from './types.js';
 import type { DatabaseConfig } from './types.js';
 import { PrismaDatabase } from './implementations/PrismaDatabase.js';
 import { SQLiteDatabase } from './implementations/SQLiteDatabase.js';
+import { PostgresDatabase } from './implementations/PostgresDatabase.js';
+import { MySQLDatabase } from './implementations/MySQLDatabase.js';
 
 /**
  * Simple factory function for creating database instances.
@@ -16,6 +18,10 @@ export function createDatabase(type: DatabaseType, config: DatabaseConfig): IDat
             return new PrismaDatabase(config);
         case 'sqlite':
             return new SQLiteDatabase(config);
+        case 'postgres':
+            return new PostgresDatabase(config);
+        case 'mysql':
+            return new MySQLDatabase(config);
         default:
             throw new Error(`Unsupported database type: ${type}`);
     }
@@ -0,0 +1,858 @@
+import { IDatabase, DatabaseConfig, AdAnalysisData, AdAnalysisFilter, AdData, AdPageOptions, AdDetailData, AdSnapshotData, CreativeClusterData, CreativeClusterQuery, CreativeFingerprintData, TrendItemDataBySection, TrendSection, VideoMediaData } from '../types.js';
+import { AD_ANALYSIS_COLUMNS, fromAdAnalysisRow, getAdAnalysisConditions, toAdAnalysisRow } from '../adAnalysisColumns.js';
+import { CREATIVE_CLUSTER_COLUMNS, CREATIVE_FINGERPRINT_COLUMNS, fromCreativeClusterRow, fromCreativeFingerprintRow, toCreativeClusterRow, toCreativeFingerprintRow } from '../creativeClusterColumns.js';
+import { VIDEO_MEDIA_COLUMNS, fromVideoMediaRow, toVideoMediaRow } from '../videoMediaColumns.js';
+import { TREND_TABLES, TrendColumnType, fromTrendRow, toTrendRow } from '../trendTables.js';
+import mysql from 'mysql2/promise';
+import type { Pool, RowDataPacket } from 'mysql2/promise';
+import { randomUUID } from 'crypto';
+
+// MySQL column type of each trend column type; indexed columns need a bounded length
+const TREND_COLUMN_TYPES: Record<TrendColumnType, string> = {
+    key: 'VARCHAR(191)',
+    text: 'TEXT',
+    integer: 'BIGINT',
+    real: 'DOUBLE',
+    json: 'JSON',
+    timestamp: 'DATETIME(3)'
+};
+
+const VIDEO_MEDIA_SELECT = VIDEO_MEDIA_COLUMNS.map(column => `v.${column.name}`).join(', ');
+
+/**
+ * MySQL database implementation using the mysql2 package.
+ * Implements the IDatabase interface with the same schema as the SQLite and Prisma backends.
+ */
+export class MySQLDatabase implements IDatabase {
+    private pool: Pool | null = null;
+    private connectionString: string;
+
+    /**
+     * Creates a new MySQL database instance.
+     * @param config Database configuration
+     * @throws Error if connection string is not provided
+     */
+    constructor(config: DatabaseConfig) {
+        if (!config.connectionString) {
+            throw new Error('MySQL connection string is required');
+        }
+        this.connectionString = config.connectionString;
+    }
+
+    /**
+     * Connects to the MySQL database and initializes tables if they don't exist.
+     * @returns Promise that resolves when connected
+     */
+    async connect(): Promise<void> {
+        try {
+            this.pool = mysql.createPool(this.connectionString);
+            await this.initializeTables();
+        } catch (error) {
+            this.pool = null;
+            throw new Error(`Failed to connect to MySQL database: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Disconnects from the MySQL database.
+     * @returns Promise that resolves when disconnected
+     */
+    async disconnect(): Promise<void> {
+        if (this.pool) {
+            await this.pool.end();
+            this.pool = null;
+        }
+    }
+
+    /**
+     * Executes a SQL query with optional parameters.
+     * SELECT queries return rows, other statements return the result header.
+     * @param sql SQL query string
+     * @param params Query parameters (optional)
+     * @returns Query result
+     * @throws Error if not connected to database
+     */
+    async query<T>(sql: string, params?: unknown[]): Promise<T> {
+        this.ensureConnected();
+
+        try {
+            const [result] = await this.pool!.query(sql, params);
+            return result as T;
+        } catch (error) {
+            throw new Error(`MySQL query error: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Checks for duplicate entries based on the provided key.
+     * @param key Unique key to check for duplicates
+     * @returns Whether a duplicate entry exists
+     */
+    async checkDuplicate(key: string): Promise<boolean> {
+        this.ensureConnected();
+
+        const [rows] = await this.pool!.query<RowDataPacket[]>(
+            'SELECT 1 FROM processed_items WHERE itemKey = ?',
+            [key]
+        );
+
+        return rows.length > 0;
+    }
+
+    /**
+     * Inserts a new ad into the database.
+     * @param data Ad data to insert
+     */
+    async insertAd(data: AdData): Promise<void> {
+        this.ensureConnected();
+
+        const connection = await this.pool!.getConnection();
+
+        try {
+            await connection.beginTransaction();
+
+            let videoInfoId: string | null = null;
+
+            if (data.videoInfo) {
+                const [existingVideoInfo] = await connection.query<RowDataPacket[]>(
+                    'SELECT vid FROM video_info WHERE vid = ?',
+                    [data.videoInfo.vid]
+                );
+
+                if (existingVideoInfo.length === 0) {
+                    await connection.query(
+                        `INSERT INTO video_info (vid, duration, cover, width, height)
+                         VALUES (?, ?, ?, ?, ?)`,
+                        [
+                            data.videoInfo.vid,
+                            data.videoInfo.duration,
+                            data.videoInfo.cover,
+                            data.videoInfo.width,
+                            data.videoInfo.height
+                        ]
+                    );
+
+                    if (data.videoInfo.videoUrl) {
+                        await connection.query(
+                            `INSERT INTO video_urls (id, p720, videoInfoId)
+                             VALUES (?, ?, ?)`,
+                            [randomUUID(), data.videoInfo.videoUrl.p720, data.videoInfo.vid]
+                        );
+                    }
+                }
+
+                videoInfoId = data.videoInfo.vid;
+            }
+
+            await connection.query(
+                `INSERT INTO ads (id, countryCode, creativeId, advertiserId, advertiserName, metadata, videoInfoId, createdAt, updatedAt)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                [
+                    data.id,
+                    data.countryCode,
+                    data.creativeId,
+                    data.advertiserId,
+                    data.advertiserName,
+                    JSON.stringify(data.metadata),
+                    videoInfoId,
+                    data.createdAt || new Date(),
+                    data.updatedAt || new Date()
+                ]
+            );
+
+            await connection.query(
+                'INSERT INTO processed_items (itemKey, createdAt) VALUES (?, ?)',
+                [data.id, new Date()]
+            );
+
+            await connection.commit();
+        } catch (error) {
+            await connection.rollback();
+            throw new Error(`Failed to insert ad: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            connection.release();
+        }
+    }
+
+    /**
+     * Retrieves an ad by its ID.
+     * @param id Ad ID to retrieve
+     * @returns Ad data or null if not found
+     */
+    async findAdById(id: string): Promise<AdData | null> {
+        return this.findAdBy('id', id);
+    }
+
+    /**
+     * Retrieves an ad by its creative ID.
+     * @param id Creative ID to retrieve
+     * @returns Ad data or null if not found
+     */
+    async findAdByCreativeId(id: string): Promise<AdData | null> {
+        return this.findAdBy('creativeId', id);
+    }
+
+    /**
+     * Retrieves a page of ads ordered by ID.
+     * @param options Position and size of the page (optional)
+     * @returns Ads after the given ID
+     */
+    async findAds({ afterId, limit = 100 }: AdPageOptions = {}): Promise<AdData[]> {
+        this.ensureConnected();
+
+        try {
+            const [rows] = await this.pool!.query<RowDataPacket[]>(
+                `SELECT a.*, v.vid, v.duration, v.cover, v.width, v.height, ${VIDEO_MEDIA_SELECT}, u.p720
+                 FROM ads a
+                 LEFT JOIN video_info v ON a.videoInfoId = v.vid
+                 LEFT JOIN video_urls u ON v.vid = u.videoInfoId
+                 ${afterId !== undefined ? 'WHERE a.id > ?' : ''}
+                 ORDER BY a.id
+                 LIMIT ?`,
+                afterId !== undefined ? [afterId, limit] : [limit]
+            );
+
+            return rows.map(row => this.mapToAdData(row));
+        } catch (error) {
+            throw new Error(`Failed to find ads: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Checks if an ad exists based on the provided criteria.
+     * @param criteria Ad criteria to search for
+     * @returns Whether an ad exists
+     */
+    async exists(criteria: Partial<AdData>): Promise<boolean> {
+        this.ensureConnected();
+
+        const conditions: string[] = [];
+        const params: unknown[] = [];
+
+        for (const [key, value] of Object.entries(criteria)) {
+            if (value !== undefined && !['videoInfo', 'metadata'].includes(key)) {
+                conditions.push(`\`${key}\` = ?`);
+                params.push(value);
+            }
+        }
+
+        if (conditions.length === 0) {
+            return false;
+        }
+
+        try {
+            const [rows] = await this.pool!.query<RowDataPacket[]>(
+                `SELECT 1 FROM ads WHERE ${conditions.join(' AND ')} LIMIT 1`,
+                params
+            );
+
+            return rows.length > 0;
+        } catch (error) {
+            throw new Error(`Failed to check if ad exists: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Checks if an ad is a duplicate based on the provided data.
+     * @param data Ad data to check for duplicates
+     * @returns Whether the ad is a duplicate
+     */
+    async isDuplicate(data: AdData): Promise<boolean> {
+        return this.exists({
+            id: data.id,
+            creativeId: data.creativeId
+        });
+    }
+
+    /**
+     * Records the metrics of an ad observed during a crawl.
+     * @param data Snapshot data to insert
+     */
+    async insertAdSnapshot(data: AdSnapshotData): Promise<void> {
+        this.ensureConnected();
+
+        try {
+            await this.pool!.query(
+                `INSERT INTO ad_snapshots (id, adId, \`like\`, ctr, cost, rankPosition, countryCode, orderBy, filterContext, crawledAt)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                [
+                    randomUUID(),
+                    data.adId,
+                    data.like,
+                    data.ctr,
+                    data.cost,
+                    data.rankPosition,
+                    data.countryCode,
+                    data.orderBy ?? null,
+                    JSON.stringify(data.filterContext),
+                    data.crawledAt || new Date()
+                ]
+            );
+        } catch (error) {
+            throw new Error(`Failed to insert ad snapshot: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Retrieves the metric history of an ad ordered by crawl time.
+     * @param adId Ad ID to retrieve snapshots for
+     * @returns Snapshots from oldest to newest
+     */
+    async findAdSnapshots(adId: string): Promise<AdSnapshotData[]> {
+        this.ensureConnected();
+
+        try {
+            const [rows] = await this.pool!.query<RowDataPacket[]>(
+                'SELECT * FROM ad_snapshots WHERE adId = ? ORDER BY crawledAt ASC',
+                [adId]
+            );
+
+            return rows.map(row => ({
+                adId: row.adId,
+                like: row.like,
+                ctr: row.ctr,
+                cost: row.cost,
+                rankPosition: row.rankPosition,
+                countryCode: row.countryCode,
+                orderBy: row.orderBy ?? undefined,
+                filterContext: typeof row.filterContext === 'string' ? JSON.parse(row.filterContext) : row.filterContext,
+                crawledAt: new Date(row.crawledAt)
+            }));
+        } catch (error) {
+            throw new Error(`Failed to find ad snapshots: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Stores the details of an ad, replacing earlier details and retention points.
+     * @param data Detail data to store
+     */
+    async upsertAdDetail(data: AdDetailData): Promise<void> {
+        this.ensureConnected();
+
+        const connection = await this.pool!.getConnection();
+
+        try {
+            await connection.beginTransaction();
+
+            await connection.query(
+                `INSERT INTO ad_details (adId, ctaText, landingPage, keywords, highlightText, audienceInterests, raw, crawledAt)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+                 ON DUPLICATE KEY UPDATE
+                    ctaText = VALUES(ctaText),
+                    landingPage = VALUES(landingPage),
+                    keywords = VALUES(keywords),
+                    highlightText = VALUES(highlightText),
+                    audienceInterests = VALUES(audienceInterests),
+                    raw = VALUES(raw),
+                    crawledAt = VALUES(crawledAt)`,
+                [
+                    data.adId,
+                    data.ctaText ?? null,
+                    data.landingPage ?? null,
+                    JSON.stringify(data.keywords),
+                    data.highlightText ?? null,
+                    JSON.stringify(data.audienceInterests),
+                    JSON.stringify(data.raw),
+                    data.crawledAt || new Date()
+                ]
+            );
+
+            // The curve is replaced as a whole, a new crawl may cover fewer seconds
+            await connection.query('DELETE FROM ad_retention_points WHERE adId = ?', [data.adId]);
+            for (const point of data.retention) {
+                await connection.query(
+                    `INSERT INTO ad_retention_points (id, adId, second, retention, ctr, cvr)
+                     VALUES (?, ?, ?, ?, ?, ?)`,
+                    [randomUUID(), data.adId, point.second, point.retention, point.ctr ?? null, point.cvr ?? null]
+                );
+            }
+
+            await connection.commit();
+        } catch (error) {
+            await connection.rollback();
+            throw new Error(`Failed to upsert ad detail: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            connection.release();
+        }
+    }
+
+    /**
+     * Retrieves the details of an ad.
+     * @param adId Ad ID to retrieve details for
+     * @returns Details with their retention curve, or null if not crawled yet
+     */
+    async findAdDetail(adId: string): Promise<AdDetailData | null> {
+        this.ensureConnected();
+
+        try {
+            const [rows] = await this.pool!.query<RowDataPacket[]>('SELECT * FROM ad_details WHERE adId = ?', [adId]);
+            if (rows.length === 0) return null;
+
+            const row = rows[0];
+            const [points] = await this.pool!.query<RowDataPacket[]>(
+                'SELECT * FROM ad_retention_points WHERE adId = ? ORDER BY second ASC',
+                [adId]
+            );
+            const parseJson = (value: unknown) => typeof value === 'string' ? JSON.parse(value) : value;
+
+            return {
+                adId: row.adId,
+                ctaText: row.ctaText ?? undefined,
+                landingPage: row.landingPage ?? undefined,
+                keywords: parseJson(row.keywords),
+                highlightText: row.highlightText ?? undefined,
+                audienceInterests: parseJson(row.audienceInterests),
+                retention: points.map(point => ({
+                    second: point.second,
+                    retention: point.retention,
+                    ctr: point.ctr ?? undefined,
+                    cvr: point.cvr ?? undefined
+                })),
+                raw: parseJson(row.raw),
+                crawledAt: new Date(row.crawledAt)
+            };
+        } catch (error) {
+            throw new Error(`Failed to find ad detail: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Records the downloaded cover and video file of a video.
+     * @param vid Video ID
+     * @param media Stored files
+     */
+    async updateVideoMedia(vid: string, media: VideoMediaData): Promise<void> {
+        this.ensureConnected();
+
+        try {
+            await this.pool!.query(
+                `UPDATE video_info SET ${VIDEO_MEDIA_COLUMNS.map(column => `${column.name} = ?`).join(', ')} WHERE vid = ?`,
+                [...toVideoMediaRow(media), vid]
+            );
+        } catch (error) {
+            throw new Error(`Failed to update video media: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Stores the creative analysis of an ad, replacing an earlier analysis.
+     * @param data Analysis to store
+     */
+    async upsertAdAnalysis(data: AdAnalysisData): Promise<void> {
+        this.ensureConnected();
+
+        try {
+            await this.pool!.query(
+                `INSERT INTO ad_analyses (adId, ${AD_ANALYSIS_COLUMNS.map(column => column.name).join(', ')})
+                 VALUES (?, ${AD_ANALYSIS_COLUMNS.map(() => '?').join(', ')})
+                 ON DUPLICATE KEY UPDATE
+                    ${AD_ANALYSIS_COLUMNS.map(column => `${column.name} = VALUES(${column.name})`).join(',\n                    ')}`,
+                [data.adId, ...toAdAnalysisRow(data)]
+            );
+        } catch (error) {
+            throw new Error(`Failed to upsert ad analysis: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Retrieves the analyses matching every given label, newest first.
+     * @param filter Labels to match (optional)
+     * @returns Matching analyses
+     */
+    async findAdAnalyses(filter: AdAnalysisFilter = {}): Promise<AdAnalysisData[]> {
+        this.ensureConnected();
+
+        try {
+            const conditions = getAdAnalysisConditions(filter);
+            const [rows] = await this.pool!.query<RowDataPacket[]>(
+                `SELECT * FROM ad_analyses
+                 ${conditions.length > 0 ? `WHERE ${conditions.map(condition => `${condition.column} = ?`).join(' AND ')}` : ''}
+                 ORDER BY analyzedAt DESC`,
+                conditions.map(condition => condition.value)
+            );
+
+            return rows.map(row => fromAdAnalysisRow(row));
+        } catch (error) {
+            throw new Error(`Failed to find ad analyses: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Stores the perceptual hashes of an ad, replacing earlier hashes but keeping its cluster.
+     * @param data Hashes to store
+     */
+    async upsertCreativeFingerprint(data: CreativeFingerprintData): Promise<void> {
+        this.ensureConnected();
+
+        try {
+            await this.pool!.query(
+                `INSERT INTO creative_fingerprints (adId, ${CREATIVE_FINGERPRINT_COLUMNS.map(column => column.name).join(', ')})
+                 VALUES (?, ${CREATIVE_FINGERPRINT_COLUMNS.map(() => '?').join(', ')})
+                 ON DUPLICATE KEY UPDATE
+                    ${CREATIVE_FINGERPRINT_COLUMNS.map(column => `${column.name} = VALUES(${column.name})`).join(',\n                    ')}`,
+                [data.adId, ...toCreativeFingerprintRow(data)]
+            );
+        } catch (error) {
+            throw new Error(`Failed to upsert creative fingerprint: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Retrieves the hashes of every hashed ad ordered by ad ID.
+     * @returns Stored hashes with their cluster
+     */
+    async findCreativeFingerprints(): Promise<CreativeFingerprintData[]> {
+        this.ensureConnected();
+
+        try {
+            const [rows] = await this.pool!.query<RowDataPacket[]>('SELECT * FROM creative_fingerprints ORDER BY adId ASC');
+            return rows.map(row => fromCreativeFingerprintRow(row));
+        } catch (error) {
+            throw new Error(`Failed to find creative fingerprints: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Replaces all creative clusters and assigns their ads to them.
+     * @param clusters Clusters of the latest clustering run
+     */
+    async replaceCreativeClusters(clusters: CreativeClusterData[]): Promise<void> {
+        this.ensureConnected();
+
+        const connection = await this.pool!.getConnection();
+
+        try {
+            await connection.beginTransaction();
+            await connection.query('DELETE FROM creative_clusters');
+            await connection.query('UPDATE creative_fingerprints SET clusterId = NULL');
+            for (const cluster of clusters) {
+                await connection.query(
+                    `INSERT INTO creative_clusters (clusterId, ${CREATIVE_CLUSTER_COLUMNS.map(column => column.name).join(', ')})
+                     VALUES (?, ${CREATIVE_CLUSTER_COLUMNS.map(() => '?').join(', ')})`,
+                    [cluster.clusterId, ...toCreativeClusterRow(cluster)]
+                );
+                await connection.query(
+                    `UPDATE creative_fingerprints SET clusterId = ? WHERE adId IN (${cluster.adIds.map(() => '?').join(', ')})`,
+                    [cluster.clusterId, ...cluster.adIds]
+                );
+            }
+            await connection.commit();
+        } catch (error) {
+            await connection.rollback();
+            throw new Error(`Failed to replace creative clusters: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            connection.release();
+        }
+    }
+
+    /**
+     * Retrieves creative clusters, largest first.
+     * @param query Ad or minimum size to match (optional)
+     * @returns Matching clusters
+     */
+    async findCreativeClusters(query: CreativeClusterQuery = {}): Promise<CreativeClusterData[]> {
+        this.ensureConnected();
+
+        try {
+            const conditions: string[] = [];
+            const params: unknown[] = [];
+            if (query.adId !== undefined) {
+                conditions.push('clusterId = (SELECT clusterId FROM creative_fingerprints WHERE adId = ?)');
+                params.push(query.adId);
+            }
+            if (query.minAds !== undefined) {
+                conditions.push('adCount >= ?');
+                params.push(query.minAds);
+            }
+
+            const [rows] = await this.pool!.query<RowDataPacket[]>(
+                `SELECT * FROM creative_clusters
+                 ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+                 ORDER BY adCount DESC, countryCount DESC, clusterId ASC`,
+                params
+            );
+
+            return rows.map(row => fromCreativeClusterRow(row));
+        } catch (error) {
+            throw new Error(`Failed to find creative clusters: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Records the items of a Creative Center section observed during a crawl.
+     * @param section Section the items were listed in
+     * @param items Items to insert
+     */
+    async insertTrendItems<S extends TrendSection>(section: S, items: TrendItemDataBySection[S][]): Promise<void> {
+        this.ensureConnected();
+
+        const { table, columns } = TREND_TABLES[section];
+        // RANK is a reserved word since MySQL 8, so every column is quoted
+        const sql = `INSERT INTO ${table} (id, ${columns.map(column => `\`${column.name}\``).join(', ')})
+                     VALUES (?, ${columns.map(() => '?').join(', ')})`;
+        const connection = await this.pool!.getConnection();
+
+        try {
+            await connection.beginTransaction();
+            for (const item of items) {
+                await connection.query(sql, [randomUUID(), ...toTrendRow(section, item)]);
+            }
+            await connection.commit();
+        } catch (error) {
+            await connection.rollback();
+            throw new Error(`Failed to insert ${section} items: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            connection.release();
+        }
+    }
+
+    /**
+     * Retrieves the stored items of a section ordered by crawl time and rank.
+     * @param section Section to retrieve items for
+     * @param countryCode Only items listed for this country (optional)
+     * @returns Items from oldest to newest crawl
+     */
+    async findTrendItems<S extends TrendSection>(section: S, countryCode?: string): Promise<TrendItemDataBySection[S][]> {
+        this.ensureConnected();
+
+        try {
+            const [rows] = await this.pool!.query<RowDataPacket[]>(
+                `SELECT * FROM ${TREND_TABLES[section].table}
+                 ${countryCode ? 'WHERE countryCode = ?' : ''}
+                 ORDER BY crawledAt ASC, \`rank\` ASC`,
+                countryCode ? [countryCode] : []
+            );
+
+            return rows.map(row => fromTrendRow(section, row));
+        } catch (error) {
+            throw new Error(`Failed to find ${section} items: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Retrieves an ad with its video info by a single column.
+     * @private
+     */
+    private async findAdBy(column: 'id' | 'creativeId', value: string): Promise<AdData | null> {
+        this.ensureConnected();
+
+        try {
+            const [rows] = await this.pool!.query<RowDataPacket[]>(
+                `SELECT a.*, v.vid, v.duration, v.cover, v.width, v.height, ${VIDEO_MEDIA_SELECT}, u.p720
+                 FROM ads a
+                 LEFT JOIN video_info v ON a.videoInfoId = v.vid
+                 LEFT JOIN video_urls u ON v.vid = u.videoInfoId
+                 WHERE a.${column} = ?
+                 LIMIT 1`,
+                [value]
+            );
+
+            if (rows.length === 0) return null;
+
+            return this.mapToAdData(rows[0]);
+        } catch (error) {
+            throw new Error(`Failed to find ad by ${column}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Maps a MySQL result row to AdData interface.
+     * @param row Database result row
+     * @returns Structured AdData object
+     */
+    private mapToAdData(row: RowDataPacket): AdData {
+        const adData: AdData = {
+            id: row.id,
+            countryCode: row.countryCode,
+            creativeId: row.creativeId,
+            advertiserId: row.advertiserId,
+            advertiserName: row.advertiserName,
+            metadata: typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata,
+            createdAt: new Date(row.createdAt),
+            updatedAt: new Date(row.updatedAt)
+        };
+
+        if (row.vid) {
+            adData.videoInfo = {
+                vid: row.vid,
+                duration: row.duration,
+                cover: row.cover,
+                width: row.width,
+                height: row.height,
+                ...fromVideoMediaRow(row)
+            };
+
+            if (row.p720) {
+                adData.videoInfo.videoUrl = {
+                    p720: row.p720
+                };
+            }
+        }
+
+        return adData;
+    }
+
+    /**
+     * Initializes database tables if they don't exist.
+     * Indexes are declared inline because MySQL has no CREATE INDEX IF NOT EXISTS.
+     * @private
+     */
+    private async initializeTables(): Promise<void> {
+        const createTables = [
+            `CREATE TABLE IF NOT EXISTS video_info (
+                vid VARCHAR(191) PRIMARY KEY,
+                duration INT NOT NULL,
+                cover TEXT NOT NULL,
+                width INT NOT NULL,
+                height INT NOT NULL
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS ads (
+                id VARCHAR(191) PRIMARY KEY,
+                countryCode VARCHAR(32) NOT NULL,
+                creativeId VARCHAR(191) NOT NULL,
+                advertiserId VARCHAR(191) NOT NULL,
+                advertiserName TEXT NOT NULL,
+                metadata JSON NOT NULL,
+                videoInfoId VARCHAR(191),
+                createdAt DATETIME(3) NOT NULL,
+                updatedAt DATETIME(3) NOT NULL,
+                INDEX idx_ads_creative_id (creativeId),
+                INDEX idx_ads_advertiser_id (advertiserId),
+                FOREIGN KEY (videoInfoId) REFERENCES video_info (vid)
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS video_urls (
+                id VARCHAR(191) PRIMARY KEY,
+                p720 TEXT NOT NULL,
+                videoInfoId VARCHAR(191) UNIQUE NOT NULL,
+                FOREIGN KEY (videoInfoId) REFERENCES video_info (vid)
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS processed_items (
+                itemKey VARCHAR(191) PRIMARY KEY,
+                createdAt DATETIME(3) NOT NULL
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS ad_snapshots (
+                id VARCHAR(191) PRIMARY KEY,
+                adId VARCHAR(191) NOT NULL,
+                \`like\` INT NOT NULL,
+                ctr DOUBLE NOT NULL,
+                cost DOUBLE NOT NULL,
+                rankPosition INT NOT NULL,
+                countryCode VARCHAR(32) NOT NULL,
+                orderBy VARCHAR(32),
+                filterContext JSON NOT NULL,
+                crawledAt DATETIME(3) NOT NULL,
+                INDEX idx_ad_snapshots_ad_id (adId, crawledAt),
+                INDEX idx_ad_snapshots_order_by (orderBy, crawledAt),
+                FOREIGN KEY (adId) REFERENCES ads (id)
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS ad_details (
+                adId VARCHAR(191) PRIMARY KEY,
+                ctaText TEXT,
+                landingPage TEXT,
+                keywords JSON NOT NULL,
+                highlightText TEXT,
+                audienceInterests JSON NOT NULL,
+                raw JSON NOT NULL,
+                crawledAt DATETIME(3) NOT NULL,
+                FOREIGN KEY (adId) REFERENCES ads (id)
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS ad_retention_points (
+                id VARCHAR(191) PRIMARY KEY,
+                adId VARCHAR(191) NOT NULL,
+                second INT NOT NULL,
+                retention DOUBLE NOT NULL,
+                ctr DOUBLE,
+                cvr DOUBLE,
+                UNIQUE INDEX idx_ad_retention_points_ad_second (adId, second),
+                FOREIGN KEY (adId) REFERENCES ad_details (adId)
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS ad_analyses (
+                adId VARCHAR(191) PRIMARY KEY,
+                ${AD_ANALYSIS_COLUMNS.map(column => `${column.name} ${TREND_COLUMN_TYPES[column.type]}${column.required ? ' NOT NULL' : ''}`).join(',\n                ')},
+                ${AD_ANALYSIS_COLUMNS.filter(column => column.indexed).map(column => `INDEX idx_ad_analyses_${column.name} (${column.name}),`).join('\n                ')}
+                FOREIGN KEY (adId) REFERENCES ads (id)
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS creative_fingerprints (
+                adId VARCHAR(191) PRIMARY KEY,
+                ${CREATIVE_FINGERPRINT_COLUMNS.map(column => `${column.name} ${TREND_COLUMN_TYPES[column.type]}${column.required ? ' NOT NULL' : ''}`).join(',\n                ')},
+                clusterId VARCHAR(191),
+                ${CREATIVE_FINGERPRINT_COLUMNS.filter(column => column.indexed).map(column => `INDEX idx_creative_fingerprints_${column.name} (${column.name}),`).join('\n                ')}
+                INDEX idx_creative_fingerprints_clusterId (clusterId),
+                FOREIGN KEY (adId) REFERENCES ads (id)
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS creative_clusters (
+                clusterId VARCHAR(191) PRIMARY KEY,
+                ${CREATIVE_CLUSTER_COLUMNS.map(column => `${column.name} ${TREND_COLUMN_TYPES[column.type]}${column.required ? ' NOT NULL' : ''}`).join(',\n                ')}${CREATIVE_CLUSTER_COLUMNS
+                    .filter(column => column.indexed)
+                    .map(column => `,\n                INDEX idx_creative_clusters_${column.name} (${column.name})`)
+                    .join('')}
+            )`
+        ];
+
+        for (const { table, columns } of Object.values(TREND_TABLES)) {
+            createTables.push(`CREATE TABLE IF NOT EXISTS ${table} (
+                id VARCHAR(191) PRIMARY KEY,
+                ${columns.map(column => `\`${column.name}\` ${TREND_COLUMN_TYPES[column.type]}${column.required ? ' NOT NULL' : ''}`).join(',\n                ')},
+                INDEX idx_${table}_country (countryCode, crawledAt),
+                INDEX idx_${table}_item (itemId, crawledAt)${columns
+                    .filter(column => column.indexed)
+                    .map(column => `,\n                INDEX idx_${table}_${column.name} (${column.name}, crawledAt)`)
+                    .join('')}
+            )`);
+        }
+
+        for (const query of createTables) {
+            await this.pool!.query(query);
+        }
+        await this.migrateTables();
+    }
+
+    /**
+     * Adds columns introduced after a table was first created.
+     * MySQL has no ADD COLUMN IF NOT EXISTS, so the column is looked up first.
+     * @private
+     */
+    private async migrateTables(): Promise<void> {
+        const [columns] = await this.pool!.query<RowDataPacket[]>(
+            `SELECT COLUMN_NAME FROM information_schema.COLUMNS
+             WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'ad_snapshots' AND COLUMN_NAME = 'orderBy'`
+        );
+        if (columns.length === 0) {
+            await this.pool!.query(
+                'ALTER TABLE ad_snapshots ADD COLUMN orderBy VARCHAR(32), ADD INDEX idx_ad_snapshots_order_by (orderBy, crawledAt)'
+            );
+        }
+
+        const [videoColumns] = await this.pool!.query<RowDataPacket[]>(
+            `SELECT COLUMN_NAME FROM information_schema.COLUMNS
+             WHERE TABLE_SCHEMA = DATABASE() AND TABLE_NAME = 'video_info'`
+        );
+        const missing = VIDEO_MEDIA_COLUMNS.filter(column => !videoColumns.some(existing => existing.COLUMN_NAME === column.name));
+        if (missing.length > 0) {
+            await this.pool!.query(
+                `ALTER TABLE video_info ${missing.map(column => `ADD COLUMN ${column.name} ${TREND_COLUMN_TYPES[column.type]}`).join(', ')}`
+            );
+        }
+    }
+
+    /**
+     * Ensures the database is connected before operations.
+     * @private
+     * @throws Error if not connected
+     */
+    private ensureConnected(): void {
+        if (!this.pool) {
+            throw new Error('Not connected to MySQL database');
+        }
+    }
+}
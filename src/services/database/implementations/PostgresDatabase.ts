@@ -0,0 +1,836 @@
+import { IDatabase, DatabaseConfig, AdAnalysisData, AdAnalysisFilter, AdData, AdPageOptions, AdDetailData, AdSnapshotData, CreativeClusterData, CreativeClusterQuery, CreativeFingerprintData, TrendItemDataBySection, TrendSection, VideoMediaData } from '../types.js';
+import { AD_ANALYSIS_COLUMNS, fromAdAnalysisRow, getAdAnalysisConditions, toAdAnalysisRow } from '../adAnalysisColumns.js';
+import { CREATIVE_CLUSTER_COLUMNS, CREATIVE_FINGERPRINT_COLUMNS, fromCreativeClusterRow, fromCreativeFingerprintRow, toCreativeClusterRow, toCreativeFingerprintRow } from '../creativeClusterColumns.js';
+import { VIDEO_MEDIA_COLUMNS, fromVideoMediaRow, toVideoMediaRow } from '../videoMediaColumns.js';
+import { TREND_TABLES, TrendColumnType, fromTrendRow, toTrendRow } from '../trendTables.js';
+import pg from 'pg';
+import { randomUUID } from 'crypto';
+
+// PostgreSQL column type of each trend column type; counts like video views exceed INTEGER
+const TREND_COLUMN_TYPES: Record<TrendColumnType, string> = {
+    key: 'TEXT',
+    text: 'TEXT',
+    integer: 'BIGINT',
+    real: 'DOUBLE PRECISION',
+    json: 'JSONB',
+    timestamp: 'TIMESTAMPTZ'
+};
+
+const VIDEO_MEDIA_SELECT = VIDEO_MEDIA_COLUMNS.map(column => `v."${column.name}"`).join(', ');
+
+/**
+ * PostgreSQL database implementation using the pg package.
+ * Implements the IDatabase interface with the same schema as the SQLite and Prisma backends.
+ */
+export class PostgresDatabase implements IDatabase {
+    private pool: pg.Pool | null = null;
+    private connectionString: string;
+
+    /**
+     * Creates a new PostgreSQL database instance.
+     * @param config Database configuration
+     * @throws Error if connection string is not provided
+     */
+    constructor(config: DatabaseConfig) {
+        if (!config.connectionString) {
+            throw new Error('PostgreSQL connection string is required');
+        }
+        this.connectionString = config.connectionString;
+    }
+
+    /**
+     * Connects to the PostgreSQL database and initializes tables if they don't exist.
+     * @returns Promise that resolves when connected
+     */
+    async connect(): Promise<void> {
+        try {
+            this.pool = new pg.Pool({ connectionString: this.connectionString });
+            await this.initializeTables();
+        } catch (error) {
+            this.pool = null;
+            throw new Error(`Failed to connect to PostgreSQL database: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Disconnects from the PostgreSQL database.
+     * @returns Promise that resolves when disconnected
+     */
+    async disconnect(): Promise<void> {
+        if (this.pool) {
+            await this.pool.end();
+            this.pool = null;
+        }
+    }
+
+    /**
+     * Executes a SQL query with optional parameters.
+     * SELECT queries return rows, other statements return the raw result.
+     * @param sql SQL query string using $1, $2, ... placeholders
+     * @param params Query parameters (optional)
+     * @returns Query result
+     * @throws Error if not connected to database
+     */
+    async query<T>(sql: string, params?: unknown[]): Promise<T> {
+        this.ensureConnected();
+
+        try {
+            const result = await this.pool!.query(sql, params);
+            if (sql.trim().toLowerCase().startsWith('select')) {
+                return result.rows as T;
+            }
+            return result as unknown as T;
+        } catch (error) {
+            throw new Error(`PostgreSQL query error: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Checks for duplicate entries based on the provided key.
+     * @param key Unique key to check for duplicates
+     * @returns Whether a duplicate entry exists
+     */
+    async checkDuplicate(key: string): Promise<boolean> {
+        this.ensureConnected();
+
+        const result = await this.pool!.query(
+            'SELECT 1 FROM processed_items WHERE "itemKey" = $1',
+            [key]
+        );
+
+        return result.rows.length > 0;
+    }
+
+    /**
+     * Inserts a new ad into the database.
+     * @param data Ad data to insert
+     */
+    async insertAd(data: AdData): Promise<void> {
+        this.ensureConnected();
+
+        const client = await this.pool!.connect();
+
+        try {
+            await client.query('BEGIN');
+
+            let videoInfoId: string | null = null;
+
+            if (data.videoInfo) {
+                const existingVideoInfo = await client.query(
+                    'SELECT vid FROM video_info WHERE vid = $1',
+                    [data.videoInfo.vid]
+                );
+
+                if (existingVideoInfo.rows.length === 0) {
+                    await client.query(
+                        `INSERT INTO video_info (vid, duration, cover, width, height)
+                         VALUES ($1, $2, $3, $4, $5)`,
+                        [
+                            data.videoInfo.vid,
+                            data.videoInfo.duration,
+                            data.videoInfo.cover,
+                            data.videoInfo.width,
+                            data.videoInfo.height
+                        ]
+                    );
+
+                    if (data.videoInfo.videoUrl) {
+                        await client.query(
+                            `INSERT INTO video_urls (id, p720, "videoInfoId")
+                             VALUES ($1, $2, $3)`,
+                            [randomUUID(), data.videoInfo.videoUrl.p720, data.videoInfo.vid]
+                        );
+                    }
+                }
+
+                videoInfoId = data.videoInfo.vid;
+            }
+
+            await client.query(
+                `INSERT INTO ads (id, "countryCode", "creativeId", "advertiserId", "advertiserName", metadata, "videoInfoId", "createdAt", "updatedAt")
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9)`,
+                [
+                    data.id,
+                    data.countryCode,
+                    data.creativeId,
+                    data.advertiserId,
+                    data.advertiserName,
+                    JSON.stringify(data.metadata),
+                    videoInfoId,
+                    data.createdAt || new Date(),
+                    data.updatedAt || new Date()
+                ]
+            );
+
+            await client.query(
+                'INSERT INTO processed_items ("itemKey", "createdAt") VALUES ($1, $2)',
+                [data.id, new Date()]
+            );
+
+            await client.query('COMMIT');
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw new Error(`Failed to insert ad: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            client.release();
+        }
+    }
+
+    /**
+     * Retrieves an ad by its ID.
+     * @param id Ad ID to retrieve
+     * @returns Ad data or null if not found
+     */
+    async findAdById(id: string): Promise<AdData | null> {
+        return this.findAdBy('id', id);
+    }
+
+    /**
+     * Retrieves an ad by its creative ID.
+     * @param id Creative ID to retrieve
+     * @returns Ad data or null if not found
+     */
+    async findAdByCreativeId(id: string): Promise<AdData | null> {
+        return this.findAdBy('creativeId', id);
+    }
+
+    /**
+     * Retrieves a page of ads ordered by ID.
+     * @param options Position and size of the page (optional)
+     * @returns Ads after the given ID
+     */
+    async findAds({ afterId, limit = 100 }: AdPageOptions = {}): Promise<AdData[]> {
+        this.ensureConnected();
+
+        try {
+            const result = await this.pool!.query(
+                `SELECT a.*, v.vid, v.duration, v.cover, v.width, v.height, ${VIDEO_MEDIA_SELECT}, u.p720
+                 FROM ads a
+                 LEFT JOIN video_info v ON a."videoInfoId" = v.vid
+                 LEFT JOIN video_urls u ON v.vid = u."videoInfoId"
+                 ${afterId !== undefined ? 'WHERE a.id > $2' : ''}
+                 ORDER BY a.id
+                 LIMIT $1`,
+                afterId !== undefined ? [limit, afterId] : [limit]
+            );
+
+            return result.rows.map(row => this.mapToAdData(row));
+        } catch (error) {
+            throw new Error(`Failed to find ads: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Checks if an ad exists based on the provided criteria.
+     * @param criteria Ad criteria to search for
+     * @returns Whether an ad exists
+     */
+    async exists(criteria: Partial<AdData>): Promise<boolean> {
+        this.ensureConnected();
+
+        const conditions: string[] = [];
+        const params: unknown[] = [];
+
+        for (const [key, value] of Object.entries(criteria)) {
+            if (value !== undefined && !['videoInfo', 'metadata'].includes(key)) {
+                params.push(value);
+                conditions.push(`"${key}" = $${params.length}`);
+            }
+        }
+
+        if (conditions.length === 0) {
+            return false;
+        }
+
+        try {
+            const result = await this.pool!.query(
+                `SELECT 1 FROM ads WHERE ${conditions.join(' AND ')} LIMIT 1`,
+                params
+            );
+
+            return result.rows.length > 0;
+        } catch (error) {
+            throw new Error(`Failed to check if ad exists: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Checks if an ad is a duplicate based on the provided data.
+     * @param data Ad data to check for duplicates
+     * @returns Whether the ad is a duplicate
+     */
+    async isDuplicate(data: AdData): Promise<boolean> {
+        return this.exists({
+            id: data.id,
+            creativeId: data.creativeId
+        });
+    }
+
+    /**
+     * Records the metrics of an ad observed during a crawl.
+     * @param data Snapshot data to insert
+     */
+    async insertAdSnapshot(data: AdSnapshotData): Promise<void> {
+        this.ensureConnected();
+
+        try {
+            await this.pool!.query(
+                `INSERT INTO ad_snapshots (id, "adId", "like", ctr, cost, "rankPosition", "countryCode", "orderBy", "filterContext", "crawledAt")
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8, $9, $10)`,
+                [
+                    randomUUID(),
+                    data.adId,
+                    data.like,
+                    data.ctr,
+                    data.cost,
+                    data.rankPosition,
+                    data.countryCode,
+                    data.orderBy ?? null,
+                    JSON.stringify(data.filterContext),
+                    data.crawledAt || new Date()
+                ]
+            );
+        } catch (error) {
+            throw new Error(`Failed to insert ad snapshot: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Retrieves the metric history of an ad ordered by crawl time.
+     * @param adId Ad ID to retrieve snapshots for
+     * @returns Snapshots from oldest to newest
+     */
+    async findAdSnapshots(adId: string): Promise<AdSnapshotData[]> {
+        this.ensureConnected();
+
+        try {
+            const result = await this.pool!.query(
+                'SELECT * FROM ad_snapshots WHERE "adId" = $1 ORDER BY "crawledAt" ASC',
+                [adId]
+            );
+
+            return result.rows.map(row => ({
+                adId: row.adId,
+                like: row.like,
+                ctr: Number(row.ctr),
+                cost: Number(row.cost),
+                rankPosition: row.rankPosition,
+                countryCode: row.countryCode,
+                orderBy: row.orderBy ?? undefined,
+                filterContext: row.filterContext,
+                crawledAt: new Date(row.crawledAt)
+            }));
+        } catch (error) {
+            throw new Error(`Failed to find ad snapshots: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Stores the details of an ad, replacing earlier details and retention points.
+     * @param data Detail data to store
+     */
+    async upsertAdDetail(data: AdDetailData): Promise<void> {
+        this.ensureConnected();
+
+        const client = await this.pool!.connect();
+
+        try {
+            await client.query('BEGIN');
+
+            await client.query(
+                `INSERT INTO ad_details ("adId", "ctaText", "landingPage", keywords, "highlightText", "audienceInterests", raw, "crawledAt")
+                 VALUES ($1, $2, $3, $4, $5, $6, $7, $8)
+                 ON CONFLICT ("adId") DO UPDATE SET
+                    "ctaText" = EXCLUDED."ctaText",
+                    "landingPage" = EXCLUDED."landingPage",
+                    keywords = EXCLUDED.keywords,
+                    "highlightText" = EXCLUDED."highlightText",
+                    "audienceInterests" = EXCLUDED."audienceInterests",
+                    raw = EXCLUDED.raw,
+                    "crawledAt" = EXCLUDED."crawledAt"`,
+                [
+                    data.adId,
+                    data.ctaText ?? null,
+                    data.landingPage ?? null,
+                    JSON.stringify(data.keywords),
+                    data.highlightText ?? null,
+                    JSON.stringify(data.audienceInterests),
+                    JSON.stringify(data.raw),
+                    data.crawledAt || new Date()
+                ]
+            );
+
+            // The curve is replaced as a whole, a new crawl may cover fewer seconds
+            await client.query('DELETE FROM ad_retention_points WHERE "adId" = $1', [data.adId]);
+            for (const point of data.retention) {
+                await client.query(
+                    `INSERT INTO ad_retention_points (id, "adId", second, retention, ctr, cvr)
+                     VALUES ($1, $2, $3, $4, $5, $6)`,
+                    [randomUUID(), data.adId, point.second, point.retention, point.ctr ?? null, point.cvr ?? null]
+                );
+            }
+
+            await client.query('COMMIT');
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw new Error(`Failed to upsert ad detail: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            client.release();
+        }
+    }
+
+    /**
+     * Retrieves the details of an ad.
+     * @param adId Ad ID to retrieve details for
+     * @returns Details with their retention curve, or null if not crawled yet
+     */
+    async findAdDetail(adId: string): Promise<AdDetailData | null> {
+        this.ensureConnected();
+
+        try {
+            const result = await this.pool!.query('SELECT * FROM ad_details WHERE "adId" = $1', [adId]);
+            if (result.rows.length === 0) return null;
+
+            const row = result.rows[0];
+            const points = await this.pool!.query(
+                'SELECT * FROM ad_retention_points WHERE "adId" = $1 ORDER BY second ASC',
+                [adId]
+            );
+
+            return {
+                adId: row.adId,
+                ctaText: row.ctaText ?? undefined,
+                landingPage: row.landingPage ?? undefined,
+                keywords: row.keywords,
+                highlightText: row.highlightText ?? undefined,
+                audienceInterests: row.audienceInterests,
+                retention: points.rows.map(point => ({
+                    second: point.second,
+                    retention: Number(point.retention),
+                    ctr: point.ctr === null ? undefined : Number(point.ctr),
+                    cvr: point.cvr === null ? undefined : Number(point.cvr)
+                })),
+                raw: row.raw,
+                crawledAt: new Date(row.crawledAt)
+            };
+        } catch (error) {
+            throw new Error(`Failed to find ad detail: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Records the downloaded cover and video file of a video.
+     * @param vid Video ID
+     * @param media Stored files
+     */
+    async updateVideoMedia(vid: string, media: VideoMediaData): Promise<void> {
+        this.ensureConnected();
+
+        try {
+            await this.pool!.query(
+                `UPDATE video_info SET ${VIDEO_MEDIA_COLUMNS.map((column, index) => `"${column.name}" = $${index + 1}`).join(', ')}
+                 WHERE vid = $${VIDEO_MEDIA_COLUMNS.length + 1}`,
+                [...toVideoMediaRow(media), vid]
+            );
+        } catch (error) {
+            throw new Error(`Failed to update video media: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Stores the creative analysis of an ad, replacing an earlier analysis.
+     * @param data Analysis to store
+     */
+    async upsertAdAnalysis(data: AdAnalysisData): Promise<void> {
+        this.ensureConnected();
+
+        try {
+            await this.pool!.query(
+                `INSERT INTO ad_analyses ("adId", ${AD_ANALYSIS_COLUMNS.map(column => `"${column.name}"`).join(', ')})
+                 VALUES ($1, ${AD_ANALYSIS_COLUMNS.map((_, index) => `$${index + 2}`).join(', ')})
+                 ON CONFLICT ("adId") DO UPDATE SET
+                    ${AD_ANALYSIS_COLUMNS.map(column => `"${column.name}" = EXCLUDED."${column.name}"`).join(',\n                    ')}`,
+                [data.adId, ...toAdAnalysisRow(data)]
+            );
+        } catch (error) {
+            throw new Error(`Failed to upsert ad analysis: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Retrieves the analyses matching every given label, newest first.
+     * @param filter Labels to match (optional)
+     * @returns Matching analyses
+     */
+    async findAdAnalyses(filter: AdAnalysisFilter = {}): Promise<AdAnalysisData[]> {
+        this.ensureConnected();
+
+        try {
+            const conditions = getAdAnalysisConditions(filter);
+            const result = await this.pool!.query(
+                `SELECT * FROM ad_analyses
+                 ${conditions.length > 0 ? `WHERE ${conditions.map((condition, index) => `"${condition.column}" = $${index + 1}`).join(' AND ')}` : ''}
+                 ORDER BY "analyzedAt" DESC`,
+                conditions.map(condition => condition.value)
+            );
+
+            return result.rows.map(row => fromAdAnalysisRow(row));
+        } catch (error) {
+            throw new Error(`Failed to find ad analyses: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Stores the perceptual hashes of an ad, replacing earlier hashes but keeping its cluster.
+     * @param data Hashes to store
+     */
+    async upsertCreativeFingerprint(data: CreativeFingerprintData): Promise<void> {
+        this.ensureConnected();
+
+        try {
+            await this.pool!.query(
+                `INSERT INTO creative_fingerprints ("adId", ${CREATIVE_FINGERPRINT_COLUMNS.map(column => `"${column.name}"`).join(', ')})
+                 VALUES ($1, ${CREATIVE_FINGERPRINT_COLUMNS.map((_, index) => `$${index + 2}`).join(', ')})
+                 ON CONFLICT ("adId") DO UPDATE SET
+                    ${CREATIVE_FINGERPRINT_COLUMNS.map(column => `"${column.name}" = EXCLUDED."${column.name}"`).join(',\n                    ')}`,
+                [data.adId, ...toCreativeFingerprintRow(data)]
+            );
+        } catch (error) {
+            throw new Error(`Failed to upsert creative fingerprint: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Retrieves the hashes of every hashed ad ordered by ad ID.
+     * @returns Stored hashes with their cluster
+     */
+    async findCreativeFingerprints(): Promise<CreativeFingerprintData[]> {
+        this.ensureConnected();
+
+        try {
+            const result = await this.pool!.query('SELECT * FROM creative_fingerprints ORDER BY "adId" ASC');
+            return result.rows.map(row => fromCreativeFingerprintRow(row));
+        } catch (error) {
+            throw new Error(`Failed to find creative fingerprints: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Replaces all creative clusters and assigns their ads to them.
+     * @param clusters Clusters of the latest clustering run
+     */
+    async replaceCreativeClusters(clusters: CreativeClusterData[]): Promise<void> {
+        this.ensureConnected();
+
+        const client = await this.pool!.connect();
+
+        try {
+            await client.query('BEGIN');
+            await client.query('DELETE FROM creative_clusters');
+            await client.query('UPDATE creative_fingerprints SET "clusterId" = NULL');
+            for (const cluster of clusters) {
+                await client.query(
+                    `INSERT INTO creative_clusters ("clusterId", ${CREATIVE_CLUSTER_COLUMNS.map(column => `"${column.name}"`).join(', ')})
+                     VALUES ($1, ${CREATIVE_CLUSTER_COLUMNS.map((_, index) => `$${index + 2}`).join(', ')})`,
+                    [cluster.clusterId, ...toCreativeClusterRow(cluster)]
+                );
+                await client.query(
+                    `UPDATE creative_fingerprints SET "clusterId" = $1 WHERE "adId" IN (${cluster.adIds.map((_, index) => `$${index + 2}`).join(', ')})`,
+                    [cluster.clusterId, ...cluster.adIds]
+                );
+            }
+            await client.query('COMMIT');
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw new Error(`Failed to replace creative clusters: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            client.release();
+        }
+    }
+
+    /**
+     * Retrieves creative clusters, largest first.
+     * @param query Ad or minimum size to match (optional)
+     * @returns Matching clusters
+     */
+    async findCreativeClusters(query: CreativeClusterQuery = {}): Promise<CreativeClusterData[]> {
+        this.ensureConnected();
+
+        try {
+            const conditions: string[] = [];
+            const params: unknown[] = [];
+            if (query.adId !== undefined) {
+                params.push(query.adId);
+                conditions.push(`"clusterId" = (SELECT "clusterId" FROM creative_fingerprints WHERE "adId" = $${params.length})`);
+            }
+            if (query.minAds !== undefined) {
+                params.push(query.minAds);
+                conditions.push(`"adCount" >= $${params.length}`);
+            }
+
+            const result = await this.pool!.query(
+                `SELECT * FROM creative_clusters
+                 ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+                 ORDER BY "adCount" DESC, "countryCount" DESC, "clusterId" ASC`,
+                params
+            );
+
+            return result.rows.map(row => fromCreativeClusterRow(row));
+        } catch (error) {
+            throw new Error(`Failed to find creative clusters: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Records the items of a Creative Center section observed during a crawl.
+     * @param section Section the items were listed in
+     * @param items Items to insert
+     */
+    async insertTrendItems<S extends TrendSection>(section: S, items: TrendItemDataBySection[S][]): Promise<void> {
+        this.ensureConnected();
+
+        const { table, columns } = TREND_TABLES[section];
+        const sql = `INSERT INTO ${table} (id, ${columns.map(column => `"${column.name}"`).join(', ')})
+                     VALUES ($1, ${columns.map((_, index) => `$${index + 2}`).join(', ')})`;
+        const client = await this.pool!.connect();
+
+        try {
+            await client.query('BEGIN');
+            for (const item of items) {
+                await client.query(sql, [randomUUID(), ...toTrendRow(section, item)]);
+            }
+            await client.query('COMMIT');
+        } catch (error) {
+            await client.query('ROLLBACK');
+            throw new Error(`Failed to insert ${section} items: ${error instanceof Error ? error.message : String(error)}`);
+        } finally {
+            client.release();
+        }
+    }
+
+    /**
+     * Retrieves the stored items of a section ordered by crawl time and rank.
+     * @param section Section to retrieve items for
+     * @param countryCode Only items listed for this country (optional)
+     * @returns Items from oldest to newest crawl
+     */
+    async findTrendItems<S extends TrendSection>(section: S, countryCode?: string): Promise<TrendItemDataBySection[S][]> {
+        this.ensureConnected();
+
+        try {
+            const result = await this.pool!.query(
+                `SELECT * FROM ${TREND_TABLES[section].table}
+                 ${countryCode ? 'WHERE "countryCode" = $1' : ''}
+                 ORDER BY "crawledAt" ASC, "rank" ASC`,
+                countryCode ? [countryCode] : []
+            );
+
+            return result.rows.map(row => fromTrendRow(section, row));
+        } catch (error) {
+            throw new Error(`Failed to find ${section} items: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Retrieves an ad with its video info by a single column.
+     * @private
+     */
+    private async findAdBy(column: 'id' | 'creativeId', value: string): Promise<AdData | null> {
+        this.ensureConnected();
+
+        try {
+            const result = await this.pool!.query(
+                `SELECT a.*, v.vid, v.duration, v.cover, v.width, v.height, ${VIDEO_MEDIA_SELECT}, u.p720
+                 FROM ads a
+                 LEFT JOIN video_info v ON a."videoInfoId" = v.vid
+                 LEFT JOIN video_urls u ON v.vid = u."videoInfoId"
+                 WHERE a."${column}" = $1
+                 LIMIT 1`,
+                [value]
+            );
+
+            if (result.rows.length === 0) return null;
+
+            return this.mapToAdData(result.rows[0]);
+        } catch (error) {
+            throw new Error(`Failed to find ad by ${column}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Maps a PostgreSQL result row to AdData interface.
+     * @param row Database result row
+     * @returns Structured AdData object
+     */
+    private mapToAdData(row: Record<string, unknown>): AdData {
+        const adData: AdData = {
+            id: row.id as string,
+            countryCode: row.countryCode as string,
+            creativeId: row.creativeId as string,
+            advertiserId: row.advertiserId as string,
+            advertiserName: row.advertiserName as string,
+            metadata: (typeof row.metadata === 'string' ? JSON.parse(row.metadata) : row.metadata) as AdData['metadata'],
+            createdAt: new Date(row.createdAt as string),
+            updatedAt: new Date(row.updatedAt as string)
+        };
+
+        if (row.vid) {
+            adData.videoInfo = {
+                vid: row.vid as string,
+                duration: row.duration as number,
+                cover: row.cover as string,
+                width: row.width as number,
+                height: row.height as number,
+                ...fromVideoMediaRow(row)
+            };
+
+            if (row.p720) {
+                adData.videoInfo.videoUrl = {
+                    p720: row.p720 as string
+                };
+            }
+        }
+
+        return adData;
+    }
+
+    /**
+     * Initializes database tables if they don't exist.
+     * Column names are quoted to keep the camelCase names used by the Prisma schema.
+     * @private
+     */
+    private async initializeTables(): Promise<void> {
+        const createTables = [
+            `CREATE TABLE IF NOT EXISTS video_info (
+                vid TEXT PRIMARY KEY,
+                duration INTEGER NOT NULL,
+                cover TEXT NOT NULL,
+                width INTEGER NOT NULL,
+                height INTEGER NOT NULL
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS ads (
+                id TEXT PRIMARY KEY,
+                "countryCode" TEXT NOT NULL,
+                "creativeId" TEXT NOT NULL,
+                "advertiserId" TEXT NOT NULL,
+                "advertiserName" TEXT NOT NULL,
+                metadata JSONB NOT NULL,
+                "videoInfoId" TEXT REFERENCES video_info (vid),
+                "createdAt" TIMESTAMPTZ NOT NULL,
+                "updatedAt" TIMESTAMPTZ NOT NULL
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS video_urls (
+                id TEXT PRIMARY KEY,
+                p720 TEXT NOT NULL,
+                "videoInfoId" TEXT UNIQUE NOT NULL REFERENCES video_info (vid)
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS processed_items (
+                "itemKey" TEXT PRIMARY KEY,
+                "createdAt" TIMESTAMPTZ NOT NULL
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS ad_snapshots (
+                id TEXT PRIMARY KEY,
+                "adId" TEXT NOT NULL REFERENCES ads (id),
+                "like" INTEGER NOT NULL,
+                ctr DOUBLE PRECISION NOT NULL,
+                cost DOUBLE PRECISION NOT NULL,
+                "rankPosition" INTEGER NOT NULL,
+                "countryCode" TEXT NOT NULL,
+                "orderBy" TEXT,
+                "filterContext" JSONB NOT NULL,
+                "crawledAt" TIMESTAMPTZ NOT NULL
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS ad_details (
+                "adId" TEXT PRIMARY KEY REFERENCES ads (id),
+                "ctaText" TEXT,
+                "landingPage" TEXT,
+                keywords JSONB NOT NULL,
+                "highlightText" TEXT,
+                "audienceInterests" JSONB NOT NULL,
+                raw JSONB NOT NULL,
+                "crawledAt" TIMESTAMPTZ NOT NULL
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS ad_retention_points (
+                id TEXT PRIMARY KEY,
+                "adId" TEXT NOT NULL REFERENCES ad_details ("adId"),
+                second INTEGER NOT NULL,
+                retention DOUBLE PRECISION NOT NULL,
+                ctr DOUBLE PRECISION,
+                cvr DOUBLE PRECISION
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS ad_analyses (
+                "adId" TEXT PRIMARY KEY REFERENCES ads (id),
+                ${AD_ANALYSIS_COLUMNS.map(column => `"${column.name}" ${TREND_COLUMN_TYPES[column.type]}${column.required ? ' NOT NULL' : ''}`).join(',\n                ')}
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS creative_fingerprints (
+                "adId" TEXT PRIMARY KEY REFERENCES ads (id),
+                ${CREATIVE_FINGERPRINT_COLUMNS.map(column => `"${column.name}" ${TREND_COLUMN_TYPES[column.type]}${column.required ? ' NOT NULL' : ''}`).join(',\n                ')},
+                "clusterId" TEXT
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS creative_clusters (
+                "clusterId" TEXT PRIMARY KEY,
+                ${CREATIVE_CLUSTER_COLUMNS.map(column => `"${column.name}" ${TREND_COLUMN_TYPES[column.type]}${column.required ? ' NOT NULL' : ''}`).join(',\n                ')}
+            )`,
+
+            // Columns added after the first release
+            `ALTER TABLE ad_snapshots ADD COLUMN IF NOT EXISTS "orderBy" TEXT`,
+            ...VIDEO_MEDIA_COLUMNS.map(column => `ALTER TABLE video_info ADD COLUMN IF NOT EXISTS "${column.name}" ${TREND_COLUMN_TYPES[column.type]}`)
+        ];
+
+        const createIndexes = [
+            `CREATE INDEX IF NOT EXISTS idx_ads_creative_id ON ads ("creativeId")`,
+            `CREATE INDEX IF NOT EXISTS idx_ads_advertiser_id ON ads ("advertiserId")`,
+            `CREATE INDEX IF NOT EXISTS idx_ad_snapshots_ad_id ON ad_snapshots ("adId", "crawledAt")`,
+            `CREATE INDEX IF NOT EXISTS idx_ad_snapshots_order_by ON ad_snapshots ("orderBy", "crawledAt")`,
+            `CREATE UNIQUE INDEX IF NOT EXISTS idx_ad_retention_points_ad_second ON ad_retention_points ("adId", second)`,
+            ...AD_ANALYSIS_COLUMNS
+                .filter(column => column.indexed)
+                .map(column => `CREATE INDEX IF NOT EXISTS idx_ad_analyses_${column.name} ON ad_analyses ("${column.name}")`),
+            ...CREATIVE_FINGERPRINT_COLUMNS
+                .filter(column => column.indexed)
+                .map(column => `CREATE INDEX IF NOT EXISTS idx_creative_fingerprints_${column.name} ON creative_fingerprints ("${column.name}")`),
+            `CREATE INDEX IF NOT EXISTS idx_creative_fingerprints_clusterId ON creative_fingerprints ("clusterId")`,
+            ...CREATIVE_CLUSTER_COLUMNS
+                .filter(column => column.indexed)
+                .map(column => `CREATE INDEX IF NOT EXISTS idx_creative_clusters_${column.name} ON creative_clusters ("${column.name}")`)
+        ];
+
+        for (const { table, columns } of Object.values(TREND_TABLES)) {
+            createTables.push(`CREATE TABLE IF NOT EXISTS ${table} (
+                id TEXT PRIMARY KEY,
+                ${columns.map(column => `"${column.name}" ${TREND_COLUMN_TYPES[column.type]}${column.required ? ' NOT NULL' : ''}`).join(',\n                ')}
+            )`);
+            createIndexes.push(
+                `CREATE INDEX IF NOT EXISTS idx_${table}_country ON ${table} ("countryCode", "crawledAt")`,
+                `CREATE INDEX IF NOT EXISTS idx_${table}_item ON ${table} ("itemId", "crawledAt")`
+            );
+            for (const column of columns.filter(column => column.indexed)) {
+                createIndexes.push(`CREATE INDEX IF NOT EXISTS idx_${table}_${column.name} ON ${table} ("${column.name}", "crawledAt")`);
+            }
+        }
+
+        for (const query of [...createTables, ...createIndexes]) {
+            await this.pool!.query(query);
+        }
+    }
+
+    /**
+     * Ensures the database is connected before operations.
+     * @private
+     * @throws Error if not connected
+     */
+    private ensureConnected(): void {
+        if (!this.pool) {
+            throw new Error('Not connected to PostgreSQL database');
+        }
+    }
+}
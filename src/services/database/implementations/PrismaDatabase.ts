@@ -1,7 +1,11 @@
 import { IDatabase } from '@src/services/database/types.js';
-import type { AdData, DatabaseConfig } from '@src/services/database/types.js';
+import type { AdAnalysisData, AdAnalysisFilter, AdAudienceInterest, AdData, AdPageOptions, AdDetailData, AdSnapshotData, CreativeClusterData, CreativeClusterQuery, CreativeFingerprintData, DatabaseConfig, TrendItemDataBySection, TrendSection, VideoMediaData } from '@src/services/database/types.js';
+import { fromAdAnalysisRow, getAdAnalysisConditions } from '../adAnalysisColumns.js';
+import { fromCreativeClusterRow, fromCreativeFingerprintRow } from '../creativeClusterColumns.js';
+import { fromVideoMediaRow } from '../videoMediaColumns.js';
+import { fromTrendRow } from '../trendTables.js';
 import { prisma } from '../prisma/client.js';
-import type { Prisma, Ad, VideoInfo, VideoUrl } from '@prisma/client';
+import type { Prisma, Ad, AdRetentionPoint, AdSnapshot, VideoInfo, VideoUrl } from '@prisma/client';
 
 /**
  * Prisma implementation of the IDatabase interface.
@@ -147,6 +151,23 @@ export class PrismaDatabase implements IDatabase {
         return this.mapPrismaAdToAdData(ad);
     }
 
+    async findAds({ afterId, limit = 100 }: AdPageOptions = {}): Promise<AdData[]> {
+        const ads = await prisma.ad.findMany({
+            where: afterId !== undefined ? { id: { gt: afterId } } : undefined,
+            orderBy: { id: 'asc' },
+            take: limit,
+            include: {
+                videoInfo: {
+                    include: {
+                        videoUrl: true
+                    }
+                }
+            }
+        });
+
+        return ads.map((ad: Ad & { videoInfo: (VideoInfo & { videoUrl: VideoUrl | null }) | null }) => this.mapPrismaAdToAdData(ad));
+    }
+
     async exists(criteria: Partial<AdData>): Promise<boolean> {
         const where: Prisma.AdWhereInput = {};
 
@@ -167,6 +188,243 @@ export class PrismaDatabase implements IDatabase {
         });
     }
 
+    async insertAdSnapshot(data: AdSnapshotData): Promise<void> {
+        try {
+            await prisma.adSnapshot.create({
+                data: {
+                    ad: {
+                        connect: { id: data.adId }
+                    },
+                    like: data.like,
+                    ctr: data.ctr,
+                    cost: data.cost,
+                    rankPosition: data.rankPosition,
+                    countryCode: data.countryCode,
+                    orderBy: data.orderBy,
+                    filterContext: data.filterContext,
+                    crawledAt: data.crawledAt ?? new Date()
+                }
+            });
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Failed to insert ad snapshot: ${error.message}`);
+            }
+            throw error;
+        }
+    }
+
+    async findAdSnapshots(adId: string): Promise<AdSnapshotData[]> {
+        const snapshots = await prisma.adSnapshot.findMany({
+            where: { adId },
+            orderBy: { crawledAt: 'asc' }
+        });
+
+        return snapshots.map((snapshot: AdSnapshot) => ({
+            adId: snapshot.adId,
+            like: snapshot.like,
+            ctr: snapshot.ctr,
+            cost: snapshot.cost,
+            rankPosition: snapshot.rankPosition,
+            countryCode: snapshot.countryCode,
+            orderBy: snapshot.orderBy ?? undefined,
+            filterContext: snapshot.filterContext as Prisma.InputJsonValue,
+            crawledAt: snapshot.crawledAt
+        }));
+    }
+
+    async upsertAdDetail(data: AdDetailData): Promise<void> {
+        const detail = {
+            ctaText: data.ctaText ?? null,
+            landingPage: data.landingPage ?? null,
+            keywords: data.keywords,
+            highlightText: data.highlightText ?? null,
+            audienceInterests: data.audienceInterests as unknown as Prisma.InputJsonValue,
+            raw: data.raw,
+            crawledAt: data.crawledAt ?? new Date()
+        };
+
+        try {
+            // The curve is replaced as a whole, a new crawl may cover fewer seconds
+            await prisma.$transaction([
+                prisma.adDetail.upsert({
+                    where: { adId: data.adId },
+                    create: { ad: { connect: { id: data.adId } }, ...detail },
+                    update: detail
+                }),
+                prisma.adRetentionPoint.deleteMany({ where: { adId: data.adId } }),
+                prisma.adRetentionPoint.createMany({
+                    data: data.retention.map(point => ({
+                        adId: data.adId,
+                        second: point.second,
+                        retention: point.retention,
+                        ctr: point.ctr ?? null,
+                        cvr: point.cvr ?? null
+                    }))
+                })
+            ]);
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Failed to upsert ad detail: ${error.message}`);
+            }
+            throw error;
+        }
+    }
+
+    async findAdDetail(adId: string): Promise<AdDetailData | null> {
+        const detail = await prisma.adDetail.findUnique({
+            where: { adId },
+            include: { retention: { orderBy: { second: 'asc' } } }
+        });
+        if (!detail) return null;
+
+        return {
+            adId: detail.adId,
+            ctaText: detail.ctaText ?? undefined,
+            landingPage: detail.landingPage ?? undefined,
+            keywords: detail.keywords as string[],
+            highlightText: detail.highlightText ?? undefined,
+            audienceInterests: detail.audienceInterests as unknown as AdAudienceInterest[],
+            retention: detail.retention.map((point: AdRetentionPoint) => ({
+                second: point.second,
+                retention: point.retention,
+                ctr: point.ctr ?? undefined,
+                cvr: point.cvr ?? undefined
+            })),
+            raw: detail.raw as Prisma.InputJsonValue,
+            crawledAt: detail.crawledAt
+        };
+    }
+
+    async updateVideoMedia(vid: string, media: VideoMediaData): Promise<void> {
+        await prisma.videoInfo.update({
+            where: { vid },
+            data: { ...media, mediaDownloadedAt: media.mediaDownloadedAt ?? new Date() }
+        });
+    }
+
+    async upsertAdAnalysis(data: AdAnalysisData): Promise<void> {
+        const { adId, ...analysis } = data;
+        const values = { ...analysis, summary: analysis.summary ?? null, analyzedAt: analysis.analyzedAt ?? new Date() };
+
+        try {
+            await prisma.adAnalysis.upsert({
+                where: { adId },
+                create: { ad: { connect: { id: adId } }, ...values },
+                update: values
+            });
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Failed to upsert ad analysis: ${error.message}`);
+            }
+            throw error;
+        }
+    }
+
+    async findAdAnalyses(filter: AdAnalysisFilter = {}): Promise<AdAnalysisData[]> {
+        const where = Object.fromEntries(getAdAnalysisConditions(filter).map(condition => [condition.column, condition.value]));
+        const rows = await prisma.adAnalysis.findMany({ where, orderBy: { analyzedAt: 'desc' } });
+        return rows.map((row: Record<string, unknown>) => fromAdAnalysisRow(row));
+    }
+
+    async upsertCreativeFingerprint(data: CreativeFingerprintData): Promise<void> {
+        const values = { coverHash: data.coverHash ?? null, frameHashes: data.frameHashes, hashedAt: data.hashedAt ?? new Date() };
+
+        try {
+            await prisma.creativeFingerprint.upsert({
+                where: { adId: data.adId },
+                create: { ad: { connect: { id: data.adId } }, ...values },
+                update: values
+            });
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Failed to upsert creative fingerprint: ${error.message}`);
+            }
+            throw error;
+        }
+    }
+
+    async findCreativeFingerprints(): Promise<CreativeFingerprintData[]> {
+        const rows = await prisma.creativeFingerprint.findMany({ orderBy: { adId: 'asc' } });
+        return rows.map((row: Record<string, unknown>) => fromCreativeFingerprintRow(row));
+    }
+
+    async replaceCreativeClusters(clusters: CreativeClusterData[]): Promise<void> {
+        const updatedAt = new Date();
+
+        try {
+            await prisma.$transaction([
+                prisma.creativeCluster.deleteMany(),
+                prisma.creativeFingerprint.updateMany({ data: { clusterId: null } }),
+                prisma.creativeCluster.createMany({
+                    data: clusters.map(cluster => ({ ...cluster, updatedAt: cluster.updatedAt ?? updatedAt }))
+                }),
+                ...clusters.map(cluster => prisma.creativeFingerprint.updateMany({
+                    where: { adId: { in: cluster.adIds } },
+                    data: { clusterId: cluster.clusterId }
+                }))
+            ]);
+        } catch (error) {
+            if (error instanceof Error) {
+                throw new Error(`Failed to replace creative clusters: ${error.message}`);
+            }
+            throw error;
+        }
+    }
+
+    async findCreativeClusters(query: CreativeClusterQuery = {}): Promise<CreativeClusterData[]> {
+        let clusterId: string | undefined;
+        if (query.adId !== undefined) {
+            const fingerprint = await prisma.creativeFingerprint.findUnique({ where: { adId: query.adId } });
+            if (!fingerprint?.clusterId) return [];
+            clusterId = fingerprint.clusterId;
+        }
+
+        const rows = await prisma.creativeCluster.findMany({
+            where: {
+                ...(clusterId ? { clusterId } : {}),
+                ...(query.minAds !== undefined ? { adCount: { gte: query.minAds } } : {})
+            },
+            orderBy: [{ adCount: 'desc' }, { countryCount: 'desc' }, { clusterId: 'asc' }]
+        });
+        return rows.map((row: Record<string, unknown>) => fromCreativeClusterRow(row));
+    }
+
+    async insertTrendItems<S extends TrendSection>(section: S, items: TrendItemDataBySection[S][]): Promise<void> {
+        const crawledAt = new Date();
+        await this.getTrendDelegate(section).createMany({
+            data: items.map(item => ({ ...item, crawledAt: item.crawledAt ?? crawledAt }))
+        });
+    }
+
+    async findTrendItems<S extends TrendSection>(section: S, countryCode?: string): Promise<TrendItemDataBySection[S][]> {
+        const rows = await this.getTrendDelegate(section).findMany({
+            where: countryCode ? { countryCode } : {},
+            orderBy: [{ crawledAt: 'asc' }, { rank: 'asc' }]
+        });
+        // BigInt counts come back as bigint; the row mapping turns them into numbers
+        return rows.map(row => fromTrendRow(section, row));
+    }
+
+    /**
+     * The trend models share their shape, so they are accessed through the operations they have in common
+     * @private
+     */
+    private getTrendDelegate(section: TrendSection): {
+        createMany(args: { data: object[] }): Promise<unknown>;
+        findMany(args: { where: object; orderBy: object[] }): Promise<Record<string, unknown>[]>;
+    } {
+        const delegates = {
+            hashtags: prisma.trendHashtag,
+            songs: prisma.trendSong,
+            creators: prisma.trendCreator,
+            videos: prisma.trendVideo,
+            products: prisma.topProduct,
+            keywords: prisma.keywordInsight,
+            dashboard: prisma.topAdsDashboardBreakdown
+        };
+        return delegates[section] as unknown as ReturnType<PrismaDatabase['getTrendDelegate']>;
+    }
+
     private mapPrismaAdToAdData(ad: Ad & {
         videoInfo?: (VideoInfo & {
             videoUrl?: VideoUrl | null;
@@ -186,6 +444,7 @@ export class PrismaDatabase implements IDatabase {
                     cover: ad.videoInfo.cover,
                     width: ad.videoInfo.width,
                     height: ad.videoInfo.height,
+                    ...fromVideoMediaRow(ad.videoInfo),
                     ...(ad.videoInfo.videoUrl && {
                         videoUrl: {
                             p720: ad.videoInfo.videoUrl.p720
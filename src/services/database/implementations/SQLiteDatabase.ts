@@ -1,6 +1,23 @@
-import { IDatabase, DatabaseConfig, AdData } from '../types.js';
+import { IDatabase, DatabaseConfig, AdAnalysisData, AdAnalysisFilter, AdData, AdPageOptions, AdDetailData, AdSnapshotData, CreativeClusterData, CreativeClusterQuery, CreativeFingerprintData, TrendItemDataBySection, TrendSection, VideoMediaData } from '../types.js';
+import { AD_ANALYSIS_COLUMNS, fromAdAnalysisRow, getAdAnalysisConditions, toAdAnalysisRow } from '../adAnalysisColumns.js';
+import { CREATIVE_CLUSTER_COLUMNS, CREATIVE_FINGERPRINT_COLUMNS, fromCreativeClusterRow, fromCreativeFingerprintRow, toCreativeClusterRow, toCreativeFingerprintRow } from '../creativeClusterColumns.js';
+import { VIDEO_MEDIA_COLUMNS, fromVideoMediaRow, toVideoMediaRow } from '../videoMediaColumns.js';
+import { TREND_TABLES, TrendColumnType, fromTrendRow, toTrendRow } from '../trendTables.js';
 import * as sqlite3 from 'sqlite3';
 import { open, Database } from 'sqlite';
+import { randomUUID } from 'crypto';
+
+// SQLite column type of each trend column type
+const TREND_COLUMN_TYPES: Record<TrendColumnType, string> = {
+    key: 'TEXT',
+    text: 'TEXT',
+    integer: 'INTEGER',
+    real: 'REAL',
+    json: 'TEXT',
+    timestamp: 'TEXT'
+};
+
+const VIDEO_MEDIA_SELECT = VIDEO_MEDIA_COLUMNS.map(column => `v.${column.name}`).join(', ');
 
 /**
  * SQLite database implementation using the sqlite and sqlite3 packages.
@@ -178,7 +195,7 @@ export class SQLiteDatabase implements IDatabase {
         
         try {
             const ad = await this.db!.get(
-                `SELECT a.*, v.vid, v.duration, v.cover, v.width, v.height, u.p720
+                `SELECT a.*, v.vid, v.duration, v.cover, v.width, v.height, ${VIDEO_MEDIA_SELECT}, u.p720
                  FROM ads a
                  LEFT JOIN video_info v ON a.videoInfoId = v.vid
                  LEFT JOIN video_urls u ON v.vid = u.videoInfoId
@@ -204,7 +221,7 @@ export class SQLiteDatabase implements IDatabase {
         
         try {
             const ad = await this.db!.get(
-                `SELECT a.*, v.vid, v.duration, v.cover, v.width, v.height, u.p720
+                `SELECT a.*, v.vid, v.duration, v.cover, v.width, v.height, ${VIDEO_MEDIA_SELECT}, u.p720
                  FROM ads a
                  LEFT JOIN video_info v ON a.videoInfoId = v.vid
                  LEFT JOIN video_urls u ON v.vid = u.videoInfoId
@@ -220,6 +237,32 @@ export class SQLiteDatabase implements IDatabase {
         }
     }
 
+    /**
+     * Retrieves a page of ads ordered by ID.
+     * @param options Position and size of the page (optional)
+     * @returns Ads after the given ID
+     */
+    async findAds({ afterId, limit = 100 }: AdPageOptions = {}): Promise<AdData[]> {
+        this.ensureConnected();
+
+        try {
+            const rows = await this.db!.all(
+                `SELECT a.*, v.vid, v.duration, v.cover, v.width, v.height, ${VIDEO_MEDIA_SELECT}, u.p720
+                 FROM ads a
+                 LEFT JOIN video_info v ON a.videoInfoId = v.vid
+                 LEFT JOIN video_urls u ON v.vid = u.videoInfoId
+                 ${afterId !== undefined ? 'WHERE a.id > ?' : ''}
+                 ORDER BY a.id
+                 LIMIT ?`,
+                afterId !== undefined ? [afterId, limit] : [limit]
+            );
+
+            return rows.map(row => this.mapToAdData(row));
+        } catch (error) {
+            throw new Error(`Failed to find ads: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
     /**
      * Checks if an ad exists based on the provided criteria.
      * @param criteria Ad criteria to search for
@@ -269,6 +312,365 @@ export class SQLiteDatabase implements IDatabase {
         });
     }
 
+    /**
+     * Records the metrics of an ad observed during a crawl.
+     * @param data Snapshot data to insert
+     */
+    async insertAdSnapshot(data: AdSnapshotData): Promise<void> {
+        this.ensureConnected();
+        
+        try {
+            await this.db!.run(
+                `INSERT INTO ad_snapshots (id, adId, "like", ctr, cost, rankPosition, countryCode, orderBy, filterContext, crawledAt) 
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)`,
+                [
+                    randomUUID(),
+                    data.adId,
+                    data.like,
+                    data.ctr,
+                    data.cost,
+                    data.rankPosition,
+                    data.countryCode,
+                    data.orderBy ?? null,
+                    JSON.stringify(data.filterContext),
+                    (data.crawledAt || new Date()).toISOString()
+                ]
+            );
+        } catch (error) {
+            throw new Error(`Failed to insert ad snapshot: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Retrieves the metric history of an ad ordered by crawl time.
+     * @param adId Ad ID to retrieve snapshots for
+     * @returns Snapshots from oldest to newest
+     */
+    async findAdSnapshots(adId: string): Promise<AdSnapshotData[]> {
+        this.ensureConnected();
+        
+        try {
+            const rows = await this.db!.all(
+                'SELECT * FROM ad_snapshots WHERE adId = ? ORDER BY crawledAt ASC',
+                [adId]
+            );
+            
+            return rows.map(row => ({
+                adId: row.adId,
+                like: row.like,
+                ctr: row.ctr,
+                cost: row.cost,
+                rankPosition: row.rankPosition,
+                countryCode: row.countryCode,
+                orderBy: row.orderBy ?? undefined,
+                filterContext: JSON.parse(row.filterContext),
+                crawledAt: new Date(row.crawledAt)
+            }));
+        } catch (error) {
+            throw new Error(`Failed to find ad snapshots: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Stores the details of an ad, replacing earlier details and retention points.
+     * @param data Detail data to store
+     */
+    async upsertAdDetail(data: AdDetailData): Promise<void> {
+        this.ensureConnected();
+
+        await this.db!.run('BEGIN TRANSACTION');
+
+        try {
+            await this.db!.run(
+                `INSERT INTO ad_details (adId, ctaText, landingPage, keywords, highlightText, audienceInterests, raw, crawledAt)
+                 VALUES (?, ?, ?, ?, ?, ?, ?, ?)
+                 ON CONFLICT (adId) DO UPDATE SET
+                    ctaText = excluded.ctaText,
+                    landingPage = excluded.landingPage,
+                    keywords = excluded.keywords,
+                    highlightText = excluded.highlightText,
+                    audienceInterests = excluded.audienceInterests,
+                    raw = excluded.raw,
+                    crawledAt = excluded.crawledAt`,
+                [
+                    data.adId,
+                    data.ctaText ?? null,
+                    data.landingPage ?? null,
+                    JSON.stringify(data.keywords),
+                    data.highlightText ?? null,
+                    JSON.stringify(data.audienceInterests),
+                    JSON.stringify(data.raw),
+                    (data.crawledAt || new Date()).toISOString()
+                ]
+            );
+
+            // The curve is replaced as a whole, a new crawl may cover fewer seconds
+            await this.db!.run('DELETE FROM ad_retention_points WHERE adId = ?', [data.adId]);
+            for (const point of data.retention) {
+                await this.db!.run(
+                    `INSERT INTO ad_retention_points (id, adId, second, retention, ctr, cvr)
+                     VALUES (?, ?, ?, ?, ?, ?)`,
+                    [randomUUID(), data.adId, point.second, point.retention, point.ctr ?? null, point.cvr ?? null]
+                );
+            }
+
+            await this.db!.run('COMMIT');
+        } catch (error) {
+            await this.db!.run('ROLLBACK');
+            throw new Error(`Failed to upsert ad detail: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Retrieves the details of an ad.
+     * @param adId Ad ID to retrieve details for
+     * @returns Details with their retention curve, or null if not crawled yet
+     */
+    async findAdDetail(adId: string): Promise<AdDetailData | null> {
+        this.ensureConnected();
+
+        try {
+            const row = await this.db!.get('SELECT * FROM ad_details WHERE adId = ?', [adId]);
+            if (!row) return null;
+
+            const points = await this.db!.all(
+                'SELECT * FROM ad_retention_points WHERE adId = ? ORDER BY second ASC',
+                [adId]
+            );
+
+            return {
+                adId: row.adId,
+                ctaText: row.ctaText ?? undefined,
+                landingPage: row.landingPage ?? undefined,
+                keywords: JSON.parse(row.keywords),
+                highlightText: row.highlightText ?? undefined,
+                audienceInterests: JSON.parse(row.audienceInterests),
+                retention: points.map(point => ({
+                    second: point.second,
+                    retention: point.retention,
+                    ctr: point.ctr ?? undefined,
+                    cvr: point.cvr ?? undefined
+                })),
+                raw: JSON.parse(row.raw),
+                crawledAt: new Date(row.crawledAt)
+            };
+        } catch (error) {
+            throw new Error(`Failed to find ad detail: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Records the downloaded cover and video file of a video.
+     * @param vid Video ID
+     * @param media Stored files
+     */
+    async updateVideoMedia(vid: string, media: VideoMediaData): Promise<void> {
+        this.ensureConnected();
+
+        try {
+            const values = toVideoMediaRow(media).map(value => value instanceof Date ? value.toISOString() : value);
+            await this.db!.run(
+                `UPDATE video_info SET ${VIDEO_MEDIA_COLUMNS.map(column => `${column.name} = ?`).join(', ')} WHERE vid = ?`,
+                [...values, vid]
+            );
+        } catch (error) {
+            throw new Error(`Failed to update video media: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Stores the creative analysis of an ad, replacing an earlier analysis.
+     * @param data Analysis to store
+     */
+    async upsertAdAnalysis(data: AdAnalysisData): Promise<void> {
+        this.ensureConnected();
+
+        try {
+            const values = toAdAnalysisRow(data).map(value => value instanceof Date ? value.toISOString() : value);
+            await this.db!.run(
+                `INSERT INTO ad_analyses (adId, ${AD_ANALYSIS_COLUMNS.map(column => column.name).join(', ')})
+                 VALUES (?, ${AD_ANALYSIS_COLUMNS.map(() => '?').join(', ')})
+                 ON CONFLICT (adId) DO UPDATE SET
+                    ${AD_ANALYSIS_COLUMNS.map(column => `${column.name} = excluded.${column.name}`).join(',\n                    ')}`,
+                [data.adId, ...values]
+            );
+        } catch (error) {
+            throw new Error(`Failed to upsert ad analysis: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Retrieves the analyses matching every given label, newest first.
+     * @param filter Labels to match (optional)
+     * @returns Matching analyses
+     */
+    async findAdAnalyses(filter: AdAnalysisFilter = {}): Promise<AdAnalysisData[]> {
+        this.ensureConnected();
+
+        try {
+            const conditions = getAdAnalysisConditions(filter);
+            const rows = await this.db!.all(
+                `SELECT * FROM ad_analyses
+                 ${conditions.length > 0 ? `WHERE ${conditions.map(condition => `${condition.column} = ?`).join(' AND ')}` : ''}
+                 ORDER BY analyzedAt DESC`,
+                conditions.map(condition => condition.value)
+            );
+
+            return rows.map(row => fromAdAnalysisRow(row));
+        } catch (error) {
+            throw new Error(`Failed to find ad analyses: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Stores the perceptual hashes of an ad, replacing earlier hashes but keeping its cluster.
+     * @param data Hashes to store
+     */
+    async upsertCreativeFingerprint(data: CreativeFingerprintData): Promise<void> {
+        this.ensureConnected();
+
+        try {
+            const values = toCreativeFingerprintRow(data).map(value => value instanceof Date ? value.toISOString() : value);
+            await this.db!.run(
+                `INSERT INTO creative_fingerprints (adId, ${CREATIVE_FINGERPRINT_COLUMNS.map(column => column.name).join(', ')})
+                 VALUES (?, ${CREATIVE_FINGERPRINT_COLUMNS.map(() => '?').join(', ')})
+                 ON CONFLICT (adId) DO UPDATE SET
+                    ${CREATIVE_FINGERPRINT_COLUMNS.map(column => `${column.name} = excluded.${column.name}`).join(',\n                    ')}`,
+                [data.adId, ...values]
+            );
+        } catch (error) {
+            throw new Error(`Failed to upsert creative fingerprint: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Retrieves the hashes of every hashed ad ordered by ad ID.
+     * @returns Stored hashes with their cluster
+     */
+    async findCreativeFingerprints(): Promise<CreativeFingerprintData[]> {
+        this.ensureConnected();
+
+        try {
+            const rows = await this.db!.all('SELECT * FROM creative_fingerprints ORDER BY adId ASC');
+            return rows.map(row => fromCreativeFingerprintRow(row));
+        } catch (error) {
+            throw new Error(`Failed to find creative fingerprints: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Replaces all creative clusters and assigns their ads to them.
+     * @param clusters Clusters of the latest clustering run
+     */
+    async replaceCreativeClusters(clusters: CreativeClusterData[]): Promise<void> {
+        this.ensureConnected();
+
+        await this.db!.run('BEGIN TRANSACTION');
+
+        try {
+            await this.db!.run('DELETE FROM creative_clusters');
+            await this.db!.run('UPDATE creative_fingerprints SET clusterId = NULL');
+            for (const cluster of clusters) {
+                const values = toCreativeClusterRow(cluster).map(value => value instanceof Date ? value.toISOString() : value);
+                await this.db!.run(
+                    `INSERT INTO creative_clusters (clusterId, ${CREATIVE_CLUSTER_COLUMNS.map(column => column.name).join(', ')})
+                     VALUES (?, ${CREATIVE_CLUSTER_COLUMNS.map(() => '?').join(', ')})`,
+                    [cluster.clusterId, ...values]
+                );
+                await this.db!.run(
+                    `UPDATE creative_fingerprints SET clusterId = ? WHERE adId IN (${cluster.adIds.map(() => '?').join(', ')})`,
+                    [cluster.clusterId, ...cluster.adIds]
+                );
+            }
+            await this.db!.run('COMMIT');
+        } catch (error) {
+            await this.db!.run('ROLLBACK');
+            throw new Error(`Failed to replace creative clusters: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Retrieves creative clusters, largest first.
+     * @param query Ad or minimum size to match (optional)
+     * @returns Matching clusters
+     */
+    async findCreativeClusters(query: CreativeClusterQuery = {}): Promise<CreativeClusterData[]> {
+        this.ensureConnected();
+
+        try {
+            const conditions: string[] = [];
+            const params: unknown[] = [];
+            if (query.adId !== undefined) {
+                conditions.push('clusterId = (SELECT clusterId FROM creative_fingerprints WHERE adId = ?)');
+                params.push(query.adId);
+            }
+            if (query.minAds !== undefined) {
+                conditions.push('adCount >= ?');
+                params.push(query.minAds);
+            }
+
+            const rows = await this.db!.all(
+                `SELECT * FROM creative_clusters
+                 ${conditions.length > 0 ? `WHERE ${conditions.join(' AND ')}` : ''}
+                 ORDER BY adCount DESC, countryCount DESC, clusterId ASC`,
+                params
+            );
+
+            return rows.map(row => fromCreativeClusterRow(row));
+        } catch (error) {
+            throw new Error(`Failed to find creative clusters: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Records the items of a Creative Center section observed during a crawl.
+     * @param section Section the items were listed in
+     * @param items Items to insert
+     */
+    async insertTrendItems<S extends TrendSection>(section: S, items: TrendItemDataBySection[S][]): Promise<void> {
+        this.ensureConnected();
+
+        const { table, columns } = TREND_TABLES[section];
+        const sql = `INSERT INTO ${table} (id, ${columns.map(column => `"${column.name}"`).join(', ')})
+                     VALUES (?, ${columns.map(() => '?').join(', ')})`;
+
+        await this.db!.run('BEGIN TRANSACTION');
+
+        try {
+            for (const item of items) {
+                const values = toTrendRow(section, item).map(value => value instanceof Date ? value.toISOString() : value);
+                await this.db!.run(sql, [randomUUID(), ...values]);
+            }
+            await this.db!.run('COMMIT');
+        } catch (error) {
+            await this.db!.run('ROLLBACK');
+            throw new Error(`Failed to insert ${section} items: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Retrieves the stored items of a section ordered by crawl time and rank.
+     * @param section Section to retrieve items for
+     * @param countryCode Only items listed for this country (optional)
+     * @returns Items from oldest to newest crawl
+     */
+    async findTrendItems<S extends TrendSection>(section: S, countryCode?: string): Promise<TrendItemDataBySection[S][]> {
+        this.ensureConnected();
+
+        try {
+            const rows = await this.db!.all(
+                `SELECT * FROM ${TREND_TABLES[section].table}
+                 ${countryCode ? 'WHERE countryCode = ?' : ''}
+                 ORDER BY crawledAt ASC, "rank" ASC`,
+                countryCode ? [countryCode] : []
+            );
+
+            return rows.map(row => fromTrendRow(section, row));
+        } catch (error) {
+            throw new Error(`Failed to find ${section} items: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
     /**
      * Maps raw SQLite result to AdData interface.
      * @param row Database result row
@@ -293,7 +695,8 @@ export class SQLiteDatabase implements IDatabase {
                 duration: row.duration,
                 cover: row.cover,
                 width: row.width,
-                height: row.height
+                height: row.height,
+                ...fromVideoMediaRow(row)
             };
             
             // Add video URL if available
@@ -343,19 +746,122 @@ export class SQLiteDatabase implements IDatabase {
             `CREATE TABLE IF NOT EXISTS processed_items (
                 itemKey TEXT PRIMARY KEY,
                 createdAt TEXT NOT NULL
+            )`,
+            
+            `CREATE TABLE IF NOT EXISTS ad_snapshots (
+                id TEXT PRIMARY KEY,
+                adId TEXT NOT NULL,
+                "like" INTEGER NOT NULL,
+                ctr REAL NOT NULL,
+                cost REAL NOT NULL,
+                rankPosition INTEGER NOT NULL,
+                countryCode TEXT NOT NULL,
+                orderBy TEXT,
+                filterContext TEXT NOT NULL,
+                crawledAt TEXT NOT NULL,
+                FOREIGN KEY (adId) REFERENCES ads (id)
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS ad_details (
+                adId TEXT PRIMARY KEY,
+                ctaText TEXT,
+                landingPage TEXT,
+                keywords TEXT NOT NULL,
+                highlightText TEXT,
+                audienceInterests TEXT NOT NULL,
+                raw TEXT NOT NULL,
+                crawledAt TEXT NOT NULL,
+                FOREIGN KEY (adId) REFERENCES ads (id)
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS ad_retention_points (
+                id TEXT PRIMARY KEY,
+                adId TEXT NOT NULL,
+                second INTEGER NOT NULL,
+                retention REAL NOT NULL,
+                ctr REAL,
+                cvr REAL,
+                FOREIGN KEY (adId) REFERENCES ad_details (adId)
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS ad_analyses (
+                adId TEXT PRIMARY KEY,
+                ${AD_ANALYSIS_COLUMNS.map(column => `${column.name} ${TREND_COLUMN_TYPES[column.type]}${column.required ? ' NOT NULL' : ''}`).join(',\n                ')},
+                FOREIGN KEY (adId) REFERENCES ads (id)
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS creative_fingerprints (
+                adId TEXT PRIMARY KEY,
+                ${CREATIVE_FINGERPRINT_COLUMNS.map(column => `${column.name} ${TREND_COLUMN_TYPES[column.type]}${column.required ? ' NOT NULL' : ''}`).join(',\n                ')},
+                clusterId TEXT,
+                FOREIGN KEY (adId) REFERENCES ads (id)
+            )`,
+
+            `CREATE TABLE IF NOT EXISTS creative_clusters (
+                clusterId TEXT PRIMARY KEY,
+                ${CREATIVE_CLUSTER_COLUMNS.map(column => `${column.name} ${TREND_COLUMN_TYPES[column.type]}${column.required ? ' NOT NULL' : ''}`).join(',\n                ')}
             )`
         ];
         
         const createIndexes = [
             `CREATE INDEX IF NOT EXISTS idx_ads_creative_id ON ads (creativeId)`,
-            `CREATE INDEX IF NOT EXISTS idx_ads_advertiser_id ON ads (advertiserId)`
+            `CREATE INDEX IF NOT EXISTS idx_ads_advertiser_id ON ads (advertiserId)`,
+            `CREATE INDEX IF NOT EXISTS idx_ad_snapshots_ad_id ON ad_snapshots (adId, crawledAt)`,
+            `CREATE INDEX IF NOT EXISTS idx_ad_snapshots_order_by ON ad_snapshots (orderBy, crawledAt)`,
+            `CREATE UNIQUE INDEX IF NOT EXISTS idx_ad_retention_points_ad_second ON ad_retention_points (adId, second)`,
+            ...AD_ANALYSIS_COLUMNS
+                .filter(column => column.indexed)
+                .map(column => `CREATE INDEX IF NOT EXISTS idx_ad_analyses_${column.name} ON ad_analyses (${column.name})`),
+            ...CREATIVE_FINGERPRINT_COLUMNS
+                .filter(column => column.indexed)
+                .map(column => `CREATE INDEX IF NOT EXISTS idx_creative_fingerprints_${column.name} ON creative_fingerprints (${column.name})`),
+            `CREATE INDEX IF NOT EXISTS idx_creative_fingerprints_clusterId ON creative_fingerprints (clusterId)`,
+            ...CREATIVE_CLUSTER_COLUMNS
+                .filter(column => column.indexed)
+                .map(column => `CREATE INDEX IF NOT EXISTS idx_creative_clusters_${column.name} ON creative_clusters (${column.name})`)
         ];
         
-        for (const query of [...createTables, ...createIndexes]) {
+        for (const { table, columns } of Object.values(TREND_TABLES)) {
+            createTables.push(`CREATE TABLE IF NOT EXISTS ${table} (
+                id TEXT PRIMARY KEY,
+                ${columns.map(column => `"${column.name}" ${TREND_COLUMN_TYPES[column.type]}${column.required ? ' NOT NULL' : ''}`).join(',\n                ')}
+            )`);
+            createIndexes.push(
+                `CREATE INDEX IF NOT EXISTS idx_${table}_country ON ${table} (countryCode, crawledAt)`,
+                `CREATE INDEX IF NOT EXISTS idx_${table}_item ON ${table} (itemId, crawledAt)`
+            );
+            for (const column of columns.filter(column => column.indexed)) {
+                createIndexes.push(`CREATE INDEX IF NOT EXISTS idx_${table}_${column.name} ON ${table} ("${column.name}", crawledAt)`);
+            }
+        }
+
+        for (const query of createTables) {
+            await this.db!.exec(query);
+        }
+        await this.migrateTables();
+        for (const query of createIndexes) {
             await this.db!.exec(query);
         }
     }
 
+    /**
+     * Adds columns introduced after a table was first created.
+     * @private
+     */
+    private async migrateTables(): Promise<void> {
+        const snapshotColumns = await this.db!.all('PRAGMA table_info(ad_snapshots)');
+        if (!snapshotColumns.some(column => column.name === 'orderBy')) {
+            await this.db!.exec('ALTER TABLE ad_snapshots ADD COLUMN orderBy TEXT');
+        }
+
+        const videoColumns = await this.db!.all('PRAGMA table_info(video_info)');
+        for (const column of VIDEO_MEDIA_COLUMNS) {
+            if (!videoColumns.some(existing => existing.name === column.name)) {
+                await this.db!.exec(`ALTER TABLE video_info ADD COLUMN ${column.name} ${TREND_COLUMN_TYPES[column.type]}`);
+            }
+        }
+    }
+
     /**
      * Ensures the database is connected before operations.
      * @private
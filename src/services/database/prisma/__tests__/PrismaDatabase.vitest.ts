@@ -73,6 +73,10 @@ vi.mock('../../prisma/client.js', () => {
         findUnique: vi.fn().mockResolvedValue(null),
         findFirst: vi.fn().mockResolvedValue(null),
         count: vi.fn().mockResolvedValue(0),
+      },
+      adSnapshot: {
+        create: vi.fn().mockResolvedValue({ id: 'snapshot-id' }),
+        findMany: vi.fn().mockResolvedValue([]),
       }
     }
   };
@@ -197,6 +201,34 @@ describe('PrismaDatabase', () => {
       });
     });
 
+    it('should insert an ad snapshot connected to the ad', async () => {
+      const { prisma } = await import('../../prisma/client.js');
+      await database.insertAdSnapshot({
+        adId: 'test-id',
+        like: 10,
+        ctr: 0.1,
+        cost: 1,
+        rankPosition: 1,
+        countryCode: 'US',
+        filterContext: {}
+      });
+      expect(prisma.adSnapshot.create).toHaveBeenCalledWith({
+        data: expect.objectContaining({
+          ad: { connect: { id: 'test-id' } },
+          rankPosition: 1
+        })
+      });
+    });
+
+    it('should find ad snapshots ordered by crawl time', async () => {
+      const { prisma } = await import('../../prisma/client.js');
+      await database.findAdSnapshots('test-id');
+      expect(prisma.adSnapshot.findMany).toHaveBeenCalledWith({
+        where: { adId: 'test-id' },
+        orderBy: { crawledAt: 'asc' }
+      });
+    });
+
     it('should check if an ad is a duplicate', async () => {
       vi.spyOn(database, 'exists').mockResolvedValue(false);
       await database.isDuplicate(mockAdData);
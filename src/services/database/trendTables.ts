@@ -0,0 +1,181 @@
+import type { TrendItemDataBySection, TrendSection } from './types.js';
+
+/**
+ * Storage type of a trend column; each backend maps it to its own SQL type
+ */
+export type TrendColumnType = 'key' | 'text' | 'integer' | 'real' | 'json' | 'timestamp';
+
+export interface TrendColumn {
+    name: string;
+    type: TrendColumnType;
+    required?: boolean;
+    /**
+     * Index the column together with the crawl time, besides the country and item indexes of every table
+     */
+    indexed?: boolean;
+}
+
+/**
+ * Table a section's items are stored in. Besides the columns every table has a generated `id` primary key.
+ */
+export interface TrendTable {
+    table: string;
+    columns: TrendColumn[];
+}
+
+/**
+ * @private
+ */
+const withCommonColumns = (columns: TrendColumn[]): TrendColumn[] => [
+    { name: 'itemId', type: 'key', required: true },
+    { name: 'countryCode', type: 'key', required: true },
+    { name: 'period', type: 'text' },
+    { name: 'rank', type: 'integer', required: true },
+    ...columns,
+    { name: 'raw', type: 'json', required: true },
+    { name: 'crawledAt', type: 'timestamp', required: true }
+];
+
+/**
+ * Tables of the Creative Center sections, shared by the SQL backends and mirrored by the Prisma schema
+ */
+export const TREND_TABLES: Record<TrendSection, TrendTable> = {
+    hashtags: {
+        table: 'trend_hashtags',
+        columns: withCommonColumns([
+            { name: 'name', type: 'text', required: true },
+            { name: 'industry', type: 'text' },
+            { name: 'postCount', type: 'integer' },
+            { name: 'viewCount', type: 'integer' },
+            { name: 'rankDiff', type: 'integer' }
+        ])
+    },
+    songs: {
+        table: 'trend_songs',
+        columns: withCommonColumns([
+            { name: 'title', type: 'text', required: true },
+            { name: 'author', type: 'text' },
+            { name: 'coverUrl', type: 'text' },
+            { name: 'link', type: 'text' },
+            { name: 'duration', type: 'integer' },
+            { name: 'rankDiff', type: 'integer' }
+        ])
+    },
+    creators: {
+        table: 'trend_creators',
+        columns: withCommonColumns([
+            { name: 'nickname', type: 'text', required: true },
+            { name: 'avatarUrl', type: 'text' },
+            { name: 'profileUrl', type: 'text' },
+            { name: 'followerCount', type: 'integer' },
+            { name: 'likeCount', type: 'integer' }
+        ])
+    },
+    videos: {
+        table: 'trend_videos',
+        columns: withCommonColumns([
+            { name: 'title', type: 'text' },
+            { name: 'coverUrl', type: 'text' },
+            { name: 'videoUrl', type: 'text', required: true },
+            { name: 'duration', type: 'integer' }
+        ])
+    },
+    products: {
+        table: 'top_products',
+        columns: withCommonColumns([
+            { name: 'name', type: 'text', required: true },
+            { name: 'category', type: 'text' },
+            { name: 'ctr', type: 'real' },
+            { name: 'cvr', type: 'real' },
+            { name: 'cpa', type: 'real' },
+            { name: 'cost', type: 'real' },
+            { name: 'impressions', type: 'integer' },
+            { name: 'likes', type: 'integer' },
+            { name: 'posts', type: 'integer' }
+        ])
+    },
+    keywords: {
+        table: 'keyword_insights',
+        columns: withCommonColumns([
+            { name: 'keyword', type: 'text', required: true },
+            { name: 'industryKey', type: 'key', indexed: true },
+            { name: 'ctr', type: 'real' },
+            { name: 'cvr', type: 'real' },
+            { name: 'cpa', type: 'real' },
+            { name: 'cost', type: 'real' },
+            { name: 'impressions', type: 'integer' },
+            { name: 'likes', type: 'integer' },
+            { name: 'shares', type: 'integer' },
+            { name: 'comments', type: 'integer' },
+            { name: 'posts', type: 'integer' },
+            { name: 'relatedKeywords', type: 'json', required: true }
+        ])
+    },
+    dashboard: {
+        table: 'top_ads_dashboard',
+        columns: withCommonColumns([
+            { name: 'dimension', type: 'key', required: true },
+            { name: 'breakdownKey', type: 'key', required: true },
+            { name: 'label', type: 'text' },
+            { name: 'industryKey', type: 'key', indexed: true },
+            { name: 'adCount', type: 'integer' },
+            { name: 'ctr', type: 'real' },
+            { name: 'cvr', type: 'real' },
+            { name: 'cpa', type: 'real' },
+            { name: 'impressions', type: 'integer' }
+        ])
+    }
+};
+
+/**
+ * Converts an item into column values in table order: JSON is serialized, missing values become null
+ * and the crawl time defaults to now
+ * @param section - Section of the item
+ * @param item - Item to store
+ * @returns Values for the columns of the section's table
+ */
+export function toTrendRow<S extends TrendSection>(section: S, item: TrendItemDataBySection[S]): unknown[] {
+    const values = item as unknown as Record<string, unknown>;
+    return TREND_TABLES[section].columns.map(column => {
+        const value = values[column.name];
+        if (column.name === 'crawledAt') return value ?? new Date();
+        if (value === undefined || value === null) return null;
+        return column.type === 'json' ? JSON.stringify(value) : value;
+    });
+}
+
+/**
+ * Reads the given columns of a stored row. JSON strings are parsed, numeric strings,
+ * as returned for BIGINT columns, are converted to numbers and null columns are left out.
+ * @param columns - Columns to read
+ * @param row - Database row
+ * @returns Values by column name
+ */
+export function readColumns(columns: TrendColumn[], row: Record<string, unknown>): Record<string, unknown> {
+    const values: Record<string, unknown> = {};
+    for (const column of columns) {
+        const value = row[column.name];
+        if (value === undefined || value === null) continue;
+
+        if (column.type === 'json') {
+            values[column.name] = typeof value === 'string' ? JSON.parse(value) : value;
+        } else if (column.type === 'timestamp') {
+            values[column.name] = new Date(value as string | Date);
+        } else if (column.type === 'integer' || column.type === 'real') {
+            values[column.name] = Number(value);
+        } else {
+            values[column.name] = value;
+        }
+    }
+    return values;
+}
+
+/**
+ * Converts a stored row back into an item
+ * @param section - Section of the row
+ * @param row - Database row
+ * @returns Stored item
+ */
+export function fromTrendRow<S extends TrendSection>(section: S, row: Record<string, unknown>): TrendItemDataBySection[S] {
+    return readColumns(TREND_TABLES[section].columns, row) as unknown as TrendItemDataBySection[S];
+}
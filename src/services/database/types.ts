@@ -7,7 +7,7 @@ import type { Prisma } from '@prisma/client';
  */
 export interface DatabaseConfig {
     /**
-     * PostgreSQL connection string (optional)
+     * PostgreSQL/MySQL/Prisma connection string (optional)
      */
     connectionString?: string;
     /**
@@ -26,10 +26,48 @@ export interface VideoUrl {
     p720: string;
 }
 
+/**
+ * Cover and video file downloaded for a video, stored content-addressed by SHA-256
+ */
+export interface VideoMediaData {
+    /**
+     * Location of the video file in the media store
+     */
+    videoPath?: string;
+    /**
+     * Video file size in bytes
+     */
+    videoSize?: number;
+    /**
+     * SHA-256 of the video file (hex)
+     */
+    videoChecksum?: string;
+    /**
+     * Rendition that was downloaded: 720p, 480p or 360p
+     */
+    videoRendition?: string;
+    /**
+     * Location of the cover image in the media store
+     */
+    coverPath?: string;
+    /**
+     * Cover image size in bytes
+     */
+    coverSize?: number;
+    /**
+     * SHA-256 of the cover image (hex)
+     */
+    coverChecksum?: string;
+    /**
+     * Download timestamp (optional)
+     */
+    mediaDownloadedAt?: Date;
+}
+
 /**
  * Represents video metadata for TikTok ads
  */
-export interface VideoInfo {
+export interface VideoInfo extends VideoMediaData {
     /**
      * Unique video ID
      */
@@ -98,10 +136,400 @@ export interface AdData {
     updatedAt?: Date;
 }
 
+/**
+ * Represents the metrics of an ad observed during a single crawl.
+ * One snapshot is stored per ad per crawl to build a time series.
+ */
+export interface AdSnapshotData {
+    /**
+     * ID of the ad this snapshot belongs to
+     */
+    adId: string;
+    /**
+     * Number of likes at crawl time
+     */
+    like: number;
+    /**
+     * Click-through rate at crawl time
+     */
+    ctr: number;
+    /**
+     * Cost level at crawl time
+     */
+    cost: number;
+    /**
+     * 1-based position of the ad in the top list
+     */
+    rankPosition: number;
+    /**
+     * Country code the list was requested for
+     */
+    countryCode: string;
+    /**
+     * Sort order the rank position refers to, as sent in the list request (`for_you`, `reach`, `ctr`)
+     */
+    orderBy?: string;
+    /**
+     * Filter parameters of the list request (period, language, sort order, ...)
+     */
+    filterContext: Prisma.InputJsonValue;
+    /**
+     * Crawl timestamp (optional)
+     */
+    crawledAt?: Date;
+}
+
+/**
+ * Share of the audience with an interest
+ */
+export interface AdAudienceInterest {
+    interest: string;
+    /**
+     * Percentage of the reached audience
+     */
+    share: number;
+}
+
+/**
+ * Metrics of one second of the ad video
+ */
+export interface AdRetentionPoint {
+    /**
+     * Second of the video, starting at 0
+     */
+    second: number;
+    /**
+     * Share of viewers still watching
+     */
+    retention: number;
+    ctr?: number;
+    cvr?: number;
+}
+
+/**
+ * Creative insights read from the detail page of an ad. One row per ad, replaced on every detail crawl.
+ */
+export interface AdDetailData {
+    /**
+     * ID of the ad the details belong to
+     */
+    adId: string;
+    /**
+     * Call-to-action button text
+     */
+    ctaText?: string;
+    /**
+     * Landing page URL
+     */
+    landingPage?: string;
+    /**
+     * Highlighted keywords of the ad text
+     */
+    keywords: string[];
+    /**
+     * Highlighted ad text
+     */
+    highlightText?: string;
+    audienceInterests: AdAudienceInterest[];
+    /**
+     * Per-second retention curve, ordered by second
+     */
+    retention: AdRetentionPoint[];
+    /**
+     * Captured detail API responses by endpoint, kept for fields that are not mapped
+     */
+    raw: Prisma.InputJsonValue;
+    /**
+     * Crawl timestamp (optional)
+     */
+    crawledAt?: Date;
+}
+
+/**
+ * Creative Center sections crawled besides the Top Ads list
+ */
+export type TrendSection = 'hashtags' | 'songs' | 'creators' | 'videos' | 'products' | 'keywords' | 'dashboard';
+
+/**
+ * Fields shared by the items of every section. One row is stored per item per crawl.
+ */
+export interface TrendItemBase {
+    /**
+     * ID of the item in the section (hashtag ID, clip ID, user ID, ...)
+     */
+    itemId: string;
+    /**
+     * Country code the list was requested for
+     */
+    countryCode: string;
+    /**
+     * Period of the list in days
+     */
+    period?: string;
+    /**
+     * 1-based position in the list
+     */
+    rank: number;
+    /**
+     * Item as returned by the API, kept for fields that are not mapped
+     */
+    raw: Prisma.InputJsonValue;
+    /**
+     * Crawl timestamp (optional)
+     */
+    crawledAt?: Date;
+}
+
+export interface TrendHashtagData extends TrendItemBase {
+    name: string;
+    industry?: string;
+    postCount?: number;
+    viewCount?: number;
+    /**
+     * Change of the rank since the previous period
+     */
+    rankDiff?: number;
+}
+
+export interface TrendSongData extends TrendItemBase {
+    title: string;
+    author?: string;
+    coverUrl?: string;
+    link?: string;
+    /**
+     * Clip duration in seconds
+     */
+    duration?: number;
+    rankDiff?: number;
+}
+
+export interface TrendCreatorData extends TrendItemBase {
+    nickname: string;
+    avatarUrl?: string;
+    profileUrl?: string;
+    followerCount?: number;
+    likeCount?: number;
+}
+
+export interface TrendVideoData extends TrendItemBase {
+    title?: string;
+    coverUrl?: string;
+    videoUrl: string;
+    /**
+     * Video duration in seconds
+     */
+    duration?: number;
+}
+
+export interface TopProductData extends TrendItemBase {
+    name: string;
+    category?: string;
+    ctr?: number;
+    cvr?: number;
+    cpa?: number;
+    cost?: number;
+    impressions?: number;
+    likes?: number;
+    posts?: number;
+}
+
+/**
+ * Keyword from Keyword Insights with its performance in ads using it
+ */
+export interface KeywordInsightData extends TrendItemBase {
+    keyword: string;
+    /**
+     * Industry the keyword was listed for, same key as `metadata.industryKey` of ads
+     */
+    industryKey?: string;
+    ctr?: number;
+    cvr?: number;
+    cpa?: number;
+    cost?: number;
+    impressions?: number;
+    likes?: number;
+    shares?: number;
+    comments?: number;
+    posts?: number;
+    relatedKeywords: string[];
+}
+
+/**
+ * Row of a Top Ads Dashboard breakdown, e.g. the metrics of one objective or industry
+ */
+export interface DashboardBreakdownData extends TrendItemBase {
+    dimension: 'objective' | 'industry';
+    /**
+     * Objective or industry key, as in `metadata.objectiveKey` or `metadata.industryKey` of ads
+     */
+    breakdownKey: string;
+    label?: string;
+    /**
+     * Set for industry rows so they can be joined with ads like keywords
+     */
+    industryKey?: string;
+    adCount?: number;
+    ctr?: number;
+    cvr?: number;
+    cpa?: number;
+    impressions?: number;
+}
+
+/**
+ * Item type stored for each section
+ */
+export interface TrendItemDataBySection {
+    hashtags: TrendHashtagData;
+    songs: TrendSongData;
+    creators: TrendCreatorData;
+    videos: TrendVideoData;
+    products: TopProductData;
+    keywords: KeywordInsightData;
+    dashboard: DashboardBreakdownData;
+}
+
+/**
+ * Creative pattern labels assigned to an ad by the creative analysis
+ */
+export interface AdAnalysisLabels {
+    /**
+     * How the video grabs attention in its first seconds, e.g. `problem_solution`
+     */
+    hookType: string;
+    /**
+     * Commercial offer, e.g. `discount`, or `none`
+     */
+    offer: string;
+    tone: string;
+    /**
+     * Product category in lowercase words, e.g. `skincare`
+     */
+    productCategory: string;
+    /**
+     * Call to action, e.g. `shop_now`
+     */
+    cta: string;
+}
+
+/**
+ * Creative analysis of an ad by a multimodal model. One row per ad, replaced when the ad is analyzed again.
+ */
+export interface AdAnalysisData extends AdAnalysisLabels {
+    /**
+     * ID of the analyzed ad
+     */
+    adId: string;
+    /**
+     * One-sentence description of the creative (optional)
+     */
+    summary?: string;
+    /**
+     * Model that produced the analysis
+     */
+    model: string;
+    /**
+     * Number of video frames sent besides the cover
+     */
+    frameCount: number;
+    /**
+     * Validated model output, kept for fields that are not mapped
+     */
+    raw: Prisma.InputJsonValue;
+    /**
+     * Analysis timestamp (optional)
+     */
+    analyzedAt?: Date;
+}
+
+/**
+ * Labels an analysis must match; unset labels match any value
+ */
+export type AdAnalysisFilter = Partial<AdAnalysisLabels>;
+
+/**
+ * Perceptual hashes of an ad's creative. Re-uploads of the same video under other ad IDs have
+ * hashes within a few bits of each other, unlike their checksums.
+ */
+export interface CreativeFingerprintData {
+    /**
+     * ID of the hashed ad
+     */
+    adId: string;
+    /**
+     * 64-bit DCT hash of the cover image (16 hex digits, optional)
+     */
+    coverHash?: string;
+    /**
+     * Hashes of frames sampled at fixed points of the video, in playback order; empty when no video was downloaded
+     */
+    frameHashes: string[];
+    /**
+     * Cluster of near-identical creatives the ad belongs to, set by the last clustering run (optional)
+     */
+    clusterId?: string;
+    /**
+     * Hashing timestamp (optional)
+     */
+    hashedAt?: Date;
+}
+
+/**
+ * Group of ads showing the same creative, e.g. one video re-uploaded by several brands or in several regions
+ */
+export interface CreativeClusterData {
+    /**
+     * Smallest ad ID of the cluster, so a cluster keeps its ID while copies are added
+     */
+    clusterId: string;
+    /**
+     * IDs of the ads in the cluster
+     */
+    adIds: string[];
+    adCount: number;
+    /**
+     * Countries the ads were listed in
+     */
+    countryCodes: string[];
+    countryCount: number;
+    advertiserCount: number;
+    /**
+     * Clustering timestamp (optional)
+     */
+    updatedAt?: Date;
+}
+
+/**
+ * Clusters to retrieve
+ */
+export interface CreativeClusterQuery {
+    /**
+     * Only the cluster of this ad (optional)
+     */
+    adId?: string;
+    /**
+     * Only clusters with at least this many ads (optional)
+     */
+    minAds?: number;
+}
+
+/**
+ * Page of ads ordered by ID, for reading every stored ad in batches
+ */
+export interface AdPageOptions {
+    /**
+     * Only ads with a greater ID, i.e. the last ID of the previous page (optional)
+     */
+    afterId?: string;
+    /**
+     * Maximum number of ads (default 100)
+     */
+    limit?: number;
+}
+
 /**
  * Type for database type
  */
-export type DatabaseType = 'prisma' | 'sqlite';
+export type DatabaseType = 'prisma' | 'sqlite' | 'postgres' | 'mysql';
 
 /**
  * Core database interface following the interface-based design pattern.
@@ -148,6 +576,12 @@ export interface IDatabase {
      * @returns Ad data or null if not found
      */
     findAdByCreativeId(id: string): Promise<AdData | null>;
+    /**
+     * Retrieves a page of ads ordered by ID.
+     * @param options Position and size of the page (optional)
+     * @returns Ads after the given ID
+     */
+    findAds(options?: AdPageOptions): Promise<AdData[]>;
     /**
      * Checks if an ad exists based on the provided criteria.
      * @param criteria Ad criteria to search for
@@ -160,4 +594,80 @@ export interface IDatabase {
      * @returns Whether the ad is a duplicate
      */
     isDuplicate(data: AdData): Promise<boolean>;
+
+    /**
+     * Records the metrics of an ad observed during a crawl.
+     * @param data Snapshot data to insert
+     */
+    insertAdSnapshot(data: AdSnapshotData): Promise<void>;
+    /**
+     * Retrieves the metric history of an ad ordered by crawl time.
+     * @param adId Ad ID to retrieve snapshots for
+     * @returns Snapshots from oldest to newest
+     */
+    findAdSnapshots(adId: string): Promise<AdSnapshotData[]>;
+
+    /**
+     * Stores the details of an ad, replacing earlier details and retention points.
+     * @param data Detail data to store
+     */
+    upsertAdDetail(data: AdDetailData): Promise<void>;
+    /**
+     * Retrieves the details of an ad.
+     * @param adId Ad ID to retrieve details for
+     * @returns Details with their retention curve, or null if not crawled yet
+     */
+    findAdDetail(adId: string): Promise<AdDetailData | null>;
+    /**
+     * Records the downloaded cover and video file of a video.
+     * @param vid Video ID
+     * @param media Stored files
+     */
+    updateVideoMedia(vid: string, media: VideoMediaData): Promise<void>;
+    /**
+     * Stores the creative analysis of an ad, replacing an earlier analysis.
+     * @param data Analysis to store
+     */
+    upsertAdAnalysis(data: AdAnalysisData): Promise<void>;
+    /**
+     * Retrieves the analyses matching every given label, newest first.
+     * @param filter Labels to match (optional)
+     * @returns Matching analyses
+     */
+    findAdAnalyses(filter?: AdAnalysisFilter): Promise<AdAnalysisData[]>;
+    /**
+     * Stores the perceptual hashes of an ad, replacing earlier hashes but keeping its cluster.
+     * @param data Hashes to store
+     */
+    upsertCreativeFingerprint(data: CreativeFingerprintData): Promise<void>;
+    /**
+     * Retrieves the hashes of every hashed ad ordered by ad ID.
+     * @returns Stored hashes with their cluster
+     */
+    findCreativeFingerprints(): Promise<CreativeFingerprintData[]>;
+    /**
+     * Replaces all creative clusters and assigns their ads to them.
+     * @param clusters Clusters of the latest clustering run
+     */
+    replaceCreativeClusters(clusters: CreativeClusterData[]): Promise<void>;
+    /**
+     * Retrieves creative clusters, largest first.
+     * @param query Ad or minimum size to match (optional)
+     * @returns Matching clusters
+     */
+    findCreativeClusters(query?: CreativeClusterQuery): Promise<CreativeClusterData[]>;
+
+    /**
+     * Records the items of a Creative Center section observed during a crawl.
+     * @param section Section the items were listed in
+     * @param items Items to insert
+     */
+    insertTrendItems<S extends TrendSection>(section: S, items: TrendItemDataBySection[S][]): Promise<void>;
+    /**
+     * Retrieves the stored items of a section ordered by crawl time and rank.
+     * @param section Section to retrieve items for
+     * @param countryCode Only items listed for this country (optional)
+     * @returns Items from oldest to newest crawl
+     */
+    findTrendItems<S extends TrendSection>(section: S, countryCode?: string): Promise<TrendItemDataBySection[S][]>;
 }
@@ -0,0 +1,38 @@
+import type { VideoMediaData } from './types.js';
+import { readColumns, TrendColumn } from './trendTables.js';
+
+/**
+ * Columns of `video_info` that record the downloaded media. Added by migration so existing
+ * databases get them too; the backends map the types like the trend columns.
+ */
+export const VIDEO_MEDIA_COLUMNS: TrendColumn[] = [
+    { name: 'videoPath', type: 'text' },
+    { name: 'videoSize', type: 'integer' },
+    { name: 'videoChecksum', type: 'key' },
+    { name: 'videoRendition', type: 'key' },
+    { name: 'coverPath', type: 'text' },
+    { name: 'coverSize', type: 'integer' },
+    { name: 'coverChecksum', type: 'key' },
+    { name: 'mediaDownloadedAt', type: 'timestamp' }
+];
+
+/**
+ * Converts media data into values in column order; the download time defaults to now
+ * @param media - Stored files
+ * @returns Values for VIDEO_MEDIA_COLUMNS
+ */
+export function toVideoMediaRow(media: VideoMediaData): unknown[] {
+    const values = media as Record<string, unknown>;
+    return VIDEO_MEDIA_COLUMNS.map(column => column.name === 'mediaDownloadedAt'
+        ? values[column.name] ?? new Date()
+        : values[column.name] ?? null);
+}
+
+/**
+ * Reads the media columns of a joined video_info row
+ * @param row - Database row
+ * @returns Media data, empty if nothing was downloaded
+ */
+export function fromVideoMediaRow(row: Record<string, unknown>): VideoMediaData {
+    return readColumns(VIDEO_MEDIA_COLUMNS, row) as VideoMediaData;
+}
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Log } from 'crawlee';
+import { CreativeHasher } from '../creativeHasher.js';
+import { CreativeClusterer } from '../creativeClusters.js';
+import type { AdData, AdSnapshotData, CreativeClusterData, CreativeFingerprintData } from '../../database/types.js';
+import type { MediaStore } from '../../media/mediaStore.js';
+
+const mockLog = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn()
+} as unknown as Log;
+
+const ad = (id: string, countryCode: string, advertiserId: string, videoInfo?: Partial<NonNullable<AdData['videoInfo']>>): AdData => ({
+  id,
+  countryCode,
+  creativeId: id,
+  advertiserId,
+  advertiserName: advertiserId,
+  metadata: {},
+  videoInfo: videoInfo && { vid: `v-${id}`, duration: 20, cover: `https://cdn/${id}.jpg`, width: 720, height: 1280, ...videoInfo }
+});
+
+describe('CreativeHasher', () => {
+  const createHasher = () => ({
+    hashImage: vi.fn(async (source: string | Buffer) => (source.toString().includes('broken') ? Promise.reject(new Error('403')) : 'a5c3f00f12345678')),
+    hashVideo: vi.fn(async () => ['0f0f0f0f0f0f0f0f', '3c3c3c3c3c3c3c3c'])
+  });
+  const mediaStore = { put: vi.fn(), get: vi.fn(async (location: string) => Buffer.from(location)) } as unknown as MediaStore;
+
+  it('should hash downloaded covers and frames and skip hashed ads on the next run', async () => {
+    const hasher = createHasher();
+    const fingerprints = new Map<string, CreativeFingerprintData>();
+    const ads = [
+      ad('ad-1', 'US', 'brand', { coverPath: 'media/c1.jpg', videoPath: 'media/v1.mp4' }),
+      ad('ad-2', 'GB', 'brand', {}),
+      ad('ad-3', 'US', 'brand')
+    ];
+    const db = {
+      findAds: vi.fn(async ({ afterId }: { afterId?: string } = {}) => ads.filter(item => afterId === undefined || item.id > afterId)),
+      findCreativeFingerprints: vi.fn(async () => [...fingerprints.values()]),
+      upsertCreativeFingerprint: vi.fn(async (data: CreativeFingerprintData) => { fingerprints.set(data.adId, data); })
+    };
+    const creativeHasher = new CreativeHasher(mockLog, hasher, { mediaStore, frameCount: 2 });
+
+    expect(await creativeHasher.hashAds(db)).toEqual({ ads: 2, hashed: 2, unchanged: 0, failed: 0 });
+    expect(hasher.hashImage).toHaveBeenCalledWith(Buffer.from('media/c1.jpg'));
+    expect(hasher.hashImage).toHaveBeenCalledWith('https://cdn/ad-2.jpg');
+    expect(hasher.hashVideo).toHaveBeenCalledTimes(1);
+    expect(hasher.hashVideo).toHaveBeenCalledWith(Buffer.from('media/v1.mp4'), 20, 2);
+    expect(fingerprints.get('ad-2')).toMatchObject({ coverHash: 'a5c3f00f12345678', frameHashes: [] });
+
+    // The video of ad-2 was downloaded since, so only its frames are missing
+    ads[1] = ad('ad-2', 'GB', 'brand', { videoPath: 'media/v2.mp4' });
+    expect(await creativeHasher.hashAds(db)).toEqual({ ads: 2, hashed: 1, unchanged: 1, failed: 0 });
+    expect(fingerprints.get('ad-2')?.frameHashes).toHaveLength(2);
+  });
+
+  it('should fail only when nothing could be hashed', async () => {
+    const hasher = createHasher();
+    const creativeHasher = new CreativeHasher(mockLog, hasher, { mediaStore });
+    const video = { vid: 'v-1', duration: 20, cover: 'https://cdn/broken.jpg', width: 720, height: 1280 };
+
+    await expect(creativeHasher.hashCreative('ad-1', video)).rejects.toThrow('Failed to hash creative of ad ad-1: 403');
+    expect(await creativeHasher.hashCreative('ad-1', { ...video, videoPath: 'media/v1.mp4' })).toMatchObject({
+      adId: 'ad-1',
+      coverHash: undefined,
+      frameHashes: ['0f0f0f0f0f0f0f0f', '3c3c3c3c3c3c3c3c']
+    });
+  });
+});
+
+describe('CreativeClusterer', () => {
+  it('should store clusters with the countries and advertisers of their ads', async () => {
+    const ads = [ad('ad-1', 'US', 'brand-a'), ad('ad-2', 'GB', 'brand-b'), ad('ad-3', 'US', 'brand-a')];
+    const db = {
+      findCreativeFingerprints: vi.fn(async () => [
+        { adId: 'ad-1', coverHash: 'a5c3f00f12345678', frameHashes: [] },
+        { adId: 'ad-2', coverHash: 'a5c3f00f12345679', frameHashes: [] },
+        { adId: 'ad-3', coverHash: '5a3c0ff0edcba987', frameHashes: [] }
+      ]),
+      findAds: vi.fn(async ({ afterId }: { afterId?: string } = {}) => ads.filter(item => afterId === undefined || item.id > afterId).slice(0, 2)),
+      findAdSnapshots: vi.fn(async (adId: string) => [{ adId, countryCode: adId === 'ad-2' ? 'DE' : 'FR' }] as AdSnapshotData[]),
+      replaceCreativeClusters: vi.fn<(clusters: CreativeClusterData[]) => Promise<void>>().mockResolvedValue(undefined)
+    };
+
+    const stats = await new CreativeClusterer(mockLog, db, 8, 2).cluster();
+
+    expect(stats).toEqual({ ads: 3, clusters: 2, duplicateClusters: 1, duplicateAds: 2 });
+    expect(db.replaceCreativeClusters.mock.calls[0][0]).toEqual([
+      expect.objectContaining({ clusterId: 'ad-1', adIds: ['ad-1', 'ad-2'], adCount: 2, countryCodes: ['DE', 'FR', 'GB', 'US'], countryCount: 4, advertiserCount: 2 }),
+      expect.objectContaining({ clusterId: 'ad-3', adIds: ['ad-3'], adCount: 1, countryCodes: ['US'], countryCount: 1, advertiserCount: 1 })
+    ]);
+    expect(db.findAds).toHaveBeenCalledTimes(3);
+    expect(db.findAdSnapshots).not.toHaveBeenCalledWith('ad-3');
+  });
+});
@@ -0,0 +1,72 @@
+import { describe, it, expect } from 'vitest';
+import { computePerceptualHash, hammingDistance } from '../perceptualHash.js';
+import { groupNearDuplicates, isNearDuplicate } from '../creativeClusters.js';
+
+/**
+ * 32 x 32 grayscale image drawn from a function of the pixel position
+ */
+const image = (draw: (x: number, y: number) => number) =>
+  Uint8Array.from({ length: 32 * 32 }, (_, i) => Math.max(0, Math.min(255, Math.round(draw(i % 32, Math.floor(i / 32))))));
+
+const scene = (x: number, y: number) => 128 + 60 * Math.sin(x / 4) + 50 * Math.cos(y / 6) + (x > 20 && y < 10 ? 40 : 0);
+const otherScene = (x: number, y: number) => 128 + 90 * Math.cos((x + y) / 3) - (y > 16 ? 50 : 0);
+
+describe('computePerceptualHash', () => {
+  it('should give re-encoded and recoloured copies nearly the same hash', () => {
+    const original = computePerceptualHash(image(scene))!;
+    const brighter = computePerceptualHash(image((x, y) => scene(x, y) * 0.9 + 20))!;
+    const noisy = computePerceptualHash(image((x, y) => scene(x, y) + ((x * 7 + y * 13) % 5) - 2))!;
+
+    expect(original).toMatch(/^[0-9a-f]{16}$/);
+    expect(hammingDistance(original, brighter)).toBeLessThanOrEqual(4);
+    expect(hammingDistance(original, noisy)).toBeLessThanOrEqual(4);
+    expect(hammingDistance(original, computePerceptualHash(image(otherScene))!)).toBeGreaterThan(16);
+  });
+
+  it('should not hash solid images', () => {
+    expect(computePerceptualHash(image(() => 0))).toBeNull();
+    expect(computePerceptualHash(image(x => 120 + (x % 2)))).toBeNull();
+  });
+
+  it('should reject images of other sizes', () => {
+    expect(() => computePerceptualHash(new Uint8Array(10))).toThrow('expected 1024 pixels, got 10');
+  });
+});
+
+describe('hammingDistance', () => {
+  it('should count differing bits', () => {
+    expect(hammingDistance('0000000000000000', '0000000000000000')).toBe(0);
+    expect(hammingDistance('ffffffffffffffff', '0000000000000000')).toBe(64);
+    expect(hammingDistance('8000000000000001', '0000000000000000')).toBe(2);
+  });
+});
+
+describe('groupNearDuplicates', () => {
+  const flip = (hash: string, bits: number) =>
+    (BigInt(`0x${hash}`) ^ ((1n << BigInt(bits)) - 1n)).toString(16).padStart(16, '0');
+  const cover = 'a5c3f00f12345678';
+  const frames = ['0f0f0f0f0f0f0f0f', '3c3c3c3c3c3c3c3c', 'f0f0f0f0f0f0f0f0'];
+
+  it('should match ads by cover or by video frames', () => {
+    expect(isNearDuplicate({ adId: 'a', coverHash: cover, frameHashes: [] }, { adId: 'b', coverHash: flip(cover, 8), frameHashes: [] }, 8)).toBe(true);
+    expect(isNearDuplicate({ adId: 'a', coverHash: cover, frameHashes: [] }, { adId: 'b', coverHash: flip(cover, 9), frameHashes: [] }, 8)).toBe(false);
+    // A re-cut upload with a new cover still shares its frames, in another order
+    expect(isNearDuplicate(
+      { adId: 'a', coverHash: cover, frameHashes: frames },
+      { adId: 'b', coverHash: 'ffffffff00000000', frameHashes: [frames[2], flip(frames[0], 3)] },
+      8
+    )).toBe(true);
+  });
+
+  it('should put chains of copies into one group and keep other ads apart', () => {
+    const groups = groupNearDuplicates([
+      { adId: 'ad-3', coverHash: flip(cover, 6), frameHashes: [] },
+      { adId: 'ad-1', coverHash: cover, frameHashes: [] },
+      { adId: 'ad-2', coverHash: flip(cover, 12), frameHashes: [] },
+      { adId: 'ad-4', coverHash: '0123456789abcdef', frameHashes: [] },
+      { adId: 'ad-5', frameHashes: [] }
+    ], 8);
+
+    expect(groups.sort((a, b) => b.length - a.length)).toEqual([['ad-1', 'ad-2', 'ad-3'], ['ad-4'], ['ad-5']]);
+  });
+});
@@ -0,0 +1,214 @@
+import { Log } from 'crawlee';
+import type { CreativeClusterData, CreativeFingerprintData, IDatabase } from '../database/types.js';
+import { hammingDistance } from './perceptualHash.js';
+
+/**
+ * Hashes of one ad compared by the clustering
+ */
+export type HashedCreative = Pick<CreativeFingerprintData, 'adId' | 'coverHash' | 'frameHashes'>;
+
+/**
+ * Counts of a clustering run
+ */
+export interface CreativeClusterStats {
+    /**
+     * Hashed ads
+     */
+    ads: number;
+    clusters: number;
+    /**
+     * Clusters with more than one ad
+     */
+    duplicateClusters: number;
+    /**
+     * Ads sharing their creative with at least one other ad
+     */
+    duplicateAds: number;
+}
+
+/**
+ * Average distance from each frame of one video to the closest frame of the other, both ways.
+ * Closest frames rather than same positions, so trimmed or re-cut uploads still match.
+ * @private
+ */
+function frameDistance(a: string[], b: string[]): number {
+    const closest = (from: string[], to: string[]) =>
+        from.reduce((sum, hash) => sum + Math.min(...to.map(other => hammingDistance(hash, other))), 0) / from.length;
+    return (closest(a, b) + closest(b, a)) / 2;
+}
+
+/**
+ * Whether two ads show the same creative: their covers or their video frames are within the distance
+ * @param a - Hashes of one ad
+ * @param b - Hashes of the other ad
+ * @param maxDistance - Largest Hamming distance (bits of 64) still considered the same image
+ * @returns Whether the ads are near-duplicates
+ */
+export function isNearDuplicate(a: HashedCreative, b: HashedCreative, maxDistance: number): boolean {
+    if (a.coverHash && b.coverHash && hammingDistance(a.coverHash, b.coverHash) <= maxDistance) {
+        return true;
+    }
+    return a.frameHashes.length > 0 && b.frameHashes.length > 0 && frameDistance(a.frameHashes, b.frameHashes) <= maxDistance;
+}
+
+/**
+ * Groups ads showing near-identical creatives. Matches are transitive, so a chain of close copies ends up
+ * in one group. Candidates are found by splitting the hashes into maxDistance + 1 bands: hashes within the
+ * distance share at least one band exactly, so ads sharing no band are never compared. Within a band every
+ * pair not yet in one group is compared, so a band shared by many ads (e.g. plain covers) still costs a
+ * comparison per pair, and a non-matching pair is compared again for each band it shares.
+ * @param creatives - Hashes of the ads
+ * @param maxDistance - Largest Hamming distance (bits of 64) still considered the same image
+ * @returns Ad IDs per group, each sorted; every ad is in exactly one group
+ */
+export function groupNearDuplicates(creatives: HashedCreative[], maxDistance: number): string[][] {
+    const parents = creatives.map((_, i) => i);
+    const find = (i: number): number => {
+        while (parents[i] !== i) {
+            parents[i] = parents[parents[i]];
+            i = parents[i];
+        }
+        return i;
+    };
+
+    const bandCount = Math.min(maxDistance + 1, 64);
+    const buckets = new Map<string, number[]>();
+    creatives.forEach((creative, i) => {
+        const hashes = [
+            ...(creative.coverHash ? [{ kind: 'cover', hash: creative.coverHash }] : []),
+            ...creative.frameHashes.map(hash => ({ kind: 'frame', hash }))
+        ];
+        for (const { kind, hash } of hashes) {
+            const value = BigInt(`0x${hash}`);
+            for (let band = 0; band < bandCount; band++) {
+                const start = BigInt(Math.floor((band * 64) / bandCount));
+                const end = BigInt(Math.floor(((band + 1) * 64) / bandCount));
+                const key = `${kind}:${band}:${(value >> start) & ((1n << (end - start)) - 1n)}`;
+                const bucket = buckets.get(key) ?? [];
+                if (bucket.at(-1) !== i) bucket.push(i);
+                buckets.set(key, bucket);
+            }
+        }
+    });
+
+    for (const bucket of buckets.values()) {
+        for (let x = 0; x < bucket.length; x++) {
+            for (let y = x + 1; y < bucket.length; y++) {
+                const [i, j] = [bucket[x], bucket[y]];
+                const rootI = find(i);
+                const rootJ = find(j);
+                if (rootI === rootJ) continue;
+
+                if (isNearDuplicate(creatives[i], creatives[j], maxDistance)) {
+                    parents[rootJ] = rootI;
+                }
+            }
+        }
+    }
+
+    const groups = new Map<number, string[]>();
+    creatives.forEach((creative, i) => {
+        const root = find(i);
+        groups.set(root, [...(groups.get(root) ?? []), creative.adId]);
+    });
+    return [...groups.values()].map(adIds => adIds.sort());
+}
+
+/**
+ * Groups the hashed ads of the database into clusters of near-identical creatives and stores them
+ * with the countries and advertisers each creative runs under
+ */
+export class CreativeClusterer {
+    private readonly log: Log;
+    private readonly db: Pick<IDatabase, 'findCreativeFingerprints' | 'findAds' | 'findAdSnapshots' | 'replaceCreativeClusters'>;
+    private readonly maxDistance: number;
+    private readonly pageSize: number;
+
+    /**
+     * @param log - Logger
+     * @param db - Database to read the hashes and ads from and store the clusters in
+     * @param maxDistance - Largest Hamming distance (bits of 64) still considered the same image
+     * @param pageSize - Ads read from the database at a time (default 200)
+     */
+    constructor(
+        log: Log,
+        db: Pick<IDatabase, 'findCreativeFingerprints' | 'findAds' | 'findAdSnapshots' | 'replaceCreativeClusters'>,
+        maxDistance: number,
+        pageSize = 200
+    ) {
+        this.log = log;
+        this.db = db;
+        this.maxDistance = maxDistance;
+        this.pageSize = pageSize;
+    }
+
+    /**
+     * Reads the country and advertiser of the hashed ads, a page of ads at a time
+     * @private
+     */
+    private async loadAds(adIds: Set<string>): Promise<Map<string, { countryCode: string; advertiserId: string }>> {
+        const ads = new Map<string, { countryCode: string; advertiserId: string }>();
+        for (let afterId: string | undefined; ;) {
+            const page = await this.db.findAds({ afterId, limit: this.pageSize });
+            if (page.length === 0) break;
+            afterId = page[page.length - 1].id;
+
+            for (const ad of page) {
+                if (adIds.has(ad.id)) ads.set(ad.id, { countryCode: ad.countryCode, advertiserId: ad.advertiserId });
+            }
+        }
+        return ads;
+    }
+
+    /**
+     * Rebuilds all clusters from the stored hashes, replacing the clusters of the previous run
+     * @returns Counts of ads and clusters
+     */
+    async cluster(): Promise<CreativeClusterStats> {
+        const fingerprints = await this.db.findCreativeFingerprints();
+        const groups = groupNearDuplicates(fingerprints, this.maxDistance);
+        const ads = await this.loadAds(new Set(fingerprints.map(fingerprint => fingerprint.adId)));
+        const updatedAt = new Date();
+
+        const clusters: CreativeClusterData[] = [];
+        for (const adIds of groups) {
+            const countries = new Set<string>();
+            const advertisers = new Set<string>();
+            for (const adId of adIds) {
+                const ad = ads.get(adId);
+                if (ad) {
+                    countries.add(ad.countryCode);
+                    advertisers.add(ad.advertiserId);
+                }
+            }
+            // Countries an ad was also listed in; a single ad is only reported with its own country
+            if (adIds.length > 1) {
+                const snapshots = await Promise.all(adIds.map(adId => this.db.findAdSnapshots(adId)));
+                snapshots.flat().forEach(snapshot => countries.add(snapshot.countryCode));
+            }
+
+            const countryCodes = [...countries].sort();
+            clusters.push({
+                clusterId: adIds[0],
+                adIds,
+                adCount: adIds.length,
+                countryCodes,
+                countryCount: countryCodes.length,
+                advertiserCount: advertisers.size,
+                updatedAt
+            });
+        }
+
+        await this.db.replaceCreativeClusters(clusters);
+
+        const duplicates = clusters.filter(cluster => cluster.adCount > 1);
+        const stats = {
+            ads: fingerprints.length,
+            clusters: clusters.length,
+            duplicateClusters: duplicates.length,
+            duplicateAds: duplicates.reduce((sum, cluster) => sum + cluster.adCount, 0)
+        };
+        this.log.info('Clustered creatives', { ...stats });
+        return stats;
+    }
+}
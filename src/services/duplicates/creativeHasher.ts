@@ -0,0 +1,123 @@
+import { Log } from 'crawlee';
+import type { CreativeFingerprintData, IDatabase, VideoInfo } from '../database/types.js';
+import type { MediaStore } from '../media/mediaStore.js';
+import type { PerceptualHasher } from './perceptualHasher.js';
+
+/**
+ * Options for creating a CreativeHasher
+ */
+export interface CreativeHasherOptions {
+    /**
+     * Store of the downloaded media; without it only cover URLs are hashed
+     */
+    mediaStore?: MediaStore;
+    /**
+     * Video frames hashed per downloaded video (default 4)
+     */
+    frameCount?: number;
+    /**
+     * Ads read from the database at a time (default 200)
+     */
+    pageSize?: number;
+}
+
+/**
+ * Outcome of CreativeHasher.hashAds
+ */
+export interface CreativeHashStats {
+    ads: number;
+    hashed: number;
+    unchanged: number;
+    failed: number;
+}
+
+/**
+ * Computes the perceptual hashes of ad creatives: the cover, downloaded or from its URL, and frames
+ * sampled from the downloaded video
+ */
+export class CreativeHasher {
+    private readonly log: Log;
+    private readonly hasher: Pick<PerceptualHasher, 'hashImage' | 'hashVideo'>;
+    private readonly mediaStore?: MediaStore;
+    private readonly frameCount: number;
+    private readonly pageSize: number;
+
+    constructor(log: Log, hasher: Pick<PerceptualHasher, 'hashImage' | 'hashVideo'>, options: CreativeHasherOptions = {}) {
+        this.log = log;
+        this.hasher = hasher;
+        this.mediaStore = options.mediaStore;
+        this.frameCount = options.frameCount ?? 4;
+        this.pageSize = options.pageSize ?? 200;
+    }
+
+    /**
+     * Hashes the cover and video of an ad
+     * @param adId - Ad the video belongs to
+     * @param video - Video with its cover URL and downloaded files
+     * @returns Hashes to store
+     * @throws Error when neither the cover nor the video could be hashed
+     */
+    async hashCreative(adId: string, video: VideoInfo): Promise<CreativeFingerprintData> {
+        const errors: string[] = [];
+
+        let coverHash: string | undefined;
+        try {
+            const cover = video.coverPath && this.mediaStore ? await this.mediaStore.get(video.coverPath) : video.cover;
+            if (cover) coverHash = await this.hasher.hashImage(cover) ?? undefined;
+        } catch (error) {
+            errors.push((error as Error).message);
+        }
+
+        let frameHashes: string[] = [];
+        if (video.videoPath && this.mediaStore && this.frameCount > 0) {
+            try {
+                frameHashes = await this.hasher.hashVideo(await this.mediaStore.get(video.videoPath), video.duration, this.frameCount);
+            } catch (error) {
+                errors.push((error as Error).message);
+            }
+        }
+
+        if (errors.length > 0 && !coverHash && frameHashes.length === 0) {
+            throw new Error(`Failed to hash creative of ad ${adId}: ${errors.join('; ')}`);
+        }
+        return { adId, coverHash, frameHashes, hashedAt: new Date() };
+    }
+
+    /**
+     * Hashes every stored ad with a video. Hashed ads are skipped, unless their video was downloaded since.
+     * @param db - Database to read the ads from and store the hashes in
+     * @returns Counts of hashed, skipped and failed ads
+     */
+    async hashAds(db: Pick<IDatabase, 'findAds' | 'findCreativeFingerprints' | 'upsertCreativeFingerprint'>): Promise<CreativeHashStats> {
+        const existing = new Map((await db.findCreativeFingerprints()).map(fingerprint => [fingerprint.adId, fingerprint]));
+        const stats: CreativeHashStats = { ads: 0, hashed: 0, unchanged: 0, failed: 0 };
+
+        for (let afterId: string | undefined; ;) {
+            const ads = await db.findAds({ afterId, limit: this.pageSize });
+            if (ads.length === 0) break;
+            afterId = ads[ads.length - 1].id;
+
+            for (const ad of ads) {
+                if (!ad.videoInfo) continue;
+                stats.ads++;
+
+                const fingerprint = existing.get(ad.id);
+                const framesMissing = this.mediaStore && ad.videoInfo.videoPath && fingerprint?.frameHashes.length === 0;
+                if (fingerprint && !framesMissing) {
+                    stats.unchanged++;
+                    continue;
+                }
+
+                try {
+                    await db.upsertCreativeFingerprint(await this.hashCreative(ad.id, ad.videoInfo));
+                    stats.hashed++;
+                } catch (error) {
+                    this.log.error('Error hashing ad creative:', { adId: ad.id, error: (error as Error).message });
+                    stats.failed++;
+                }
+            }
+        }
+
+        return stats;
+    }
+}
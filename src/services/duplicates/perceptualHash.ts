@@ -0,0 +1,79 @@
+/**
+ * Side of the grayscale image a hash is computed from (px)
+ */
+export const PHASH_IMAGE_SIZE = 32;
+
+/**
+ * Low-frequency DCT coefficients kept per axis; 8 x 8 gives a 64-bit hash
+ */
+const PHASH_FREQUENCIES = 8;
+
+/**
+ * Images whose pixels deviate less than this from their mean (0-255) are solid frames
+ * such as black intros; they would match each other regardless of the creative
+ */
+const MIN_PIXEL_DEVIATION = 2;
+
+/**
+ * cos((2x + 1) u pi / 2N) for the kept frequencies u and every pixel x
+ */
+const COSINES = Array.from({ length: PHASH_FREQUENCIES }, (_, u) =>
+    Float64Array.from({ length: PHASH_IMAGE_SIZE }, (_, x) => Math.cos(((2 * x + 1) * u * Math.PI) / (2 * PHASH_IMAGE_SIZE))));
+
+/**
+ * Computes the DCT perceptual hash of a grayscale image. Re-encoded, rescaled or slightly
+ * recoloured copies of an image get hashes that differ in only a few bits.
+ * @param pixels - 32 x 32 grayscale pixels, row by row
+ * @returns 64-bit hash as 16 hex digits, or null for a solid image
+ */
+export function computePerceptualHash(pixels: Uint8Array): string | null {
+    const size = PHASH_IMAGE_SIZE;
+    if (pixels.length !== size * size) {
+        throw new Error(`Failed to hash image: expected ${size * size} pixels, got ${pixels.length}`);
+    }
+
+    const mean = pixels.reduce((sum, value) => sum + value, 0) / pixels.length;
+    const variance = pixels.reduce((sum, value) => sum + (value - mean) ** 2, 0) / pixels.length;
+    if (Math.sqrt(variance) < MIN_PIXEL_DEVIATION) return null;
+
+    // Separable 2D DCT-II, limited to the low frequencies: rows first, then columns
+    const rows = Array.from({ length: size }, (_, y) => COSINES.map(cosines => {
+        let sum = 0;
+        for (let x = 0; x < size; x++) sum += pixels[y * size + x] * cosines[x];
+        return sum;
+    }));
+    const coefficients: number[] = [];
+    for (let v = 0; v < PHASH_FREQUENCIES; v++) {
+        for (let u = 0; u < PHASH_FREQUENCIES; u++) {
+            let sum = 0;
+            for (let y = 0; y < size; y++) sum += rows[y][u] * COSINES[v][y];
+            coefficients.push(sum);
+        }
+    }
+
+    // The DC coefficient only reflects the brightness, so it is left out of the median
+    const sorted = coefficients.slice(1).sort((a, b) => a - b);
+    const median = (sorted[31] + sorted[32]) / 2;
+
+    let hash = 0n;
+    for (const coefficient of coefficients) {
+        hash = (hash << 1n) | (coefficient > median ? 1n : 0n);
+    }
+    return hash.toString(16).padStart(16, '0');
+}
+
+/**
+ * Counts the bits two hashes differ in
+ * @param a - Hash as hex digits
+ * @param b - Hash as hex digits
+ * @returns Hamming distance, 0 for identical hashes
+ */
+export function hammingDistance(a: string, b: string): number {
+    let difference = BigInt(`0x${a}`) ^ BigInt(`0x${b}`);
+    let count = 0;
+    while (difference > 0n) {
+        difference &= difference - 1n;
+        count++;
+    }
+    return count;
+}
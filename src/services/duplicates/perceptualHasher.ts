@@ -0,0 +1,105 @@
+import fs from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { execFile } from 'child_process';
+import { computePerceptualHash, PHASH_IMAGE_SIZE } from './perceptualHash.js';
+
+/**
+ * Options for creating a PerceptualHasher
+ */
+export interface PerceptualHasherOptions {
+    /**
+     * ffmpeg executable
+     */
+    ffmpegPath?: string;
+    /**
+     * Time limit per decoded frame (ms)
+     */
+    timeoutMs?: number;
+}
+
+/**
+ * Hashes cover images and video frames, decoded and scaled down to grayscale with ffmpeg
+ */
+export class PerceptualHasher {
+    private readonly ffmpegPath: string;
+    private readonly timeoutMs: number;
+
+    constructor(options: PerceptualHasherOptions = {}) {
+        this.ffmpegPath = options.ffmpegPath ?? 'ffmpeg';
+        this.timeoutMs = options.timeoutMs ?? 30000;
+    }
+
+    /**
+     * Hashes an image
+     * @param source - Image URL, file path or content
+     * @returns Hash, or null for a solid image
+     */
+    async hashImage(source: string | Buffer): Promise<string | null> {
+        try {
+            return computePerceptualHash(await this.decode(source));
+        } catch (error) {
+            throw new Error(`Failed to hash image: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Hashes frames at evenly spaced points of a video, skipping the first and last moments
+     * where intros and end cards are often shared between unrelated creatives
+     * @param source - Video URL, file path or content
+     * @param durationSec - Video duration, used to place the frames
+     * @param count - Number of frames
+     * @returns Hashes of the frames with detail, in playback order
+     */
+    async hashVideo(source: string | Buffer, durationSec: number, count: number): Promise<string[]> {
+        if (count <= 0) return [];
+
+        // Seeking needs a file, so downloaded content is written to a temporary one
+        const dir = typeof source === 'string' ? null : await fs.mkdtemp(path.join(os.tmpdir(), 'ad-hash-'));
+        try {
+            const input = dir ? path.join(dir, 'video') : source as string;
+            if (dir) await fs.writeFile(input, source);
+
+            const hashes: string[] = [];
+            for (let i = 0; i < count; i++) {
+                const hash = computePerceptualHash(await this.decode(input, ((i + 0.5) / count) * Math.max(durationSec, 1)));
+                if (hash) hashes.push(hash);
+            }
+            return hashes;
+        } catch (error) {
+            throw new Error(`Failed to hash video frames: ${(error as Error).message}`);
+        } finally {
+            if (dir) await fs.rm(dir, { recursive: true, force: true });
+        }
+    }
+
+    /**
+     * Decodes one frame into 32 x 32 grayscale pixels
+     * @private
+     */
+    private decode(source: string | Buffer, seekSec?: number): Promise<Uint8Array> {
+        const args = [
+            '-hide_banner', '-loglevel', 'error',
+            ...(seekSec !== undefined ? ['-ss', seekSec.toFixed(2)] : []),
+            '-i', typeof source === 'string' ? source : 'pipe:0',
+            '-vf', `scale=${PHASH_IMAGE_SIZE}:${PHASH_IMAGE_SIZE}:flags=area,format=gray`,
+            '-frames:v', '1',
+            '-f', 'rawvideo', 'pipe:1'
+        ];
+
+        return new Promise((resolve, reject) => {
+            const child = execFile(this.ffmpegPath, args, { encoding: 'buffer', timeout: this.timeoutMs }, (error, stdout) => {
+                if (error) {
+                    reject(error);
+                } else if (stdout.length !== PHASH_IMAGE_SIZE * PHASH_IMAGE_SIZE) {
+                    reject(new Error(seekSec !== undefined ? `no frame at ${seekSec.toFixed(2)}s` : 'no frame decoded'));
+                } else {
+                    resolve(new Uint8Array(stdout));
+                }
+            });
+            // ffmpeg may stop reading early; its exit status reports the actual problem
+            child.stdin?.on('error', () => {});
+            child.stdin?.end(typeof source === 'string' ? undefined : source);
+        });
+    }
+}
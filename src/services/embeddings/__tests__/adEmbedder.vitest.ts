@@ -0,0 +1,129 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import type { Log } from 'crawlee';
+import { LlmService } from '../../../ai_service/llm/llmService.js';
+import { StubLlmProvider } from '../../../ai_service/llm/providers/stubProvider.js';
+import { AdEmbedder } from '../adEmbedder.js';
+import { AdVectorIndex } from '../adVectorIndex.js';
+import { AdSimilaritySearch } from '../adSimilaritySearch.js';
+import type { AdAnalysisData, AdData, AdSnapshotData } from '../../database/types.js';
+import type { MediaStore } from '../../media/mediaStore.js';
+
+const mockLog = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn()
+} as unknown as Log;
+
+const ad = (id: string, adTitle: string, countryCode = 'US', videoInfo?: AdData['videoInfo']): AdData => ({
+  id,
+  countryCode,
+  creativeId: id,
+  advertiserId: 'brand',
+  advertiserName: 'Brand',
+  metadata: { adTitle, industryKey: 'label_beauty' },
+  videoInfo
+});
+
+const analysis = (adId: string, hookType: string, productCategory: string): AdAnalysisData => ({
+  adId,
+  hookType,
+  offer: 'discount',
+  tone: 'energetic',
+  productCategory,
+  cta: 'shop_now',
+  summary: `A ${productCategory} ad`,
+  model: 'stub',
+  frameCount: 0,
+  raw: {}
+});
+
+const ads = [
+  ad('ad-1', 'Glow serum for dry skin'),
+  ad('ad-2', 'Hydrating serum for dry skin', 'GB'),
+  ad('ad-3', 'Protein powder for gym days'),
+  ad('ad-4', 'Running shoes for marathon training')
+];
+
+const analyses = [
+  analysis('ad-1', 'testimonial', 'skincare'),
+  analysis('ad-2', 'testimonial', 'skincare'),
+  analysis('ad-3', 'problem_solution', 'supplements')
+];
+
+/**
+ * Database holding the ads above, paged by ID like the real implementations
+ */
+const createDb = (items: AdData[] = ads) => ({
+  findAds: vi.fn(async ({ afterId, limit = 100 }: { afterId?: string; limit?: number } = {}) =>
+    items.filter(item => afterId === undefined || item.id > afterId).slice(0, limit)),
+  findAdAnalyses: vi.fn(async () => analyses),
+  findAdById: vi.fn(async (id: string) => items.find(item => item.id === id) ?? null),
+  findAdSnapshots: vi.fn(async (adId: string) => [{ adId, filterContext: { period: '7' } }, { adId, filterContext: { period: '30' } }] as AdSnapshotData[])
+});
+
+describe('AdEmbedder', () => {
+  let dir: string;
+  let llm: LlmService;
+
+  beforeEach(() => {
+    dir = fs.mkdtempSync(path.join(os.tmpdir(), 'embeddings-'));
+    llm = new LlmService(mockLog, new StubLlmProvider(), { defaultModel: 'stub', defaultEmbeddingModel: 'stub-embedding' });
+  });
+
+  afterEach(() => {
+    fs.rmSync(dir, { recursive: true, force: true });
+  });
+
+  it('should embed titles and analyses and skip unchanged texts on the next run', async () => {
+    const index = await AdVectorIndex.open(path.join(dir, 'index.json'));
+    const db = createDb();
+    const embedder = new AdEmbedder(mockLog, llm, index, { batchSize: 2, pageSize: 3 });
+
+    expect(await embedder.indexAds(db)).toEqual({ ads: 4, embedded: 7, unchanged: 0, failed: 0 });
+    expect(db.findAds).toHaveBeenCalledWith({ afterId: 'ad-3', limit: 3 });
+    await index.save();
+
+    const reopened = await AdVectorIndex.open(path.join(dir, 'index.json'));
+    expect(reopened.model).toBe('stub-embedding');
+    expect(await new AdEmbedder(mockLog, llm, reopened).indexAds(db)).toEqual({ ads: 4, embedded: 0, unchanged: 7, failed: 0 });
+  });
+
+  it('should caption downloaded covers once', async () => {
+    const index = await AdVectorIndex.open(path.join(dir, 'index.json'));
+    const videoInfo = { vid: 'v-1', duration: 10, cover: '', width: 720, height: 1280, coverPath: 'media/ab/cover.jpg', coverChecksum: 'abc' };
+    const db = createDb([ad('ad-1', 'Glow serum', 'US', videoInfo)]);
+    const mediaStore = { put: vi.fn(), get: vi.fn().mockResolvedValue(Buffer.from('cover')) } as unknown as MediaStore;
+    const generateText = vi.spyOn(llm, 'generateText');
+    const embedder = new AdEmbedder(mockLog, llm, index, { mediaStore });
+
+    await embedder.indexAds(db);
+    await embedder.indexAds(db);
+
+    expect(mediaStore.get).toHaveBeenCalledWith('media/ab/cover.jpg');
+    expect(generateText).toHaveBeenCalledTimes(1);
+    expect(index.getVector('ad-1', 'cover')).not.toBeNull();
+  });
+
+  it('should find similar ads with their details and apply filters', async () => {
+    const index = await AdVectorIndex.open(path.join(dir, 'index.json'));
+    const db = createDb();
+    await new AdEmbedder(mockLog, llm, index).indexAds(db);
+    const search = new AdSimilaritySearch(llm, index, db);
+
+    const [similar] = await search.similarToAd('ad-1', { limit: 1 });
+    expect(similar).toMatchObject({ adId: 'ad-2', payload: { hookType: 'testimonial', countryCode: 'GB' }, filterContext: { period: '30' } });
+    expect(similar.ad?.id).toBe('ad-2');
+
+    const filtered = await search.similarToAd('ad-1', { filter: { countryCode: 'US' } });
+    expect(filtered.map(result => result.adId)).not.toContain('ad-2');
+
+    const [byText] = await search.search('protein powder', { kinds: ['title'] });
+    expect(byText).toMatchObject({ adId: 'ad-3', matchedBy: 'title' });
+
+    await expect(search.similarToAd('missing')).rejects.toThrow('not in the embedding index');
+  });
+});
@@ -0,0 +1,82 @@
+import { describe, it, expect } from 'vitest';
+import { HnswIndex } from '../hnswIndex.js';
+
+/**
+ * Deterministic pseudo-random vectors
+ */
+const createVectors = (count: number, dimensions: number) => {
+  let seed = 42;
+  const random = () => {
+    seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+    return seed / 0x100000000 - 0.5;
+  };
+  return Array.from({ length: count }, () => Array.from({ length: dimensions }, random));
+};
+
+const cosine = (a: number[], b: number[]) => {
+  const dot = a.reduce((sum, value, i) => sum + value * b[i], 0);
+  return dot / Math.sqrt(a.reduce((sum, value) => sum + value * value, 0) * b.reduce((sum, value) => sum + value * value, 0));
+};
+
+describe('HnswIndex', () => {
+  const vectors = createVectors(500, 16);
+  const index = new HnswIndex({ m: 8, efConstruction: 64 });
+  vectors.forEach((vector, i) => index.add(`ad-${i}`, vector));
+
+  it('should find nearly all exact nearest neighbours', () => {
+    let found = 0;
+    const queries = createVectors(20, 16);
+    for (const query of queries) {
+      const exact = vectors
+        .map((vector, i) => ({ id: `ad-${i}`, score: cosine(query, vector) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, 10)
+        .map(match => match.id);
+      const approximate = index.search(query, 10).map(match => match.id);
+      found += approximate.filter(id => exact.includes(id)).length;
+    }
+
+    expect(found / (queries.length * 10)).toBeGreaterThan(0.9);
+  });
+
+  it('should find a stored vector first with similarity 1', () => {
+    const [match] = index.search(vectors[123], 1);
+
+    expect(match.id).toBe('ad-123');
+    expect(match.score).toBeCloseTo(1, 5);
+  });
+
+  it('should only return matches passing the filter', () => {
+    const matches = index.search(vectors[0], 5, { filter: id => id.endsWith('7') });
+
+    expect(matches).toHaveLength(5);
+    expect(matches.every(match => match.id.endsWith('7'))).toBe(true);
+  });
+
+  it('should replace vectors and survive serialization', () => {
+    const copy = HnswIndex.fromJSON(JSON.parse(JSON.stringify(index.toJSON())));
+    copy.add('ad-1', vectors[2]);
+
+    expect(copy.size).toBe(500);
+    expect(copy.search(vectors[2], 2).map(match => match.id).sort()).toEqual(['ad-1', 'ad-2']);
+    expect(copy.deletedRatio).toBeGreaterThan(0);
+
+    copy.compact();
+    expect(copy.deletedRatio).toBe(0);
+    expect(copy.search(vectors[300], 1)[0].id).toBe('ad-300');
+  });
+
+  it('should find a vector that replaced the only vector of the index', () => {
+    const single = new HnswIndex();
+    single.add('a', [1, 0, 0]);
+    single.add('a', [0.9, 0.1, 0]);
+    single.add('b', [0, 1, 0]);
+
+    expect(single.size).toBe(2);
+    expect(single.search([1, 0, 0], 5).map(match => match.id)).toEqual(['a', 'b']);
+  });
+
+  it('should reject vectors of other dimensions', () => {
+    expect(() => index.add('other', [1, 2, 3])).toThrow('expected 16 dimensions, got 3');
+  });
+});
@@ -0,0 +1,226 @@
+import { createHash } from 'crypto';
+import { Log } from 'crawlee';
+import type { LlmService } from '../../ai_service/llm/llmService.js';
+import type { AdAnalysisData, AdData, IDatabase } from '../database/types.js';
+import type { MediaStore } from '../media/mediaStore.js';
+import type { AdEmbeddingKind, AdVectorIndex, AdVectorPayload } from './adVectorIndex.js';
+
+/**
+ * Task name of embedding requests, e.g. for `LLM_MODELS="embeddings=..."`
+ */
+export const EMBEDDING_TASK = 'embeddings';
+
+/**
+ * Task name of cover captioning requests
+ */
+export const COVER_CAPTION_TASK = 'cover_caption';
+
+/**
+ * Model the ad texts are sent to
+ */
+export type AdEmbeddingModel = Pick<LlmService, 'embed' | 'generateText' | 'getEmbeddingModel'>;
+
+/**
+ * Options for creating an AdEmbedder
+ */
+export interface AdEmbedderOptions {
+    /**
+     * Store of the downloaded covers; covers are captioned and indexed when set
+     */
+    mediaStore?: MediaStore;
+    /**
+     * Texts sent per embedding request (default 32)
+     */
+    batchSize?: number;
+    /**
+     * Ads read from the database at a time (default 200)
+     */
+    pageSize?: number;
+}
+
+/**
+ * Outcome of AdEmbedder.indexAds
+ */
+export interface AdEmbeddingStats {
+    ads: number;
+    embedded: number;
+    unchanged: number;
+    failed: number;
+}
+
+/**
+ * @private
+ */
+interface PendingText {
+    adId: string;
+    kind: AdEmbeddingKind;
+    text: string;
+    hash: string;
+}
+
+const COVER_PROMPT = 'Describe this ad cover in one or two sentences: the product, the people and setting shown, and any text on it.';
+
+/**
+ * Vectorizes the titles, analyses and optionally the covers of the stored ads into the vector index.
+ * Vectors are only computed again when their text changed, so the whole table can be indexed on every run.
+ */
+export class AdEmbedder {
+    private readonly log: Log;
+    private readonly llm: AdEmbeddingModel;
+    private readonly index: AdVectorIndex;
+    private readonly mediaStore?: MediaStore;
+    private readonly batchSize: number;
+    private readonly pageSize: number;
+
+    constructor(log: Log, llm: AdEmbeddingModel, index: AdVectorIndex, options: AdEmbedderOptions = {}) {
+        this.log = log;
+        this.llm = llm;
+        this.index = index;
+        this.mediaStore = options.mediaStore;
+        this.batchSize = options.batchSize ?? 32;
+        this.pageSize = options.pageSize ?? 200;
+    }
+
+    /**
+     * Indexes every stored ad; the index is not saved
+     * @param db - Database with the ads and their analyses
+     * @returns Counts of the ads and vectors
+     */
+    async indexAds(db: Pick<IDatabase, 'findAds' | 'findAdAnalyses'>): Promise<AdEmbeddingStats> {
+        const model = this.llm.getEmbeddingModel(EMBEDDING_TASK);
+        if (model && this.index.model !== model) {
+            if (this.index.size > 0) {
+                this.log.warning('Embedding model changed, indexing all ads again', { from: this.index.model, to: model });
+            }
+            this.index.reset(model);
+        }
+
+        const analyses = new Map((await db.findAdAnalyses()).map(analysis => [analysis.adId, analysis]));
+        const stats: AdEmbeddingStats = { ads: 0, embedded: 0, unchanged: 0, failed: 0 };
+
+        for (let afterId: string | undefined; ;) {
+            const ads = await db.findAds({ afterId, limit: this.pageSize });
+            if (ads.length === 0) break;
+            afterId = ads[ads.length - 1].id;
+
+            const pending: PendingText[] = [];
+            for (const ad of ads) {
+                const analysis = analyses.get(ad.id);
+                this.index.setPayload(ad.id, toPayload(ad, analysis));
+                stats.ads++;
+
+                for (const [kind, text] of [['title', getTitle(ad)], ['analysis', analysis && toAnalysisText(analysis)]] as const) {
+                    if (!text) continue;
+                    const hash = createHash('sha256').update(text).digest('hex');
+                    if (this.index.getHash(ad.id, kind) === hash) {
+                        stats.unchanged++;
+                    } else {
+                        pending.push({ adId: ad.id, kind, text, hash });
+                    }
+                }
+
+                const cover = await this.captionCover(ad);
+                if (cover === 'unchanged') stats.unchanged++;
+                else if (cover) pending.push(cover);
+            }
+
+            for (let i = 0; i < pending.length; i += this.batchSize) {
+                const batch = pending.slice(i, i + this.batchSize);
+                try {
+                    const { value: vectors } = await this.llm.embed(EMBEDDING_TASK, batch.map(item => item.text));
+                    batch.forEach((item, j) => this.index.upsert(item.adId, item.kind, vectors[j], item.hash));
+                    stats.embedded += batch.length;
+                } catch (error) {
+                    this.log.error('Error embedding ad texts:', { count: batch.length, error: (error as Error).message });
+                    stats.failed += batch.length;
+                }
+            }
+            this.log.info('Indexed ads', { ...stats });
+        }
+
+        return stats;
+    }
+
+    /**
+     * Captions the downloaded cover; the checksum of the file stands in for the hash of the caption,
+     * so unchanged covers are not captioned again
+     * @private
+     */
+    private async captionCover(ad: AdData): Promise<PendingText | 'unchanged' | null> {
+        const { coverPath, coverChecksum } = ad.videoInfo ?? {};
+        if (!this.mediaStore || !coverPath || !coverChecksum) return null;
+        if (this.index.getHash(ad.id, 'cover') === coverChecksum) return 'unchanged';
+
+        try {
+            const data = await this.mediaStore.get(coverPath);
+            const { value: caption } = await this.llm.generateText(COVER_CAPTION_TASK, [COVER_PROMPT, { mimeType: getImageMimeType(coverPath), data }]);
+            return caption.trim() ? { adId: ad.id, kind: 'cover', text: caption.trim(), hash: coverChecksum } : null;
+        } catch (error) {
+            this.log.warning('Could not caption cover:', { adId: ad.id, error: (error as Error).message });
+            return null;
+        }
+    }
+}
+
+/**
+ * Covers are stored with the extension of their content type
+ * @private
+ */
+function getImageMimeType(filePath: string): string {
+    const extension = filePath.split('.').pop()?.toLowerCase();
+    return extension === 'png' || extension === 'webp' || extension === 'heic' ? `image/${extension}` : 'image/jpeg';
+}
+
+/**
+ * @private
+ */
+function getMetadata(ad: AdData): Record<string, unknown> {
+    return ad.metadata && typeof ad.metadata === 'object' && !Array.isArray(ad.metadata) ? ad.metadata as Record<string, unknown> : {};
+}
+
+/**
+ * @private
+ */
+function getTitle(ad: AdData): string {
+    const title = getMetadata(ad).adTitle;
+    return typeof title === 'string' ? title.trim() : '';
+}
+
+/**
+ * Labels are written out, so a query such as "testimonial skincare ad" lands near them
+ * @private
+ */
+function toAnalysisText(analysis: AdAnalysisData): string {
+    const label = (value: string) => value.replace(/_/g, ' ');
+    return [
+        analysis.summary,
+        `Hook: ${label(analysis.hookType)}.`,
+        `Offer: ${label(analysis.offer)}.`,
+        `Tone: ${label(analysis.tone)}.`,
+        `Product category: ${analysis.productCategory}.`,
+        `Call to action: ${label(analysis.cta)}.`
+    ].filter(Boolean).join(' ');
+}
+
+/**
+ * @private
+ */
+function toPayload(ad: AdData, analysis?: AdAnalysisData): AdVectorPayload {
+    const metadata = getMetadata(ad);
+    const text = (value: unknown) => typeof value === 'string' && value ? value : undefined;
+
+    return {
+        countryCode: ad.countryCode,
+        advertiserName: ad.advertiserName,
+        title: text(metadata.adTitle),
+        industryKey: text(metadata.industryKey),
+        objectiveKey: text(metadata.objectiveKey),
+        ...(analysis && {
+            hookType: analysis.hookType,
+            offer: analysis.offer,
+            tone: analysis.tone,
+            productCategory: analysis.productCategory,
+            cta: analysis.cta
+        })
+    };
+}
@@ -0,0 +1,124 @@
+import type { LlmService } from '../../ai_service/llm/llmService.js';
+import type { AdData, IDatabase } from '../database/types.js';
+import { EMBEDDING_TASK } from './adEmbedder.js';
+import { AD_EMBEDDING_KINDS, AdEmbeddingKind, AdVectorFilter, AdVectorIndex, AdVectorPayload } from './adVectorIndex.js';
+
+/**
+ * Options of a similarity search
+ */
+export interface AdSearchOptions {
+    /**
+     * Number of ads (default 10)
+     */
+    limit?: number;
+    /**
+     * Vectors to compare; all kinds by default
+     */
+    kinds?: readonly AdEmbeddingKind[];
+    /**
+     * Country, advertiser, industry or analysis labels the ads must have
+     */
+    filter?: AdVectorFilter;
+}
+
+/**
+ * Ad found by a similarity search
+ */
+export interface AdSearchResult {
+    adId: string;
+    /**
+     * Cosine similarity, from -1 to 1
+     */
+    score: number;
+    /**
+     * Vector that matched best: the title, the analysis or the cover caption
+     */
+    matchedBy: AdEmbeddingKind;
+    /**
+     * Indexed fields: title, country, industry and analysis labels
+     */
+    payload: AdVectorPayload;
+    /**
+     * Stored ad, or null when it was removed from the database
+     */
+    ad: AdData | null;
+    /**
+     * Filters of the latest list request the ad was found with (period, language, sort order, ...)
+     */
+    filterContext?: unknown;
+}
+
+/**
+ * Finds ads similar to a stored ad or to a text query, and reads their details from the database
+ */
+export class AdSimilaritySearch {
+    private readonly llm: Pick<LlmService, 'embed' | 'getEmbeddingModel'>;
+    private readonly index: AdVectorIndex;
+    private readonly db: Pick<IDatabase, 'findAdById' | 'findAdSnapshots'>;
+
+    constructor(llm: Pick<LlmService, 'embed' | 'getEmbeddingModel'>, index: AdVectorIndex, db: Pick<IDatabase, 'findAdById' | 'findAdSnapshots'>) {
+        this.llm = llm;
+        this.index = index;
+        this.db = db;
+    }
+
+    /**
+     * Finds the ads closest to a stored ad, comparing each of its vectors with the same kind of vector
+     * @param adId - Ad to compare with
+     * @param options - Number of ads, kinds and filter
+     * @returns Ads, most similar first; the ad itself is left out
+     * @throws Error when the ad is not indexed
+     */
+    async similarToAd(adId: string, options: AdSearchOptions = {}): Promise<AdSearchResult[]> {
+        const limit = options.limit ?? 10;
+        const best = new Map<string, { score: number; kind: AdEmbeddingKind; payload: AdVectorPayload }>();
+        let indexed = false;
+
+        for (const kind of options.kinds ?? AD_EMBEDDING_KINDS) {
+            const vector = this.index.getVector(adId, kind);
+            if (!vector) continue;
+            indexed = true;
+
+            for (const match of this.index.search(vector, { limit, kinds: [kind], filter: options.filter, excludeAdId: adId })) {
+                if ((best.get(match.adId)?.score ?? -Infinity) < match.score) {
+                    best.set(match.adId, match);
+                }
+            }
+        }
+        if (!indexed) {
+            throw new Error(`Ad ${adId} is not in the embedding index; run "npm run embeddings -- index" first`);
+        }
+
+        const matches = [...best.entries()]
+            .map(([id, match]) => ({ adId: id, ...match }))
+            .sort((a, b) => b.score - a.score)
+            .slice(0, limit);
+        return this.withDetails(matches);
+    }
+
+    /**
+     * Finds the ads closest to a text, e.g. "skincare ads with testimonial hooks"
+     * @param query - Text to embed
+     * @param options - Number of ads, kinds and filter
+     * @returns Ads, most similar first
+     */
+    async search(query: string, options: AdSearchOptions = {}): Promise<AdSearchResult[]> {
+        const model = this.llm.getEmbeddingModel(EMBEDDING_TASK);
+        if (this.index.model && model !== this.index.model) {
+            throw new Error(`Failed to search: the index was built with ${this.index.model}, but ${model} is configured; run "npm run embeddings -- index" first`);
+        }
+
+        const { value: [vector] } = await this.llm.embed(EMBEDDING_TASK, [query]);
+        return this.withDetails(this.index.search(vector, { limit: options.limit ?? 10, kinds: options.kinds, filter: options.filter }));
+    }
+
+    /**
+     * @private
+     */
+    private async withDetails(matches: Array<{ adId: string; score: number; kind: AdEmbeddingKind; payload: AdVectorPayload }>): Promise<AdSearchResult[]> {
+        return Promise.all(matches.map(async ({ adId, score, kind, payload }) => {
+            const [ad, snapshots] = await Promise.all([this.db.findAdById(adId), this.db.findAdSnapshots(adId)]);
+            return { adId, score, matchedBy: kind, payload, ad, filterContext: snapshots.at(-1)?.filterContext };
+        }));
+    }
+}
@@ -0,0 +1,215 @@
+import fs from 'fs/promises';
+import path from 'path';
+import type { AdAnalysisLabels } from '../database/types.js';
+import { HnswIndex, HnswSnapshot } from './hnswIndex.js';
+
+/**
+ * Text of an ad a vector is computed from
+ */
+export type AdEmbeddingKind = 'title' | 'analysis' | 'cover';
+
+export const AD_EMBEDDING_KINDS: readonly AdEmbeddingKind[] = ['title', 'analysis', 'cover'];
+
+/**
+ * Fields of an ad kept next to its vectors, so searches can be filtered without the database
+ */
+export interface AdVectorPayload extends Partial<AdAnalysisLabels> {
+    countryCode: string;
+    advertiserName: string;
+    title?: string;
+    industryKey?: string;
+    objectiveKey?: string;
+}
+
+/**
+ * Payload fields a match must equal; unset fields match any value
+ */
+export type AdVectorFilter = Partial<Omit<AdVectorPayload, 'title'>>;
+
+/**
+ * Ad found by AdVectorIndex.search
+ */
+export interface AdVectorMatch {
+    adId: string;
+    /**
+     * Cosine similarity of the best matching vector
+     */
+    score: number;
+    /**
+     * Kind of the best matching vector
+     */
+    kind: AdEmbeddingKind;
+    payload: AdVectorPayload;
+}
+
+/**
+ * @private
+ */
+interface IndexedAd {
+    payload: AdVectorPayload;
+    /**
+     * Hash of the content each vector was computed from, to skip unchanged ads when re-indexing
+     */
+    hashes: Partial<Record<AdEmbeddingKind, string>>;
+}
+
+/**
+ * @private
+ */
+interface AdVectorIndexFile {
+    version: 1;
+    model?: string;
+    ads: Record<string, IndexedAd>;
+    graphs: Partial<Record<AdEmbeddingKind, HnswSnapshot>>;
+}
+
+/**
+ * Vectors of ad titles, analyses and cover captions, one HNSW graph per kind, stored in a JSON file
+ */
+export class AdVectorIndex {
+    private readonly filePath: string;
+    private readonly ads: Map<string, IndexedAd>;
+    private readonly graphs: Record<AdEmbeddingKind, HnswIndex>;
+    private embeddingModel?: string;
+
+    private constructor(filePath: string, file?: AdVectorIndexFile) {
+        this.filePath = filePath;
+        this.embeddingModel = file?.model;
+        this.ads = new Map(Object.entries(file?.ads ?? {}));
+        this.graphs = Object.fromEntries(AD_EMBEDDING_KINDS.map(kind => {
+            const snapshot = file?.graphs[kind];
+            return [kind, snapshot ? HnswIndex.fromJSON(snapshot) : new HnswIndex()];
+        })) as Record<AdEmbeddingKind, HnswIndex>;
+    }
+
+    /**
+     * Opens the index file, or an empty index when it does not exist yet
+     * @param filePath - Index file
+     * @returns Index
+     */
+    static async open(filePath: string): Promise<AdVectorIndex> {
+        let content: string;
+        try {
+            content = await fs.readFile(filePath, 'utf8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code === 'ENOENT') return new AdVectorIndex(filePath);
+            throw new Error(`Failed to open embedding index: ${(error as Error).message}`);
+        }
+
+        try {
+            return new AdVectorIndex(filePath, JSON.parse(content) as AdVectorIndexFile);
+        } catch (error) {
+            throw new Error(`Failed to open embedding index: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * Embedding model the vectors were computed with; vectors of different models cannot be compared
+     */
+    get model(): string | undefined {
+        return this.embeddingModel;
+    }
+
+    /**
+     * Number of indexed ads
+     */
+    get size(): number {
+        return this.ads.size;
+    }
+
+    /**
+     * Drops every vector, e.g. before re-indexing with another model
+     * @param model - Model of the vectors added next
+     */
+    reset(model: string): void {
+        this.embeddingModel = model;
+        this.ads.clear();
+        for (const kind of AD_EMBEDDING_KINDS) {
+            this.graphs[kind] = new HnswIndex();
+        }
+    }
+
+    /**
+     * @returns Hash of the content the vector of the ad was computed from, or undefined
+     */
+    getHash(adId: string, kind: AdEmbeddingKind): string | undefined {
+        return this.ads.get(adId)?.hashes[kind];
+    }
+
+    /**
+     * @returns Normalized vector of the ad, or null
+     */
+    getVector(adId: string, kind: AdEmbeddingKind): Float32Array | null {
+        return this.graphs[kind].get(adId);
+    }
+
+    /**
+     * Stores the filterable fields of an ad
+     */
+    setPayload(adId: string, payload: AdVectorPayload): void {
+        const ad = this.ads.get(adId);
+        this.ads.set(adId, { payload, hashes: ad?.hashes ?? {} });
+    }
+
+    /**
+     * Adds or replaces a vector of an ad whose payload is set
+     * @param adId - Ad ID
+     * @param kind - Text the vector was computed from
+     * @param vector - Embedding
+     * @param hash - Hash of the text
+     */
+    upsert(adId: string, kind: AdEmbeddingKind, vector: number[], hash: string): void {
+        const ad = this.ads.get(adId);
+        if (!ad) {
+            throw new Error(`Failed to index ad ${adId}: its payload is not set`);
+        }
+        this.graphs[kind].add(adId, vector);
+        ad.hashes[kind] = hash;
+    }
+
+    /**
+     * Finds the ads with the vectors most similar to the query
+     * @param vector - Query vector
+     * @param options - Number of ads, kinds to search, payload filter and an ad to leave out
+     * @returns Ads by their best matching vector, most similar first
+     */
+    search(vector: ArrayLike<number>, options: { limit: number; kinds?: readonly AdEmbeddingKind[]; filter?: AdVectorFilter; excludeAdId?: string }): AdVectorMatch[] {
+        const conditions = Object.entries(options.filter ?? {}).filter(([, value]) => value !== undefined);
+        const accept = (adId: string) => {
+            if (adId === options.excludeAdId) return false;
+            const payload = this.ads.get(adId)?.payload as Record<string, unknown> | undefined;
+            return Boolean(payload) && conditions.every(([key, value]) => payload![key] === value);
+        };
+
+        const best = new Map<string, AdVectorMatch>();
+        for (const kind of options.kinds ?? AD_EMBEDDING_KINDS) {
+            for (const match of this.graphs[kind].search(vector, options.limit, { filter: accept })) {
+                if ((best.get(match.id)?.score ?? -Infinity) < match.score) {
+                    best.set(match.id, { adId: match.id, score: match.score, kind, payload: this.ads.get(match.id)!.payload });
+                }
+            }
+        }
+        return [...best.values()].sort((a, b) => b.score - a.score).slice(0, options.limit);
+    }
+
+    /**
+     * Writes the index file, rebuilding graphs where replaced vectors piled up
+     */
+    async save(): Promise<void> {
+        const graphs: AdVectorIndexFile['graphs'] = {};
+        for (const kind of AD_EMBEDDING_KINDS) {
+            if (this.graphs[kind].deletedRatio > 0.2) this.graphs[kind].compact();
+            graphs[kind] = this.graphs[kind].toJSON();
+        }
+        const file: AdVectorIndexFile = { version: 1, model: this.embeddingModel, ads: Object.fromEntries(this.ads), graphs };
+
+        try {
+            await fs.mkdir(path.dirname(this.filePath), { recursive: true });
+            const tempPath = `${this.filePath}.${process.pid}.tmp`;
+            await fs.writeFile(tempPath, JSON.stringify(file));
+            await fs.rename(tempPath, this.filePath);
+        } catch (error) {
+            throw new Error(`Failed to save embedding index: ${(error as Error).message}`);
+        }
+    }
+}
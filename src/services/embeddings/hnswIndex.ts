@@ -0,0 +1,375 @@
+/**
+ * Options for creating an HnswIndex
+ */
+export interface HnswOptions {
+    /**
+     * Links per node and layer; layer 0 keeps twice as many (default 16)
+     */
+    m?: number;
+    /**
+     * Candidates considered when linking a new node (default 200)
+     */
+    efConstruction?: number;
+}
+
+/**
+ * Nearest neighbour found by HnswIndex.search
+ */
+export interface HnswMatch {
+    id: string;
+    /**
+     * Cosine similarity to the query, from -1 to 1
+     */
+    score: number;
+}
+
+/**
+ * Serialized form of an HnswIndex, as stored in the index file
+ */
+export interface HnswSnapshot {
+    m: number;
+    efConstruction: number;
+    entry: number;
+    maxLevel: number;
+    nodes: Array<{
+        id: string;
+        level: number;
+        /**
+         * Float32 components (base64)
+         */
+        vector: string;
+        links: number[][];
+        deleted?: boolean;
+    }>;
+}
+
+/**
+ * @private
+ */
+interface HnswNode {
+    id: string;
+    level: number;
+    vector: Float32Array;
+    links: number[][];
+    deleted: boolean;
+}
+
+/**
+ * @private
+ */
+interface Candidate {
+    node: number;
+    score: number;
+}
+
+/**
+ * In-process approximate nearest neighbour index over cosine similarity (Hierarchical Navigable
+ * Small World graph). Vectors are normalized when added, so similarity is a dot product.
+ * Replacing or removing a vector only marks its node as deleted; deleted nodes still route
+ * searches until `compact` rebuilds the graph.
+ */
+export class HnswIndex {
+    private readonly m: number;
+    private readonly efConstruction: number;
+    private readonly levelFactor: number;
+    private nodes: HnswNode[] = [];
+    private byId = new Map<string, number>();
+    private entry = -1;
+    private maxLevel = -1;
+
+    constructor(options: HnswOptions = {}) {
+        this.m = options.m ?? 16;
+        this.efConstruction = options.efConstruction ?? 200;
+        this.levelFactor = 1 / Math.log(this.m);
+    }
+
+    /**
+     * Number of vectors that can be found
+     */
+    get size(): number {
+        return this.byId.size;
+    }
+
+    /**
+     * Share of nodes that only remain for routing
+     */
+    get deletedRatio(): number {
+        return this.nodes.length === 0 ? 0 : 1 - this.byId.size / this.nodes.length;
+    }
+
+    has(id: string): boolean {
+        return this.byId.has(id);
+    }
+
+    /**
+     * @returns Normalized vector of the id, or null
+     */
+    get(id: string): Float32Array | null {
+        const node = this.byId.get(id);
+        return node === undefined ? null : this.nodes[node].vector;
+    }
+
+    /**
+     * Adds a vector, replacing an earlier vector of the same id
+     * @param id - Key of the vector
+     * @param vector - Vector; all vectors of an index need the same dimensions
+     */
+    add(id: string, vector: ArrayLike<number>): void {
+        const normalized = normalize(vector);
+        if (this.nodes.length > 0 && normalized.length !== this.nodes[0].vector.length) {
+            throw new Error(`Failed to add vector: expected ${this.nodes[0].vector.length} dimensions, got ${normalized.length}`);
+        }
+        this.remove(id);
+
+        const level = this.randomLevel(id);
+        const node = this.nodes.push({ id, level, vector: normalized, links: Array.from({ length: level + 1 }, () => []), deleted: false }) - 1;
+        this.byId.set(id, node);
+
+        if (this.entry < 0) {
+            this.entry = node;
+            this.maxLevel = level;
+            return;
+        }
+
+        let linked = false;
+        let entryPoints = [this.closest(normalized, this.entry, this.maxLevel, level + 1)];
+        for (let layer = Math.min(level, this.maxLevel); layer >= 0; layer--) {
+            const candidates = this.searchLayer(normalized, entryPoints, this.efConstruction, layer, live => !this.nodes[live].deleted);
+            const neighbours = candidates.slice(0, this.m).map(candidate => candidate.node);
+
+            this.nodes[node].links[layer] = neighbours;
+            for (const neighbour of neighbours) {
+                this.link(neighbour, node, layer);
+            }
+            if (candidates.length > 0) {
+                entryPoints = candidates.map(candidate => candidate.node);
+                linked = true;
+            }
+        }
+
+        // A deleted entry, or one from which no live node is reachable, would leave the new node unreachable
+        if (level > this.maxLevel || this.nodes[this.entry].deleted || !linked) {
+            this.entry = node;
+            this.maxLevel = level;
+        }
+    }
+
+    /**
+     * Removes the vector of an id
+     * @returns Whether the id was in the index
+     */
+    remove(id: string): boolean {
+        const node = this.byId.get(id);
+        if (node === undefined) return false;
+
+        this.nodes[node].deleted = true;
+        this.byId.delete(id);
+        return true;
+    }
+
+    /**
+     * Finds the vectors most similar to the query
+     * @param query - Query vector
+     * @param k - Number of matches
+     * @param options - Search breadth (default 64) and a predicate the matches must pass
+     * @returns Matches, most similar first
+     */
+    search(query: ArrayLike<number>, k: number, options: { ef?: number; filter?: (id: string) => boolean } = {}): HnswMatch[] {
+        if (this.entry < 0 || k <= 0) return [];
+
+        const normalized = normalize(query);
+        const entryPoint = this.closest(normalized, this.entry, this.maxLevel, 1);
+
+        const accept = (node: number) => !this.nodes[node].deleted && (!options.filter || options.filter(this.nodes[node].id));
+        return this.searchLayer(normalized, [entryPoint], Math.max(options.ef ?? 64, k), 0, accept)
+            .slice(0, k)
+            .map(({ node, score }) => ({ id: this.nodes[node].id, score }));
+    }
+
+    /**
+     * Rebuilds the graph without deleted nodes
+     */
+    compact(): void {
+        const live = this.nodes.filter(node => !node.deleted);
+        this.nodes = [];
+        this.byId = new Map();
+        this.entry = -1;
+        this.maxLevel = -1;
+        for (const node of live) {
+            this.add(node.id, node.vector);
+        }
+    }
+
+    toJSON(): HnswSnapshot {
+        return {
+            m: this.m,
+            efConstruction: this.efConstruction,
+            entry: this.entry,
+            maxLevel: this.maxLevel,
+            nodes: this.nodes.map(node => ({
+                id: node.id,
+                level: node.level,
+                vector: Buffer.from(node.vector.buffer, node.vector.byteOffset, node.vector.byteLength).toString('base64'),
+                links: node.links,
+                ...(node.deleted && { deleted: true })
+            }))
+        };
+    }
+
+    /**
+     * Restores an index written by toJSON
+     * @param snapshot - Serialized index
+     * @returns Index with the same graph
+     */
+    static fromJSON(snapshot: HnswSnapshot): HnswIndex {
+        const index = new HnswIndex({ m: snapshot.m, efConstruction: snapshot.efConstruction });
+        index.entry = snapshot.entry;
+        index.maxLevel = snapshot.maxLevel;
+        index.nodes = snapshot.nodes.map(node => {
+            const bytes = Buffer.from(node.vector, 'base64');
+            return {
+                id: node.id,
+                level: node.level,
+                vector: new Float32Array(bytes.buffer.slice(bytes.byteOffset, bytes.byteOffset + bytes.byteLength)),
+                links: node.links,
+                deleted: node.deleted ?? false
+            };
+        });
+        index.nodes.forEach((node, i) => {
+            if (!node.deleted) index.byId.set(node.id, i);
+        });
+        return index;
+    }
+
+    /**
+     * Greedy descent from the top layer to `bottom`; deleted nodes still route
+     * @returns Node closest to the query on layer `bottom`
+     * @private
+     */
+    private closest(query: Float32Array, entry: number, top: number, bottom: number): number {
+        let current = entry;
+        let score = dot(query, this.nodes[current].vector);
+
+        for (let layer = top; layer >= bottom; layer--) {
+            for (let changed = true; changed;) {
+                changed = false;
+                for (const neighbour of this.nodes[current].links[layer] ?? []) {
+                    const neighbourScore = dot(query, this.nodes[neighbour].vector);
+                    if (neighbourScore > score) {
+                        current = neighbour;
+                        score = neighbourScore;
+                        changed = true;
+                    }
+                }
+            }
+        }
+        return current;
+    }
+
+    /**
+     * Best-first search of one layer; rejected nodes are passed through but not returned
+     * @returns Up to `ef` accepted nodes, most similar first
+     * @private
+     */
+    private searchLayer(query: Float32Array, entryPoints: number[], ef: number, layer: number, accept: (node: number) => boolean): Candidate[] {
+        const visited = new Set<number>(entryPoints);
+        const candidates: Candidate[] = entryPoints.map(node => ({ node, score: dot(query, this.nodes[node].vector) })).sort(bySimilarity);
+        const results: Candidate[] = [];
+
+        for (const candidate of candidates) {
+            if (accept(candidate.node)) insertSorted(results, candidate, ef);
+        }
+
+        while (candidates.length > 0) {
+            const current = candidates.shift()!;
+            if (results.length >= ef && current.score < results[results.length - 1].score) break;
+
+            for (const neighbour of this.nodes[current.node].links[layer] ?? []) {
+                if (visited.has(neighbour)) continue;
+                visited.add(neighbour);
+
+                const candidate = { node: neighbour, score: dot(query, this.nodes[neighbour].vector) };
+                if (results.length < ef || candidate.score > results[results.length - 1].score) {
+                    insertSorted(candidates, candidate, Infinity);
+                    if (accept(neighbour)) insertSorted(results, candidate, ef);
+                }
+            }
+        }
+
+        return results;
+    }
+
+    /**
+     * Adds a back link, keeping the most similar neighbours when the node has too many
+     * @private
+     */
+    private link(from: number, to: number, layer: number): void {
+        const links = this.nodes[from].links[layer];
+        links.push(to);
+
+        const max = layer === 0 ? this.m * 2 : this.m;
+        if (links.length > max) {
+            const vector = this.nodes[from].vector;
+            this.nodes[from].links[layer] = links
+                .map(node => ({ node, score: dot(vector, this.nodes[node].vector) }))
+                .sort(bySimilarity)
+                .slice(0, max)
+                .map(candidate => candidate.node);
+        }
+    }
+
+    /**
+     * Level drawn from the id, so rebuilding an index gives the same graph
+     * @private
+     */
+    private randomLevel(id: string): number {
+        // FNV-1a
+        let hash = 0x811c9dc5;
+        for (let i = 0; i < id.length; i++) {
+            hash = Math.imul(hash ^ id.charCodeAt(i), 0x01000193) >>> 0;
+        }
+        const uniform = (hash + 1) / 0x100000001;
+        return Math.floor(-Math.log(uniform) * this.levelFactor);
+    }
+}
+
+/**
+ * @private
+ */
+const bySimilarity = (a: Candidate, b: Candidate): number => b.score - a.score;
+
+/**
+ * @private
+ */
+function insertSorted(list: Candidate[], candidate: Candidate, limit: number): void {
+    let low = 0;
+    let high = list.length;
+    while (low < high) {
+        const mid = (low + high) >>> 1;
+        if (list[mid].score >= candidate.score) low = mid + 1;
+        else high = mid;
+    }
+    list.splice(low, 0, candidate);
+    if (list.length > limit) list.pop();
+}
+
+/**
+ * @private
+ */
+function dot(a: Float32Array, b: Float32Array): number {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum;
+}
+
+/**
+ * @private
+ */
+function normalize(vector: ArrayLike<number>): Float32Array {
+    const normalized = Float32Array.from(vector);
+    const norm = Math.sqrt(dot(normalized, normalized));
+    if (norm > 0) {
+        for (let i = 0; i < normalized.length; i++) normalized[i] /= norm;
+    }
+    return normalized;
+}
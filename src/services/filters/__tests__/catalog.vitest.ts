@@ -0,0 +1,100 @@
+import { describe, it, expect, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  formatFilterCatalogIssues,
+  loadFilterCatalog,
+  saveFilterCatalog,
+  suggestOptions,
+  validateFilterValues
+} from '../catalog.js';
+import type { FilterCatalog } from '../types.js';
+
+const catalog: FilterCatalog = {
+  version: 1,
+  discoveredAt: '2025-03-07T10:00:00.000Z',
+  url: 'https://ads.tiktok.com/business/creativecenter/inspiration/topads/pc/en',
+  filters: {
+    region: [{ label: 'United States', value: 'US' }, { label: 'United Kingdom', value: 'GB' }, { label: 'Germany', value: 'DE' }],
+    period: [{ label: 'Last 7 days', value: '7' }, { label: 'Last 30 days', value: '30' }, { label: 'Last 180 days', value: '180' }],
+    adLanguage: [{ label: 'English' }, { label: 'German' }],
+    objective: [{ label: 'Traffic', value: '1' }, { label: 'Conversions', value: '2' }, { label: 'App Installs', value: '3' }],
+    industry: [
+      {
+        label: 'E-commerce',
+        value: 'label_22000000000',
+        children: [{ label: 'Apparel & Accessories', value: 'label_22101000000' }, { label: 'Beauty', value: 'label_22102000000' }]
+      },
+      { label: 'Games', value: 'label_25000000000' }
+    ]
+  }
+};
+
+describe('validateFilterValues', () => {
+  it('should accept labels, internal keys, country codes and language codes', () => {
+    expect(validateFilterValues({
+      region: ['US', 'united kingdom', 'Germany'],
+      period: ['7'],
+      adLanguage: ['en', 'German'],
+      objective: ['Traffic', '2'],
+      industry: ['E-commerce', 'E-commerce > Beauty', 'label_25000000000'],
+      orderBy: ['for_you']
+    }, catalog)).toEqual([]);
+  });
+
+  it('should report unknown values with suggestions', () => {
+    const issues = validateFilterValues({
+      region: ['Untied States'],
+      objective: ['Trafic'],
+      industry: ['E-comerce', 'E-commerce > Beuty'],
+      period: ['Last 14 days']
+    }, catalog);
+
+    expect(issues).toEqual([
+      { filter: 'region', value: 'Untied States', suggestions: ['United States'] },
+      { filter: 'objective', value: 'Trafic', suggestions: ['Traffic'] },
+      { filter: 'industry', value: 'E-comerce', suggestions: ['E-commerce'] },
+      { filter: 'industry', value: 'E-commerce > Beuty', suggestions: ['E-commerce > Beauty', 'E-commerce'] },
+      { filter: 'period', value: 'Last 14 days', suggestions: ['Last 7 days', 'Last 30 days', 'Last 180 days'] }
+    ]);
+    expect(formatFilterCatalogIssues(issues.slice(0, 1))).toBe('region: "Untied States" is not an option, did you mean "United States"?');
+  });
+
+  it('should skip filters the catalog does not list', () => {
+    expect(validateFilterValues({ likes: ['100k+'] }, catalog)).toEqual([]);
+  });
+});
+
+describe('suggestOptions', () => {
+  it('should not suggest unrelated labels', () => {
+    expect(suggestOptions('Automotive', ['Traffic', 'Conversions'])).toEqual([]);
+  });
+});
+
+describe('filter catalog file', () => {
+  let tempDir: string | null = null;
+
+  afterEach(() => {
+    if (tempDir) fs.rmSync(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  });
+
+  it('should save and load a catalog', () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'filter-catalog-'));
+    const filePath = path.join(tempDir, 'nested', 'filter-catalog.json');
+
+    saveFilterCatalog(filePath, catalog);
+
+    expect(loadFilterCatalog(filePath)).toEqual(catalog);
+    expect(loadFilterCatalog(path.join(tempDir, 'missing.json'))).toBeNull();
+  });
+
+  it('should reject catalogs of another format version', () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'filter-catalog-'));
+    const filePath = path.join(tempDir, 'filter-catalog.json');
+    fs.writeFileSync(filePath, JSON.stringify({ ...catalog, version: 2 }));
+
+    expect(() => loadFilterCatalog(filePath)).toThrow('Unsupported filter catalog version 2');
+  });
+});
@@ -0,0 +1,160 @@
+import { describe, it, expect, vi } from 'vitest';
+import type { Log } from 'crawlee';
+import type { Page, Request } from 'playwright';
+import { FilterEngine, compareFilterQueryParams, getExpectedQueryParams } from '../filterEngine.js';
+import { applySortOption } from '../../../steps/sort-elements-handler.js';
+
+vi.mock('../../../steps/sort-elements-handler.js', async importOriginal => ({
+  ...await importOriginal<typeof import('../../../steps/sort-elements-handler.js')>(),
+  applySortOption: vi.fn().mockResolvedValue(true)
+}));
+
+const mockLog = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn()
+} as unknown as Log;
+
+const LIST_URL = 'https://ads.tiktok.com/creative_radar_api/v1/top_ads/v2/list';
+
+const fakeRequest = (url: string) => ({ url: () => url }) as unknown as Request;
+
+/**
+ * Page whose waitForRequest replays the given request URLs in order
+ */
+const createRequestPage = (urls: string[]) => ({
+  waitForRequest: vi.fn(async (predicate: (request: Request) => boolean) => {
+    for (const url of urls) {
+      if (predicate(fakeRequest(url))) return fakeRequest(url);
+    }
+    throw new Error('Timeout 10ms exceeded');
+  })
+}) as unknown as Page;
+
+describe('getExpectedQueryParams', () => {
+  it('should map countries, languages and periods to their query values', () => {
+    expect(getExpectedQueryParams({
+      region: ['United States', 'CA'],
+      adLanguage: 'German',
+      period: 'Last 30 days',
+      objective: 'Traffic'
+    })).toEqual({
+      region: { filter: 'region', value: 'US,CA' },
+      adLanguage: { filter: 'adLanguage', value: 'de' },
+      period: { filter: 'period', value: '30' },
+      objective: { filter: 'objective', value: null }
+    });
+  });
+
+  it('should not expect params for cleared filters', () => {
+    expect(getExpectedQueryParams({ region: [] })).toEqual({});
+  });
+});
+
+describe('compareFilterQueryParams', () => {
+  it('should compare multi-value params regardless of order', () => {
+    expect(compareFilterQueryParams({ region: ['US', 'CA'] }, { region: 'CA,US' })).toEqual([]);
+  });
+
+  it('should report missing and different params', () => {
+    expect(compareFilterQueryParams(
+      { region: 'US', period: '7', objective: 'Traffic' },
+      { region: 'GB', period: '7' }
+    )).toEqual([
+      { filter: 'region', param: 'region', expected: 'US', actual: 'GB' },
+      { filter: 'objective', param: 'objective', expected: undefined }
+    ]);
+  });
+});
+
+describe('FilterEngine', () => {
+  it('should confirm filters with the first matching list request', async () => {
+    const engine = new FilterEngine(mockLog, createRequestPage([
+      `${LIST_URL}?region=GB&period=7`,
+      'https://ads.tiktok.com/other?region=US&period=30',
+      `${LIST_URL}?region=US&period=30&page=1`
+    ]));
+
+    const confirmation = await engine.waitForConfirmation({ region: 'US', period: '30' });
+
+    expect(confirmation).toEqual({ confirmed: true, params: { region: 'US', period: '30', page: '1' }, mismatches: [] });
+  });
+
+  it('should report the mismatches of the last list request when none matches', async () => {
+    const engine = new FilterEngine(mockLog, createRequestPage([`${LIST_URL}?region=GB&period=30`]));
+
+    const confirmation = await engine.waitForConfirmation({ region: 'US', period: '30' });
+
+    expect(confirmation.confirmed).toBe(false);
+    expect(confirmation.mismatches).toEqual([{ filter: 'region', param: 'region', expected: 'US', actual: 'GB' }]);
+  });
+
+  it('should read the selected labels of each filter', async () => {
+    const labels: Record<string, string[]> = {
+      '#topadsRegion .CcMultiSelect_ccItemLabelContent__1dXUL': ['United States', ' Canada '],
+      '#topadsPeriod .CcSelect_ccItemLabelContent__Qe4o_': ['Last 7 days']
+    };
+    const page = {
+      $$eval: vi.fn(async (selector: string, map: (elements: Array<{ textContent: string }>) => string[]) =>
+        map((labels[selector] ?? []).map(textContent => ({ textContent }))))
+    } as unknown as Page;
+    const engine = new FilterEngine(mockLog, page);
+
+    const state = await engine.readState([
+      { definition: { name: 'region', kind: 'multi', label: 'Region', selector: '#topadsRegion', queryParam: 'region' }, kind: 'multi' },
+      { definition: { name: 'period', kind: 'single', label: 'Period', selector: '#topadsPeriod', queryParam: 'period' }, kind: 'single' }
+    ]);
+
+    expect(state).toEqual({ region: ['United States', 'Canada'], period: ['Last 7 days'] });
+  });
+
+  it('should not touch the page when no filter is configured', async () => {
+    const page = { $: vi.fn(), waitForRequest: vi.fn() } as unknown as Page;
+
+    const result = await new FilterEngine(mockLog, page).apply({});
+
+    expect(result).toEqual({ applied: [], failed: [], state: {}, confirmation: { confirmed: true, mismatches: [] } });
+    expect(page.$).not.toHaveBeenCalled();
+  });
+
+  it('should open the filtered URL and select only filters without query values', async () => {
+    const page = {
+      url: () => 'https://ads.tiktok.com/business/creativecenter/inspiration/topads/pc/en',
+      goto: vi.fn(),
+      $: vi.fn(async () => null),
+      $$eval: vi.fn(async () => []),
+      waitForRequest: vi.fn(async (predicate: (request: Request) => boolean) => {
+        predicate(fakeRequest(`${LIST_URL}?region=US&period=30`));
+        throw new Error('Timeout 10ms exceeded');
+      })
+    } as unknown as Page;
+    const engine = new FilterEngine(mockLog, page, { confirmTimeoutMs: 10 });
+
+    const result = await engine.applyViaUrl({ region: 'United States', period: '30', objective: 'Traffic' });
+
+    expect(page.goto).toHaveBeenCalledWith(
+      'https://ads.tiktok.com/business/creativecenter/inspiration/topads/pc/en?region=US&period=30',
+      { waitUntil: 'domcontentloaded' }
+    );
+    expect(result.applied).toEqual(['region', 'period']);
+    // The objective control is not on the fake page
+    expect(result.failed).toEqual(['objective']);
+  });
+
+  it('should confirm the sort order with the order param of the list request', async () => {
+    const page = createRequestPage([`${LIST_URL}?order_by=for_you`, `${LIST_URL}?order_by=reach&page=1`]);
+    const result = await new FilterEngine(mockLog, page, { confirmTimeoutMs: 10 }).applySortOrder('Reach');
+
+    expect(applySortOption).toHaveBeenCalledWith(page, mockLog, { sortBy: 'reach' });
+    expect(result).toEqual({ applied: true, confirmed: true, param: 'reach' });
+  });
+
+  it('should not select unknown sort orders', async () => {
+    vi.mocked(applySortOption).mockClear();
+    const result = await new FilterEngine(mockLog, createRequestPage([])).applySortOrder('Newest');
+
+    expect(result).toEqual({ applied: false, confirmed: false });
+    expect(applySortOption).not.toHaveBeenCalled();
+  });
+});
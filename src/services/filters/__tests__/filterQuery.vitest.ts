@@ -0,0 +1,51 @@
+import { describe, it, expect } from 'vitest';
+import { buildFilterQuery, buildFilteredUrl, FilterValidationError } from '../filterQuery.js';
+
+describe('buildFilterQuery', () => {
+  it('should map country and language names to codes', () => {
+    const query = buildFilterQuery({
+      region: ['United States', 'ca', 'UnitedKingdom'],
+      adLanguage: 'German',
+      period: 'Last 30 days'
+    });
+
+    expect(query.params).toEqual({ region: 'US,CA,GB', adLanguage: 'de', period: '30' });
+    expect(query.uiValues).toEqual({});
+  });
+
+  it('should leave filters without query values to the dropdowns', () => {
+    const query = buildFilterQuery({ region: 'US', objective: 'Traffic', industry: ['E-commerce > Apparel'], likes: [] });
+
+    expect(query.params).toEqual({ region: 'US' });
+    expect(query.queryValues).toEqual({ region: ['US'] });
+    expect(query.uiValues).toEqual({ objective: ['Traffic'], industry: ['E-commerce > Apparel'], likes: [] });
+  });
+
+  it('should reject unknown countries, languages and malformed periods', () => {
+    expect(() => buildFilterQuery({ region: ['US', 'Atlantis'], adLanguage: 'Klingon', period: 'last week' }))
+      .toThrow(new FilterValidationError(
+        'Invalid filters: region: Unknown region "Atlantis"; adLanguage: Unknown ad language "Klingon"; '
+        + 'period: Unknown period "last week", use 7, 30 or 180 days, e.g. 7 or "Last 30 days"'
+      ));
+  });
+
+  it('should only accept the periods the Creative Center offers', () => {
+    expect(buildFilterQuery({ period: 'last 180 days' }).params).toEqual({ period: '180' });
+    for (const period of ['14', 'Last 14 days', '2024-01-07', 'top 30']) {
+      expect(() => buildFilterQuery({ period })).toThrow(`Unknown period "${period}"`);
+    }
+  });
+
+  it('should reject unknown filters', () => {
+    expect(() => buildFilterQuery({ colour: 'red' } as never)).toThrow(FilterValidationError);
+  });
+});
+
+describe('buildFilteredUrl', () => {
+  it('should replace existing query params', () => {
+    expect(buildFilteredUrl('https://ads.tiktok.com/business/creativecenter/inspiration/topads/pc/en?period=7&from=home', {
+      region: 'US,CA',
+      period: '30'
+    })).toBe('https://ads.tiktok.com/business/creativecenter/inspiration/topads/pc/en?period=30&from=home&region=US%2CCA');
+  });
+});
@@ -0,0 +1,35 @@
+import { describe, it, expect } from 'vitest';
+import { SortType } from '../../../steps/sort-elements-handler.js';
+import { resolveSortOrder, toSortOrderParam, validateSortOrders } from '../sortOrder.js';
+
+describe('resolveSortOrder', () => {
+  it('should accept sort types, query values and tab labels', () => {
+    expect(resolveSortOrder('forYou')).toBe(SortType.FOR_YOU);
+    expect(resolveSortOrder('for_you')).toBe(SortType.FOR_YOU);
+    expect(resolveSortOrder('For You')).toBe(SortType.FOR_YOU);
+    expect(resolveSortOrder('CTR')).toBe(SortType.CTR);
+    expect(resolveSortOrder('reach')).toBe(SortType.REACH);
+  });
+
+  it('should not resolve sort orders that cannot be crawled', () => {
+    expect(resolveSortOrder('custom')).toBeUndefined();
+    expect(resolveSortOrder('')).toBeUndefined();
+    expect(resolveSortOrder(undefined)).toBeUndefined();
+  });
+});
+
+describe('toSortOrderParam', () => {
+  it('should map sort orders to the order param of the list request', () => {
+    expect(toSortOrderParam('For You')).toBe('for_you');
+    expect(toSortOrderParam('Reach')).toBe('reach');
+    expect(toSortOrderParam('Newest')).toBeUndefined();
+  });
+});
+
+describe('validateSortOrders', () => {
+  it('should report unknown sort orders with the accepted ones', () => {
+    expect(validateSortOrders(['Reach', 'Newest'])).toEqual([
+      'orderBy: "Newest" is not a sort order, use one of "For You", "Reach", "CTR"'
+    ]);
+  });
+});
@@ -0,0 +1,188 @@
+import fs from 'fs';
+import path from 'path';
+import { FILTER_DEFINITIONS, findCountryCode, findLanguage } from './definitions.js';
+import type { FilterCatalog, FilterName, FilterOption } from './types.js';
+
+/**
+ * Configured filter value that is not in the catalog
+ */
+export interface FilterCatalogIssue {
+    filter: FilterName;
+    value: string;
+    /**
+     * Closest option labels, best first
+     */
+    suggestions: string[];
+}
+
+export const FILTER_CATALOG_VERSION = 1;
+
+const FILTER_NAMES = new Set<string>(FILTER_DEFINITIONS.map(definition => definition.name));
+
+/**
+ * Reads a filter catalog written by the discovery command
+ * @param filePath - Catalog file
+ * @returns Catalog, or null if the file does not exist
+ * @throws Error if the file has another format version
+ */
+export function loadFilterCatalog(filePath: string): FilterCatalog | null {
+    if (!fs.existsSync(filePath)) return null;
+
+    const catalog = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as FilterCatalog;
+    if (catalog.version !== FILTER_CATALOG_VERSION) {
+        throw new Error(`Unsupported filter catalog version ${catalog.version} in ${filePath}; run the discovery command again`);
+    }
+    return catalog;
+}
+
+/**
+ * Writes a filter catalog, creating the directory if needed
+ * @param filePath - Catalog file
+ * @param catalog - Discovered catalog
+ */
+export function saveFilterCatalog(filePath: string, catalog: FilterCatalog): void {
+    fs.mkdirSync(path.dirname(filePath), { recursive: true });
+    fs.writeFileSync(filePath, `${JSON.stringify(catalog, null, 2)}\n`);
+}
+
+/**
+ * Checks configured filter values against the discovered options. A value matches an option by
+ * label or internal key, ignoring case and spacing; regions and languages also match by code,
+ * and cascader values must name a path like `E-commerce > Apparel`.
+ * Filters missing from the catalog are not checked.
+ * @param values - Configured values; keys that are not filters, like the sort order, are ignored
+ * @param catalog - Discovered catalog
+ * @returns Values without a matching option, with suggestions
+ */
+export function validateFilterValues(values: Record<string, string | string[] | undefined>, catalog: FilterCatalog): FilterCatalogIssue[] {
+    const issues: FilterCatalogIssue[] = [];
+
+    for (const [name, configured] of Object.entries(values)) {
+        if (!FILTER_NAMES.has(name) || configured === undefined) continue;
+
+        const filter = name as FilterName;
+        const options = catalog.filters[filter];
+        if (!options) continue;
+
+        for (const value of (Array.isArray(configured) ? configured : [configured]).filter(item => item.trim())) {
+            if (!matchesCatalog(filter, value, options)) {
+                issues.push({ filter, value, suggestions: suggestOptions(value, flattenLabels(options)) });
+            }
+        }
+    }
+    return issues;
+}
+
+/**
+ * Formats catalog issues as one message per line
+ * @param issues - Issues from `validateFilterValues`
+ * @returns Message like `industry: "E-comerce" is not an option, did you mean "E-commerce"?`
+ */
+export function formatFilterCatalogIssues(issues: FilterCatalogIssue[]): string {
+    return issues.map(issue => {
+        const hint = issue.suggestions.length > 0
+            ? `, did you mean ${issue.suggestions.map(suggestion => `"${suggestion}"`).join(' or ')}?`
+            : '';
+        return `${issue.filter}: "${issue.value}" is not an option${hint}`;
+    }).join('\n');
+}
+
+/**
+ * Ranks option labels by edit distance to a value
+ * @param value - Configured value
+ * @param labels - Known labels
+ * @param limit - Maximum number of suggestions
+ * @returns Close labels, best first
+ */
+export function suggestOptions(value: string, labels: string[], limit: number = 3): string[] {
+    const normalized = normalize(value);
+    const maxDistance = Math.max(2, Math.floor(normalized.length / 3));
+
+    return [...new Set(labels)]
+        .map(label => {
+            const candidate = normalize(label);
+            const distance = levenshtein(normalized, candidate);
+            // A label contained in the value or the other way round is worth suggesting, but after close typos
+            const contained = candidate.includes(normalized) || normalized.includes(candidate);
+            return { label, distance: contained ? Math.min(distance, maxDistance) : distance };
+        })
+        .filter(({ distance }) => distance <= maxDistance)
+        .sort((a, b) => a.distance - b.distance)
+        .slice(0, limit)
+        .map(({ label }) => label);
+}
+
+/**
+ * @private
+ */
+function matchesCatalog(filter: FilterName, value: string, options: FilterOption[]): boolean {
+    if (filter === 'industry') {
+        return findPath(value.split('>').map(normalize).filter(Boolean), options);
+    }
+
+    const keys = new Set(options.flatMap(option => [option.label, option.value ?? ''].map(normalize)));
+    if (keys.has(normalize(value))) return true;
+
+    if (filter === 'region') {
+        const code = findCountryCode(value);
+        return code !== undefined && (keys.has(normalize(code)) || options.some(option => findCountryCode(option.label) === code));
+    }
+    if (filter === 'adLanguage') {
+        const language = findLanguage(value);
+        return language !== undefined && (keys.has(language.code) || keys.has(normalize(language.name)));
+    }
+    if (filter === 'period') {
+        // "7" and "Last 7 days" select the same option
+        const days = value.match(/\d+/)?.[0];
+        return days !== undefined && options.some(option => (option.value ?? option.label).match(/\d+/)?.[0] === days);
+    }
+    return false;
+}
+
+/**
+ * @private
+ */
+function findPath(segments: string[], options: FilterOption[]): boolean {
+    if (segments.length === 0) return true;
+
+    const option = options.find(candidate => normalize(candidate.label) === segments[0] || normalize(candidate.value ?? '') === segments[0]);
+    return option !== undefined && findPath(segments.slice(1), option.children ?? []);
+}
+
+/**
+ * Cascader children are suggested as paths so they can be pasted into the config
+ * @private
+ */
+function flattenLabels(options: FilterOption[], prefix: string = ''): string[] {
+    return options.flatMap(option => {
+        const label = prefix ? `${prefix} > ${option.label}` : option.label;
+        return [label, ...flattenLabels(option.children ?? [], label)];
+    });
+}
+
+/**
+ * @private
+ */
+function normalize(value: string): string {
+    return value.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * @private
+ */
+function levenshtein(a: string, b: string): number {
+    let previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+
+    for (let i = 1; i <= a.length; i++) {
+        const current = [i];
+        for (let j = 1; j <= b.length; j++) {
+            current[j] = Math.min(
+                previous[j] + 1,
+                current[j - 1] + 1,
+                previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1)
+            );
+        }
+        previous = current;
+    }
+    return previous[b.length];
+}
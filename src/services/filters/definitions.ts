@@ -0,0 +1,115 @@
+import { COUNTRIES, LANGUAGES } from '../../consts.js';
+import type { FilterDefinition, FilterName } from './types.js';
+
+// COUNTRIES keys are the names without spaces, e.g. `UnitedStates`
+const COUNTRY_NAMES = new Map<string, string>(
+    Object.entries(COUNTRIES).map(([key, code]) => [code, key.replace(/([a-z])([A-Z])/g, '$1 $2')])
+);
+
+/**
+ * Every filter of the Top Ads list, in the order they are applied.
+ * Region and language accept either codes or the names shown on the page.
+ */
+export const FILTER_DEFINITIONS: FilterDefinition[] = [
+    {
+        name: 'region',
+        kind: 'multi',
+        label: 'Region',
+        selector: '#topadsRegion',
+        queryParam: 'region',
+        toQueryValue: value => findCountryCode(value),
+        toOptionLabels: value => {
+            const code = findCountryCode(value);
+            const name = code ? COUNTRY_NAMES.get(code) : undefined;
+            return name ? [value, name] : [value];
+        }
+    },
+    {
+        name: 'industry',
+        kind: 'cascader',
+        label: 'Industry',
+        selector: '.byted-cascader-multiple-input-trigger',
+        queryParam: 'industry'
+    },
+    {
+        name: 'objective',
+        kind: 'multi',
+        label: 'Objective',
+        selector: '#topadsObjective',
+        queryParam: 'objective'
+    },
+    {
+        name: 'period',
+        kind: 'single',
+        label: 'Period',
+        selector: '#topadsPeriod',
+        queryParam: 'period',
+        // "Last 30 days" and "30" are both sent as 30
+        toQueryValue: value => value.match(/\d+/)?.[0],
+        toOptionLabels: value => /^\d+$/.test(value.trim()) ? [value, `Last ${value.trim()} days`] : [value]
+    },
+    {
+        name: 'adLanguage',
+        kind: 'multi',
+        label: 'Ad Language',
+        selector: '#topadsAdLanguage',
+        queryParam: 'adLanguage',
+        toQueryValue: value => findLanguage(value)?.code ?? value,
+        toOptionLabels: value => {
+            const language = findLanguage(value);
+            return language ? [value, language.name] : [value];
+        }
+    },
+    {
+        name: 'adFormat',
+        kind: 'single',
+        label: 'Ad Format',
+        selector: '#topadsFilterAdsFormat',
+        queryParam: 'ad_format'
+    },
+    {
+        name: 'likes',
+        kind: 'multi',
+        label: 'Likes',
+        selector: '#topadsLikes',
+        queryParam: 'like'
+    }
+];
+
+/**
+ * Returns the definition of a filter
+ * @param name - Filter name
+ * @returns Filter definition
+ */
+export function getFilterDefinition(name: FilterName): FilterDefinition {
+    const definition = FILTER_DEFINITIONS.find(candidate => candidate.name === name);
+    if (!definition) {
+        throw new Error(`Unknown filter: ${name}`);
+    }
+    return definition;
+}
+
+/**
+ * Looks up a country by code or name, e.g. `US`, `United States` or `UnitedStates`
+ * @param value - Country code or name
+ * @returns ISO country code, or undefined for an unknown country
+ */
+export function findCountryCode(value: string): string | undefined {
+    const trimmed = value.trim();
+    if (COUNTRY_NAMES.has(trimmed.toUpperCase())) {
+        return trimmed.toUpperCase();
+    }
+
+    const key = trimmed.replace(/[^a-z]/gi, '').toLowerCase();
+    return Object.entries(COUNTRIES).find(([name]) => name.toLowerCase() === key)?.[1];
+}
+
+/**
+ * Looks up an ad language by code or name, e.g. `de` or `German`
+ * @param value - Language code or name
+ * @returns Language, or undefined for an unknown language
+ */
+export function findLanguage(value: string): { name: string; code: string } | undefined {
+    const normalized = value.trim().toLowerCase();
+    return LANGUAGES.find(language => language.code === normalized || language.name.toLowerCase() === normalized);
+}
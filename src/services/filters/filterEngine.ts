@@ -0,0 +1,566 @@
+import { Log } from 'crawlee';
+import { ElementHandle, Page, Request } from 'playwright';
+import { FILTER_DEFINITIONS } from './definitions.js';
+import { buildFilterQuery, buildFilteredUrl, getFilterNames } from './filterQuery.js';
+import { resolveSortOrder, SORT_ORDER_PARAM, toSortOrderParam } from './sortOrder.js';
+import { applySortOption } from '../../steps/sort-elements-handler.js';
+import type {
+    AppliedFilterState,
+    DiscoveredFilter,
+    FilterApplyResult,
+    FilterConfirmation,
+    FilterDefinition,
+    FilterKind,
+    FilterMismatch,
+    FilterName,
+    FilterOption,
+    FilterValues,
+    SortOrderResult
+} from './types.js';
+
+export interface FilterEngineOptions {
+    /**
+     * How long to wait for the list request confirming the filters, in milliseconds
+     */
+    confirmTimeoutMs?: number;
+    /**
+     * Pause after opening a dropdown or picking an option, in milliseconds
+     */
+    settleMs?: number;
+    /**
+     * Filter definitions; defaults to the Top Ads list filters
+     */
+    definitions?: FilterDefinition[];
+}
+
+// Intercepted by setupRequestInterception; every filter change reloads the list through it
+const LIST_REQUEST_PATTERN = /\/creative_radar_api\/v1\/top_ads\/v2\/list/;
+
+const OPTION_SELECTORS: Record<FilterKind, string> = {
+    single: '.byted-select-dropdown-option-content, div.byted-select-option',
+    multi: '.byted-select-dropdown-option-content, div.byted-select-option',
+    cascader: '.byted-cascader-menu-item'
+};
+
+const SELECTED_LABEL_SELECTORS: Record<FilterKind, string> = {
+    single: '.CcSelect_ccItemLabelContent__Qe4o_',
+    multi: '.CcMultiSelect_ccItemLabelContent__1dXUL',
+    cascader: '.byted-tag-content'
+};
+
+const CLEAR_BUTTON_SELECTOR = '.CcMultiSelect_ccItemLabelClose__F3dTP, .i-icon-close-small';
+
+const CASCADER_MENU_SELECTOR = '.byted-cascader-menu';
+const CASCADER_EXPAND_ICON_SELECTOR = '.byted-cascader-menu-item-expand-icon';
+
+// Attributes that carry the internal key of an option, in order of preference
+const OPTION_VALUE_ATTRIBUTES = ['data-value', 'data-key', 'value', 'title'];
+
+const MAX_SCROLL_ROUNDS = 50;
+const MAX_CASCADER_DEPTH = 3;
+
+/**
+ * Builds the query params the list request must carry for the given filters.
+ * Filters that cannot be mapped to a param value are expected with any value.
+ * @param values - Applied filter values
+ * @param definitions - Filter definitions
+ * @returns Expected value per query param; null means the param only has to be present
+ */
+export function getExpectedQueryParams(
+    values: FilterValues,
+    definitions: FilterDefinition[] = FILTER_DEFINITIONS
+): Record<string, { filter: FilterName; value: string | null }> {
+    const expected: Record<string, { filter: FilterName; value: string | null }> = {};
+
+    for (const definition of definitions) {
+        const list = toList(values[definition.name]);
+        if (list.length === 0) continue;
+
+        const mapped = definition.toQueryValue ? list.map(definition.toQueryValue) : [];
+        const value = mapped.length > 0 && mapped.every(Boolean) ? mapped.join(',') : null;
+        expected[definition.queryParam] = { filter: definition.name, value };
+    }
+    return expected;
+}
+
+/**
+ * Compares the query params of a list request with the applied filters.
+ * Multi-value params are compared as sets, so their order does not matter.
+ * @param values - Applied filter values
+ * @param params - Query params of the list request
+ * @param definitions - Filter definitions
+ * @returns Params that are missing or carry another value
+ */
+export function compareFilterQueryParams(
+    values: FilterValues,
+    params: Record<string, string>,
+    definitions: FilterDefinition[] = FILTER_DEFINITIONS
+): FilterMismatch[] {
+    const mismatches: FilterMismatch[] = [];
+
+    for (const [param, { filter, value }] of Object.entries(getExpectedQueryParams(values, definitions))) {
+        const actual = params[param];
+        if (!actual) {
+            mismatches.push({ filter, param, expected: value ?? undefined });
+        } else if (value !== null && !sameValueSet(value, actual)) {
+            mismatches.push({ filter, param, expected: value, actual });
+        }
+    }
+    return mismatches;
+}
+
+/**
+ * Finds, applies and verifies the Top Ads list filters. Values are either opened as URL query params
+ * or selected through the page controls, read back from the selected labels and confirmed against
+ * the query params of the next list request.
+ */
+export class FilterEngine {
+    private readonly log: Log;
+    private readonly page: Page;
+    private readonly confirmTimeoutMs: number;
+    private readonly settleMs: number;
+    private readonly definitions: FilterDefinition[];
+
+    /**
+     * @param log - Crawlee logger
+     * @param page - Page showing the Top Ads list
+     * @param options - Engine options
+     */
+    constructor(log: Log, page: Page, options: FilterEngineOptions = {}) {
+        this.log = log;
+        this.page = page;
+        this.confirmTimeoutMs = options.confirmTimeoutMs ?? 15000;
+        this.settleMs = options.settleMs ?? 500;
+        this.definitions = options.definitions ?? FILTER_DEFINITIONS;
+    }
+
+    /**
+     * Finds the filter controls present on the page
+     * @returns Filters found, in application order
+     */
+    async discover(): Promise<DiscoveredFilter[]> {
+        const discovered: DiscoveredFilter[] = [];
+
+        for (const definition of this.definitions) {
+            const element = await this.page.$(definition.selector).catch(() => null);
+            if (!element) {
+                this.log.debug(`Filter control not found: ${definition.label}`, { selector: definition.selector });
+                continue;
+            }
+
+            const className = await element.getAttribute('class').catch(() => null) ?? '';
+            const kind: FilterKind = /cascader/.test(className) ? 'cascader'
+                : /multiple|MultiSelect/.test(className) ? 'multi'
+                : definition.kind;
+            discovered.push({ definition, kind });
+        }
+
+        this.log.info(`Found ${discovered.length} filter control(s)`, { filters: discovered.map(filter => filter.definition.name) });
+        return discovered;
+    }
+
+    /**
+     * Applies the values, reads the selection back and waits for the list request that confirms it
+     * @param values - Values per filter
+     * @returns Applied and failed filters, the selection read back and the request confirmation
+     */
+    async apply(values: FilterValues): Promise<FilterApplyResult> {
+        const configured = this.definitions.filter(definition => values[definition.name] !== undefined);
+        const result: FilterApplyResult = {
+            applied: [],
+            failed: [],
+            state: {},
+            confirmation: { confirmed: true, mismatches: [] }
+        };
+        if (configured.length === 0) return result;
+
+        const discovered = await this.discover();
+        // Listen before changing anything, the first filter change may already send the request
+        const confirmation = this.waitForConfirmation(values);
+
+        for (const definition of configured) {
+            const filter = discovered.find(candidate => candidate.definition.name === definition.name);
+            if (!filter) {
+                result.failed.push(definition.name);
+                continue;
+            }
+
+            try {
+                if (await this.applyFilter(filter, toList(values[definition.name]))) {
+                    result.applied.push(definition.name);
+                } else {
+                    result.failed.push(definition.name);
+                }
+            } catch (error) {
+                this.log.error(`Failed to apply filter ${definition.label}:`, { error: (error as Error).message });
+                result.failed.push(definition.name);
+            } finally {
+                await this.closeDropdown();
+            }
+        }
+
+        result.state = await this.readState(discovered);
+        result.confirmation = await confirmation;
+
+        for (const name of result.applied) {
+            const missing = this.findMissingLabels(name, toList(values[name]), result.state[name] ?? []);
+            if (missing.length > 0) {
+                this.log.warning(`Filter ${name} does not show all selected values`, { missing, shown: result.state[name] });
+            }
+        }
+        if (!result.confirmation.confirmed) {
+            this.log.warning('List request does not reflect the applied filters', { mismatches: result.confirmation.mismatches });
+        }
+
+        this.log.info('Filters applied', { applied: result.applied, failed: result.failed, confirmed: result.confirmation.confirmed });
+        return result;
+    }
+
+    /**
+     * Opens the page with the filters as URL query params and selects only the rest through the
+     * dropdowns: filters without a known query value and those the page did not pick up from the URL
+     * @param values - Values per filter
+     * @returns Applied and failed filters, the selection read back and the request confirmation
+     * @throws FilterValidationError if a value is unknown or malformed
+     */
+    async applyViaUrl(values: FilterValues): Promise<FilterApplyResult> {
+        const query = buildFilterQuery(values, this.definitions);
+        if (Object.keys(query.params).length === 0) {
+            return this.apply(query.uiValues);
+        }
+
+        const url = buildFilteredUrl(this.page.url(), query.params);
+        this.log.info('Opening filtered Top Ads page', { url });
+
+        const confirmation = this.waitForConfirmation(query.queryValues);
+        await this.page.goto(url, { waitUntil: 'domcontentloaded' });
+        const urlConfirmation = await confirmation;
+
+        const ignored = new Set(urlConfirmation.mismatches.map(mismatch => mismatch.filter));
+        const fallback: FilterValues = { ...query.uiValues };
+        for (const name of ignored) {
+            fallback[name] = query.queryValues[name];
+        }
+        const appliedViaUrl = getFilterNames(query.queryValues).filter(name => !ignored.has(name));
+
+        if (getFilterNames(fallback).length === 0) {
+            return {
+                applied: appliedViaUrl,
+                failed: [],
+                state: await this.readState(),
+                confirmation: urlConfirmation
+            };
+        }
+
+        this.log.info('Selecting remaining filters on the page', { filters: getFilterNames(fallback) });
+        const uiResult = await this.apply(fallback);
+        return {
+            ...uiResult,
+            applied: [...appliedViaUrl, ...uiResult.applied]
+        };
+    }
+
+    /**
+     * Reads the labels shown as selected in each filter control
+     * @param filters - Filters to read; discovered when not given
+     * @returns Selected labels per filter
+     */
+    async readState(filters?: DiscoveredFilter[]): Promise<AppliedFilterState> {
+        const state: AppliedFilterState = {};
+
+        for (const { definition, kind } of filters ?? await this.discover()) {
+            const labels = await this.page.$$eval(
+                `${definition.selector} ${SELECTED_LABEL_SELECTORS[kind]}`,
+                elements => elements.map(element => element.textContent?.trim() ?? '')
+            ).catch(() => [] as string[]);
+            state[definition.name] = labels.filter(Boolean);
+        }
+        return state;
+    }
+
+    /**
+     * Opens every filter on the page and reads its options, walking the cascader levels.
+     * Selections are not changed.
+     * @returns Options per filter found on the page
+     */
+    async discoverOptions(): Promise<Partial<Record<FilterName, FilterOption[]>>> {
+        const catalog: Partial<Record<FilterName, FilterOption[]>> = {};
+
+        for (const { definition, kind } of await this.discover()) {
+            try {
+                await this.page.click(definition.selector);
+                await this.page.waitForTimeout(this.settleMs);
+                catalog[definition.name] = kind === 'cascader'
+                    ? await this.readCascaderLevel(0)
+                    : await this.readOptions(OPTION_SELECTORS[kind]);
+                this.log.info(`Read ${catalog[definition.name]!.length} option(s) of filter ${definition.label}`);
+            } catch (error) {
+                this.log.error(`Failed to read options of filter ${definition.label}:`, { error: (error as Error).message });
+            } finally {
+                await this.closeDropdown();
+            }
+        }
+        return catalog;
+    }
+
+    /**
+     * Waits for a list request whose query params match the filters
+     * @param values - Applied filter values
+     * @returns Confirmation with the mismatches of the last request seen before the timeout
+     */
+    async waitForConfirmation(values: FilterValues): Promise<FilterConfirmation> {
+        if (Object.keys(getExpectedQueryParams(values, this.definitions)).length === 0) {
+            return { confirmed: true, mismatches: [] };
+        }
+
+        const { matched, params } = await this.waitForListRequest(
+            requestParams => compareFilterQueryParams(values, requestParams, this.definitions).length === 0
+        );
+        return {
+            confirmed: matched,
+            params,
+            mismatches: compareFilterQueryParams(values, params ?? {}, this.definitions)
+        };
+    }
+
+    /**
+     * Selects a sort tab and waits for the list request carrying its order param
+     * @param orderBy - Sort order as sort type, query value or tab label
+     * @returns Whether the tab was selected and the request confirmed it
+     */
+    async applySortOrder(orderBy: string): Promise<SortOrderResult> {
+        const sortBy = resolveSortOrder(orderBy);
+        if (!sortBy) {
+            this.log.warning(`Sort order "${orderBy}" cannot be selected on the page`);
+            return { applied: false, confirmed: false };
+        }
+
+        const expected = toSortOrderParam(sortBy);
+        const confirmation = this.waitForListRequest(params => params[SORT_ORDER_PARAM] === expected);
+        const applied = await applySortOption(this.page, this.log, { sortBy });
+        const { matched, params } = await confirmation;
+
+        if (!matched) {
+            this.log.warning('List request does not reflect the sort order', { expected, actual: params?.[SORT_ORDER_PARAM] });
+        }
+        return { applied, confirmed: matched, param: params?.[SORT_ORDER_PARAM] };
+    }
+
+    /**
+     * @private
+     */
+    private async applyFilter(filter: DiscoveredFilter, values: string[]): Promise<boolean> {
+        const { definition, kind } = filter;
+        this.log.info(`Applying filter ${definition.label}`, { values });
+
+        await this.page.click(definition.selector);
+        await this.page.waitForTimeout(this.settleMs);
+
+        if (values.length === 0) {
+            await this.clearSelections(definition);
+            return true;
+        }
+
+        if (kind === 'multi') {
+            await this.clearSelections(definition);
+        }
+
+        let selected = 0;
+        for (const value of kind === 'single' ? values.slice(0, 1) : values) {
+            const found = kind === 'cascader'
+                ? await this.selectCascaderPath(value)
+                : await this.selectOption(OPTION_SELECTORS[kind], this.getOptionLabels(definition, value));
+            if (found) {
+                selected++;
+            } else {
+                this.log.warning(`Option "${value}" not found for filter ${definition.label}`);
+            }
+        }
+        return selected > 0;
+    }
+
+    /**
+     * Waits for a list request whose query params pass the check
+     * @private
+     */
+    private async waitForListRequest(check: (params: Record<string, string>) => boolean): Promise<{ matched: boolean; params?: Record<string, string> }> {
+        let last: Record<string, string> | undefined;
+        const matches = (request: Request) => {
+            if (!LIST_REQUEST_PATTERN.test(request.url())) return false;
+
+            last = Object.fromEntries(new URL(request.url()).searchParams.entries());
+            return check(last);
+        };
+
+        try {
+            await this.page.waitForRequest(matches, { timeout: this.confirmTimeoutMs });
+            return { matched: true, params: last };
+        } catch {
+            // Timed out; `last` holds the closest request seen
+            return { matched: false, params: last };
+        }
+    }
+
+    /**
+     * Reads the options of an open dropdown. Long lists are virtualized,
+     * so the list is scrolled until no new options appear.
+     * @private
+     */
+    private async readOptions(selector: string): Promise<FilterOption[]> {
+        const options = new Map<string, FilterOption>();
+
+        for (let round = 0; round < MAX_SCROLL_ROUNDS; round++) {
+            const elements = await this.page.$$(selector);
+            const before = options.size;
+            for (const element of elements) {
+                const option = await readOption(element);
+                if (option && !options.has(option.label)) {
+                    options.set(option.label, option);
+                }
+            }
+            if (options.size === before || elements.length === 0) break;
+
+            await elements[elements.length - 1].scrollIntoViewIfNeeded().catch(() => {});
+            await this.page.waitForTimeout(this.settleMs / 2);
+        }
+        return [...options.values()];
+    }
+
+    /**
+     * Reads one cascader menu column, expanding every item with children into the next column
+     * @private
+     */
+    private async readCascaderLevel(depth: number): Promise<FilterOption[]> {
+        const selector = `${CASCADER_MENU_SELECTOR}:nth-of-type(${depth + 1}) ${OPTION_SELECTORS.cascader}`;
+        const count = (await this.page.$$(selector)).length;
+        const options: FilterOption[] = [];
+
+        for (let index = 0; index < count; index++) {
+            // Expanding an item re-renders the following columns, so the items are looked up again
+            const element = (await this.page.$$(selector))[index];
+            const option = element ? await readOption(element) : null;
+            if (!element || !option) continue;
+
+            const hasChildren = /expand|has-children/.test(await element.getAttribute('class') ?? '')
+                || await element.$(CASCADER_EXPAND_ICON_SELECTOR) !== null;
+            if (hasChildren && depth + 1 < MAX_CASCADER_DEPTH) {
+                await element.click();
+                await this.page.waitForTimeout(this.settleMs);
+                option.children = await this.readCascaderLevel(depth + 1);
+            }
+            options.push(option);
+        }
+        return options;
+    }
+
+    /**
+     * Cascader paths like `E-commerce > Apparel` open one menu level per segment
+     * @private
+     */
+    private async selectCascaderPath(path: string): Promise<boolean> {
+        for (const segment of path.split('>').map(part => part.trim()).filter(Boolean)) {
+            if (!await this.selectOption(OPTION_SELECTORS.cascader, [segment])) {
+                return false;
+            }
+        }
+        return true;
+    }
+
+    /**
+     * Clicks the visible option whose text equals one of the labels. Partial matches are not
+     * accepted, a typo must not select a different option.
+     * @private
+     */
+    private async selectOption(selector: string, labels: string[]): Promise<boolean> {
+        const wanted = labels.map(normalizeLabel);
+        const options = await this.page.$$(selector);
+        const texts = await Promise.all(options.map(option => option.textContent().then(text => normalizeLabel(text ?? ''))));
+
+        const index = texts.findIndex(text => wanted.includes(text));
+        if (index === -1) return false;
+
+        await options[index].click();
+        await this.page.waitForTimeout(this.settleMs);
+        return true;
+    }
+
+    /**
+     * @private
+     */
+    private async clearSelections(definition: FilterDefinition): Promise<void> {
+        const buttons = await this.page.$$(`${definition.selector} ${CLEAR_BUTTON_SELECTOR}`);
+        for (const button of buttons) {
+            await button.click();
+            await this.page.waitForTimeout(this.settleMs / 2);
+        }
+        if (buttons.length > 0) {
+            this.log.debug(`Cleared ${buttons.length} selection(s) of filter ${definition.label}`);
+        }
+    }
+
+    /**
+     * @private
+     */
+    private async closeDropdown(): Promise<void> {
+        await this.page.click('body', { position: { x: 10, y: 10 } }).catch(() => {});
+        await this.page.waitForTimeout(this.settleMs);
+    }
+
+    /**
+     * @private
+     */
+    private getOptionLabels(definition: FilterDefinition, value: string): string[] {
+        return definition.toOptionLabels ? definition.toOptionLabels(value) : [value];
+    }
+
+    /**
+     * @private
+     */
+    private findMissingLabels(name: FilterName, values: string[], shown: string[]): string[] {
+        const definition = this.definitions.find(candidate => candidate.name === name);
+        if (!definition || definition.kind === 'cascader') return [];
+
+        const normalizedShown = shown.map(normalizeLabel);
+        return values.filter(value => !this.getOptionLabels(definition, value)
+            .some(label => normalizedShown.includes(normalizeLabel(label))));
+    }
+}
+
+/**
+ * @private
+ */
+async function readOption(element: ElementHandle): Promise<FilterOption | null> {
+    const label = (await element.textContent())?.replace(/\s+/g, ' ').trim();
+    if (!label) return null;
+
+    for (const attribute of OPTION_VALUE_ATTRIBUTES) {
+        const value = await element.getAttribute(attribute);
+        if (value && value !== label) {
+            return { label, value };
+        }
+    }
+    return { label };
+}
+
+/**
+ * @private
+ */
+function toList(value: string | string[] | undefined): string[] {
+    if (value === undefined) return [];
+    return (Array.isArray(value) ? value : [value]).map(item => item.trim()).filter(Boolean);
+}
+
+/**
+ * @private
+ */
+function normalizeLabel(label: string): string {
+    return label.replace(/\s+/g, ' ').trim().toLowerCase();
+}
+
+/**
+ * @private
+ */
+function sameValueSet(expected: string, actual: string): boolean {
+    const split = (value: string) => [...new Set(value.split(',').map(item => item.trim().toLowerCase()).filter(Boolean))].sort().join(',');
+    return split(expected) === split(actual);
+}
@@ -0,0 +1,120 @@
+import { z } from 'zod';
+import { FILTER_DEFINITIONS, findCountryCode, findLanguage } from './definitions.js';
+import type { FilterDefinition, FilterName, FilterValues } from './types.js';
+
+/**
+ * Thrown when filter values name unknown countries or languages or are malformed
+ */
+export class FilterValidationError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'FilterValidationError';
+    }
+}
+
+/**
+ * Filters split by how they can be applied
+ */
+export interface FilterQuery {
+    /**
+     * Query params of the Creative Center page and list API, e.g. `{ region: 'US', period: '30' }`
+     */
+    params: Record<string, string>;
+    /**
+     * Validated values of the filters carried by `params`
+     */
+    queryValues: FilterValues;
+    /**
+     * Filters without a known query value; they have to be selected on the page
+     */
+    uiValues: FilterValues;
+}
+
+// Periods the Creative Center offers, as days or as their option label
+const PERIOD_PATTERN = /^(?:(?:7|30|180)|last (?:7|30|180) days)$/i;
+
+const valueList = z.union([z.string(), z.array(z.string())])
+    .transform(value => (Array.isArray(value) ? value : [value]).map(item => item.trim()).filter(Boolean));
+
+/**
+ * Adds an issue for every value the lookup does not know
+ * @private
+ */
+const knownValues = (kind: string, lookup: (value: string) => unknown) => valueList.superRefine((values, ctx) => {
+    for (const value of values.filter(item => !lookup(item))) {
+        ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown ${kind} "${value}"` });
+    }
+});
+
+const filterValuesSchema = z.object({
+    region: knownValues('region', findCountryCode).optional(),
+    adLanguage: knownValues('ad language', findLanguage).optional(),
+    period: valueList
+        .refine(values => values.length <= 1, 'Only one period can be applied')
+        .superRefine((values, ctx) => {
+            for (const value of values.filter(item => !PERIOD_PATTERN.test(item))) {
+                ctx.addIssue({ code: z.ZodIssueCode.custom, message: `Unknown period "${value}", use 7, 30 or 180 days, e.g. 7 or "Last 30 days"` });
+            }
+        })
+        .optional(),
+    industry: valueList.optional(),
+    objective: valueList.optional(),
+    adFormat: valueList.optional(),
+    likes: valueList.optional()
+}).strict();
+
+/**
+ * Validates filter values and maps them to query params. Countries and languages may be given
+ * by name or code and are sent as codes; filters whose options have no known query value are
+ * left for the dropdowns.
+ * @param values - Filter values, e.g. from a crawl job
+ * @param definitions - Filter definitions
+ * @returns Query params and the filters that still need the page controls
+ * @throws FilterValidationError if a value is unknown or malformed
+ */
+export function buildFilterQuery(values: FilterValues, definitions: FilterDefinition[] = FILTER_DEFINITIONS): FilterQuery {
+    const parsed = filterValuesSchema.safeParse(values);
+    if (!parsed.success) {
+        const issues = parsed.error.issues.map(issue => `${issue.path.join('.') || 'filters'}: ${issue.message}`);
+        throw new FilterValidationError(`Invalid filters: ${issues.join('; ')}`);
+    }
+
+    const query: FilterQuery = { params: {}, queryValues: {}, uiValues: {} };
+    for (const definition of definitions) {
+        const list = parsed.data[definition.name];
+        if (list === undefined) continue;
+
+        const mapped = definition.toQueryValue ? list.map(definition.toQueryValue) : [];
+        // Cleared filters have no query value, removing them from the URL is not enough to clear a saved selection
+        if (list.length > 0 && mapped.length === list.length && mapped.every(Boolean)) {
+            query.params[definition.queryParam] = [...new Set(mapped)].join(',');
+            query.queryValues[definition.name] = list;
+        } else {
+            query.uiValues[definition.name] = list;
+        }
+    }
+    return query;
+}
+
+/**
+ * Adds filter query params to a Creative Center URL, replacing params of the same name
+ * @param baseUrl - Page URL, e.g. the Top Ads list
+ * @param params - Query params from `buildFilterQuery`
+ * @returns URL that opens the page with the filters applied
+ */
+export function buildFilteredUrl(baseUrl: string, params: Record<string, string>): string {
+    const url = new URL(baseUrl);
+    for (const [name, value] of Object.entries(params)) {
+        url.searchParams.set(name, value);
+    }
+    return url.toString();
+}
+
+/**
+ * Names of the filters in a set of values
+ * @param values - Filter values
+ * @returns Filter names with a value
+ */
+export function getFilterNames(values: FilterValues): FilterName[] {
+    return (Object.keys(values) as FilterName[]).filter(name => values[name] !== undefined);
+}
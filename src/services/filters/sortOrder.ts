@@ -0,0 +1,62 @@
+import { SortType } from '../../steps/sort-elements-handler.js';
+
+/**
+ * Sort orders that can be crawled, i.e. selected on the page and recognised in the list request
+ */
+export type CrawlSortOrder = SortType.FOR_YOU | SortType.REACH | SortType.CTR;
+
+/**
+ * Query param of the list request that carries the sort order
+ */
+export const SORT_ORDER_PARAM = 'order_by';
+
+// Value of the order param the Creative Center sends for each sort tab
+const SORT_ORDER_PARAM_VALUES: Record<CrawlSortOrder, string> = {
+    [SortType.FOR_YOU]: 'for_you',
+    [SortType.REACH]: 'reach',
+    [SortType.CTR]: 'ctr'
+};
+
+// Tab labels shown on the page
+const SORT_ORDER_LABELS: Record<CrawlSortOrder, string> = {
+    [SortType.FOR_YOU]: 'For You',
+    [SortType.REACH]: 'Reach',
+    [SortType.CTR]: 'CTR'
+};
+
+/**
+ * Resolves a configured sort order given as sort type (`forYou`), query value (`for_you`) or tab label (`For You`)
+ * @param value - Configured sort order
+ * @returns Sort type, or undefined if the value names no crawlable sort order
+ */
+export function resolveSortOrder(value: string | undefined): CrawlSortOrder | undefined {
+    if (!value) return undefined;
+
+    const normalized = value.replace(/[\s_-]/g, '').toLowerCase();
+    return (Object.keys(SORT_ORDER_PARAM_VALUES) as CrawlSortOrder[]).find(sortType =>
+        [sortType, SORT_ORDER_PARAM_VALUES[sortType], SORT_ORDER_LABELS[sortType]]
+            .some(candidate => candidate.replace(/[\s_-]/g, '').toLowerCase() === normalized)
+    );
+}
+
+/**
+ * Returns the order param value the list request carries for a sort order
+ * @param value - Configured sort order
+ * @returns Query value, or undefined if the value names no crawlable sort order
+ */
+export function toSortOrderParam(value: string | undefined): string | undefined {
+    const sortType = resolveSortOrder(value);
+    return sortType ? SORT_ORDER_PARAM_VALUES[sortType] : undefined;
+}
+
+/**
+ * Lists configured sort orders that cannot be crawled
+ * @param values - Configured sort orders
+ * @returns Message per unknown value, naming the accepted ones
+ */
+export function validateSortOrders(values: string[]): string[] {
+    const accepted = Object.values(SORT_ORDER_LABELS).map(label => `"${label}"`).join(', ');
+    return values
+        .filter(value => !resolveSortOrder(value))
+        .map(value => `orderBy: "${value}" is not a sort order, use one of ${accepted}`);
+}
@@ -0,0 +1,153 @@
+/**
+ * Filters of the Top Ads list
+ */
+export type FilterName = 'region' | 'industry' | 'objective' | 'period' | 'adLanguage' | 'adFormat' | 'likes';
+
+/**
+ * How a filter control selects values
+ */
+export type FilterKind = 'single' | 'multi' | 'cascader';
+
+/**
+ * Values to apply, by filter. Cascader values are paths like `E-commerce > Apparel`.
+ * An empty list clears a multi-select filter; filters that are not set keep their current value.
+ */
+export type FilterValues = Partial<Record<FilterName, string | string[]>>;
+
+/**
+ * Labels shown as selected on the page, by filter
+ */
+export type AppliedFilterState = Partial<Record<FilterName, string[]>>;
+
+/**
+ * Static description of a filter control and the list request query param it sets
+ */
+export interface FilterDefinition {
+    name: FilterName;
+    kind: FilterKind;
+    /**
+     * Human-readable name used in logs
+     */
+    label: string;
+    /**
+     * Selector of the control that opens the filter dropdown
+     */
+    selector: string;
+    /**
+     * Query param of the list request that carries the filter
+     */
+    queryParam: string;
+    /**
+     * Converts a configured value into its query param value.
+     * Without it, the param is only required to be present.
+     */
+    toQueryValue?: (value: string) => string | undefined;
+    /**
+     * Option texts a configured value may be shown as on the page, e.g. the country name for a code
+     */
+    toOptionLabels?: (value: string) => string[];
+}
+
+/**
+ * Filter control found on the page
+ */
+export interface DiscoveredFilter {
+    definition: FilterDefinition;
+    /**
+     * Kind detected from the control; may differ from the definition when TikTok changes a control
+     */
+    kind: FilterKind;
+}
+
+/**
+ * Query param of the confirming request that does not match the applied filters
+ */
+export interface FilterMismatch {
+    filter: FilterName;
+    param: string;
+    expected?: string;
+    actual?: string;
+}
+
+/**
+ * Result of checking the list request sent after the filters were applied
+ */
+export interface FilterConfirmation {
+    confirmed: boolean;
+    /**
+     * Query params of the last list request seen, if any
+     */
+    params?: Record<string, string>;
+    mismatches: FilterMismatch[];
+}
+
+/**
+ * Outcome of applying filters with the FilterEngine
+ */
+export interface FilterApplyResult {
+    /**
+     * Filters whose values were selected on the page
+     */
+    applied: FilterName[];
+    /**
+     * Configured filters whose control or options were not found
+     */
+    failed: FilterName[];
+    /**
+     * Selected labels read back from the page afterwards
+     */
+    state: AppliedFilterState;
+    confirmation: FilterConfirmation;
+}
+
+/**
+ * Option of a filter dropdown or cascader level
+ */
+export interface FilterOption {
+    /**
+     * Text shown on the page
+     */
+    label: string;
+    /**
+     * Internal key of the option, if the page exposes one
+     */
+    value?: string;
+    /**
+     * Options of the next cascader level
+     */
+    children?: FilterOption[];
+}
+
+/**
+ * Options of every filter as discovered on the page
+ */
+export interface FilterCatalog {
+    /**
+     * Catalog format version
+     */
+    version: 1;
+    discoveredAt: string;
+    /**
+     * Page the options were read from
+     */
+    url: string;
+    filters: Partial<Record<FilterName, FilterOption[]>>;
+}
+
+/**
+ * Outcome of selecting a sort order with the FilterEngine
+ */
+export interface SortOrderResult {
+    /**
+     * Whether the sort tab was selected on the page
+     */
+    applied: boolean;
+    /**
+     * Whether a list request carried the expected order param
+     */
+    confirmed: boolean;
+    /**
+     * Order param of the last list request seen, if any
+     */
+    param?: string;
+}
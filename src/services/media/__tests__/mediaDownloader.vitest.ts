@@ -0,0 +1,192 @@
+import { describe, it, expect, beforeEach, vi } from 'vitest';
+import axios from 'axios';
+import type { Log } from 'crawlee';
+import { MediaDownloader, MediaDownloadError } from '../mediaDownloader.js';
+import { AdMediaQueue } from '../adMediaQueue.js';
+import type { MediaStore } from '../mediaStore.js';
+import type { TikTokAdMaterial } from '../../../types/api.js';
+
+vi.mock('axios', () => ({
+  default: {
+    get: vi.fn(),
+    isAxiosError: (error: { isAxiosError?: boolean }) => Boolean(error?.isAxiosError)
+  }
+}));
+
+const mockLog = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn()
+} as unknown as Log;
+
+const httpError = (status: number) => Object.assign(new Error(`Request failed with status code ${status}`), {
+  isAxiosError: true,
+  response: { status }
+});
+
+const fileResponse = (content: string, contentType: string) => ({
+  data: Buffer.from(content),
+  headers: { 'content-type': contentType }
+});
+
+/**
+ * Store that keeps the stored content in memory
+ */
+const createStore = () => {
+  const stored: string[] = [];
+  const store: MediaStore = {
+    put: vi.fn(async (data: Buffer, extension: string) => {
+      stored.push(`${data.toString()}.${extension}`);
+      return { path: `media/${data.toString()}.${extension}`, size: data.length, checksum: `sha-${data.toString()}` };
+    }),
+    get: vi.fn()
+  };
+  return { store, stored };
+};
+
+const video = {
+  vid: 'v-1',
+  cover: 'https://cdn.example.com/cover.jpeg',
+  video_url: {
+    '720p': 'https://cdn.example.com/720.mp4',
+    '480p': 'https://cdn.example.com/480.mp4',
+    '360p': 'https://cdn.example.com/360.mp4'
+  }
+};
+
+describe('MediaDownloader', () => {
+  const sleep = vi.fn(async () => {});
+
+  beforeEach(() => {
+    vi.mocked(axios.get).mockReset();
+    sleep.mockClear();
+  });
+
+  it('should store the cover and the 720p rendition', async () => {
+    vi.mocked(axios.get).mockImplementation(async (url: string) => url.includes('cover')
+      ? fileResponse('cover', 'image/jpeg')
+      : fileResponse('video720', 'video/mp4'));
+    const { store, stored } = createStore();
+
+    const media = await new MediaDownloader(mockLog, store, { sleep }).downloadVideoMedia(video);
+
+    expect(stored.sort()).toEqual(['cover.jpg', 'video720.mp4']);
+    expect(media).toMatchObject({
+      videoPath: 'media/video720.mp4',
+      videoSize: 8,
+      videoChecksum: 'sha-video720',
+      videoRendition: '720p',
+      coverPath: 'media/cover.jpg',
+      coverChecksum: 'sha-cover'
+    });
+    expect(media.mediaDownloadedAt).toBeInstanceOf(Date);
+  });
+
+  it('should fall back to a lower rendition when a link expired', async () => {
+    vi.mocked(axios.get).mockImplementation(async (url: string) => {
+      if (url.includes('720')) throw httpError(403);
+      return fileResponse(url.includes('cover') ? 'cover' : 'video480', url.includes('cover') ? 'image/jpeg' : 'video/mp4');
+    });
+    const { store } = createStore();
+
+    const media = await new MediaDownloader(mockLog, store, { sleep }).downloadVideoMedia(video);
+
+    expect(media.videoRendition).toBe('480p');
+    // Expired links are not retried
+    expect(sleep).not.toHaveBeenCalled();
+  });
+
+  it('should retry server errors with backoff', async () => {
+    vi.mocked(axios.get)
+      .mockRejectedValueOnce(httpError(503))
+      .mockRejectedValueOnce(httpError(429))
+      .mockResolvedValueOnce(fileResponse('video', 'video/mp4'));
+    const { store } = createStore();
+
+    const stored = await new MediaDownloader(mockLog, store, { sleep, retryDelayMs: 100 }).download(video.video_url['720p']);
+
+    expect(stored.path).toBe('media/video.mp4');
+    expect(sleep.mock.calls).toEqual([[100], [200]]);
+  });
+
+  it('should give up after the configured retries', async () => {
+    vi.mocked(axios.get).mockRejectedValue(new Error('socket hang up'));
+    const { store } = createStore();
+
+    await expect(new MediaDownloader(mockLog, store, { sleep, retries: 2 }).download(video.video_url['720p']))
+      .rejects.toThrow(MediaDownloadError);
+    expect(axios.get).toHaveBeenCalledTimes(3);
+  });
+
+  it('should not run more downloads at once than the concurrency', async () => {
+    let running = 0;
+    let maxRunning = 0;
+    vi.mocked(axios.get).mockImplementation(async () => {
+      running++;
+      maxRunning = Math.max(maxRunning, running);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      running--;
+      return fileResponse('file', 'video/mp4');
+    });
+    const { store } = createStore();
+    const downloader = new MediaDownloader(mockLog, store, { sleep, concurrency: 2 });
+
+    await Promise.all(Array.from({ length: 5 }, (_, index) => downloader.download(`https://cdn.example.com/${index}.mp4`)));
+
+    expect(maxRunning).toBe(2);
+    expect(axios.get).toHaveBeenCalledTimes(5);
+  });
+
+  it('should pick the extension from the content type or the URL', () => {
+    expect(MediaDownloader.getExtension('https://cdn.example.com/a', 'image/webp')).toBe('webp');
+    expect(MediaDownloader.getExtension('https://cdn.example.com/a.MP4?sig=1')).toBe('mp4');
+    expect(MediaDownloader.getExtension('https://cdn.example.com/a')).toBe('bin');
+  });
+});
+
+describe('AdMediaQueue', () => {
+  it('should record the media of each video once', async () => {
+    const downloader = {
+      downloadVideoMedia: vi.fn(async () => ({ videoPath: 'media/v.mp4', videoSize: 1, videoChecksum: 'sha' }))
+    } as unknown as MediaDownloader;
+    const db = { updateVideoMedia: vi.fn().mockResolvedValue(undefined), upsertCreativeFingerprint: vi.fn() };
+    const queue = new AdMediaQueue(mockLog, downloader, db);
+    const material = { id: 'ad-1', video_info: { ...video, duration: 10, width: 720, height: 1280 } } as unknown as TikTokAdMaterial;
+
+    queue.enqueue([material, { ...material, id: 'ad-2' }]);
+    await queue.drain();
+
+    expect(downloader.downloadVideoMedia).toHaveBeenCalledTimes(1);
+    expect(db.updateVideoMedia).toHaveBeenCalledWith('v-1', { videoPath: 'media/v.mp4', videoSize: 1, videoChecksum: 'sha' });
+  });
+
+  it('should not record a video without any downloaded file', async () => {
+    const downloader = {
+      downloadVideoMedia: vi.fn(async () => ({ mediaDownloadedAt: new Date() }))
+    } as unknown as MediaDownloader;
+    const db = { updateVideoMedia: vi.fn(), upsertCreativeFingerprint: vi.fn() };
+    const queue = new AdMediaQueue(mockLog, downloader, db);
+
+    queue.enqueue([{ id: 'ad-1', video_info: video } as unknown as TikTokAdMaterial]);
+    await queue.drain();
+
+    expect(db.updateVideoMedia).not.toHaveBeenCalled();
+  });
+
+  it('should hash the creative once its media is stored', async () => {
+    const downloader = {
+      downloadVideoMedia: vi.fn(async () => ({ videoPath: 'media/v.mp4', coverPath: 'media/c.jpg' }))
+    } as unknown as MediaDownloader;
+    const db = { updateVideoMedia: vi.fn().mockResolvedValue(undefined), upsertCreativeFingerprint: vi.fn().mockResolvedValue(undefined) };
+    const fingerprint = { adId: 'ad-1', coverHash: 'a5c3f00f12345678', frameHashes: [] };
+    const hasher = { hashCreative: vi.fn().mockResolvedValue(fingerprint) };
+    const queue = new AdMediaQueue(mockLog, downloader, db, hasher);
+
+    queue.enqueue([{ id: 'ad-1', video_info: { ...video, duration: 10, width: 720, height: 1280 } } as unknown as TikTokAdMaterial]);
+    await queue.drain();
+
+    expect(hasher.hashCreative).toHaveBeenCalledWith('ad-1', expect.objectContaining({ vid: 'v-1', duration: 10, videoPath: 'media/v.mp4', coverPath: 'media/c.jpg' }));
+    expect(db.upsertCreativeFingerprint).toHaveBeenCalledWith(fingerprint);
+  });
+});
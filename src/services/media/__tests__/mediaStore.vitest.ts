@@ -0,0 +1,86 @@
+import { describe, it, expect, beforeEach, afterEach, vi } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { createHash } from 'crypto';
+import type { S3Client } from '@aws-sdk/client-s3';
+import { createMediaStore, FileMediaStore, getMediaKey, S3MediaStore } from '../mediaStore.js';
+
+const content = Buffer.from('creative');
+const checksum = createHash('sha256').update(content).digest('hex');
+
+describe('FileMediaStore', () => {
+  let rootDir: string;
+
+  beforeEach(() => {
+    rootDir = fs.mkdtempSync(path.join(os.tmpdir(), 'media-store-'));
+  });
+
+  afterEach(() => {
+    fs.rmSync(rootDir, { recursive: true, force: true });
+  });
+
+  it('should store files under their SHA-256', async () => {
+    const stored = await new FileMediaStore(rootDir).put(content, 'mp4');
+
+    expect(stored).toEqual({ path: path.join(rootDir, checksum.slice(0, 2), `${checksum}.mp4`), size: content.length, checksum });
+    expect(fs.readFileSync(stored.path, 'utf8')).toBe('creative');
+  });
+
+  it('should keep an existing file with the same content', async () => {
+    const store = new FileMediaStore(rootDir);
+    const first = await store.put(content, 'mp4');
+    const mtime = fs.statSync(first.path).mtimeMs;
+
+    const second = await store.put(content, 'mp4');
+
+    expect(second.path).toBe(first.path);
+    expect(fs.statSync(second.path).mtimeMs).toBe(mtime);
+    expect(fs.readdirSync(path.dirname(first.path))).toEqual([`${checksum}.mp4`]);
+  });
+
+  it('should read stored files back', async () => {
+    const store = new FileMediaStore(rootDir);
+    const stored = await store.put(content, 'jpg');
+
+    expect(await store.get(stored.path)).toEqual(content);
+    await expect(store.get(path.join(rootDir, 'missing.jpg'))).rejects.toThrow('Failed to read media file');
+  });
+});
+
+describe('S3MediaStore', () => {
+  const createClient = (exists: boolean) => ({
+    send: vi.fn(async (command: { constructor: { name: string } }) => {
+      if (command.constructor.name === 'HeadObjectCommand' && !exists) {
+        throw Object.assign(new Error('Not Found'), { name: 'NotFound' });
+      }
+      return {};
+    })
+  });
+
+  it('should upload new content under its key', async () => {
+    const client = createClient(false);
+    const store = new S3MediaStore({ bucket: 'ads', prefix: 'media/' }, client as unknown as S3Client);
+
+    const stored = await store.put(content, 'jpg', 'image/jpeg');
+
+    expect(stored.path).toBe(`s3://ads/media/${getMediaKey(checksum, 'jpg')}`);
+    expect(client.send).toHaveBeenCalledTimes(2);
+    expect(client.send.mock.calls[1][0]).toMatchObject({
+      input: { Bucket: 'ads', Key: `media/${getMediaKey(checksum, 'jpg')}`, ContentType: 'image/jpeg' }
+    });
+  });
+
+  it('should skip the upload when the object exists', async () => {
+    const client = createClient(true);
+
+    await new S3MediaStore({ bucket: 'ads' }, client as unknown as S3Client).put(content, 'jpg');
+
+    expect(client.send).toHaveBeenCalledTimes(1);
+  });
+
+  it('should require a bucket', () => {
+    expect(() => createMediaStore({ storage: 's3', dir: 'storage/media', s3: {} })).toThrow('MEDIA_S3_BUCKET is not set');
+    expect(createMediaStore({ storage: 'disk', dir: 'storage/media', s3: {} })).toBeInstanceOf(FileMediaStore);
+  });
+});
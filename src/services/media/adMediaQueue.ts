@@ -0,0 +1,83 @@
+import { Log } from 'crawlee';
+import type { IDatabase, VideoMediaData } from '../database/types.js';
+import type { TikTokAdMaterial } from '../../types/api.js';
+import type { MediaDownloader } from './mediaDownloader.js';
+import type { CreativeHasher } from '../duplicates/creativeHasher.js';
+
+/**
+ * Downloads the media of newly stored ads in the background of a crawl job and records
+ * the stored files on their video. Each video is downloaded once per queue.
+ * With a hasher, the downloaded cover and video frames are hashed for duplicate detection.
+ */
+export class AdMediaQueue {
+    private readonly log: Log;
+    private readonly downloader: MediaDownloader;
+    private readonly db: Pick<IDatabase, 'updateVideoMedia' | 'upsertCreativeFingerprint'>;
+    private readonly hasher?: Pick<CreativeHasher, 'hashCreative'>;
+    private readonly seen = new Set<string>();
+    private readonly pending = new Set<Promise<void>>();
+
+    constructor(
+        log: Log,
+        downloader: MediaDownloader,
+        db: Pick<IDatabase, 'updateVideoMedia' | 'upsertCreativeFingerprint'>,
+        hasher?: Pick<CreativeHasher, 'hashCreative'>
+    ) {
+        this.log = log;
+        this.downloader = downloader;
+        this.db = db;
+        this.hasher = hasher;
+    }
+
+    /**
+     * Starts downloading the media of the given ads without waiting for them
+     * @param materials - Newly stored ads with their signed CDN links
+     */
+    enqueue(materials: TikTokAdMaterial[]): void {
+        for (const material of materials) {
+            const video = material.video_info;
+            if (!video?.vid || this.seen.has(video.vid)) continue;
+            this.seen.add(video.vid);
+
+            const task = this.process(material.id, video).finally(() => this.pending.delete(task));
+            this.pending.add(task);
+        }
+    }
+
+    /**
+     * Waits until every queued download has been recorded
+     */
+    async drain(): Promise<void> {
+        while (this.pending.size > 0) {
+            await Promise.all(this.pending);
+        }
+    }
+
+    /**
+     * @private
+     */
+    private async process(adId: string, video: TikTokAdMaterial['video_info']): Promise<void> {
+        let media: VideoMediaData;
+        try {
+            media = await this.downloader.downloadVideoMedia(video);
+            if (!media.videoPath && !media.coverPath) {
+                this.log.warning('No media could be downloaded for ad', { adId, vid: video.vid });
+                return;
+            }
+
+            await this.db.updateVideoMedia(video.vid, media);
+            this.log.debug('Stored ad media', { adId, vid: video.vid, rendition: media.videoRendition, size: media.videoSize });
+        } catch (error) {
+            this.log.error('Error storing ad media:', { adId, vid: video.vid, error: (error as Error).message });
+            return;
+        }
+
+        if (!this.hasher) return;
+        try {
+            const { vid, duration, cover, width, height } = video;
+            await this.db.upsertCreativeFingerprint(await this.hasher.hashCreative(adId, { vid, duration, cover, width, height, ...media }));
+        } catch (error) {
+            this.log.error('Error hashing ad creative:', { adId, vid: video.vid, error: (error as Error).message });
+        }
+    }
+}
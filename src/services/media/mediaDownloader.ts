@@ -0,0 +1,209 @@
+import axios from 'axios';
+import { Log } from 'crawlee';
+import { delay } from '../../helpers/delay.js';
+import type { VideoMediaData } from '../database/types.js';
+import type { TikTokAdMaterial } from '../../types/api.js';
+import type { MediaStore, StoredMedia } from './mediaStore.js';
+
+/**
+ * Video renditions in the order they are tried
+ */
+export const VIDEO_RENDITIONS = ['720p', '480p', '360p'] as const;
+
+export type VideoRendition = typeof VIDEO_RENDITIONS[number];
+
+/**
+ * Video of a listed ad with its signed CDN links
+ */
+export type VideoMediaSource = Pick<TikTokAdMaterial['video_info'], 'vid' | 'cover' | 'video_url'>;
+
+/**
+ * Options for creating a MediaDownloader
+ */
+export interface MediaDownloaderOptions {
+    /**
+     * Maximum number of files downloaded at the same time
+     */
+    concurrency?: number;
+    /**
+     * Attempts per file after the first one
+     */
+    retries?: number;
+    /**
+     * Delay before the first retry, doubled for every further one (ms)
+     */
+    retryDelayMs?: number;
+    /**
+     * Request timeout (ms)
+     */
+    timeoutMs?: number;
+    /**
+     * Sleep function, replaceable in tests
+     */
+    sleep?: (ms: number) => Promise<unknown>;
+}
+
+/**
+ * Thrown for a download that failed for good, e.g. an expired link
+ */
+export class MediaDownloadError extends Error {
+    constructor(message: string, public readonly status?: number) {
+        super(message);
+        this.name = 'MediaDownloadError';
+    }
+}
+
+// Extensions by MIME type; the URL path is used for other types
+const EXTENSIONS: Record<string, string> = {
+    'video/mp4': 'mp4',
+    'video/webm': 'webm',
+    'image/jpeg': 'jpg',
+    'image/png': 'png',
+    'image/webp': 'webp',
+    'image/heic': 'heic'
+};
+
+/**
+ * Downloads the cover and the best available rendition of ad videos into a media store.
+ * Downloads share a fixed number of slots, and failed requests are retried with backoff.
+ */
+export class MediaDownloader {
+    private readonly log: Log;
+    private readonly store: MediaStore;
+    private readonly concurrency: number;
+    private readonly retries: number;
+    private readonly retryDelayMs: number;
+    private readonly timeoutMs: number;
+    private readonly sleep: (ms: number) => Promise<unknown>;
+    private active = 0;
+    private readonly waiting: Array<() => void> = [];
+
+    constructor(log: Log, store: MediaStore, options: MediaDownloaderOptions = {}) {
+        this.log = log;
+        this.store = store;
+        this.concurrency = Math.max(1, options.concurrency ?? 2);
+        this.retries = options.retries ?? 3;
+        this.retryDelayMs = options.retryDelayMs ?? 1000;
+        this.timeoutMs = options.timeoutMs ?? 60000;
+        this.sleep = options.sleep ?? delay;
+    }
+
+    /**
+     * Downloads the cover and the best rendition of a video. Lower renditions are
+     * tried when a higher one fails; a missing cover or video is left out of the result.
+     * @param source - Video with its CDN links
+     * @returns Stored files for `updateVideoMedia`
+     */
+    async downloadVideoMedia(source: VideoMediaSource): Promise<VideoMediaData> {
+        const [cover, video] = await Promise.all([
+            source.cover ? this.downloadOptional(source.cover, 'cover', source.vid) : Promise.resolve(null),
+            this.downloadBestRendition(source)
+        ]);
+
+        return {
+            ...(video && {
+                videoPath: video.path,
+                videoSize: video.size,
+                videoChecksum: video.checksum,
+                videoRendition: video.rendition
+            }),
+            ...(cover && {
+                coverPath: cover.path,
+                coverSize: cover.size,
+                coverChecksum: cover.checksum
+            }),
+            mediaDownloadedAt: new Date()
+        };
+    }
+
+    /**
+     * Downloads a file into the store, retrying network errors, rate limits and server errors
+     * @param url - File URL
+     * @returns Stored file
+     * @throws MediaDownloadError when all attempts failed or the link is no longer valid
+     */
+    async download(url: string): Promise<StoredMedia> {
+        return this.withSlot(async () => {
+            for (let attempt = 0; ; attempt++) {
+                try {
+                    const response = await axios.get<ArrayBuffer>(url, { responseType: 'arraybuffer', timeout: this.timeoutMs });
+                    const contentType = String(response.headers?.['content-type'] ?? '').split(';')[0].trim();
+                    return await this.store.put(Buffer.from(response.data), MediaDownloader.getExtension(url, contentType), contentType || undefined);
+                } catch (error) {
+                    const status = axios.isAxiosError(error) ? error.response?.status : undefined;
+                    // Signed links answer 403/404 once expired; asking again does not help
+                    const retryable = status === undefined || status === 429 || status >= 500;
+                    if (!retryable || attempt >= this.retries) {
+                        throw new MediaDownloadError(`Failed to download media after ${attempt + 1} attempt(s): ${(error as Error).message}`, status);
+                    }
+
+                    const waitMs = this.retryDelayMs * 2 ** attempt;
+                    this.log.debug('Media download failed, retrying', { status, attempt: attempt + 1, waitMs });
+                    await this.sleep(waitMs);
+                }
+            }
+        });
+    }
+
+    /**
+     * Picks the file extension from the content type, or from the URL path
+     * @param url - File URL
+     * @param contentType - MIME type of the response
+     * @returns Extension without dot, `bin` if unknown
+     */
+    static getExtension(url: string, contentType?: string): string {
+        if (contentType && EXTENSIONS[contentType]) return EXTENSIONS[contentType];
+
+        const match = new URL(url).pathname.match(/\.([a-z0-9]{2,5})$/i);
+        return match ? match[1].toLowerCase() : 'bin';
+    }
+
+    /**
+     * @private
+     */
+    private async downloadBestRendition(source: VideoMediaSource): Promise<(StoredMedia & { rendition: VideoRendition }) | null> {
+        for (const rendition of VIDEO_RENDITIONS) {
+            const url = source.video_url?.[rendition];
+            if (!url) continue;
+
+            const stored = await this.downloadOptional(url, rendition, source.vid);
+            if (stored) return { ...stored, rendition };
+        }
+        return null;
+    }
+
+    /**
+     * @private
+     */
+    private async downloadOptional(url: string, kind: string, vid: string): Promise<StoredMedia | null> {
+        try {
+            return await this.download(url);
+        } catch (error) {
+            this.log.warning('Could not download media:', { vid, kind, error: (error as Error).message });
+            return null;
+        }
+    }
+
+    /**
+     * Runs the task once one of the download slots is free
+     * @private
+     */
+    private async withSlot<T>(task: () => Promise<T>): Promise<T> {
+        if (this.active < this.concurrency) {
+            this.active++;
+        } else {
+            // The finishing task hands its slot over without releasing it
+            await new Promise<void>(resolve => this.waiting.push(resolve));
+        }
+        try {
+            return await task();
+        } finally {
+            const next = this.waiting.shift();
+            if (next) {
+                next();
+            } else {
+                this.active--;
+            }
+        }
+    }
+}
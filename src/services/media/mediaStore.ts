@@ -0,0 +1,210 @@
+import fs from 'fs/promises';
+import path from 'path';
+import { createHash } from 'crypto';
+import { GetObjectCommand, HeadObjectCommand, PutObjectCommand, S3Client } from '@aws-sdk/client-s3';
+
+/**
+ * File written to a media store
+ */
+export interface StoredMedia {
+    /**
+     * Location in the store: a file path, or an `s3://bucket/key` URI
+     */
+    path: string;
+    size: number;
+    /**
+     * SHA-256 of the content (hex)
+     */
+    checksum: string;
+}
+
+/**
+ * Storage for downloaded media. Files are addressed by the SHA-256 of their content,
+ * so a creative shared by several ads is stored once.
+ */
+export interface MediaStore {
+    /**
+     * Stores the content unless a file with the same checksum exists
+     * @param data - File content
+     * @param extension - File extension without dot, e.g. `mp4`
+     * @param contentType - MIME type (optional)
+     * @returns Location, size and checksum of the stored file
+     */
+    put(data: Buffer, extension: string, contentType?: string): Promise<StoredMedia>;
+    /**
+     * Reads a stored file
+     * @param location - Location returned by `put`, as recorded in `video_info`
+     * @returns File content
+     */
+    get(location: string): Promise<Buffer>;
+}
+
+/**
+ * Builds the content-addressed key of a file, e.g. `3f/3fa2...c1.mp4`.
+ * The two-character prefix keeps directories small.
+ * @param checksum - SHA-256 of the content (hex)
+ * @param extension - File extension without dot
+ * @returns Relative key
+ */
+export const getMediaKey = (checksum: string, extension: string): string =>
+    `${checksum.slice(0, 2)}/${checksum}.${extension}`;
+
+/**
+ * @private
+ */
+const sha256 = (data: Buffer): string => createHash('sha256').update(data).digest('hex');
+
+/**
+ * Stores media in a local directory
+ */
+export class FileMediaStore implements MediaStore {
+    private readonly rootDir: string;
+
+    constructor(rootDir: string) {
+        this.rootDir = rootDir;
+    }
+
+    async put(data: Buffer, extension: string): Promise<StoredMedia> {
+        const checksum = sha256(data);
+        const filePath = path.join(this.rootDir, getMediaKey(checksum, extension));
+
+        try {
+            const existing = await fs.stat(filePath).catch(() => null);
+            if (!existing) {
+                await fs.mkdir(path.dirname(filePath), { recursive: true });
+                // Written under a temporary name so an interrupted download never leaves a partial file
+                const tempPath = `${filePath}.${process.pid}.tmp`;
+                await fs.writeFile(tempPath, data);
+                await fs.rename(tempPath, filePath);
+            }
+        } catch (error) {
+            throw new Error(`Failed to store media file: ${(error as Error).message}`);
+        }
+
+        return { path: filePath, size: data.length, checksum };
+    }
+
+    async get(location: string): Promise<Buffer> {
+        try {
+            return await fs.readFile(location);
+        } catch (error) {
+            throw new Error(`Failed to read media file: ${(error as Error).message}`);
+        }
+    }
+}
+
+/**
+ * Options for creating an S3MediaStore
+ */
+export interface S3MediaStoreOptions {
+    bucket: string;
+    /**
+     * Key prefix inside the bucket, e.g. `media/`
+     */
+    prefix?: string;
+    region?: string;
+    /**
+     * Endpoint of an S3-compatible store (MinIO, R2, ...); AWS is used when unset
+     */
+    endpoint?: string;
+    accessKeyId?: string;
+    secretAccessKey?: string;
+}
+
+/**
+ * Stores media in an S3-compatible bucket
+ */
+export class S3MediaStore implements MediaStore {
+    private readonly client: S3Client;
+    private readonly bucket: string;
+    private readonly prefix: string;
+
+    constructor(options: S3MediaStoreOptions, client?: S3Client) {
+        this.bucket = options.bucket;
+        this.prefix = options.prefix ?? '';
+        this.client = client ?? new S3Client({
+            region: options.region ?? 'us-east-1',
+            endpoint: options.endpoint,
+            // Most S3-compatible stores only support path-style URLs
+            forcePathStyle: Boolean(options.endpoint),
+            credentials: options.accessKeyId && options.secretAccessKey
+                ? { accessKeyId: options.accessKeyId, secretAccessKey: options.secretAccessKey }
+                : undefined
+        });
+    }
+
+    async put(data: Buffer, extension: string, contentType?: string): Promise<StoredMedia> {
+        const checksum = sha256(data);
+        const key = `${this.prefix}${getMediaKey(checksum, extension)}`;
+
+        try {
+            if (!await this.exists(key)) {
+                await this.client.send(new PutObjectCommand({
+                    Bucket: this.bucket,
+                    Key: key,
+                    Body: data,
+                    ContentType: contentType,
+                    ChecksumSHA256: Buffer.from(checksum, 'hex').toString('base64')
+                }));
+            }
+        } catch (error) {
+            throw new Error(`Failed to store media object: ${(error as Error).message}`);
+        }
+
+        return { path: `s3://${this.bucket}/${key}`, size: data.length, checksum };
+    }
+
+    async get(location: string): Promise<Buffer> {
+        const match = /^s3:\/\/([^/]+)\/(.+)$/.exec(location);
+        if (!match) {
+            throw new Error(`Failed to read media object: ${location} is not an s3:// location`);
+        }
+
+        try {
+            const response = await this.client.send(new GetObjectCommand({ Bucket: match[1], Key: match[2] }));
+            return Buffer.from(await response.Body!.transformToByteArray());
+        } catch (error) {
+            throw new Error(`Failed to read media object: ${(error as Error).message}`);
+        }
+    }
+
+    /**
+     * @private
+     */
+    private async exists(key: string): Promise<boolean> {
+        try {
+            await this.client.send(new HeadObjectCommand({ Bucket: this.bucket, Key: key }));
+            return true;
+        } catch (error) {
+            if ((error as { name?: string }).name === 'NotFound') return false;
+            throw error;
+        }
+    }
+}
+
+/**
+ * Media storage settings, as in `config.media`
+ */
+export interface MediaStoreConfig {
+    storage: 'disk' | 's3';
+    /**
+     * Root directory of the disk store
+     */
+    dir: string;
+    s3: Partial<S3MediaStoreOptions>;
+}
+
+/**
+ * Creates the configured media store
+ * @param options - Media storage settings
+ * @returns Disk or S3 store
+ */
+export function createMediaStore(options: MediaStoreConfig): MediaStore {
+    if (options.storage === 's3') {
+        if (!options.s3.bucket) {
+            throw new Error('Failed to create S3 media store: MEDIA_S3_BUCKET is not set');
+        }
+        return new S3MediaStore({ ...options.s3, bucket: options.s3.bucket });
+    }
+    return new FileMediaStore(options.dir);
+}
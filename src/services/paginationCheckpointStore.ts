@@ -0,0 +1,145 @@
+import { createHash } from 'crypto';
+import { KeyValueStore, Log } from 'crawlee';
+import { TikTokApiPagination } from '../types/api.js';
+
+/**
+ * Pagination progress of one crawl job
+ */
+export interface PaginationCheckpoint {
+    jobKey: string;
+    lastCompletedPage: number;
+    totalItems: number;
+    itemsPerPage: number;
+    completed: boolean;
+    updatedAt: string;
+}
+
+/**
+ * Persists pagination progress per crawl job in a named Crawlee key-value store,
+ * so a restarted crawl continues after the last fully processed page and skips finished jobs.
+ * Named stores are not purged on start, unlike the default one.
+ */
+export class PaginationCheckpointStore {
+    static readonly STORE_NAME = 'pagination-checkpoints';
+
+    private readonly log: Log;
+    private readonly store: KeyValueStore;
+    private readonly maxAgeMs: number;
+
+    /**
+     * @param log - Crawlee logger
+     * @param store - Key-value store holding the checkpoints
+     * @param maxAgeMs - Checkpoints older than this are ignored, so the next day's run starts fresh
+     */
+    constructor(log: Log, store: KeyValueStore, maxAgeMs: number = 24 * 60 * 60 * 1000) {
+        this.log = log;
+        this.store = store;
+        this.maxAgeMs = maxAgeMs;
+    }
+
+    /**
+     * Opens the checkpoint store
+     * @param log - Crawlee logger
+     * @param maxAgeMs - Maximum checkpoint age in milliseconds
+     * @returns Checkpoint store backed by the named key-value store
+     */
+    static async open(log: Log, maxAgeMs?: number): Promise<PaginationCheckpointStore> {
+        const store = await KeyValueStore.open(PaginationCheckpointStore.STORE_NAME);
+        return new PaginationCheckpointStore(log, store, maxAgeMs);
+    }
+
+    /**
+     * Returns the checkpoint of a job if it is still fresh
+     * @param jobKey - Crawl job key
+     * @returns Checkpoint, or null if there is none or it has expired
+     */
+    async get(jobKey: string): Promise<PaginationCheckpoint | null> {
+        const checkpoint = await this.store.getValue<PaginationCheckpoint>(this.toStoreKey(jobKey));
+        if (!checkpoint) return null;
+
+        if (Date.now() - new Date(checkpoint.updatedAt).getTime() > this.maxAgeMs) {
+            this.log.debug('Ignoring expired pagination checkpoint', { jobKey, updatedAt: checkpoint.updatedAt });
+            return null;
+        }
+
+        return checkpoint;
+    }
+
+    /**
+     * Checks whether a job was fully collected
+     * @param jobKey - Crawl job key
+     * @returns Whether the job is marked as completed
+     */
+    async isCompleted(jobKey: string): Promise<boolean> {
+        return (await this.get(jobKey))?.completed ?? false;
+    }
+
+    /**
+     * Returns the last page that was fully processed for a job
+     * @param jobKey - Crawl job key
+     * @returns Page number, or 0 if collection has not started
+     */
+    async getLastCompletedPage(jobKey: string): Promise<number> {
+        return (await this.get(jobKey))?.lastCompletedPage ?? 0;
+    }
+
+    /**
+     * Records that a page was fully processed. Pages never move the checkpoint backwards.
+     * @param jobKey - Crawl job key
+     * @param pagination - Pagination of the processed response
+     */
+    async markPageProcessed(jobKey: string, pagination: TikTokApiPagination): Promise<void> {
+        const previous = await this.get(jobKey);
+
+        await this.save({
+            jobKey,
+            lastCompletedPage: Math.max(previous?.lastCompletedPage ?? 0, pagination.page),
+            totalItems: pagination.total_count,
+            itemsPerPage: pagination.size,
+            completed: previous?.completed ?? false,
+            updatedAt: new Date().toISOString()
+        });
+    }
+
+    /**
+     * Marks a job as fully collected so it is skipped on restart
+     * @param jobKey - Crawl job key
+     */
+    async markCompleted(jobKey: string): Promise<void> {
+        const previous = await this.get(jobKey);
+
+        await this.save({
+            jobKey,
+            lastCompletedPage: previous?.lastCompletedPage ?? 0,
+            totalItems: previous?.totalItems ?? 0,
+            itemsPerPage: previous?.itemsPerPage ?? 0,
+            completed: true,
+            updatedAt: new Date().toISOString()
+        });
+        this.log.info('Crawl job marked as completed', { jobKey });
+    }
+
+    /**
+     * Removes the checkpoint of a job
+     * @param jobKey - Crawl job key
+     */
+    async reset(jobKey: string): Promise<void> {
+        await this.store.setValue(this.toStoreKey(jobKey), null);
+    }
+
+    /**
+     * @private
+     */
+    private async save(checkpoint: PaginationCheckpoint): Promise<void> {
+        await this.store.setValue(this.toStoreKey(checkpoint.jobKey), checkpoint);
+        this.log.debug('Saved pagination checkpoint', { ...checkpoint });
+    }
+
+    /**
+     * Job keys contain characters not allowed in store keys, so they are hashed
+     * @private
+     */
+    private toStoreKey(jobKey: string): string {
+        return `checkpoint-${createHash('sha256').update(jobKey).digest('hex').slice(0, 32)}`;
+    }
+}
@@ -5,6 +5,8 @@ export class PaginationService {
     private currentPage: number = 1;
     private totalItems: number = 0;
     private itemsPerPage: number = 0;
+    private hasMore: boolean = true;
+    private resumeAfterPage: number = 0;
     private readonly log: Log;
 
     constructor(log: Log) {
@@ -15,6 +17,7 @@ export class PaginationService {
         this.currentPage = pagination.page;
         this.totalItems = pagination.total_count;
         this.itemsPerPage = pagination.size;
+        this.hasMore = pagination.has_more;
         
         this.log.info('Pagination updated:', {
             currentPage: this.currentPage,
@@ -39,4 +42,33 @@ export class PaginationService {
             total: Math.ceil(this.totalItems / this.itemsPerPage)
         };
     }
+
+    /**
+     * Sets the last page processed by a previous run. Pages up to it are only scrolled past.
+     * @param page - Last fully processed page from the checkpoint
+     */
+    setResumeAfterPage(page: number): void {
+        this.resumeAfterPage = page;
+        if (page > 0) {
+            this.log.info('Resuming pagination from checkpoint', { resumeAfterPage: page });
+        }
+    }
+
+    getResumeAfterPage(): number {
+        return this.resumeAfterPage;
+    }
+
+    /**
+     * Whether the current page was already processed by a previous run
+     */
+    isResuming(): boolean {
+        return this.currentPage < this.resumeAfterPage;
+    }
+
+    /**
+     * Whether the last received page reported that there are no more results
+     */
+    isComplete(): boolean {
+        return !this.hasMore;
+    }
 }
@@ -2,7 +2,7 @@ import fs from 'fs';
 import { Request } from 'playwright';
 import { Log } from 'crawlee';
 
-interface CapturedRequest {
+export interface CapturedRequest {
     url: string;
     method: string;
     headers: Record<string, string>;
@@ -11,7 +11,7 @@ interface CapturedRequest {
 }
 
 export class RequestCaptureService {
-    private static CAPTURES_DIR = 'storage/request-captures';
+    static readonly CAPTURES_DIR = 'storage/request-captures';
 
     constructor(private log?: Log) {
         this.ensureCapturesDirectory();
@@ -57,6 +57,27 @@ export class RequestCaptureService {
         }
     }
 
+    /**
+     * Loads the most recent captured request from the captures directory
+     * @returns The latest captured request or null if none were saved yet
+     */
+    static loadLatestCapture(): CapturedRequest | null {
+        if (!fs.existsSync(RequestCaptureService.CAPTURES_DIR)) {
+            return null;
+        }
+
+        const latestFile = fs.readdirSync(RequestCaptureService.CAPTURES_DIR)
+            .filter(file => file.endsWith('.json'))
+            .map(file => `${RequestCaptureService.CAPTURES_DIR}/${file}`)
+            .sort((a, b) => fs.statSync(b).mtimeMs - fs.statSync(a).mtimeMs)[0];
+
+        if (!latestFile) {
+            return null;
+        }
+
+        return JSON.parse(fs.readFileSync(latestFile, 'utf-8')) as CapturedRequest;
+    }
+
     private generateFileName(request: Request): string {
         const url = new URL(request.url());
         const params = Object.fromEntries(url.searchParams.entries());
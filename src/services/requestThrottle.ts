@@ -0,0 +1,79 @@
+import { delay } from '../helpers/delay.js';
+
+/**
+ * Options for creating a RequestThrottle
+ */
+export interface RequestThrottleOptions {
+    /**
+     * Minimum time between two requests in milliseconds
+     */
+    minIntervalMs: number;
+    /**
+     * Upper bound the interval grows to while backing off. Defaults to 16 times the minimum.
+     */
+    maxIntervalMs?: number;
+    /**
+     * Clock, replaceable in tests
+     */
+    now?: () => number;
+    /**
+     * Sleep function, replaceable in tests
+     */
+    sleep?: (ms: number) => Promise<unknown>;
+}
+
+/**
+ * Spaces out requests to an endpoint that rate-limits, doubling the interval
+ * every time the endpoint pushes back until a request succeeds again
+ */
+export class RequestThrottle {
+    private readonly minIntervalMs: number;
+    private readonly maxIntervalMs: number;
+    private readonly now: () => number;
+    private readonly sleep: (ms: number) => Promise<unknown>;
+    private intervalMs: number;
+    private nextAt = 0;
+
+    constructor(options: RequestThrottleOptions) {
+        this.minIntervalMs = options.minIntervalMs;
+        this.maxIntervalMs = options.maxIntervalMs ?? options.minIntervalMs * 16;
+        this.now = options.now ?? Date.now;
+        this.sleep = options.sleep ?? delay;
+        this.intervalMs = this.minIntervalMs;
+    }
+
+    /**
+     * Current interval between requests in milliseconds
+     */
+    get interval(): number {
+        return this.intervalMs;
+    }
+
+    /**
+     * Waits until the next request may be sent and reserves its slot
+     */
+    async wait(): Promise<void> {
+        const waitMs = this.nextAt - this.now();
+        if (waitMs > 0) {
+            await this.sleep(waitMs);
+        }
+        this.nextAt = Math.max(this.nextAt, this.now()) + this.intervalMs;
+    }
+
+    /**
+     * Doubles the interval after the endpoint rate-limited a request
+     * @returns New interval in milliseconds
+     */
+    backoff(): number {
+        this.intervalMs = Math.min(this.intervalMs * 2, this.maxIntervalMs);
+        this.nextAt = this.now() + this.intervalMs;
+        return this.intervalMs;
+    }
+
+    /**
+     * Returns to the minimum interval after a request went through
+     */
+    reset(): void {
+        this.intervalMs = this.minIntervalMs;
+    }
+}
@@ -3,104 +3,107 @@ import { Log } from 'crawlee';
 import { Page } from 'playwright';
 import * as fs from 'fs';
 import { Env } from '@lib/Env.js';
+import type { CaptchaVariant } from './captcha/variants.js';
+import { findCaptchaElements, ShapesSolution, solvePuzzleCaptcha, solveRotateCaptcha, solveShapesCaptcha } from './captcha/variantRoutines.js';
 
-interface SadCaptchaResponse {
-    pointOneProportionX: number;
-    pointOneProportionY: number;
-    pointTwoProportionX: number;
-    pointTwoProportionY: number;
+interface SadCaptchaRotateResponse {
+    angle: number;
+}
+
+interface SadCaptchaPuzzleResponse {
+    slideXProportion: number;
+}
+
+export interface SadCaptchaServiceOptions {
+    /**
+     * SadCaptcha license key
+     */
+    apiKey?: string;
+    /**
+     * Solver endpoint per CAPTCHA variant; defaults to the variant name
+     */
+    endpoints?: Partial<Record<CaptchaVariant, string>>;
 }
 
 export class SadCaptchaService {
     private readonly baseUrl = 'https://www.sadcaptcha.com/api/v1';
     private readonly log: Log;
+    private readonly apiKey: string;
+    private readonly endpoints: Record<CaptchaVariant, string>;
 
-    constructor(log: Log) {
+    constructor(log: Log, options: SadCaptchaServiceOptions = {}) {
         this.log = log;
+        this.apiKey = options.apiKey ?? Env.SAD_CAPTCHA_API_KEY;
+        this.endpoints = { shapes: 'shapes', rotate: 'rotate', puzzle: 'puzzle', ...options.endpoints };
     }
 
-    async solveCaptcha(page: Page, captchaImageSelector: string, screenshotPath: string): Promise<boolean> {
+    /**
+     * Gets a solution for the CAPTCHA on the page from SadCaptcha and applies it
+     * @param page - Playwright page object
+     * @param variant - Detected CAPTCHA variant
+     * @param screenshotPath - Screenshot of the shapes image taken at detection; taken again if missing
+     * @returns Promise<boolean> - Whether a solution was applied
+     */
+    async solveCaptcha(page: Page, variant: CaptchaVariant, screenshotPath?: string): Promise<boolean> {
         try {
-            if (!screenshotPath) {
-                this.log.error('No screenshot path provided for captcha solving');
-                return false;
-            }
-
-            page.waitForTimeout(1000);
-
-            // Read the existing screenshot
-            const buffer = await fs.promises.readFile(screenshotPath);
-            const imageBase64 = buffer.toString('base64');
-
-            // Get the captcha element
-            this.log.info('Getting captcha element', { selector: captchaImageSelector });
-            const captchaElement = await page.$(captchaImageSelector);
-            if (!captchaElement) {
-                this.log.error('Captcha element not found');
-                return false;
-            }
+            await page.waitForTimeout(1000);
 
-            // Get solution from SadCaptcha API
-            const solution = await this.getSolution(imageBase64);
-            if (!solution) {
+            this.log.info('Getting captcha elements', { variant });
+            const elements = await findCaptchaElements(page, variant);
+            if (!elements) {
+                this.log.error('Captcha elements not found', { variant });
                 return false;
             }
 
-            // Get element dimensions
-            const boundingBox = await captchaElement.boundingBox();
-            if (!boundingBox) {
-                this.log.error('Could not get captcha element dimensions');
-                return false;
-            }
+            const imageB64 = screenshotPath && variant === 'shapes'
+                ? (await fs.promises.readFile(screenshotPath)).toString('base64')
+                : (await elements.image.screenshot()).toString('base64');
+            const pieceB64 = elements.piece ? (await elements.piece.screenshot()).toString('base64') : '';
 
-            // Calculate actual click coordinates
-            const clickPoints = [
-                {
-                    x: boundingBox.width * solution.pointOneProportionX,
-                    y: boundingBox.height * solution.pointOneProportionY
-                },
-                {
-                    x: boundingBox.width * solution.pointTwoProportionX,
-                    y: boundingBox.height * solution.pointTwoProportionY
+            let applied = false;
+            switch (variant) {
+                case 'shapes': {
+                    const solution = await this.getSolution<ShapesSolution>(variant, { imageB64 });
+                    applied = !!solution && await solveShapesCaptcha(page, this.log, solution);
+                    break;
+                }
+                case 'rotate': {
+                    const solution = await this.getSolution<SadCaptchaRotateResponse>(variant, { outerImageB64: imageB64, innerImageB64: pieceB64 });
+                    applied = !!solution && await solveRotateCaptcha(page, this.log, solution.angle);
+                    break;
+                }
+                case 'puzzle': {
+                    const solution = await this.getSolution<SadCaptchaPuzzleResponse>(variant, { puzzleImageB64: imageB64, pieceImageB64: pieceB64 });
+                    applied = !!solution && await solvePuzzleCaptcha(page, this.log, solution.slideXProportion);
+                    break;
                 }
-            ];
-
-            // Click the points
-            for (const point of clickPoints) {
-                this.log.info('Clicking point:', { x: point.x, y: point.y });
-                await captchaElement.click({
-                    position: {
-                        x: point.x,
-                        y: point.y
-                    }
-                });
-                // Wait a bit between clicks to simulate human behavior
-                await page.waitForTimeout(500);
             }
 
-            this.log.info('Captcha solution applied');
-            return true;
+            if (applied) {
+                this.log.info('Captcha solution applied', { variant });
+            }
+            return applied;
         } catch (error) {
             this.log.error('Error solving captcha:', { error: (error as Error).message });
             return false;
         }
     }
 
-    private async getSolution(imageBase64: string): Promise<SadCaptchaResponse | null> {
+    private async getSolution<T>(variant: CaptchaVariant, payload: Record<string, string>): Promise<T | null> {
         try {
-            const response = await axios.post(
-                `${this.baseUrl}/shapes`,
-                { imageB64: imageBase64 },
+            const response = await axios.post<T>(
+                `${this.baseUrl}/${this.endpoints[variant]}`,
+                payload,
                 {
                     params: {
-                        licenseKey: Env.SAD_CAPTCHA_API_KEY
+                        licenseKey: this.apiKey
                     }
                 }
             );
 
             return response.data;
         } catch (error) {
-            this.log.error('Error getting captcha solution:', { error: (error as Error).message });
+            this.log.error('Error getting captcha solution:', { variant, error: (error as Error).message });
             return null;
         }
     }
@@ -0,0 +1,426 @@
+import fs from 'fs';
+import path from 'path';
+import { Log } from 'crawlee';
+import { Page } from 'playwright';
+import { delay } from '../helpers/delay.js';
+import { randomBetween } from '../helpers/randomBetween.js';
+import { isLoggedIn } from '../helpers/isLoggedIn.js';
+import { SessionVault, StoredSessionState } from './sessionVault.js';
+
+/**
+ * Login credentials of a TikTok Business account
+ */
+export interface AccountCredentials {
+    email: string;
+    password: string;
+}
+
+/**
+ * Account handed out for a crawl job
+ */
+export type SessionAccount = AccountCredentials;
+
+/**
+ * Events reported back for an account while it is in use
+ */
+export type AccountEvent = 'success' | 'failure' | 'captcha' | 'verification' | 'expired' | 'flagged';
+
+/**
+ * Health counters of an account, persisted between runs
+ */
+export interface AccountHealth {
+    email: string;
+    successes: number;
+    failures: number;
+    consecutiveFailures: number;
+    captchas: number;
+    verifications: number;
+    expirations: number;
+    lastUsedAt?: string;
+    lastFailureAt?: string;
+    disabledUntil?: string;
+}
+
+export interface SessionManagerOptions {
+    /**
+     * Directory holding the account health file
+     */
+    sessionsDir?: string;
+    /**
+     * Consecutive failures after which an account is rested
+     */
+    maxConsecutiveFailures?: number;
+    /**
+     * How long a failing or flagged account is skipped, in milliseconds
+     */
+    cooldownMs?: number;
+    /**
+     * Plaintext single-account state file used before the session pool existed.
+     * It is encrypted into the vault as the first account's session if that account has none.
+     */
+    legacySessionPath?: string;
+}
+
+/**
+ * Keeps one encrypted browser state per TikTok account in the session vault, hands out healthy accounts
+ * in least-recently-used order and tracks failures, captchas and verification prompts per account.
+ */
+export class SessionManager {
+    static readonly SESSIONS_DIR = 'storage/sessions';
+    static readonly HEALTH_FILE = 'health.json';
+
+    private readonly log: Log;
+    private readonly accounts: AccountCredentials[];
+    private readonly vault: SessionVault;
+    private readonly sessionsDir: string;
+    private readonly maxConsecutiveFailures: number;
+    private readonly cooldownMs: number;
+    private health: Record<string, AccountHealth>;
+
+    constructor(log: Log, accounts: AccountCredentials[], vault: SessionVault, options: SessionManagerOptions = {}) {
+        if (accounts.length === 0) {
+            throw new Error('At least one TikTok account is required');
+        }
+
+        this.log = log;
+        this.accounts = accounts;
+        this.vault = vault;
+        this.sessionsDir = options.sessionsDir ?? SessionManager.SESSIONS_DIR;
+        this.maxConsecutiveFailures = options.maxConsecutiveFailures ?? 3;
+        this.cooldownMs = options.cooldownMs ?? 30 * 60 * 1000;
+
+        fs.mkdirSync(this.sessionsDir, { recursive: true });
+        this.health = this.loadHealth();
+        this.adoptLegacySession(options.legacySessionPath ?? 'storage/state.json');
+    }
+
+    /**
+     * Number of configured accounts
+     */
+    get size(): number {
+        return this.accounts.length;
+    }
+
+    /**
+     * Checks whether an account has a saved state
+     * @param email - Account email
+     */
+    hasSession(email: string): boolean {
+        return this.vault.has(email);
+    }
+
+    /**
+     * Decrypts the saved state of an account for use outside the browser
+     * @param account - Account to load
+     * @returns Storage state, or null if there is none or it has expired
+     */
+    loadSessionState(account: SessionAccount): StoredSessionState | null {
+        try {
+            return this.vault.load(account.email);
+        } catch (error) {
+            this.log.warning('Stored session is not usable', { email: account.email, error: (error as Error).message });
+            return null;
+        }
+    }
+
+    /**
+     * Picks the healthy account that was used least recently and marks it as used
+     * @param exclude - Emails that must not be returned, e.g. accounts already tried for this job
+     * @returns Account, or null if every account is resting
+     */
+    acquire(exclude: string[] = []): SessionAccount | null {
+        const now = Date.now();
+        const candidates = this.accounts
+            .filter(account => !exclude.includes(account.email))
+            .filter(account => {
+                const disabledUntil = this.getHealth(account.email).disabledUntil;
+                return !disabledUntil || new Date(disabledUntil).getTime() <= now;
+            })
+            .sort((a, b) => {
+                const lastA = this.getHealth(a.email).lastUsedAt ?? '';
+                const lastB = this.getHealth(b.email).lastUsedAt ?? '';
+                return lastA.localeCompare(lastB);
+            });
+
+        const account = candidates[0];
+        if (!account) {
+            this.log.warning('No healthy TikTok account available', { accounts: this.accounts.length, excluded: exclude.length });
+            return null;
+        }
+
+        this.getHealth(account.email).lastUsedAt = new Date(now).toISOString();
+        this.saveHealth();
+
+        this.log.info('Using TikTok account', { email: account.email, hasSession: this.hasSession(account.email) });
+        return { ...account };
+    }
+
+    /**
+     * Records what happened with an account. Failures past the limit and flags rest the account;
+     * expired and flagged sessions are deleted so the next use logs in again.
+     * @param email - Account email
+     * @param event - Event to record
+     */
+    recordEvent(email: string, event: AccountEvent): void {
+        const health = this.getHealth(email);
+        const now = new Date();
+
+        switch (event) {
+            case 'success':
+                health.successes++;
+                health.consecutiveFailures = 0;
+                health.disabledUntil = undefined;
+                break;
+            case 'failure':
+                health.failures++;
+                health.consecutiveFailures++;
+                health.lastFailureAt = now.toISOString();
+                if (health.consecutiveFailures >= this.maxConsecutiveFailures) {
+                    health.disabledUntil = new Date(now.getTime() + this.cooldownMs).toISOString();
+                    this.log.warning('Account rested after repeated failures', { email, until: health.disabledUntil });
+                }
+                break;
+            case 'captcha':
+                health.captchas++;
+                break;
+            case 'verification':
+                health.verifications++;
+                break;
+            case 'expired':
+                health.expirations++;
+                this.invalidateSession(email);
+                break;
+            case 'flagged':
+                health.lastFailureAt = now.toISOString();
+                health.disabledUntil = new Date(now.getTime() + this.cooldownMs).toISOString();
+                this.invalidateSession(email);
+                this.log.warning('Account flagged, rotating to the next one', { email, until: health.disabledUntil });
+                break;
+        }
+
+        this.saveHealth();
+    }
+
+    /**
+     * Returns the health counters of every configured account
+     */
+    getHealthReport(): AccountHealth[] {
+        return this.accounts.map(account => ({ ...this.getHealth(account.email) }));
+    }
+
+    /**
+     * Saves the current browser state as the account's session
+     * @param page - Playwright Page instance
+     * @param account - Account the page is logged in with
+     */
+    async saveSession(page: Page, account: SessionAccount): Promise<void> {
+        this.vault.save(account.email, await page.context().storageState());
+    }
+
+    /**
+     * Deletes the saved state of an account
+     * @param email - Account email
+     */
+    invalidateSession(email: string): void {
+        this.vault.revoke(email);
+    }
+
+    /**
+     * Attempts to restore the saved session state of an account
+     * @param page - Playwright Page instance
+     * @param account - Account to restore
+     * @returns Promise<boolean> - True if session was restored successfully
+     */
+    async restoreSession(page: Page, account: SessionAccount): Promise<boolean> {
+        try {
+            // Expired or undecryptable sessions are refused by the vault
+            const sessionState = this.vault.load(account.email);
+            if (!sessionState) {
+                throw new Error(`No saved session for ${account.email}`);
+            }
+            const sessionEntry = this.vault.getEntry(account.email);
+            this.log.info('Found saved session state, attempting to restore...', { email: account.email });
+        
+            // Clear existing storage before restoring
+            await page.context().clearCookies();
+            await page.evaluate(() => {
+                localStorage.clear();
+                sessionStorage.clear();
+                document.cookie.split(";").forEach((c) => {
+                    document.cookie = c
+                        .replace(/^ +/, "")
+                        .replace(/=.*/, `=;expires=${new Date().toUTCString()};path=/`);
+                });
+            });
+        
+            try {
+                // Add cookies first
+                await page.context().addCookies(sessionState.cookies);
+            
+                // First navigate to a simple page to initialize context
+                try {
+                    await page.goto('about:blank', { timeout: 5000 });
+                } catch (error: unknown) {
+                    const initError = error as Error;
+                    this.log.debug('Initial navigation to blank page failed:', { error: initError.message });
+                }
+            
+                // Restore localStorage for each origin with retry logic
+                if (sessionState.origins) {
+                    for (const { origin, localStorage } of sessionState.origins) {
+                        let retryCount = 0;
+                        const maxRetries = 3;
+                    
+                        while (retryCount < maxRetries) {
+                            try {
+                                // Navigate to each origin to set its localStorage
+                                await page.goto(origin, { 
+                                    waitUntil: 'domcontentloaded', // Less strict wait condition
+                                    timeout: 15000 
+                                });
+                            
+                                // Set localStorage items
+                                await page.evaluate((storageItems) => {
+                                    for (const { name, value } of storageItems) {
+                                        try {
+                                            window.localStorage.setItem(name, value);
+                                        } catch (e) {
+                                            console.warn(`Failed to set localStorage item: ${name}`, e);
+                                        }
+                                    }
+                                }, localStorage);
+                            
+                                break; // Success, exit retry loop
+                            } catch (error: unknown) {
+                                const navError = error as Error;
+                                retryCount++;
+                                if (retryCount === maxRetries) {
+                                    this.log.warning(`Failed to restore localStorage for origin ${origin} after ${maxRetries} attempts`, 
+                                        { error: navError.message });
+                                } else {
+                                    await delay(randomBetween(2000, 3000));
+                                }
+                            }
+                        }
+                    }
+                }
+            
+                // Verify cookie state
+                const currentState = await page.context().storageState();
+                if (!currentState.cookies || currentState.cookies.length === 0) {
+                    throw new Error('State restoration verification failed: No cookies present');
+                }
+
+                // Navigate to the main page with retry logic
+                let loginSuccess = false;
+                for (let i = 0; i < 3; i++) {
+                    try {
+                        // Try navigation with increasing timeouts
+                        await page.goto('https://ads.tiktok.com/business/creativecenter/inspiration/topads/pc/en', {
+                            waitUntil: 'domcontentloaded',
+                            timeout: 20000 + (i * 5000)
+                        });
+                    
+                        // Wait for network to be relatively idle
+                        await page.waitForLoadState('networkidle', { timeout: 10000 })
+                            .catch(() => this.log.debug('NetworkIdle wait timed out, continuing...'));
+                    
+                        await delay(randomBetween(2000, 3000));
+                    
+                        // Verify login status
+                        loginSuccess = await isLoggedIn(page, this.log);
+                        if (loginSuccess) break;
+                    
+                        // If not logged in, wait and retry
+                        await delay(randomBetween(3000, 5000));
+                    } catch (error) {
+                        this.log.warning(`Navigation attempt ${i + 1} failed:`, { error: (error as Error).message });
+                        if (i === 2) throw error;
+                        await delay(randomBetween(3000, 5000));
+                    }
+                }
+            
+                if (!loginSuccess) {
+                    this.log.warning('Session restored but login check failed');
+                    return false;
+                }
+            
+                // Save the verified state back, keeping the original creation time
+                this.vault.save(account.email, await page.context().storageState(), sessionEntry?.createdAt);
+            
+                this.log.info('Session state restored and verified successfully');
+                return true;
+            
+            } catch (error) {
+                this.log.error('Failed to restore session state:', { error: (error as Error).message });
+                // Clear everything on failure
+                await page.context().clearCookies();
+                await page.evaluate(() => {
+                    localStorage.clear();
+                    sessionStorage.clear();
+                });
+                throw error;
+            }
+        } catch (err: unknown) {
+            this.log.error('Error restoring session state:', { error: (err as Error).message });
+            this.log.info('No saved session found or error restoring session, proceeding with normal login');
+            return false;
+        }
+    }
+
+    /**
+     * @private
+     */
+    private getHealth(email: string): AccountHealth {
+        if (!this.health[email]) {
+            this.health[email] = {
+                email,
+                successes: 0,
+                failures: 0,
+                consecutiveFailures: 0,
+                captchas: 0,
+                verifications: 0,
+                expirations: 0
+            };
+        }
+        return this.health[email];
+    }
+
+    /**
+     * @private
+     */
+    private loadHealth(): Record<string, AccountHealth> {
+        const healthPath = path.join(this.sessionsDir, SessionManager.HEALTH_FILE);
+
+        try {
+            if (fs.existsSync(healthPath)) {
+                return JSON.parse(fs.readFileSync(healthPath, 'utf-8'));
+            }
+        } catch (error) {
+            this.log.warning('Could not read account health, starting fresh', { error: (error as Error).message });
+        }
+        return {};
+    }
+
+    /**
+     * @private
+     */
+    private saveHealth(): void {
+        const healthPath = path.join(this.sessionsDir, SessionManager.HEALTH_FILE);
+        fs.writeFileSync(healthPath, JSON.stringify(this.health, null, 2));
+    }
+
+    /**
+     * @private
+     */
+    private adoptLegacySession(legacySessionPath: string): void {
+        const [firstAccount] = this.accounts;
+        if (this.hasSession(firstAccount.email)) return;
+
+        try {
+            this.vault.importPlaintext(firstAccount.email, legacySessionPath);
+        } catch (error) {
+            this.log.warning('Could not import legacy session state', { from: legacySessionPath, error: (error as Error).message });
+        }
+    }
+}
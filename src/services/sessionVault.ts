@@ -0,0 +1,329 @@
+import fs from 'fs';
+import path from 'path';
+import { createCipheriv, createDecipheriv, randomBytes, scryptSync } from 'crypto';
+import { Log } from 'crawlee';
+import type { BrowserContext } from 'playwright';
+
+/**
+ * Browser storage state as returned by `context.storageState()`
+ */
+export type StoredSessionState = Awaited<ReturnType<BrowserContext['storageState']>>;
+
+/**
+ * Unencrypted metadata kept next to every stored session
+ */
+export interface SessionVaultEntry {
+    email: string;
+    createdAt: string;
+    lastCheckedAt: string | null;
+    expiresAt: string;
+}
+
+/**
+ * Result of checking a stored session
+ */
+export interface SessionCheckResult extends Partial<SessionVaultEntry> {
+    email: string;
+    status: 'valid' | 'expired' | 'missing' | 'unreadable';
+    error?: string;
+}
+
+interface SessionVaultFile extends SessionVaultEntry {
+    version: 1;
+    salt: string;
+    iv: string;
+    authTag: string;
+    data: string;
+}
+
+export interface SessionVaultOptions {
+    /**
+     * Secret the encryption key is derived from
+     */
+    secret?: string;
+    /**
+     * Directory holding the encrypted sessions
+     */
+    dir?: string;
+    /**
+     * Lifetime of a session whose auth cookies carry no expiry, in milliseconds
+     */
+    defaultTtlMs?: number;
+}
+
+/**
+ * Thrown when a stored session cannot be used
+ */
+export class SessionVaultError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'SessionVaultError';
+    }
+}
+
+const ALGORITHM = 'aes-256-gcm';
+const FILE_SUFFIX = '.session.json';
+
+// Cookies that carry the TikTok login; their expiry decides when the session expires
+const AUTH_COOKIE_NAMES = ['sessionid', 'sessionid_ss', 'sid_tt', 'sid_guard', 'uid_tt'];
+
+/**
+ * Stores browser session states encrypted with AES-256-GCM under a key derived from an environment secret.
+ * Creation, last check and expiry times are kept in clear so sessions can be listed without decrypting them.
+ */
+export class SessionVault {
+    static readonly VAULT_DIR = 'storage/sessions';
+
+    private readonly log: Log;
+    private readonly secret: string;
+    private readonly dir: string;
+    private readonly defaultTtlMs: number;
+
+    /**
+     * @param log - Crawlee logger
+     * @param options - Vault options; `secret` is required
+     * @throws SessionVaultError if no secret is provided
+     */
+    constructor(log: Log, options: SessionVaultOptions = {}) {
+        if (!options.secret) {
+            throw new SessionVaultError('SESSION_VAULT_KEY is required to store TikTok sessions');
+        }
+
+        this.log = log;
+        this.secret = options.secret;
+        this.dir = options.dir ?? SessionVault.VAULT_DIR;
+        this.defaultTtlMs = options.defaultTtlMs ?? 7 * 24 * 60 * 60 * 1000;
+
+        fs.mkdirSync(this.dir, { recursive: true });
+    }
+
+    /**
+     * Encrypts and stores the session state of an account
+     * @param email - Account email
+     * @param state - Browser storage state
+     * @param createdAt - Creation time to keep when re-saving a restored session
+     * @returns Metadata of the stored session
+     */
+    save(email: string, state: StoredSessionState, createdAt?: string): SessionVaultEntry {
+        const now = new Date();
+        const salt = randomBytes(16);
+        const iv = randomBytes(12);
+        const cipher = createCipheriv(ALGORITHM, this.deriveKey(salt), iv);
+        const data = Buffer.concat([cipher.update(JSON.stringify(state), 'utf-8'), cipher.final()]);
+
+        const file: SessionVaultFile = {
+            version: 1,
+            email,
+            createdAt: createdAt ?? now.toISOString(),
+            lastCheckedAt: now.toISOString(),
+            expiresAt: this.computeExpiry(state, now).toISOString(),
+            salt: salt.toString('base64'),
+            iv: iv.toString('base64'),
+            authTag: cipher.getAuthTag().toString('base64'),
+            data: data.toString('base64')
+        };
+
+        fs.writeFileSync(this.getFilePath(email), JSON.stringify(file, null, 2), { mode: 0o600 });
+        this.log.info('Session stored in vault', { email, expiresAt: file.expiresAt });
+
+        return this.toEntry(file);
+    }
+
+    /**
+     * Decrypts the session state of an account
+     * @param email - Account email
+     * @returns Storage state, or null if no session is stored
+     * @throws SessionVaultError if the session has expired or cannot be decrypted
+     */
+    load(email: string): StoredSessionState | null {
+        const file = this.readFile(email);
+        if (!file) return null;
+
+        if (this.isExpired(file)) {
+            throw new SessionVaultError(`Stored session for ${email} expired at ${file.expiresAt}`);
+        }
+
+        try {
+            const decipher = createDecipheriv(ALGORITHM, this.deriveKey(Buffer.from(file.salt, 'base64')), Buffer.from(file.iv, 'base64'));
+            decipher.setAuthTag(Buffer.from(file.authTag, 'base64'));
+            const data = Buffer.concat([decipher.update(Buffer.from(file.data, 'base64')), decipher.final()]);
+            return JSON.parse(data.toString('utf-8')) as StoredSessionState;
+        } catch (error) {
+            throw new SessionVaultError(`Failed to decrypt session for ${email}: ${error instanceof Error ? error.message : String(error)}`);
+        }
+    }
+
+    /**
+     * Returns the metadata of a stored session
+     * @param email - Account email
+     * @returns Session metadata, or null if no session is stored
+     */
+    getEntry(email: string): SessionVaultEntry | null {
+        const file = this.readFile(email);
+        return file ? this.toEntry(file) : null;
+    }
+
+    /**
+     * Checks whether a session is stored for an account, expired or not
+     * @param email - Account email
+     */
+    has(email: string): boolean {
+        return fs.existsSync(this.getFilePath(email));
+    }
+
+    /**
+     * Records that a session was verified to still be logged in
+     * @param email - Account email
+     */
+    markChecked(email: string): void {
+        const file = this.readFile(email);
+        if (!file) return;
+
+        file.lastCheckedAt = new Date().toISOString();
+        fs.writeFileSync(this.getFilePath(email), JSON.stringify(file, null, 2), { mode: 0o600 });
+    }
+
+    /**
+     * Verifies that a stored session can be decrypted and has not expired
+     * @param email - Account email
+     * @returns Check result with the session metadata
+     */
+    check(email: string): SessionCheckResult {
+        let file: SessionVaultFile | null;
+        try {
+            file = this.readFile(email);
+        } catch (error) {
+            return { email, status: 'unreadable', error: (error as Error).message };
+        }
+
+        if (!file) {
+            return { email, status: 'missing' };
+        }
+
+        try {
+            const state = this.load(email);
+            if (!state?.cookies?.length) {
+                return { ...this.toEntry(file), status: 'unreadable', error: 'Session has no cookies' };
+            }
+        } catch (error) {
+            const status = this.isExpired(file) ? 'expired' : 'unreadable';
+            return { ...this.toEntry(file), status, error: (error as Error).message };
+        }
+
+        this.markChecked(email);
+        return { ...this.toEntry(this.readFile(email) ?? file), status: 'valid' };
+    }
+
+    /**
+     * Lists the metadata of all stored sessions without decrypting them
+     * @returns Stored sessions ordered by email
+     */
+    list(): SessionVaultEntry[] {
+        return fs.readdirSync(this.dir)
+            .filter(fileName => fileName.endsWith(FILE_SUFFIX))
+            .map(fileName => {
+                try {
+                    return this.toEntry(JSON.parse(fs.readFileSync(path.join(this.dir, fileName), 'utf-8')));
+                } catch (error) {
+                    this.log.warning('Skipping unreadable session file', { fileName, error: (error as Error).message });
+                    return null;
+                }
+            })
+            .filter((entry): entry is SessionVaultEntry => entry !== null)
+            .sort((a, b) => a.email.localeCompare(b.email));
+    }
+
+    /**
+     * Deletes the stored session of an account
+     * @param email - Account email
+     * @returns Whether a session was deleted
+     */
+    revoke(email: string): boolean {
+        const filePath = this.getFilePath(email);
+        if (!fs.existsSync(filePath)) return false;
+
+        fs.unlinkSync(filePath);
+        this.log.info('Session revoked', { email });
+        return true;
+    }
+
+    /**
+     * Encrypts a plaintext storage state file into the vault and removes the plaintext copy
+     * @param email - Account the state belongs to
+     * @param plaintextPath - Path of the plaintext state file
+     * @returns Whether a file was imported
+     */
+    importPlaintext(email: string, plaintextPath: string): boolean {
+        if (!fs.existsSync(plaintextPath)) return false;
+
+        const state = JSON.parse(fs.readFileSync(plaintextPath, 'utf-8')) as StoredSessionState;
+        this.save(email, state);
+        fs.unlinkSync(plaintextPath);
+        this.log.info('Plaintext session imported into vault and removed', { email, from: plaintextPath });
+        return true;
+    }
+
+    /**
+     * @private
+     */
+    private readFile(email: string): SessionVaultFile | null {
+        const filePath = this.getFilePath(email);
+        if (!fs.existsSync(filePath)) return null;
+
+        const file = JSON.parse(fs.readFileSync(filePath, 'utf-8')) as SessionVaultFile;
+        if (file.version !== 1) {
+            throw new SessionVaultError(`Unsupported session file version: ${file.version}`);
+        }
+        return file;
+    }
+
+    /**
+     * @private
+     */
+    private getFilePath(email: string): string {
+        const fileName = email.toLowerCase().replace(/[^a-z0-9._-]/g, '_');
+        return path.join(this.dir, `${fileName}${FILE_SUFFIX}`);
+    }
+
+    /**
+     * @private
+     */
+    private deriveKey(salt: Buffer): Buffer {
+        return scryptSync(this.secret, salt, 32);
+    }
+
+    /**
+     * The session expires with its first expiring auth cookie, or after the default TTL
+     * if the auth cookies are session-only
+     * @private
+     */
+    private computeExpiry(state: StoredSessionState, now: Date): Date {
+        const authExpiries = state.cookies
+            .filter(cookie => AUTH_COOKIE_NAMES.includes(cookie.name) && cookie.expires > 0)
+            .map(cookie => cookie.expires * 1000);
+
+        if (authExpiries.length === 0) {
+            return new Date(now.getTime() + this.defaultTtlMs);
+        }
+        return new Date(Math.min(...authExpiries));
+    }
+
+    /**
+     * @private
+     */
+    private isExpired(entry: SessionVaultEntry): boolean {
+        return new Date(entry.expiresAt).getTime() <= Date.now();
+    }
+
+    /**
+     * @private
+     */
+    private toEntry(file: SessionVaultFile): SessionVaultEntry {
+        return {
+            email: file.email,
+            createdAt: file.createdAt,
+            lastCheckedAt: file.lastCheckedAt,
+            expiresAt: file.expiresAt
+        };
+    }
+}
@@ -0,0 +1,318 @@
+import axios from 'axios';
+import fs from 'fs';
+import { Log } from 'crawlee';
+import { delay } from '../helpers/delay.js';
+import { RequestCaptureService, CapturedRequest } from './requestCapture.js';
+import { TikTokApiResponse } from '../types/api.js';
+
+/**
+ * Query parameters accepted by the Top Ads list endpoint.
+ * Names match the query string sent by the Creative Center page.
+ */
+export interface TopAdsQuery {
+    page?: number;
+    limit?: number;
+    region?: string;
+    adLanguage?: string;
+    period?: string | number;
+    industry?: string;
+    objective?: string;
+    orderBy?: string;
+}
+
+/**
+ * Options for creating a TopAdsApiClient
+ */
+export interface TopAdsApiClientOptions {
+    /**
+     * Path to the Playwright storage state with the session cookies
+     */
+    sessionPath?: string;
+    /**
+     * Already loaded storage state, e.g. decrypted from the session vault. Takes precedence over sessionPath.
+     */
+    sessionState?: { cookies?: StoredCookie[] };
+    /**
+     * Captured request to replay. Defaults to the latest capture on disk.
+     */
+    capture?: CapturedRequest;
+    /**
+     * Request timeout in milliseconds
+     */
+    timeout?: number;
+    /**
+     * Attempts per page after the first one when the API rate-limits (default 3)
+     */
+    retries?: number;
+    /**
+     * Delay before the first retry, doubled for every further one, unless the API sends Retry-After (ms)
+     */
+    retryDelayMs?: number;
+    /**
+     * Sleep function, replaceable in tests
+     */
+    sleep?: (ms: number) => Promise<unknown>;
+}
+
+interface StoredCookie {
+    name: string;
+    value: string;
+    domain: string;
+    expires?: number;
+}
+
+/**
+ * Thrown when the API rejects the replayed signature or session cookies.
+ * The caller should fall back to the browser login flow and capture fresh headers.
+ */
+export class TopAdsSessionExpiredError extends Error {
+    constructor(message: string, public readonly code?: number) {
+        super(message);
+        this.name = 'TopAdsSessionExpiredError';
+    }
+}
+
+/**
+ * Thrown when the API kept answering HTTP 429 after all retries.
+ * The session is still valid; the caller should wait before asking again.
+ */
+export class TopAdsRateLimitError extends Error {
+    constructor(message: string, public readonly retryAfterMs?: number) {
+        super(message);
+        this.name = 'TopAdsRateLimitError';
+    }
+}
+
+const TOP_ADS_LIST_URL = 'https://ads.tiktok.com/creative_radar_api/v1/top_ads/v2/list';
+const DEFAULT_SESSION_PATH = 'storage/state.json';
+
+// Query string names used by the Creative Center for each TopAdsQuery field
+const QUERY_PARAM_NAMES: Record<keyof TopAdsQuery, string> = {
+    page: 'page',
+    limit: 'limit',
+    region: 'region',
+    adLanguage: 'adLanguage',
+    period: 'period',
+    industry: 'industry',
+    objective: 'objective',
+    orderBy: 'order_by'
+};
+
+// Filters selected in the browser at capture time; a job that leaves one unset must not inherit it
+const FILTER_QUERY_FIELDS: Array<keyof TopAdsQuery> = ['region', 'adLanguage', 'period', 'industry', 'objective', 'orderBy'];
+
+// Headers that must not be replayed as captured
+const SKIPPED_HEADERS = ['cookie', 'content-length', 'host'];
+
+// API response codes returned when the user is not logged in or the signature is stale
+const SESSION_EXPIRED_CODES = [40100, 40101, 40102];
+
+/**
+ * Calls the Top Ads list endpoint directly by replaying headers captured
+ * from a real browser request together with the saved session cookies.
+ */
+export class TopAdsApiClient {
+    private readonly capture: CapturedRequest;
+    private readonly sessionPath: string;
+    private readonly sessionState?: { cookies?: StoredCookie[] };
+    private readonly timeout: number;
+    private readonly retries: number;
+    private readonly retryDelayMs: number;
+    private readonly sleep: (ms: number) => Promise<unknown>;
+
+    constructor(private readonly log: Log, options: TopAdsApiClientOptions = {}) {
+        const capture = options.capture ?? RequestCaptureService.loadLatestCapture();
+        if (!capture) {
+            throw new TopAdsSessionExpiredError(`No captured request found in ${RequestCaptureService.CAPTURES_DIR}`);
+        }
+
+        this.capture = capture;
+        this.sessionPath = options.sessionPath ?? DEFAULT_SESSION_PATH;
+        this.sessionState = options.sessionState;
+        this.timeout = options.timeout ?? 30000;
+        this.retries = options.retries ?? 3;
+        this.retryDelayMs = options.retryDelayMs ?? 5000;
+        this.sleep = options.sleep ?? delay;
+    }
+
+    /**
+     * Builds the list URL from the captured request without its filters, then applies the given query params
+     * @param query - Query params to apply
+     * @returns Full request URL
+     */
+    buildUrl(query: TopAdsQuery): string {
+        const url = new URL(this.capture.url.startsWith(TOP_ADS_LIST_URL) ? this.capture.url : TOP_ADS_LIST_URL);
+        for (const field of FILTER_QUERY_FIELDS) {
+            url.searchParams.delete(QUERY_PARAM_NAMES[field]);
+        }
+
+        for (const [key, value] of Object.entries(query)) {
+            if (value === undefined || value === null || value === '') continue;
+            url.searchParams.set(QUERY_PARAM_NAMES[key as keyof TopAdsQuery], String(value));
+        }
+
+        return url.toString();
+    }
+
+    /**
+     * Fetches a single page of top ads, backing off while the API rate-limits
+     * @param query - Query params for the request
+     * @returns API response for the requested page
+     * @throws TopAdsSessionExpiredError if the session or signature is no longer accepted
+     * @throws TopAdsRateLimitError if the API still rate-limits after all retries
+     */
+    async fetchPage(query: TopAdsQuery): Promise<TikTokApiResponse> {
+        for (let attempt = 0; ; attempt++) {
+            try {
+                return await this.requestPage(query);
+            } catch (error) {
+                if (!(error instanceof TopAdsRateLimitError) || attempt >= this.retries) {
+                    throw error;
+                }
+
+                const waitMs = error.retryAfterMs ?? this.retryDelayMs * 2 ** attempt;
+                this.log.warning('Top Ads API is rate-limiting, backing off', { page: query.page, attempt: attempt + 1, waitMs });
+                await this.sleep(waitMs);
+            }
+        }
+    }
+
+    /**
+     * Sends one request for a page
+     * @private
+     */
+    private async requestPage(query: TopAdsQuery): Promise<TikTokApiResponse> {
+        const url = this.buildUrl(query);
+
+        try {
+            const response = await axios.get<TikTokApiResponse>(url, {
+                headers: this.buildHeaders(),
+                timeout: this.timeout,
+                validateStatus: status => status < 500
+            });
+
+            if (response.status === 401 || response.status === 403) {
+                throw new TopAdsSessionExpiredError(`Top Ads API rejected the session (HTTP ${response.status})`);
+            }
+            if (response.status === 429) {
+                throw new TopAdsRateLimitError('Top Ads API rate-limited the request (HTTP 429)', parseRetryAfter(response.headers?.['retry-after']));
+            }
+            if (response.status >= 400) {
+                throw new Error(`Top Ads API request failed (HTTP ${response.status})`);
+            }
+
+            const body = response.data;
+            if (!body || typeof body !== 'object' || !('code' in body)) {
+                throw new Error('Top Ads API returned an unexpected response body');
+            }
+
+            if (body.code !== 0) {
+                if (SESSION_EXPIRED_CODES.includes(body.code)) {
+                    throw new TopAdsSessionExpiredError(`Top Ads API session expired: ${body.msg}`, body.code);
+                }
+                throw new Error(`Top Ads API error ${body.code}: ${body.msg}`);
+            }
+
+            this.log.debug('Fetched top ads page', {
+                page: body.data.pagination.page,
+                items: body.data.materials.length
+            });
+
+            return body;
+        } catch (error) {
+            if (error instanceof TopAdsSessionExpiredError) {
+                this.log.warning('Top Ads API session is no longer valid', { error: error.message });
+            }
+            throw error;
+        }
+    }
+
+    /**
+     * Pages through the list endpoint until there are no more results
+     * @param query - Base query params; `page` is used as the starting page
+     * @param onPage - Callback invoked for every fetched page
+     * @param maxPages - Upper bound on fetched pages
+     * @returns Number of fetched pages
+     */
+    async fetchAllPages(
+        query: TopAdsQuery,
+        onPage: (response: TikTokApiResponse) => Promise<void> | void,
+        maxPages: number = Number.POSITIVE_INFINITY
+    ): Promise<number> {
+        let page = query.page ?? 1;
+        let fetched = 0;
+
+        while (fetched < maxPages) {
+            const response = await this.fetchPage({ ...query, page });
+            await onPage(response);
+            fetched++;
+
+            if (!response.data.pagination.has_more || response.data.materials.length === 0) {
+                break;
+            }
+            page++;
+        }
+
+        this.log.info('Finished paging through Top Ads API', { pages: fetched });
+        return fetched;
+    }
+
+    /**
+     * Builds request headers from the captured request and the stored cookies
+     * @private
+     */
+    private buildHeaders(): Record<string, string> {
+        const headers: Record<string, string> = {};
+
+        for (const [name, value] of Object.entries(this.capture.headers)) {
+            if (SKIPPED_HEADERS.includes(name.toLowerCase())) continue;
+            headers[name] = value;
+        }
+
+        const cookieHeader = this.loadCookieHeader();
+        if (cookieHeader) {
+            headers.cookie = cookieHeader;
+        } else if (this.capture.headers.cookie) {
+            headers.cookie = this.capture.headers.cookie;
+        }
+
+        return headers;
+    }
+
+    /**
+     * Reads non-expired cookies for the TikTok domain from the session state
+     * @private
+     * @throws TopAdsSessionExpiredError if every stored cookie has expired
+     */
+    private loadCookieHeader(): string | null {
+        if (!this.sessionState && !fs.existsSync(this.sessionPath)) {
+            return null;
+        }
+
+        const state = this.sessionState
+            ?? JSON.parse(fs.readFileSync(this.sessionPath, 'utf-8')) as { cookies?: StoredCookie[] };
+        const now = Date.now() / 1000;
+        const cookies = (state.cookies || []).filter(cookie => cookie.domain.endsWith('tiktok.com'));
+        const validCookies = cookies.filter(cookie => !cookie.expires || cookie.expires < 0 || cookie.expires > now);
+
+        if (cookies.length > 0 && validCookies.length === 0) {
+            throw new TopAdsSessionExpiredError('All stored session cookies have expired');
+        }
+
+        return validCookies.map(cookie => `${cookie.name}=${cookie.value}`).join('; ') || null;
+    }
+}
+
+/**
+ * Reads a Retry-After header, given in seconds or as an HTTP date
+ * @private
+ */
+function parseRetryAfter(value: unknown): number | undefined {
+    if (typeof value !== 'string' || value.trim() === '') return undefined;
+
+    const seconds = Number(value);
+    if (Number.isFinite(seconds)) return Math.max(0, seconds * 1000);
+
+    const date = Date.parse(value);
+    return isNaN(date) ? undefined : Math.max(0, date - Date.now());
+}
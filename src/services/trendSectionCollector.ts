@@ -0,0 +1,190 @@
+import { Log, RequestOptions } from 'crawlee';
+import { Page, Response } from 'playwright';
+import type { TrendItemDataBySection, TrendSection } from './database/types.js';
+import type { TikTokApiEnvelope, TikTokTrendPagination } from '../types/api.js';
+import { CrawlJob, CrawlJobPlanner, CrawlJobUserData } from './crawlJobPlanner.js';
+import { TREND_SECTIONS, TrendApiItemBySection } from './trendSections.js';
+
+/**
+ * Options for creating a TrendSectionCollector
+ */
+export interface TrendSectionCollectorOptions {
+    /**
+     * Maximum number of list pages loaded per section and job
+     */
+    maxPages?: number;
+    /**
+     * How long to wait for a list response (ms)
+     */
+    timeoutMs?: number;
+}
+
+/**
+ * List page of a section as captured from its API
+ * @private
+ */
+interface CapturedListPage {
+    page: number;
+    countryCode?: string;
+    items: unknown[];
+}
+
+/**
+ * Opens a Creative Center trend section and captures the list pages it loads
+ */
+export class TrendSectionCollector {
+    private readonly log: Log;
+    private readonly page: Page;
+    private readonly maxPages: number;
+    private readonly timeoutMs: number;
+
+    constructor(log: Log, page: Page, options: TrendSectionCollectorOptions = {}) {
+        this.log = log;
+        this.page = page;
+        this.maxPages = options.maxPages ?? 5;
+        this.timeoutMs = options.timeoutMs ?? 30000;
+    }
+
+    /**
+     * Builds the page URL of a section for a job's market and period
+     * @param section - Section to open
+     * @param job - Crawl job
+     * @returns Section page URL
+     */
+    static getSectionUrl(section: TrendSection, job: CrawlJob = {}): string {
+        const spec = TREND_SECTIONS[section];
+        const url = new URL(spec.pageUrl);
+        const countryCode = CrawlJobPlanner.resolveCountryCode(job);
+        if (countryCode) url.searchParams.set('countryCode', countryCode);
+        if (job.period && spec.hasPeriod) url.searchParams.set('period', job.period);
+        return url.toString();
+    }
+
+    /**
+     * Turns sections and jobs into requests, one per section and market.
+     * Only the region and period of a job apply to trend sections, so jobs that
+     * differ in other dimensions share a request.
+     * @param sections - Sections to crawl
+     * @param jobs - Planned jobs
+     * @returns Requests for `crawler.run()` or `addRequests()`
+     */
+    static toRequests(sections: TrendSection[], jobs: CrawlJob[]): RequestOptions<CrawlJobUserData>[] {
+        return sections.flatMap(section => jobs.map(({ region, period }) => {
+            const job: CrawlJob = { region, period: TREND_SECTIONS[section].hasPeriod ? period : undefined };
+            const jobKey = CrawlJobPlanner.getJobKey(job);
+            return {
+                url: TrendSectionCollector.getSectionUrl(section, job),
+                uniqueKey: `${section}#${jobKey}`,
+                label: TREND_SECTIONS[section].label,
+                userData: { job, jobKey }
+            };
+        }));
+    }
+
+    /**
+     * Opens the section page and collects its list, loading more pages while the API reports more
+     * @param section - Section to collect
+     * @param url - Section page URL
+     * @param job - Crawl job the request was planned for
+     * @returns Items ranked in list order, ready for `insertTrendItems`
+     */
+    async collect<S extends TrendSection>(section: S, url: string, job: CrawlJob = {}): Promise<TrendItemDataBySection[S][]> {
+        const spec = TREND_SECTIONS[section];
+        const countryCode = CrawlJobPlanner.resolveCountryCode(job);
+        const captured = new Map<number, CapturedListPage>();
+        const pending: Promise<void>[] = [];
+        let hasMore = false;
+
+        // The page loads its default market before the one from the URL is applied
+        const isListResponse = (response: Response) => {
+            if (!spec.apiPattern.test(response.url())) return false;
+            const requestCountry = new URL(response.url()).searchParams.get('country_code');
+            return !countryCode || !requestCountry || requestCountry === countryCode;
+        };
+        const onResponse = (response: Response) => {
+            if (!isListResponse(response)) return;
+
+            const requestCountry = new URL(response.url()).searchParams.get('country_code') ?? undefined;
+            pending.push(this.readResponse(response, section, requestCountry).then(listPage => {
+                if (!listPage) return;
+                captured.set(listPage.pagination.page, { page: listPage.pagination.page, countryCode: requestCountry, items: listPage.items });
+                hasMore = listPage.pagination.has_more;
+            }));
+        };
+
+        this.page.on('response', onResponse);
+        try {
+            const firstPage = this.page.waitForResponse(isListResponse, { timeout: this.timeoutMs }).catch(() => null);
+            await this.page.goto(url, { waitUntil: 'domcontentloaded' });
+            await firstPage;
+            await Promise.all(pending);
+
+            while (hasMore && captured.size < this.maxPages) {
+                const nextPage = this.page.waitForResponse(isListResponse, { timeout: this.timeoutMs }).catch(() => null);
+                if (!await this.clickViewMore()) break;
+                if (!await nextPage) break;
+                await Promise.all(pending);
+            }
+        } finally {
+            this.page.off('response', onResponse);
+        }
+
+        const pages = [...captured.values()].sort((a, b) => a.page - b.page);
+        const items = pages.flatMap(listPage => listPage.items.map(item => ({ item, countryCode: listPage.countryCode })));
+        if (items.length === 0) {
+            this.log.warning('Section page did not load its list', { section, url });
+            return [];
+        }
+
+        this.log.info('Collected trend section', { section, pages: pages.length, items: items.length });
+        return items.map(({ item, countryCode: listCountry }, index) => {
+            const listed = item as TrendApiItemBySection[S] & { rank?: number };
+            return spec.mapItem(listed, {
+                // Neither the job nor the list names a market; a guess would mix the item into another market's ranking
+                countryCode: countryCode ?? listCountry ?? 'unknown',
+                period: spec.hasPeriod ? job.period : undefined,
+                rank: listed.rank ?? index + 1
+            });
+        });
+    }
+
+    /**
+     * Clicks the "View More" button below the list
+     * @private
+     */
+    private async clickViewMore(): Promise<boolean> {
+        try {
+            const button = this.page.getByText('View More', { exact: true }).first();
+            if (!await button.isVisible()) return false;
+            await button.click();
+            return true;
+        } catch (error) {
+            this.log.debug('Could not load more items:', { error: (error as Error).message });
+            return false;
+        }
+    }
+
+    /**
+     * @private
+     */
+    private async readResponse(response: Response, section: TrendSection, countryCode?: string): Promise<{ pagination: TikTokTrendPagination; items: unknown[] } | null> {
+        try {
+            const body = await response.json() as TikTokApiEnvelope<Record<string, unknown> & { pagination?: TikTokTrendPagination }>;
+            if (body.code !== 0) {
+                this.log.warning('Trend API returned an error', { section, countryCode, code: body.code, msg: body.msg });
+                return null;
+            }
+
+            const spec = TREND_SECTIONS[section];
+            const items = spec.readItems ? spec.readItems(body.data ?? {}) : body.data?.[spec.listKey];
+            return {
+                // Lists without pagination arrive in one response
+                pagination: body.data?.pagination ?? { page: 1, size: 0, total: 0, has_more: false },
+                items: Array.isArray(items) ? items : []
+            };
+        } catch (error) {
+            this.log.warning('Could not read trend API response:', { section, error: (error as Error).message });
+            return null;
+        }
+    }
+}
@@ -0,0 +1,247 @@
+import type { DashboardBreakdownData, TrendItemBase, TrendItemDataBySection, TrendSection } from './database/types.js';
+import type { TikTokDashboardBreakdown, TikTokKeywordInsight, TikTokTopProduct, TikTokTrendCreator, TikTokTrendHashtag, TikTokTrendSong, TikTokTrendVideo } from '../types/api.js';
+
+/**
+ * Dashboard breakdown row tagged with the breakdown it was listed in
+ */
+export type TikTokDashboardRow = TikTokDashboardBreakdown & Pick<DashboardBreakdownData, 'dimension' | 'rank'>;
+
+/**
+ * List item of each section as returned by its API
+ */
+export interface TrendApiItemBySection {
+    hashtags: TikTokTrendHashtag;
+    songs: TikTokTrendSong;
+    creators: TikTokTrendCreator;
+    videos: TikTokTrendVideo;
+    products: TikTokTopProduct;
+    keywords: TikTokKeywordInsight;
+    dashboard: TikTokDashboardRow;
+}
+
+/**
+ * Fields of a stored item that come from the crawl rather than the item itself
+ */
+export type TrendItemContext = Pick<TrendItemBase, 'countryCode' | 'period' | 'rank'>;
+
+/**
+ * Where a Creative Center section is listed and how its items are stored
+ */
+export interface TrendSectionSpec<S extends TrendSection> {
+    section: S;
+    /**
+     * Router label of the requests that crawl the section
+     */
+    label: string;
+    pageUrl: string;
+    /**
+     * List endpoint the page loads its items from
+     */
+    apiPattern: RegExp;
+    /**
+     * Key of the item array in the list response data
+     */
+    listKey: string;
+    /**
+     * Reads the items of a response whose data has more than one list; `listKey` is used otherwise
+     */
+    readItems?(data: Record<string, unknown>): unknown[];
+    /**
+     * Whether the list can be narrowed to a period; creators and products are not
+     */
+    hasPeriod: boolean;
+    mapItem(item: TrendApiItemBySection[S], context: TrendItemContext): TrendItemDataBySection[S];
+}
+
+const CREATIVE_CENTER_URL = 'https://ads.tiktok.com/business/creativecenter';
+const DASHBOARD_DIMENSIONS: Array<[DashboardBreakdownData['dimension'], string]> = [
+    ['objective', 'objective_list'],
+    ['industry', 'industry_list']
+];
+const TREND_API_URL = '/creative_radar_api/v1';
+
+/**
+ * @private
+ */
+const toRaw = (item: object): TrendItemBase['raw'] => item as unknown as TrendItemBase['raw'];
+
+/**
+ * Crawlable Creative Center sections besides Top Ads
+ */
+export const TREND_SECTIONS: { [S in TrendSection]: TrendSectionSpec<S> } = {
+    hashtags: {
+        section: 'hashtags',
+        label: 'TREND_HASHTAGS',
+        pageUrl: `${CREATIVE_CENTER_URL}/inspiration/popular/hashtag/pc/en`,
+        apiPattern: new RegExp(`${TREND_API_URL}/popular_trend/hashtag/list`),
+        listKey: 'list',
+        hasPeriod: true,
+        mapItem: (item, context) => ({
+            ...context,
+            itemId: item.hashtag_id,
+            name: item.hashtag_name,
+            industry: item.industry_info?.value,
+            postCount: item.publish_cnt,
+            viewCount: item.video_views,
+            rankDiff: item.rank_diff,
+            raw: toRaw(item)
+        })
+    },
+    songs: {
+        section: 'songs',
+        label: 'TREND_SONGS',
+        pageUrl: `${CREATIVE_CENTER_URL}/inspiration/popular/music/pc/en`,
+        apiPattern: new RegExp(`${TREND_API_URL}/popular_trend/sound/list`),
+        listKey: 'sound_list',
+        hasPeriod: true,
+        mapItem: (item, context) => ({
+            ...context,
+            itemId: item.clip_id,
+            title: item.title,
+            author: item.author,
+            coverUrl: item.cover,
+            link: item.link,
+            duration: item.duration,
+            rankDiff: item.rank_diff,
+            raw: toRaw(item)
+        })
+    },
+    creators: {
+        section: 'creators',
+        label: 'TREND_CREATORS',
+        pageUrl: `${CREATIVE_CENTER_URL}/inspiration/popular/creator/pc/en`,
+        apiPattern: new RegExp(`${TREND_API_URL}/popular_trend/creator/list`),
+        listKey: 'creators',
+        hasPeriod: false,
+        mapItem: (item, context) => ({
+            ...context,
+            itemId: item.user_id,
+            nickname: item.nick_name,
+            avatarUrl: item.avatar_url,
+            profileUrl: item.tt_link,
+            followerCount: item.follower_cnt,
+            likeCount: item.liked_cnt,
+            raw: toRaw(item)
+        })
+    },
+    videos: {
+        section: 'videos',
+        label: 'TREND_VIDEOS',
+        pageUrl: `${CREATIVE_CENTER_URL}/inspiration/popular/video/pc/en`,
+        apiPattern: new RegExp(`${TREND_API_URL}/popular_trend/video/list`),
+        listKey: 'videos',
+        hasPeriod: true,
+        mapItem: (item, context) => ({
+            ...context,
+            itemId: item.item_id || item.id,
+            title: item.title,
+            coverUrl: item.cover,
+            videoUrl: item.item_url,
+            duration: item.duration,
+            raw: toRaw(item)
+        })
+    },
+    products: {
+        section: 'products',
+        label: 'TOP_PRODUCTS',
+        pageUrl: `${CREATIVE_CENTER_URL}/top-products/pc/en`,
+        apiPattern: new RegExp(`${TREND_API_URL}/top_products/top_products/list`),
+        listKey: 'list',
+        hasPeriod: false,
+        mapItem: (item, context) => ({
+            ...context,
+            // Products have no stable ID in every market, their title identifies them
+            itemId: item.id || item.url_title,
+            name: item.url_title,
+            category: item.first_ecom_category?.value,
+            ctr: item.ctr,
+            cvr: item.cvr,
+            cpa: item.cpa,
+            cost: item.cost,
+            impressions: item.impression,
+            likes: item.like,
+            posts: item.post,
+            raw: toRaw(item)
+        })
+    },
+    keywords: {
+        section: 'keywords',
+        label: 'KEYWORD_INSIGHTS',
+        pageUrl: `${CREATIVE_CENTER_URL}/keyword-insights/pc/en`,
+        apiPattern: new RegExp(`${TREND_API_URL}/script/keyword/list`),
+        listKey: 'keyword_list',
+        hasPeriod: true,
+        mapItem: (item, context) => ({
+            ...context,
+            itemId: item.keyword,
+            keyword: item.keyword,
+            industryKey: item.industry_info?.id,
+            ctr: item.ctr,
+            cvr: item.cvr,
+            cpa: item.cpa,
+            cost: item.cost,
+            impressions: item.impression,
+            likes: item.like,
+            shares: item.share,
+            comments: item.comment,
+            posts: item.post,
+            relatedKeywords: item.related_keywords ?? [],
+            raw: toRaw(item)
+        })
+    },
+    dashboard: {
+        section: 'dashboard',
+        label: 'TOP_ADS_DASHBOARD',
+        pageUrl: `${CREATIVE_CENTER_URL}/top-ads-dashboard/pc/en`,
+        apiPattern: new RegExp(`${TREND_API_URL}/top_ads/dashboard`),
+        listKey: 'industry_list',
+        // Both breakdowns arrive in one response and are ranked separately
+        readItems: data => DASHBOARD_DIMENSIONS.flatMap(([dimension, key]) => {
+            const rows = Array.isArray(data[key]) ? data[key] as TikTokDashboardBreakdown[] : [];
+            return rows.map((row, index): TikTokDashboardRow => ({ ...row, dimension, rank: index + 1 }));
+        }),
+        hasPeriod: true,
+        mapItem: (item, context) => ({
+            ...context,
+            itemId: `${item.dimension}:${item.key}`,
+            dimension: item.dimension,
+            breakdownKey: item.key,
+            label: item.label,
+            industryKey: item.dimension === 'industry' ? item.key : undefined,
+            adCount: item.ads_cnt,
+            ctr: item.ctr,
+            cvr: item.cvr,
+            cpa: item.cpa,
+            impressions: item.impression,
+            raw: toRaw(item)
+        })
+    }
+};
+
+/**
+ * Name of the section selection that crawls the Top Ads list
+ */
+export const TOP_ADS_SECTION = 'topads';
+
+/**
+ * Sections selectable for a crawl: Top Ads plus every trend section
+ */
+export const CRAWL_SECTIONS: string[] = [TOP_ADS_SECTION, ...Object.keys(TREND_SECTIONS)];
+
+/**
+ * Checks the configured section names
+ * @param sections - Sections from the config
+ * @returns One message per unknown section
+ */
+export const validateCrawlSections = (sections: string[]): string[] =>
+    sections
+        .filter(section => !CRAWL_SECTIONS.includes(section))
+        .map(section => `"${section}" is not a section, use one of ${CRAWL_SECTIONS.map(name => `"${name}"`).join(', ')}`);
+
+/**
+ * Picks the trend sections out of the configured sections
+ * @param sections - Sections from the config
+ * @returns Trend sections in configuration order
+ */
+export const selectTrendSections = (sections: string[]): TrendSection[] =>
+    sections.filter((section): section is TrendSection => section in TREND_SECTIONS);
@@ -0,0 +1,190 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import net from 'net';
+import type { AddressInfo } from 'net';
+import type { Log } from 'crawlee';
+import { ImapClient } from '../imapClient.js';
+import { ImapProvider } from '../providers/imapProvider.js';
+
+const mockLog = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn()
+} as unknown as Log;
+
+interface StoredMessage {
+  uid: number;
+  raw: string;
+}
+
+/**
+ * Local IMAP stand-in that answers the commands ImapClient sends
+ */
+class ImapStandIn {
+  readonly commands: string[] = [];
+  messages: StoredMessage[] = [];
+  private server = net.createServer(socket => this.handle(socket));
+
+  constructor(private readonly password: string) {}
+
+  async start(): Promise<number> {
+    await new Promise<void>(resolve => this.server.listen(0, '127.0.0.1', () => resolve()));
+    return (this.server.address() as AddressInfo).port;
+  }
+
+  async stop(): Promise<void> {
+    await new Promise<void>(resolve => this.server.close(() => resolve()));
+  }
+
+  private handle(socket: net.Socket): void {
+    socket.write('* OK IMAP4rev1 stand-in ready\r\n');
+    let buffer = '';
+
+    socket.on('data', chunk => {
+      buffer += chunk.toString('utf-8');
+      let lineEnd: number;
+      while ((lineEnd = buffer.indexOf('\r\n')) !== -1) {
+        const line = buffer.slice(0, lineEnd);
+        buffer = buffer.slice(lineEnd + 2);
+        this.respond(socket, line);
+      }
+    });
+  }
+
+  private respond(socket: net.Socket, line: string): void {
+    const [tag, ...rest] = line.split(' ');
+    const command = rest.join(' ');
+    this.commands.push(command);
+
+    if (command.startsWith('LOGIN')) {
+      const ok = command.endsWith(`"${this.password}"`);
+      socket.write(ok ? `${tag} OK LOGIN completed\r\n` : `${tag} NO [AUTHENTICATIONFAILED] Invalid credentials\r\n`);
+    } else if (command.startsWith('EXAMINE')) {
+      socket.write(`* ${this.messages.length} EXISTS\r\n${tag} OK [READ-ONLY] EXAMINE completed\r\n`);
+    } else if (command.startsWith('UID SEARCH')) {
+      socket.write(`* SEARCH ${this.messages.map(message => message.uid).join(' ')}\r\n${tag} OK SEARCH completed\r\n`);
+    } else if (command.startsWith('UID FETCH')) {
+      const uid = parseInt(command.split(' ')[2], 10);
+      const message = this.messages.find(item => item.uid === uid);
+      if (message) {
+        const size = Buffer.byteLength(message.raw, 'utf-8');
+        socket.write(`* ${uid} FETCH (UID ${uid} BODY[] {${size}}\r\n${message.raw})\r\n`);
+      }
+      socket.write(`${tag} OK FETCH completed\r\n`);
+    } else if (command === 'LOGOUT') {
+      socket.end(`* BYE logging out\r\n${tag} OK LOGOUT completed\r\n`);
+    } else {
+      socket.write(`${tag} BAD Unknown command\r\n`);
+    }
+  }
+}
+
+const tiktokEmail = (code: string, date: Date, to = 'buyer@example.com') => [
+  'From: TikTok Ads <no-reply@business.tiktok.com>',
+  `To: ${to}`,
+  `Date: ${date.toUTCString()}`,
+  'Subject: Verification code',
+  'Content-Type: text/html; charset=utf-8',
+  'Content-Transfer-Encoding: quoted-printable',
+  '',
+  '<html><head><style>p { color: #123456; }</style></head><body>',
+  `<p>Your verification code is <b>${code}</b>.</p><p>It expires in 5 minutes. Caf=C3=A9</p>`,
+  '</body></html>'
+].join('\r\n');
+
+describe('ImapProvider', () => {
+  const requestedAt = new Date('2025-03-07T10:00:00Z');
+  const waitOptions = { timeoutMs: 200, pollIntervalMs: 20 };
+  let standIn: ImapStandIn;
+  let port: number;
+
+  beforeEach(async () => {
+    vi.clearAllMocks();
+    standIn = new ImapStandIn('app-password');
+    port = await standIn.start();
+  });
+
+  afterEach(async () => {
+    await standIn.stop();
+  });
+
+  const createProvider = (password = 'app-password') => new ImapProvider(mockLog, {
+    host: '127.0.0.1',
+    port,
+    secure: false,
+    user: 'buyer@example.com',
+    password,
+    email: 'buyer@example.com'
+  });
+
+  it('should return the newest code sent after the request', async () => {
+    standIn.messages = [
+      { uid: 1, raw: tiktokEmail('111111', new Date('2025-03-07T10:00:30Z')) },
+      { uid: 2, raw: tiktokEmail('222222', new Date('2025-03-07T10:01:00Z')) }
+    ];
+
+    const code = await createProvider().getCode({ requestedAt }, waitOptions);
+
+    expect(code).toMatchObject({ code: '222222', source: 'imap', reference: '2' });
+    expect(code?.sentAt?.toISOString()).toBe('2025-03-07T10:01:00.000Z');
+    expect(standIn.commands).toContain('UID SEARCH SINCE 6-Mar-2025 FROM "tiktok"');
+    expect(standIn.commands.at(-1)).toBe('LOGOUT');
+  });
+
+  it('should skip codes sent before the login attempt', async () => {
+    standIn.messages = [{ uid: 1, raw: tiktokEmail('111111', new Date('2025-03-07T09:30:00Z')) }];
+
+    expect(await createProvider().getCode({ requestedAt }, waitOptions)).toBeNull();
+  });
+
+  it('should skip emails addressed to another account', async () => {
+    standIn.messages = [
+      { uid: 1, raw: tiktokEmail('111111', new Date('2025-03-07T10:01:00Z')) },
+      { uid: 2, raw: tiktokEmail('222222', new Date('2025-03-07T10:02:00Z'), 'other@example.com') }
+    ];
+
+    expect((await createProvider().getCode({ requestedAt }, waitOptions))?.code).toBe('111111');
+  });
+
+  it('should not return a code again once it was used', async () => {
+    standIn.messages = [
+      { uid: 1, raw: tiktokEmail('111111', new Date('2025-03-07T10:01:00Z')) },
+      { uid: 2, raw: tiktokEmail('222222', new Date('2025-03-07T10:02:00Z')) }
+    ];
+    const provider = createProvider();
+
+    const first = await provider.getCode({ requestedAt }, waitOptions);
+    await provider.markUsed(first!);
+
+    expect((await provider.getCode({ requestedAt }, waitOptions))?.code).toBe('111111');
+  });
+
+  it('should pick up a code that arrives while polling', async () => {
+    const provider = createProvider();
+    setTimeout(() => {
+      standIn.messages = [{ uid: 5, raw: tiktokEmail('555555', new Date('2025-03-07T10:01:00Z')) }];
+    }, 50);
+
+    expect((await provider.getCode({ requestedAt }, { timeoutMs: 2000, pollIntervalMs: 20 }))?.code).toBe('555555');
+  });
+
+  it('should keep polling and give up when the login is rejected', async () => {
+    expect(await createProvider('wrong').getCode({ requestedAt }, waitOptions)).toBeNull();
+    expect(mockLog.warning).toHaveBeenCalledWith(
+      'Failed to read verification email over IMAP:',
+      { error: expect.stringContaining('Invalid credentials') }
+    );
+  });
+});
+
+describe('ImapClient', () => {
+  it('should fail when the server is not reachable', async () => {
+    const server = net.createServer();
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', () => resolve()));
+    const { port } = server.address() as AddressInfo;
+    await new Promise<void>(resolve => server.close(() => resolve()));
+
+    const client = new ImapClient({ host: '127.0.0.1', port, secure: false, user: 'user', password: 'password' });
+    await expect(client.connect()).rejects.toThrow();
+  });
+});
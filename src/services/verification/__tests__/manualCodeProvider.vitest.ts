@@ -0,0 +1,66 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+import type { Log } from 'crawlee';
+import { ManualCodeProvider } from '../providers/manualCodeProvider.js';
+
+const mockLog = {
+  info: vi.fn(),
+  debug: vi.fn(),
+  warning: vi.fn(),
+  error: vi.fn()
+} as unknown as Log;
+
+describe('ManualCodeProvider', () => {
+  let tempDir: string | null = null;
+
+  afterEach(() => {
+    if (tempDir) fs.rmSync(tempDir, { recursive: true, force: true });
+    tempDir = null;
+  });
+
+  it('should read the code typed on stdin, asking again for invalid input', async () => {
+    const input = new PassThrough();
+    const output = new PassThrough();
+    const provider = new ManualCodeProvider(mockLog, { email: 'buyer@example.com', input, output });
+
+    const code = provider.getCode({ requestedAt: new Date() }, { timeoutMs: 2000, pollIntervalMs: 10 });
+    input.write('12ab\n');
+    input.write(' 654321 \n');
+
+    await expect(code).resolves.toEqual({ code: '654321', source: 'manual' });
+    expect(output.read()?.toString()).toContain('Enter the TikTok verification code for buyer@example.com');
+  });
+
+  it('should give up on stdin after the timeout', async () => {
+    const provider = new ManualCodeProvider(mockLog, { email: 'buyer@example.com', input: new PassThrough(), output: new PassThrough() });
+
+    await expect(provider.getCode({ requestedAt: new Date() }, { timeoutMs: 20, pollIntervalMs: 10 })).resolves.toBeNull();
+  });
+
+  it('should read the code from the file and remove it', async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verification-'));
+    const filePath = path.join(tempDir, 'code.txt');
+    const provider = new ManualCodeProvider(mockLog, { email: 'buyer@example.com', filePath });
+
+    const code = provider.getCode({ requestedAt: new Date(Date.now() - 1000) }, { timeoutMs: 2000, pollIntervalMs: 10 });
+    setTimeout(() => fs.writeFileSync(filePath, '987654\n'), 30);
+
+    await expect(code).resolves.toEqual({ code: '987654', source: 'manual' });
+    expect(fs.existsSync(filePath)).toBe(false);
+  });
+
+  it('should ignore a file written before the request', async () => {
+    tempDir = fs.mkdtempSync(path.join(os.tmpdir(), 'verification-'));
+    const filePath = path.join(tempDir, 'code.txt');
+    fs.writeFileSync(filePath, '111111');
+    const provider = new ManualCodeProvider(mockLog, { email: 'buyer@example.com', filePath });
+
+    const code = await provider.getCode({ requestedAt: new Date(Date.now() + 60000) }, { timeoutMs: 50, pollIntervalMs: 10 });
+
+    expect(code).toBeNull();
+    expect(fs.existsSync(filePath)).toBe(true);
+  });
+});
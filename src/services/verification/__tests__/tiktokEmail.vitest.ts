@@ -0,0 +1,93 @@
+import { describe, it, expect } from 'vitest';
+import fs from 'fs';
+import path from 'path';
+import { checkVerificationEmail, parseTikTokVerificationEmail } from '../tiktokEmail.js';
+
+interface ExpectedSample {
+  file: string;
+  code: string;
+  to: string;
+  sentAt: string;
+  language: string;
+}
+
+const fixturesDir = path.join(__dirname, 'fixtures', 'emails');
+const expected = JSON.parse(fs.readFileSync(path.join(fixturesDir, 'expected.json'), 'utf-8')) as {
+  samples: ExpectedSample[];
+  withoutCode: string[];
+};
+
+const readFixture = (file: string) => fs.readFileSync(path.join(fixturesDir, file));
+
+describe('parseTikTokVerificationEmail', () => {
+  it.each(expected.samples)('should parse $file', (sample) => {
+    const email = parseTikTokVerificationEmail(readFixture(sample.file));
+
+    expect(email).not.toBeNull();
+    expect(email!.code).toBe(sample.code);
+    expect(email!.to).toBe(sample.to);
+    expect(email!.sentAt?.toISOString()).toBe(sample.sentAt);
+    expect(email!.language).toBe(sample.language);
+  });
+
+  it.each(expected.withoutCode)('should find no code in %s', (file) => {
+    expect(parseTikTokVerificationEmail(readFixture(file))).toBeNull();
+  });
+
+  it('should decode RFC 2047 subjects', () => {
+    const email = parseTikTokVerificationEmail(readFixture('ja.eml'));
+
+    expect(email?.subject).toBe('認証コード');
+  });
+
+  it('should fall back to the Received date and Delivered-To address', () => {
+    const raw = [
+      'Delivered-To: buyer@example.com',
+      'Received: from mta.tiktok.com by mx.example.com; Fri, 7 Mar 2025 10:01:12 +0000',
+      'Subject: TikTok',
+      '',
+      'Use 123456 to sign in.'
+    ].join('\r\n');
+
+    expect(parseTikTokVerificationEmail(raw)).toEqual({
+      code: '123456',
+      to: 'buyer@example.com',
+      sentAt: new Date('2025-03-07T10:01:12.000Z'),
+      language: undefined,
+      subject: 'TikTok'
+    });
+  });
+});
+
+describe('checkVerificationEmail', () => {
+  const requestedAt = new Date('2025-03-07T10:00:00.000Z');
+
+  it('should accept an email sent after the login attempt', () => {
+    const email = { code: '123456', to: 'buyer@example.com', sentAt: new Date('2025-03-07T10:00:30.000Z') };
+
+    expect(checkVerificationEmail(email, { requestedAt, email: 'Buyer@Example.com' })).toEqual({ accepted: true });
+  });
+
+  it('should tolerate clock skew between the mail server and the crawler', () => {
+    const email = { code: '123456', sentAt: new Date('2025-03-07T09:59:30.000Z') };
+
+    expect(checkVerificationEmail(email, { requestedAt })).toEqual({ accepted: true });
+    expect(checkVerificationEmail(email, { requestedAt, clockSkewMs: 0 })).toEqual({ accepted: false, reason: 'stale' });
+  });
+
+  it('should reject codes from earlier login attempts', () => {
+    const email = { code: '123456', sentAt: new Date('2025-03-07T09:50:00.000Z') };
+
+    expect(checkVerificationEmail(email, { requestedAt })).toEqual({ accepted: false, reason: 'stale' });
+  });
+
+  it('should reject emails without a send time', () => {
+    expect(checkVerificationEmail({ code: '123456' }, { requestedAt })).toEqual({ accepted: false, reason: 'undated' });
+  });
+
+  it('should reject emails addressed to another account', () => {
+    const email = { code: '123456', to: 'other@example.com', sentAt: new Date('2025-03-07T10:00:30.000Z') };
+
+    expect(checkVerificationEmail(email, { requestedAt, email: 'buyer@example.com' })).toEqual({ accepted: false, reason: 'recipient' });
+  });
+});
@@ -0,0 +1,37 @@
+import { Log } from 'crawlee';
+import { config, VerificationConfig } from '../../config.js';
+import { HttpMailServerProvider } from './providers/httpMailServerProvider.js';
+import { ImapProvider } from './providers/imapProvider.js';
+import { ManualCodeProvider } from './providers/manualCodeProvider.js';
+import type { VerificationCodeProvider } from './types.js';
+
+/**
+ * Creates the verification code provider configured for an account
+ * @param log - Crawlee logger
+ * @param email - Account email
+ * @param verification - Verification settings
+ * @returns Provider for the account
+ */
+export function createVerificationCodeProvider(
+    log: Log,
+    email: string,
+    verification: VerificationConfig = config.verification
+): VerificationCodeProvider {
+    const providerName = verification.providers[email] ?? verification.defaultProvider;
+
+    switch (providerName) {
+        case 'http':
+            return new HttpMailServerProvider(log);
+        case 'imap': {
+            const { host, port, secure, user, password, mailbox } = verification.imap;
+            if (!host || !password) {
+                throw new Error(`IMAP_HOST and IMAP_PASSWORD are required for the IMAP verification provider (${email})`);
+            }
+            return new ImapProvider(log, { host, port, secure, user: user ?? email, password, mailbox, email });
+        }
+        case 'manual':
+            return new ManualCodeProvider(log, { email, filePath: verification.codeFile });
+        default:
+            throw new Error(`Unknown verification provider "${providerName}" for ${email}; expected http, imap or manual`);
+    }
+}
@@ -0,0 +1,242 @@
+import net from 'net';
+import tls from 'tls';
+
+export interface ImapConnectionOptions {
+    host: string;
+    port: number;
+    /**
+     * Connect over TLS (port 993); plain TCP otherwise
+     */
+    secure: boolean;
+    user: string;
+    password: string;
+    /**
+     * Socket timeout in milliseconds
+     */
+    timeoutMs?: number;
+}
+
+/**
+ * Thrown when the IMAP server rejects a command or the connection fails
+ */
+export class ImapError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ImapError';
+    }
+}
+
+interface PendingCommand {
+    tag: string;
+    lines: string[];
+    resolve: (lines: string[]) => void;
+    reject: (error: Error) => void;
+}
+
+/**
+ * Minimal IMAP4rev1 client covering what reading verification emails needs:
+ * LOGIN, SELECT, UID SEARCH, UID FETCH of full messages and LOGOUT.
+ * Commands are sent one at a time.
+ */
+export class ImapClient {
+    private socket: net.Socket | null = null;
+    private buffer = '';
+    private tagCounter = 0;
+    private pending: PendingCommand | null = null;
+    private greeting: { resolve: () => void; reject: (error: Error) => void } | null = null;
+
+    constructor(private readonly options: ImapConnectionOptions) {}
+
+    /**
+     * Connects, waits for the server greeting and logs in
+     */
+    async connect(): Promise<void> {
+        const { host, port, secure, timeoutMs = 30000 } = this.options;
+
+        await new Promise<void>((resolve, reject) => {
+            this.greeting = { resolve, reject };
+            const socket = secure ? tls.connect({ host, port, servername: host }) : net.connect({ host, port });
+            socket.setEncoding('binary');
+            socket.setTimeout(timeoutMs, () => socket.destroy(new ImapError('IMAP connection timed out')));
+            socket.on('data', (chunk: string) => this.onData(chunk));
+            socket.on('error', error => this.fail(error));
+            socket.on('close', () => this.fail(new ImapError('IMAP connection closed')));
+            this.socket = socket;
+        });
+
+        try {
+            await this.command(`LOGIN ${quote(this.options.user)} ${quote(this.options.password)}`);
+        } catch (error) {
+            this.socket?.destroy();
+            this.socket = null;
+            throw error;
+        }
+    }
+
+    /**
+     * Opens a mailbox read-only
+     * @param mailbox - Mailbox name
+     */
+    async select(mailbox: string = 'INBOX'): Promise<void> {
+        await this.command(`EXAMINE ${quote(mailbox)}`);
+    }
+
+    /**
+     * Searches the selected mailbox
+     * @param criteria - IMAP search criteria, e.g. `SINCE 1-Jan-2025 FROM "tiktok"`
+     * @returns Matching UIDs in ascending order
+     */
+    async search(criteria: string): Promise<number[]> {
+        const lines = await this.command(`UID SEARCH ${criteria}`);
+        return lines
+            .filter(line => line.startsWith('* SEARCH'))
+            .flatMap(line => line.slice('* SEARCH'.length).trim().split(/\s+/))
+            .filter(Boolean)
+            .map(uid => parseInt(uid, 10))
+            .sort((a, b) => a - b);
+    }
+
+    /**
+     * Fetches a full message without marking it as seen
+     * @param uid - Message UID
+     * @returns Raw RFC 822 message bytes, or null if the message does not exist
+     */
+    async fetchMessage(uid: number): Promise<Buffer | null> {
+        const lines = await this.command(`UID FETCH ${uid} (BODY.PEEK[])`);
+        const response = lines.find(line => /^\* \d+ FETCH/.test(line));
+        if (!response) return null;
+
+        const literal = response.match(/BODY\[\] \{(\d+)\}\r\n/);
+        if (literal) {
+            const start = (literal.index ?? 0) + literal[0].length;
+            // Bodies may use any charset; they are decoded per MIME part when parsing
+            return Buffer.from(response.slice(start, start + parseInt(literal[1], 10)), 'binary');
+        }
+
+        const quoted = response.match(/BODY\[\] "((?:[^"\\]|\\.)*)"/);
+        return quoted ? Buffer.from(quoted[1].replace(/\\(.)/g, '$1'), 'binary') : null;
+    }
+
+    /**
+     * Logs out and closes the connection
+     */
+    async logout(): Promise<void> {
+        if (!this.socket) return;
+
+        try {
+            await this.command('LOGOUT');
+        } catch {
+            // The server may close the connection before answering
+        } finally {
+            this.socket?.destroy();
+            this.socket = null;
+        }
+    }
+
+    /**
+     * @private
+     */
+    private command(command: string): Promise<string[]> {
+        if (!this.socket) {
+            return Promise.reject(new ImapError('Not connected to IMAP server'));
+        }
+        if (this.pending) {
+            return Promise.reject(new ImapError('Another IMAP command is in progress'));
+        }
+
+        const tag = `A${++this.tagCounter}`;
+        return new Promise((resolve, reject) => {
+            this.pending = { tag, lines: [], resolve, reject };
+            this.socket!.write(`${tag} ${command}\r\n`, 'binary');
+        });
+    }
+
+    /**
+     * Splits incoming data into responses. A line ending in `{n}` announces a literal:
+     * the next n bytes and the rest of the following line belong to the same response.
+     * @private
+     */
+    private onData(chunk: string): void {
+        this.buffer += chunk;
+
+        let response: string | null;
+        while ((response = this.takeResponse()) !== null) {
+            this.onResponse(response);
+        }
+    }
+
+    /**
+     * @private
+     */
+    private takeResponse(): string | null {
+        let offset = 0;
+
+        while (true) {
+            const lineEnd = this.buffer.indexOf('\r\n', offset);
+            if (lineEnd === -1) return null;
+
+            const literal = this.buffer.slice(offset, lineEnd).match(/\{(\d+)\}$/);
+            if (!literal) {
+                const response = this.buffer.slice(0, lineEnd);
+                this.buffer = this.buffer.slice(lineEnd + 2);
+                return response;
+            }
+
+            offset = lineEnd + 2 + parseInt(literal[1], 10);
+            if (this.buffer.length < offset) return null;
+        }
+    }
+
+    /**
+     * @private
+     */
+    private onResponse(response: string): void {
+        if (this.greeting) {
+            const greeting = this.greeting;
+            this.greeting = null;
+            if (response.startsWith('* OK') || response.startsWith('* PREAUTH')) {
+                greeting.resolve();
+            } else {
+                greeting.reject(new ImapError(`Unexpected IMAP greeting: ${response}`));
+            }
+            return;
+        }
+
+        const pending = this.pending;
+        if (!pending) return;
+
+        if (!response.startsWith(`${pending.tag} `)) {
+            pending.lines.push(response);
+            return;
+        }
+
+        this.pending = null;
+        const [, status, text] = response.match(/^\S+ (OK|NO|BAD)\s*(.*)$/) ?? [];
+        if (status === 'OK') {
+            pending.resolve(pending.lines);
+        } else {
+            pending.reject(new ImapError(`IMAP command failed: ${text || response}`));
+        }
+    }
+
+    /**
+     * @private
+     */
+    private fail(error: Error): void {
+        this.socket = null;
+        const failure = error instanceof ImapError ? error : new ImapError(error.message);
+
+        this.greeting?.reject(failure);
+        this.greeting = null;
+        this.pending?.reject(failure);
+        this.pending = null;
+    }
+}
+
+/**
+ * Quotes a string for use in an IMAP command
+ * @private
+ */
+function quote(value: string): string {
+    return `"${value.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}"`;
+}
@@ -0,0 +1,42 @@
+import { Log } from 'crawlee';
+import { EmailApiService } from '../../../utils/emailApiService.js';
+import { checkVerificationEmail } from '../tiktokEmail.js';
+import type { VerificationCode, VerificationCodeProvider, VerificationCodeRequest, VerificationCodeWaitOptions } from '../types.js';
+
+/**
+ * Reads codes from the separately deployed mail server at EMAIL_API_BASE_URL
+ */
+export class HttpMailServerProvider implements VerificationCodeProvider {
+    readonly name = 'http';
+
+    constructor(private readonly log: Log, private readonly emailApi: EmailApiService = new EmailApiService(log)) {}
+
+    async getCode(request: VerificationCodeRequest, options: VerificationCodeWaitOptions): Promise<VerificationCode | null> {
+        const deadline = Date.now() + options.timeoutMs;
+
+        while (Date.now() < deadline) {
+            const response = await this.emailApi.getTikTokVerificationCode();
+            const code = response.code?.trim();
+            const timestamp = response.timestamp ? new Date(response.timestamp) : undefined;
+            const sentAt = timestamp && !isNaN(timestamp.getTime()) ? timestamp : undefined;
+            // The mail server does not always report a timestamp, so undated codes are still accepted here
+            const check = code ? checkVerificationEmail({ code, sentAt }, { requestedAt: request.requestedAt }) : null;
+            const isFresh = check !== null && (check.accepted || check.reason === 'undated');
+
+            if (code && /^\d{6}$/.test(code) && response.status !== 'used' && isFresh) {
+                return { code, source: this.name, sentAt };
+            }
+
+            if (code) {
+                this.log.debug('Ignoring used, stale or malformed verification code', { status: response.status, timestamp: response.timestamp });
+            }
+            await new Promise(resolve => setTimeout(resolve, Math.min(options.pollIntervalMs, Math.max(0, deadline - Date.now()))));
+        }
+
+        return null;
+    }
+
+    async markUsed(code: VerificationCode): Promise<void> {
+        await this.emailApi.updateCodeStatus(code.code, 'used');
+    }
+}
@@ -0,0 +1,109 @@
+import { Log } from 'crawlee';
+import { ImapClient, ImapConnectionOptions } from '../imapClient.js';
+import { checkVerificationEmail, parseTikTokVerificationEmail } from '../tiktokEmail.js';
+import type { VerificationCode, VerificationCodeProvider, VerificationCodeRequest, VerificationCodeWaitOptions } from '../types.js';
+
+export interface ImapProviderOptions extends ImapConnectionOptions {
+    /**
+     * Account the codes are for; emails addressed to someone else are skipped
+     */
+    email: string;
+    /**
+     * Mailbox TikTok emails arrive in
+     */
+    mailbox?: string;
+    /**
+     * Text the sender address must contain
+     */
+    sender?: string;
+}
+
+const MONTHS = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+/**
+ * Reads TikTok verification emails straight from an IMAP mailbox
+ */
+export class ImapProvider implements VerificationCodeProvider {
+    readonly name = 'imap';
+
+    private readonly usedUids = new Set<string>();
+
+    /**
+     * @param log - Crawlee logger
+     * @param options - Mailbox connection and filtering options
+     * @param createClient - Creates the IMAP client; replaceable for tests
+     */
+    constructor(
+        private readonly log: Log,
+        private readonly options: ImapProviderOptions,
+        private readonly createClient: (options: ImapConnectionOptions) => ImapClient = connection => new ImapClient(connection)
+    ) {}
+
+    async getCode(request: VerificationCodeRequest, options: VerificationCodeWaitOptions): Promise<VerificationCode | null> {
+        const deadline = Date.now() + options.timeoutMs;
+
+        while (Date.now() < deadline) {
+            try {
+                const code = await this.findCode(request);
+                if (code) return code;
+            } catch (error) {
+                this.log.warning('Failed to read verification email over IMAP:', { error: (error as Error).message });
+            }
+
+            await new Promise(resolve => setTimeout(resolve, Math.min(options.pollIntervalMs, Math.max(0, deadline - Date.now()))));
+        }
+
+        return null;
+    }
+
+    async markUsed(code: VerificationCode): Promise<void> {
+        if (code.reference) {
+            this.usedUids.add(code.reference);
+        }
+    }
+
+    /**
+     * Looks through today's TikTok emails, newest first, for an unused code sent after the request
+     * @private
+     */
+    private async findCode(request: VerificationCodeRequest): Promise<VerificationCode | null> {
+        const client = this.createClient(this.options);
+        await client.connect();
+
+        try {
+            await client.select(this.options.mailbox ?? 'INBOX');
+            const uids = await client.search(`SINCE ${toImapDate(request.requestedAt)} FROM "${this.options.sender ?? 'tiktok'}"`);
+
+            for (const uid of uids.reverse()) {
+                if (this.usedUids.has(String(uid))) continue;
+
+                const raw = await client.fetchMessage(uid);
+                const email = raw ? parseTikTokVerificationEmail(raw) : null;
+                if (!email) continue;
+
+                const check = checkVerificationEmail(email, { requestedAt: request.requestedAt, email: this.options.email });
+                if (!check.accepted) {
+                    this.log.debug('Skipping unusable verification email', { uid, reason: check.reason, to: email.to, sentAt: email.sentAt?.toISOString() });
+                    continue;
+                }
+
+                this.log.info('Verification code found in mailbox', { uid });
+                return { code: email.code, source: this.name, sentAt: email.sentAt, reference: String(uid) };
+            }
+
+            return null;
+        } finally {
+            await client.logout();
+        }
+    }
+}
+
+/**
+ * Formats a date as IMAP expects in SEARCH, e.g. `7-Mar-2025`. IMAP dates ignore the time,
+ * so the day before is used to cover time zone differences.
+ * @private
+ */
+function toImapDate(date: Date): string {
+    const day = new Date(date.getTime() - 24 * 60 * 60 * 1000);
+    return `${day.getUTCDate()}-${MONTHS[day.getUTCMonth()]}-${day.getUTCFullYear()}`;
+}
@@ -0,0 +1,102 @@
+import fs from 'fs';
+import readline from 'readline';
+import { Log } from 'crawlee';
+import type { VerificationCode, VerificationCodeProvider, VerificationCodeRequest, VerificationCodeWaitOptions } from '../types.js';
+
+export interface ManualCodeProviderOptions {
+    /**
+     * Account the code is for, shown in the prompt
+     */
+    email: string;
+    /**
+     * File the operator writes the code into; stdin is used when not set
+     */
+    filePath?: string;
+    /**
+     * Stream the code is read from in stdin mode
+     */
+    input?: NodeJS.ReadableStream;
+    /**
+     * Stream the prompt is written to in stdin mode
+     */
+    output?: NodeJS.WritableStream;
+}
+
+const CODE_PATTERN = /\b(\d{6})\b/;
+
+/**
+ * Lets an operator enter the code by hand, either by writing it into a file or by typing it on stdin
+ */
+export class ManualCodeProvider implements VerificationCodeProvider {
+    readonly name = 'manual';
+
+    constructor(private readonly log: Log, private readonly options: ManualCodeProviderOptions) {}
+
+    async getCode(request: VerificationCodeRequest, options: VerificationCodeWaitOptions): Promise<VerificationCode | null> {
+        const code = this.options.filePath
+            ? await this.readFromFile(this.options.filePath, request, options)
+            : await this.readFromInput(options.timeoutMs);
+
+        return code ? { code, source: this.name } : null;
+    }
+
+    /**
+     * Waits for a code written into the file after the request and removes the file once read
+     * @private
+     */
+    private async readFromFile(filePath: string, request: VerificationCodeRequest, options: VerificationCodeWaitOptions): Promise<string | null> {
+        this.log.warning(`Write the TikTok verification code for ${this.options.email} into ${filePath}`);
+        const deadline = Date.now() + options.timeoutMs;
+
+        while (Date.now() < deadline) {
+            const stats = await fs.promises.stat(filePath).catch(() => null);
+            if (stats && stats.mtime >= request.requestedAt) {
+                const code = (await fs.promises.readFile(filePath, 'utf-8')).match(CODE_PATTERN)?.[1];
+                if (code) {
+                    await fs.promises.unlink(filePath).catch(() => {});
+                    return code;
+                }
+            }
+
+            await new Promise(resolve => setTimeout(resolve, Math.min(options.pollIntervalMs, Math.max(0, deadline - Date.now()))));
+        }
+
+        return null;
+    }
+
+    /**
+     * Prompts until a six-digit code is entered or the time is up
+     * @private
+     */
+    private readFromInput(timeoutMs: number): Promise<string | null> {
+        const rl = readline.createInterface({
+            input: this.options.input ?? process.stdin,
+            output: this.options.output ?? process.stdout,
+            terminal: false
+        });
+
+        return new Promise(resolve => {
+            let finished = false;
+            const finish = (code: string | null) => {
+                if (finished) return;
+                finished = true;
+                clearTimeout(timer);
+                rl.close();
+                resolve(code);
+            };
+            const timer = setTimeout(() => finish(null), timeoutMs);
+            const ask = () => rl.question(`Enter the TikTok verification code for ${this.options.email}: `, answer => {
+                const code = answer.match(CODE_PATTERN)?.[1];
+                if (code) {
+                    finish(code);
+                } else {
+                    this.log.warning('Verification codes have six digits, please try again');
+                    ask();
+                }
+            });
+
+            rl.once('close', () => finish(null));
+            ask();
+        });
+    }
+}
@@ -0,0 +1,340 @@
+/**
+ * Verification details read from a TikTok email
+ */
+export interface TikTokVerificationEmail {
+    code: string;
+    /**
+     * Account the code was sent to
+     */
+    to?: string;
+    /**
+     * When TikTok sent the email
+     */
+    sentAt?: Date;
+    /**
+     * Language of the template the code was found in, e.g. `en` or `ja`
+     */
+    language?: string;
+    subject?: string;
+}
+
+/**
+ * Why a parsed verification email cannot be used for a login attempt
+ */
+export type VerificationEmailRejection = 'stale' | 'undated' | 'recipient';
+
+export interface VerificationEmailCheck {
+    accepted: boolean;
+    reason?: VerificationEmailRejection;
+}
+
+export interface VerificationEmailCheckOptions {
+    /**
+     * When the login was submitted; codes sent earlier belong to previous attempts
+     */
+    requestedAt: Date;
+    /**
+     * Account the code must be addressed to; not checked when the email has no recipient
+     */
+    email?: string;
+    /**
+     * Tolerated difference between the mail server's clock and ours, in milliseconds
+     */
+    clockSkewMs?: number;
+}
+
+interface MimePart {
+    headers: Record<string, string>;
+    body: string;
+}
+
+/**
+ * Phrases that precede the code in TikTok's templates, per UI language
+ */
+const CODE_KEYWORDS: Record<string, string[]> = {
+    en: ['verification code', 'your code', 'enter this code', 'security code'],
+    es: ['código de verificación', 'codigo de verificacion', 'introduce este código'],
+    pt: ['código de verificação', 'codigo de verificacao', 'insira este código'],
+    fr: ['code de vérification', 'code de verification', 'saisissez ce code'],
+    de: ['bestätigungscode', 'verifizierungscode', 'gib diesen code'],
+    it: ['codice di verifica'],
+    ru: ['код подтверждения', 'код проверки', 'проверочный код'],
+    tr: ['doğrulama kodu', 'dogrulama kodu'],
+    id: ['kode verifikasi'],
+    vi: ['mã xác minh', 'mã xác thực'],
+    th: ['รหัสยืนยัน', 'รหัสการยืนยัน'],
+    ar: ['رمز التحقق', 'رمز التأكيد'],
+    ja: ['認証コード', '確認コード'],
+    ko: ['인증 코드', '인증코드'],
+    zh: ['验证码', '驗證碼']
+};
+
+// A code is six digits that are not part of a longer number, a hex color or a date
+const CODE_PATTERN = /(?<!\d|#|\d[:/.-])\d{6}(?!\d|[:/.-]\d)/g;
+
+// Keywords further away than this are assumed to belong to other content
+const MAX_KEYWORD_DISTANCE = 300;
+
+/**
+ * Extracts the verification code, recipient and send time from a raw TikTok email.
+ * Supports nested multipart messages, quoted-printable and base64 bodies, any charset the
+ * runtime can decode and RFC 2047 encoded headers. The code is taken from after a known
+ * phrase in any supported language; without one, a single unambiguous six-digit number is used.
+ * @param raw - Raw RFC 822 message; strings are taken as UTF-8
+ * @returns Verification details, or null if the message has no identifiable code
+ */
+export function parseTikTokVerificationEmail(raw: string | Buffer): TikTokVerificationEmail | null {
+    // Parsed as latin1, one character per byte, so each body can be decoded with its own charset
+    const message = parsePart((typeof raw === 'string' ? Buffer.from(raw, 'utf-8') : raw).toString('latin1'));
+    const subject = message.headers.subject ? decodeEncodedWords(message.headers.subject) : undefined;
+    const text = collectText(message);
+    // Subject keywords would pair with whatever number opens the body, so the subject is only a fallback
+    const found = findCode(text) ?? (subject ? findCode(subject) : null);
+    if (!found) return null;
+
+    return {
+        code: found.code,
+        to: extractAddress(message.headers.to) ?? extractAddress(message.headers['delivered-to']),
+        sentAt: parseDate(message.headers.date) ?? parseReceivedDate(message.headers.received),
+        language: found.language,
+        subject
+    };
+}
+
+/**
+ * Checks whether a parsed email can be used for a login attempt: it must be addressed to the account
+ * and sent after the login was submitted. Emails without a send time cannot prove they are fresh.
+ * @param email - Parsed verification email
+ * @param options - Login attempt to check against
+ * @returns Whether the code may be used, and why not
+ */
+export function checkVerificationEmail(email: TikTokVerificationEmail, options: VerificationEmailCheckOptions): VerificationEmailCheck {
+    if (options.email && email.to && email.to.toLowerCase() !== options.email.toLowerCase()) {
+        return { accepted: false, reason: 'recipient' };
+    }
+    if (!email.sentAt) {
+        return { accepted: false, reason: 'undated' };
+    }
+    if (email.sentAt.getTime() < options.requestedAt.getTime() - (options.clockSkewMs ?? 60 * 1000)) {
+        return { accepted: false, reason: 'stale' };
+    }
+    return { accepted: true };
+}
+
+/**
+ * @private
+ */
+function findCode(text: string): { code: string; language?: string } | null {
+    const normalized = text.normalize('NFC');
+    const lower = normalized.toLowerCase();
+    const candidates = [...normalized.matchAll(CODE_PATTERN)].map(match => ({ code: match[0], index: match.index ?? 0 }));
+    if (candidates.length === 0) return null;
+
+    let best: { code: string; language: string; distance: number } | null = null;
+    for (const [language, keywords] of Object.entries(CODE_KEYWORDS)) {
+        for (const keyword of keywords) {
+            let keywordIndex = lower.indexOf(keyword);
+            while (keywordIndex !== -1) {
+                const keywordEnd = keywordIndex + keyword.length;
+                const next = candidates.find(candidate => candidate.index >= keywordEnd);
+                const distance = next ? next.index - keywordEnd : Infinity;
+                if (next && distance <= MAX_KEYWORD_DISTANCE && (!best || distance < best.distance)) {
+                    best = { code: next.code, language, distance };
+                }
+                keywordIndex = lower.indexOf(keyword, keywordEnd);
+            }
+        }
+    }
+    if (best) {
+        return { code: best.code, language: best.language };
+    }
+
+    const distinct = new Set(candidates.map(candidate => candidate.code));
+    return distinct.size === 1 ? { code: candidates[0].code } : null;
+}
+
+/**
+ * @private
+ */
+function parsePart(raw: string): MimePart {
+    const normalized = raw.replace(/\r\n/g, '\n');
+    const separator = normalized.search(/\n\n/);
+    const headerText = separator === -1 ? normalized : normalized.slice(0, separator);
+    const body = separator === -1 ? '' : normalized.slice(separator + 2);
+
+    const headers: Record<string, string> = {};
+    for (const line of headerText.replace(/\n[ \t]+/g, ' ').split('\n')) {
+        const colon = line.indexOf(':');
+        if (colon <= 0) continue;
+
+        const name = line.slice(0, colon).trim().toLowerCase();
+        // Keep the first occurrence; for Received that is the most recent hop. Raw non-ASCII headers are UTF-8 (RFC 6532)
+        headers[name] ??= Buffer.from(line.slice(colon + 1).trim(), 'latin1').toString('utf-8');
+    }
+    return { headers, body };
+}
+
+/**
+ * @private
+ */
+function collectText(part: MimePart): string {
+    const contentType = part.headers['content-type'] ?? 'text/plain';
+    const boundary = getParameter(contentType, 'boundary');
+
+    if (/^multipart\//i.test(contentType) && boundary) {
+        const children = splitMultipart(part.body, boundary).map(parsePart);
+        // In alternatives prefer the plain text, it has no markup to confuse the code search
+        const alternatives = /^multipart\/alternative/i.test(contentType)
+            ? [...children].sort((a, b) => Number(isHtml(a)) - Number(isHtml(b)))
+            : children;
+        return alternatives.map(collectText).join('\n');
+    }
+
+    if (!/^text\/(plain|html)/i.test(contentType)) return '';
+
+    const decoded = decodeBody(part.body, part.headers['content-transfer-encoding'], getParameter(contentType, 'charset'));
+    return isHtml(part) ? htmlToText(decoded) : decoded;
+}
+
+/**
+ * @private
+ */
+function splitMultipart(body: string, boundary: string): string[] {
+    const parts: string[] = [];
+    let current: string[] | null = null;
+
+    for (const line of body.split('\n')) {
+        const trimmed = line.trimEnd();
+        if (trimmed === `--${boundary}--`) break;
+        if (trimmed === `--${boundary}`) {
+            if (current) parts.push(current.join('\n'));
+            current = [];
+            continue;
+        }
+        current?.push(line);
+    }
+    if (current) parts.push(current.join('\n'));
+
+    return parts;
+}
+
+/**
+ * @private
+ */
+function isHtml(part: MimePart): boolean {
+    return /^text\/html/i.test(part.headers['content-type'] ?? '');
+}
+
+/**
+ * @private
+ */
+function getParameter(header: string, name: string): string | undefined {
+    return header.match(new RegExp(`(?:^|;)\\s*${name}\\s*=\\s*(?:"([^"]*)"|([^;\\s]+))`, 'i'))?.slice(1).find(Boolean);
+}
+
+/**
+ * @private
+ */
+function decodeBody(body: string, encoding: string = '', charset: string = 'utf-8'): string {
+    let bytes: Buffer;
+    switch (encoding.trim().toLowerCase()) {
+        case 'base64':
+            bytes = Buffer.from(body.replace(/\s+/g, ''), 'base64');
+            break;
+        case 'quoted-printable':
+            bytes = decodeQuotedPrintable(body);
+            break;
+        default:
+            // 7bit/8bit bodies are the raw bytes
+            bytes = Buffer.from(body, 'latin1');
+    }
+    return decodeCharset(bytes, charset);
+}
+
+/**
+ * @private
+ */
+function decodeQuotedPrintable(text: string, underscoreIsSpace: boolean = false): Buffer {
+    const source = (underscoreIsSpace ? text.replace(/_/g, ' ') : text).replace(/=[ \t]*\n/g, '');
+    const bytes: number[] = [];
+
+    for (let i = 0; i < source.length; i++) {
+        const hex = source.slice(i + 1, i + 3);
+        if (source[i] === '=' && /^[0-9A-F]{2}$/i.test(hex)) {
+            bytes.push(parseInt(hex, 16));
+            i += 2;
+        } else {
+            bytes.push(...Buffer.from(source[i], 'latin1'));
+        }
+    }
+    return Buffer.from(bytes);
+}
+
+/**
+ * @private
+ */
+function decodeCharset(bytes: Buffer, charset: string): string {
+    try {
+        return new TextDecoder(charset.trim().toLowerCase()).decode(bytes);
+    } catch {
+        return bytes.toString('utf-8');
+    }
+}
+
+/**
+ * Decodes RFC 2047 encoded words such as `=?UTF-8?B?...?=`
+ * @private
+ */
+function decodeEncodedWords(value: string): string {
+    return value
+        .replace(/(=\?[^?]+\?[BQ]\?[^?]*\?=)\s+(?==\?)/gi, '$1')
+        .replace(/=\?([^?]+)\?([BQ])\?([^?]*)\?=/gi, (_, charset: string, encoding: string, text: string) => {
+            const bytes = encoding.toUpperCase() === 'B' ? Buffer.from(text, 'base64') : decodeQuotedPrintable(text, true);
+            return decodeCharset(bytes, charset);
+        });
+}
+
+/**
+ * Drops markup, including styles whose colors would otherwise look like codes
+ * @private
+ */
+function htmlToText(html: string): string {
+    const entities: Record<string, string> = { nbsp: ' ', amp: '&', lt: '<', gt: '>', quot: '"', apos: "'" };
+
+    return html
+        .replace(/<(style|script|head)[\s\S]*?<\/\1>/gi, ' ')
+        .replace(/<br\s*\/?>|<\/(p|div|tr|td|h\d)>/gi, '\n')
+        .replace(/<[^>]+>/g, ' ')
+        .replace(/&#(\d+);/g, (_, code: string) => String.fromCodePoint(parseInt(code, 10)))
+        .replace(/&#x([0-9a-f]+);/gi, (_, code: string) => String.fromCodePoint(parseInt(code, 16)))
+        .replace(/&([a-z]+);/gi, (entity, name: string) => entities[name.toLowerCase()] ?? entity)
+        .replace(/[ \t]+/g, ' ');
+}
+
+/**
+ * @private
+ */
+function extractAddress(header: string | undefined): string | undefined {
+    if (!header) return undefined;
+    const decoded = decodeEncodedWords(header);
+    return (decoded.match(/<([^<>\s]+@[^<>\s]+)>/)?.[1] ?? decoded.match(/[^\s<>",;:]+@[^\s<>",;:]+/)?.[0])?.toLowerCase();
+}
+
+/**
+ * @private
+ */
+function parseDate(value: string | undefined): Date | undefined {
+    if (!value) return undefined;
+    // Drop trailing comments like "(UTC)" that Date cannot parse
+    const date = new Date(value.replace(/\s*\([^)]*\)\s*$/, ''));
+    return isNaN(date.getTime()) ? undefined : date;
+}
+
+/**
+ * The date after the last semicolon of a Received header is when that server got the message
+ * @private
+ */
+function parseReceivedDate(value: string | undefined): Date | undefined {
+    const separator = value?.lastIndexOf(';') ?? -1;
+    return separator === -1 ? undefined : parseDate(value!.slice(separator + 1).trim());
+}
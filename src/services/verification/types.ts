@@ -0,0 +1,68 @@
+/**
+ * A verification code request made by the login step
+ */
+export interface VerificationCodeRequest {
+    /**
+     * When TikTok was asked to send the code; older codes are ignored
+     */
+    requestedAt: Date;
+    /**
+     * Recipient as shown on the verification form, usually masked
+     */
+    displayedEmail?: string;
+}
+
+/**
+ * A verification code obtained from a provider
+ */
+export interface VerificationCode {
+    code: string;
+    /**
+     * Provider the code came from
+     */
+    source: string;
+    /**
+     * When the code was sent, if the provider knows
+     */
+    sentAt?: Date;
+    /**
+     * Provider-specific reference used to mark the code as used, e.g. an IMAP UID
+     */
+    reference?: string;
+}
+
+export interface VerificationCodeWaitOptions {
+    /**
+     * How long to wait for a code, in milliseconds
+     */
+    timeoutMs: number;
+    /**
+     * How often to check for a new code, in milliseconds
+     */
+    pollIntervalMs: number;
+}
+
+/**
+ * Source of TikTok email verification codes for one account
+ */
+export interface VerificationCodeProvider {
+    /**
+     * Name used to select the provider in the configuration
+     */
+    readonly name: string;
+
+    /**
+     * Waits for a verification code sent after the request time
+     * @param request Verification code request
+     * @param options Wait options
+     * @returns Code, or null if none arrived in time
+     */
+    getCode(request: VerificationCodeRequest, options: VerificationCodeWaitOptions): Promise<VerificationCode | null>;
+
+    /**
+     * Reports whether the code was accepted, so it is not returned again
+     * @param code Code returned by `getCode`
+     * @param accepted Whether TikTok accepted the code
+     */
+    markUsed?(code: VerificationCode, accepted: boolean): Promise<void>;
+}
@@ -1,11 +1,13 @@
 import { Page } from 'playwright';
 import { Log } from 'crawlee';
 import { CaptchaDetectionService } from '../services/captchaDetectionService.js';
+import type { CaptchaVariant } from '../services/captcha/variants.js';
 
 interface CaptchaCheckResult {
     detected: boolean;
     screenshotPath: string | null;
     selector: string;
+    variant: CaptchaVariant | null;
 }
 
 /**
@@ -22,7 +24,8 @@ export async function checkForCaptcha(page: Page, log: Log): Promise<CaptchaChec
         return {
             detected: result.detected,
             screenshotPath: result.screenshotPath,
-            selector: result.selector
+            selector: result.selector,
+            variant: result.variant
         };
     } catch (error) {
         log.error('Error in CAPTCHA detection:', { error: (error as Error).message });
@@ -0,0 +1,70 @@
+import { Log } from 'crawlee';
+import { createConfiguredDatabase } from '@src/services/database/configuredDatabase.js';
+import { TopAdsApiClient, TopAdsApiClientOptions, TopAdsQuery, TopAdsRateLimitError, TopAdsSessionExpiredError } from '../services/topAdsApiClient.js';
+import { saveMaterials } from '../helpers/setupRequestInterception.js';
+import { CrawlJob, CrawlJobPlanner } from '../services/crawlJobPlanner.js';
+import { PaginationCheckpointStore } from '../services/paginationCheckpointStore.js';
+import { config } from '../config.js';
+import type { TikTokAdMaterial } from '../types/api.js';
+
+/**
+ * Collects top ads by calling the list API directly with captured headers and cookies.
+ * Continues after the last page checkpointed for the job and marks the job completed at the end.
+ * @param log - Crawlee logger
+ * @param query - Query params to request; unspecified params are taken from the captured request
+ * @param session - Saved session state, or the path to a plaintext state file
+ * @param job - Crawl job the collected ads are attributed to
+ * @param onAdsInserted - Called with the ads each page added to the database
+ * @returns Promise<boolean> - true if collection finished, false if the browser login flow is needed
+ */
+export async function collectViaApi(
+    log: Log,
+    query: TopAdsQuery = {},
+    session: Pick<TopAdsApiClientOptions, 'sessionPath' | 'sessionState'> = {},
+    job?: CrawlJob,
+    onAdsInserted?: (materials: TikTokAdMaterial[]) => Promise<void>
+): Promise<boolean> {
+    const db = createConfiguredDatabase();
+
+    try {
+        const client = new TopAdsApiClient(log, session);
+        const jobKey = CrawlJobPlanner.getJobKey(job ?? {});
+        const checkpoints = await PaginationCheckpointStore.open(log, config.crawler.checkpointMaxAge);
+        if (await checkpoints.isCompleted(jobKey)) {
+            log.info('Crawl job already completed, skipping direct API collection', { jobKey });
+            return true;
+        }
+        const startPage = await checkpoints.getLastCompletedPage(jobKey) + 1;
+
+        await db.connect();
+
+        let inserted = 0;
+        await client.fetchAllPages({ page: startPage, ...query }, async (response) => {
+            const url = new URL(client.buildUrl({ ...query, page: response.data.pagination.page }));
+            const params = Object.fromEntries(url.searchParams.entries());
+            const insertedAds = await saveMaterials(db, response, params, log, job);
+            inserted += insertedAds.length;
+            if (onAdsInserted && insertedAds.length > 0) {
+                await onAdsInserted(insertedAds);
+            }
+            await checkpoints.markPageProcessed(jobKey, response.data.pagination);
+        });
+        await checkpoints.markCompleted(jobKey);
+
+        log.info('Direct API collection completed', { inserted, startPage });
+        return true;
+    } catch (error) {
+        if (error instanceof TopAdsSessionExpiredError) {
+            log.warning('Captured session is not usable, handing over to browser login', { error: error.message });
+            return false;
+        }
+        if (error instanceof TopAdsRateLimitError) {
+            log.warning('Top Ads API is still rate-limiting, continuing in the browser', { error: error.message });
+            return false;
+        }
+        log.error('Error during direct API collection:', { error: (error as Error).message });
+        return false;
+    } finally {
+        await db.disconnect().catch(() => {});
+    }
+}
@@ -1,14 +1,24 @@
 import { Page } from 'playwright';
 import { Log } from 'crawlee';
-import { EmailApiService } from '../utils/emailApiService.js';
+import { config } from '../config.js';
+import { createVerificationCodeProvider } from '../services/verification/factory.js';
+import type { VerificationCodeProvider } from '../services/verification/types.js';
 
 /**
- * Check for email verification code form and wait for user to enter the code
+ * Check for email verification code form and enter the code from the account's provider
  * @param page - Playwright page object
  * @param log - Crawlee logger
+ * @param createProvider - Creates the verification code source once a code is asked for; defaults to the provider
+ *   configured for the main account
+ * @param requestedAt - When the login was submitted; codes sent earlier belong to previous attempts
  * @returns Promise<boolean> - true if verification was successful, false otherwise
  */
-export async function handleEmailCodeVerification(page: Page, log: Log): Promise<boolean> {
+export async function handleEmailCodeVerification(
+    page: Page,
+    log: Log,
+    createProvider: () => VerificationCodeProvider = () => createVerificationCodeProvider(log, config.credentials.email),
+    requestedAt: Date = new Date()
+): Promise<boolean> {
     try {
         log.info('Checking for email verification...');
         
@@ -54,9 +64,6 @@ export async function handleEmailCodeVerification(page: Page, log: Log): Promise
             
             log.warning(`Email verification required${emailAddress ? ' for ' + emailAddress : ''}!`);
             
-            // Initialize the email API service
-            const emailApiService = new EmailApiService(log);
-            
             // Define the callback function to enter the verification code
             const enterVerificationCode = async (code: string): Promise<boolean> => {
                 try {
@@ -273,12 +280,34 @@ export async function handleEmailCodeVerification(page: Page, log: Log): Promise
                 }
             };
             
-            // Use the complete verification workflow
-            const verificationResult = await emailApiService.completeVerificationCodeWorkflow(
-                enterVerificationCode,
-                5,  // Max attempts
-                5000 // Polling interval in ms
-            );
+            // A misconfigured provider only matters once a code is asked for; fall back to manual verification then
+            let provider: VerificationCodeProvider | null = null;
+            try {
+                provider = createProvider();
+            } catch (error) {
+                log.error('Failed to create verification code provider:', { error: (error as Error).message });
+            }
+
+            // Get the code from the provider and enter it
+            let verificationResult = { success: false, message: 'No verification code provider available' };
+            if (provider) {
+                log.info(`Waiting for verification code from ${provider.name} provider`);
+                const verificationCode = await provider.getCode(
+                    { requestedAt, displayedEmail: emailAddress || undefined },
+                    { timeoutMs: config.verification.timeout, pollIntervalMs: 5000 }
+                );
+
+                verificationResult = { success: false, message: `No verification code received from ${provider.name} provider` };
+                if (verificationCode) {
+                    log.info(`Using verification code: ${verificationCode.code}`);
+                    const accepted = await enterVerificationCode(verificationCode.code);
+                    await provider.markUsed?.(verificationCode, accepted)
+                        .catch(error => log.warning('Failed to mark verification code as used:', { error: (error as Error).message }));
+                    verificationResult = accepted
+                        ? { success: true, message: 'Verification completed successfully' }
+                        : { success: false, message: 'Verification code was retrieved but could not be used successfully' };
+                }
+            }
             
             log.info('Verification workflow completed:', { result: verificationResult });
             
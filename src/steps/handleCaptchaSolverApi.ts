@@ -1,8 +1,8 @@
 import { Page } from 'playwright';
 import { Log } from 'crawlee';
 import { checkForCaptcha } from './captcha-detection-step.js';
-import { SadCaptchaService } from '@src/services/sadCaptchaService.js';
-import { Env } from '@lib/Env.js';
+import { CaptchaSolverRegistry } from '@src/services/captcha/registry.js';
+import { createCaptchaSolverRegistry } from '@src/services/captcha/factory.js';
 
 declare global {
     interface Window {
@@ -16,7 +16,7 @@ declare global {
  * @param page - Playwright page object
  * @returns Promise<boolean> - Whether email verification form is present
  */
-async function checkEmailVerification(page: Page): Promise<boolean> {
+export async function checkEmailVerification(page: Page): Promise<boolean> {
     const emailSelectors = [
         'div.tiktokads-common-login-code-form-item',
         '#TikTok_Ads_SSO_Login_Code_FormItem',
@@ -88,15 +88,57 @@ async function attemptCaptchaConfirmation(page: Page, selector: string, log: Log
 }
 
 /**
- * Handle CAPTCHA and wait for user to solve it manually if detected
+ * Checks whether the page has moved past the CAPTCHA, clicking the confirm button if needed.
+ * Gives the page a few seconds to react to a freshly applied solution.
+ * @param page - Playwright page object
+ * @param selector - CAPTCHA selector to check for removal
+ * @param log - Logger instance
+ * @returns Promise<boolean> - Whether the CAPTCHA was accepted
+ */
+async function verifyCaptchaSolved(page: Page, selector: string, log: Log): Promise<boolean> {
+    for (let check = 0; check < 3; check++) {
+        try {
+            // First check for email verification form
+            if (await checkEmailVerification(page)) {
+                log.info('Email verification form detected after CAPTCHA');
+                return true;
+            }
+
+            const captchaStillPresent = await page.$(selector).catch(() => null);
+            if (!captchaStillPresent) {
+                log.info('CAPTCHA is no longer present');
+                return true;
+            }
+
+            // Then check for successful CAPTCHA verification
+            if (await attemptCaptchaConfirmation(page, selector, log)) {
+                return true;
+            }
+        } catch (error) {
+            log.warning('Error checking verification state:', { error: (error as Error).message });
+        }
+
+        await page.waitForTimeout(2000);
+    }
+
+    return false;
+}
+
+/**
+ * Handle CAPTCHA by running the configured solver providers in order
  * @param page - Playwright page object
  * @param log - Logger instance
+ * @param registry - Solver registry; defaults to the built-in solvers in the configured order
  * @returns Promise<boolean> - Whether CAPTCHA was handled successfully
  */
-export async function handleCaptchaSolverApi(page: Page, log: Log): Promise<boolean> {
+export async function handleCaptchaSolverApi(
+    page: Page,
+    log: Log,
+    registry: CaptchaSolverRegistry = createCaptchaSolverRegistry(log)
+): Promise<boolean> {
     try {
         // Check for CAPTCHA presence
-        const { detected, screenshotPath, selector } = await checkForCaptcha(page, log);
+        const { detected, screenshotPath, selector, variant } = await checkForCaptcha(page, log);
         
         // If no CAPTCHA is detected, return early
         if (!detected || !screenshotPath || !selector) {
@@ -104,100 +146,23 @@ export async function handleCaptchaSolverApi(page: Page, log: Log): Promise<bool
             return false;
         }
 
-        log.warning('CAPTCHA detected!');
-        
-        const captchaMode = Env.CHAPTCHA_RESOLVE_MODE;
-        const maxWaitTime = 3600000; // 1 hour in milliseconds
-        const startTime = Date.now();
-        let attempts = 0;
-        const maxAttempts = 360; // Check every 10 seconds for 1 hour
-        
-        if (captchaMode === 'manual') {
-            log.info('Manual CAPTCHA resolution mode. Waiting for user to solve...');
-            
-            // Wait for CAPTCHA to be solved and confirmed
-            while (attempts < maxAttempts) {
-                attempts++;
-                
-                try {
-                    // Take verification screenshot every 5 minutes for debugging
-                    if (attempts % 30 === 0) {
-                        const screenshotPath = `storage/screenshots/verification-state-${attempts}.png`;
-                        await page.screenshot({ path: screenshotPath })
-                            .catch(e => log.warning('Failed to take verification screenshot:', { error: e.message }));
-                    }
-
-                    // First check for email verification form
-                    if (await checkEmailVerification(page)) {
-                        log.info('Email verification form detected during CAPTCHA wait');
-                        return true;
-                    }
-
-                    // Then check for successful CAPTCHA verification
-                    if (await attemptCaptchaConfirmation(page, selector, log)) {
-                        return true;
-                    }
-                    
-                    // Log progress every minute
-                    if (attempts % 6 === 0) {
-                        const minutesElapsed = Math.floor((Date.now() - startTime) / 60000);
-                        const minutesRemaining = Math.floor((maxWaitTime - (Date.now() - startTime)) / 60000);
-                        log.info(`Waiting for manual verification... ${minutesElapsed}m elapsed, ${minutesRemaining}m remaining`);
-                    }
-                    
-                    await page.waitForTimeout(10000); // Check every 10 seconds
-                } catch (error) {
-                    log.warning('Error checking verification state:', { error: (error as Error).message });
-                    // Take error screenshot
-                    const errorScreenshotPath = `storage/screenshots/verification-error-${attempts}.png`;
-                    await page.screenshot({ path: errorScreenshotPath })
-                        .catch(e => log.warning('Failed to take error screenshot:', { error: e.message }));
-                }
-            }
+        log.warning('CAPTCHA detected!', { variant });
 
-            throw new Error(`Manual verification timed out after ${Math.floor(maxWaitTime / 60000)} minutes`);
-        }
+        const outcome = await registry.solve(
+            page,
+            { selector, screenshotPath, variant: variant ?? undefined },
+            () => verifyCaptchaSolved(page, selector, log)
+        );
 
-        // API mode
-        log.info('API CAPTCHA resolution mode. Attempting to solve...');
-        const solver = new SadCaptchaService(log);
-        const solved = await solver.solveCaptcha(page, selector, screenshotPath);
-        
-        if (solved) {
-            log.info('CAPTCHA solved by API successfully!');
+        if (!outcome.solved) {
+            const errors = outcome.attempts.map(result => `${result.provider}: ${result.error ?? 'unknown error'}`);
+            throw new Error(`All CAPTCHA solvers failed (${errors.join('; ')})`);
         }
 
-        // Wait for confirmation in API mode
-        while (attempts < maxAttempts) {
-            attempts++;
-            try {
-                // First check for email verification form
-                if (await checkEmailVerification(page)) {
-                    log.info('Email verification form detected during API verification');
-                    return true;
-                }
-
-                // Then check for successful CAPTCHA verification
-                if (await attemptCaptchaConfirmation(page, selector, log)) {
-                    return true;
-                }
-                
-                // Log progress every minute
-                if (attempts % 6 === 0) {
-                    const minutesElapsed = Math.floor((Date.now() - startTime) / 60000);
-                    const minutesRemaining = Math.floor((maxWaitTime - (Date.now() - startTime)) / 60000);
-                    log.info(`Waiting for API verification... ${minutesElapsed}m elapsed, ${minutesRemaining}m remaining`);
-                }
-                
-                await page.waitForTimeout(10000); // Check every 10 seconds
-            } catch (error) {
-                log.warning('Error in API verification:', { error: (error as Error).message });
-            }
-        }
-
-        throw new Error(`API verification timed out after ${Math.floor(maxWaitTime / 60000)} minutes`);
+        log.info('CAPTCHA solved', { provider: outcome.provider, attempts: outcome.attempts.length });
+        return true;
     } catch (error) {
         log.error('CRITICAL ERROR in CAPTCHA handling:', { error: (error as Error).message });
         throw new Error(`CAPTCHA handling failed: ${(error as Error).message}. Process aborted.`);
     }
-}
\ No newline at end of file
+}
@@ -1,8 +1,6 @@
 export * from './handleCaptchaManual.js';
 export * from './email-verification-handler.js';
 export * from './scrollAndCollectData.js';
-export * from './find-filters-elements.js';
-export * from './set-filters.js';
 export * from './handleCaptchaSolverApi.js';
 export * from './captcha-detection-step.js';
 export * from './clickLoginButton.js';
@@ -10,5 +8,6 @@ export * from './fillLoginForm.js';
 export * from './handleCookieConsent.js';
 export * from './selectPhoneEmailLogin.js';
 export * from './submitLoginForm.js';
+export * from './collectViaApi.js';
 
 
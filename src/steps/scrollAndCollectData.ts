@@ -39,12 +39,23 @@ export const scrollAndCollectData = async (
                 randomBetween(500, 700)  // initialDelay
             );            
 
+            // Страницы, обработанные в прошлом запуске, пролистываем с короткой задержкой
+            const baseDelay = paginationService.isResuming()
+                ? delayBetweenScrolls * 0.3
+                : delayBetweenScrolls;
+
             // Случайная задержка между прокрутками для имитации человеческого поведения
             const randomDelay = randomBetween(
-                delayBetweenScrolls * 0.8,
-                delayBetweenScrolls * 1.2
+                baseDelay * 0.8,
+                baseDelay * 1.2
             );
             await delay(randomDelay);
+
+            // Последняя страница получена — дальше прокручивать нечего
+            if (paginationService.isComplete()) {
+                log.info('Все страницы получены, прокрутка завершена');
+                break;
+            }
             
         } catch (scrollError) {
             log.error(`Ошибка при прокрутке ${i + 1}:`, { 
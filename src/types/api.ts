@@ -40,3 +40,206 @@ export interface TikTokApiResponse {
         pagination: TikTokApiPagination;
     };
 }
+
+
+/**
+ * Envelope shared by the Creative Center APIs
+ */
+export interface TikTokApiEnvelope<T> {
+    code: number;
+    msg: string;
+    request_id: string;
+    data: T;
+}
+
+/**
+ * Ad as returned by the detail endpoint: the list fields plus the insights of the detail page
+ */
+export interface TikTokAdDetail extends TikTokAdMaterial {
+    comment?: number;
+    share?: number;
+    cta_text?: string;
+    landing_page?: string;
+    keyword_list?: string[];
+    highlight_text?: string;
+}
+
+/**
+ * Interest of the audience reached by an ad
+ */
+export interface TikTokAdInterest {
+    interest: string;
+    percentage: number;
+}
+
+/**
+ * Metrics of one second of the ad video
+ */
+export interface TikTokAdSecondMetric {
+    second: number;
+    retention_rate: number;
+    ctr?: number;
+    cvr?: number;
+}
+
+export type TikTokAdDetailResponse = TikTokApiEnvelope<TikTokAdDetail>;
+
+export type TikTokAdInterestResponse = TikTokApiEnvelope<{
+    interest_list: TikTokAdInterest[];
+}>;
+
+export type TikTokAdRetentionResponse = TikTokApiEnvelope<{
+    second_metrics: TikTokAdSecondMetric[];
+}>;
+
+/**
+ * Pagination of the Trend Discovery and Top Products lists
+ */
+export interface TikTokTrendPagination {
+    page: number;
+    size: number;
+    total: number;
+    has_more: boolean;
+}
+
+/**
+ * Option label as sent by the Creative Center (countries, industries, categories)
+ */
+export interface TikTokLabeledValue {
+    id: string;
+    value: string;
+    label?: string;
+}
+
+/**
+ * Point of a trend curve
+ */
+export interface TikTokTrendPoint {
+    time: number;
+    value: number;
+}
+
+export interface TikTokTrendHashtag {
+    hashtag_id: string;
+    hashtag_name: string;
+    country_info?: TikTokLabeledValue;
+    industry_info?: TikTokLabeledValue;
+    is_promoted?: boolean;
+    publish_cnt?: number;
+    video_views?: number;
+    rank?: number;
+    rank_diff?: number;
+    trend?: TikTokTrendPoint[];
+}
+
+export interface TikTokTrendSong {
+    clip_id: string;
+    song_id?: string;
+    title: string;
+    author?: string;
+    cover?: string;
+    duration?: number;
+    link?: string;
+    country_code?: string;
+    rank?: number;
+    rank_diff?: number;
+    trend?: TikTokTrendPoint[];
+}
+
+export interface TikTokTrendCreator {
+    tcm_id?: string;
+    user_id: string;
+    nick_name: string;
+    avatar_url?: string;
+    country_code?: string;
+    follower_cnt?: number;
+    liked_cnt?: number;
+    tt_link?: string;
+}
+
+export interface TikTokTrendVideo {
+    id: string;
+    item_id?: string;
+    item_url: string;
+    title?: string;
+    cover?: string;
+    duration?: number;
+    country_code?: string;
+}
+
+export interface TikTokTopProduct {
+    id?: string;
+    url_title: string;
+    ecom_category_id?: string;
+    first_ecom_category?: TikTokLabeledValue;
+    ctr?: number;
+    cvr?: number;
+    cpa?: number;
+    cost?: number;
+    impression?: number;
+    like?: number;
+    post?: number;
+}
+
+export type TikTokHashtagListResponse = TikTokApiEnvelope<{
+    list: TikTokTrendHashtag[];
+    pagination: TikTokTrendPagination;
+}>;
+
+export type TikTokSongListResponse = TikTokApiEnvelope<{
+    sound_list: TikTokTrendSong[];
+    pagination: TikTokTrendPagination;
+}>;
+
+export type TikTokCreatorListResponse = TikTokApiEnvelope<{
+    creators: TikTokTrendCreator[];
+    pagination: TikTokTrendPagination;
+}>;
+
+export type TikTokVideoListResponse = TikTokApiEnvelope<{
+    videos: TikTokTrendVideo[];
+    pagination: TikTokTrendPagination;
+}>;
+
+export type TikTokTopProductListResponse = TikTokApiEnvelope<{
+    list: TikTokTopProduct[];
+    pagination: TikTokTrendPagination;
+}>;
+
+export interface TikTokKeywordInsight {
+    keyword: string;
+    industry_info?: TikTokLabeledValue;
+    ctr?: number;
+    cvr?: number;
+    cpa?: number;
+    cost?: number;
+    impression?: number;
+    like?: number;
+    share?: number;
+    comment?: number;
+    post?: number;
+    related_keywords?: string[];
+}
+
+/**
+ * Metrics of one objective or industry on the Top Ads Dashboard
+ */
+export interface TikTokDashboardBreakdown {
+    key: string;
+    label?: string;
+    ads_cnt?: number;
+    ctr?: number;
+    cvr?: number;
+    cpa?: number;
+    impression?: number;
+}
+
+export type TikTokKeywordListResponse = TikTokApiEnvelope<{
+    keyword_list: TikTokKeywordInsight[];
+    pagination: TikTokTrendPagination;
+}>;
+
+export type TikTokTopAdsDashboardResponse = TikTokApiEnvelope<{
+    objective_list: TikTokDashboardBreakdown[];
+    industry_list: TikTokDashboardBreakdown[];
+}>;
@@ -22,6 +22,7 @@ export interface CaptchaSolvingResult {
   solution?: string;
   error?: string;
   attempts: number;
+  provider?: string;
 }
 
 // Email verification types
@@ -48,26 +49,6 @@ export interface SessionState {
   localStorage: Record<string, string>;
 }
 
-// Filter system types
-export type FilterType = 'multi-select' | 'single-select' | 'cascader';
-
-export interface FilterElement {
-  type: FilterType;
-  selector: string;
-  category: string;
-  options?: string[];
-}
-
-export interface FilterConfig {
-  region?: string[];
-  industry?: string[];
-  objective?: string[];
-  period?: string;
-  adLanguage?: string[];
-  adFormat?: string[];
-  likes?: number;
-}
-
 // Ad data types
 export interface AdData {
   id: string;